@@ -1,25 +1,65 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
 import TestCases from "@/pages/test-cases";
+import TestCaseDetails from "@/pages/test-case-details";
+import SharedSteps from "@/pages/shared-steps";
 import Reports from "@/pages/reports";
 import Settings from "@/pages/settings";
 import Users from "@/pages/users";
+import Trash from "@/pages/trash";
 import NotFound from "@/pages/not-found";
+import Login from "@/pages/login";
+import Register from "@/pages/register";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import TwoFactorEnrollment from "@/pages/two-factor-enrollment";
+import { useAuth } from "@/hooks/useAuth";
+
+const publicPaths = [
+  "/login",
+  "/register",
+  "/forgot-password",
+  "/reset-password",
+];
 
 function Router() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const [location] = useLocation();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (user?.two_factor_enrollment_required) {
+    return <TwoFactorEnrollment />;
+  }
+
+  // Everything except the auth pages requires a session
+  if (!isAuthenticated && !publicPaths.includes(location)) {
+    return <Redirect to="/login" />;
+  }
+
   return (
     <Switch>
+      {/* Authentication routes */}
+      <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
       {/* Main application routes */}
       <Route path="/" component={Dashboard} />
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/test-cases" component={TestCases} />
+      <Route path="/test-cases/:id/details" component={TestCaseDetails} />
+      <Route path="/shared-steps" component={SharedSteps} />
       <Route path="/reports" component={Reports} />
       <Route path="/settings" component={Settings} />
       <Route path="/users" component={Users} />
+      <Route path="/trash" component={Trash} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
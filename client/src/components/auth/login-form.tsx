@@ -1,10 +1,12 @@
 import React from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useToast } from '@/hooks/use-toast';
 import { useLocation } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
+import { getSsoError, useSsoProviders } from '@/hooks/useSsoProviders';
 
 import {
   Form,
@@ -17,6 +19,7 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 
 const loginSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
@@ -29,6 +32,26 @@ export function LoginForm() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   const [isLoading, setIsLoading] = React.useState(false);
+  // Second step for accounts with two-factor authentication
+  const [twoFactorRequired, setTwoFactorRequired] = React.useState(false);
+  const [code, setCode] = React.useState('');
+  const [recoveryCode, setRecoveryCode] = React.useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = React.useState(false);
+  const { providers, ssoOnly } = useSsoProviders();
+  const { data: registration } = useQuery<{ open: boolean }>({
+    queryKey: ['/api/auth/registration'],
+  });
+
+  React.useEffect(() => {
+    const ssoError = getSsoError();
+    if (ssoError) {
+      toast({
+        title: "Login failed",
+        description: ssoError,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -44,6 +67,12 @@ export function LoginForm() {
       const response = await apiRequest('POST', '/api/auth/login', data);
 
       if (response.ok) {
+        const result = await response.json();
+        if (result.two_factor_required) {
+          setTwoFactorRequired(true);
+          return;
+        }
+
         toast({
           title: "Login successful",
           description: "You have been successfully logged in",
@@ -68,6 +97,113 @@ export function LoginForm() {
     }
   };
 
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(useRecoveryCode ? { recovery_code: recoveryCode } : { code }),
+      });
+
+      if (response.ok) {
+        toast({
+          title: "Login successful",
+          description: "You have been successfully logged in",
+        });
+        setLocation('/');
+      } else {
+        const errorData = await response.json();
+        toast({
+          title: "Login failed",
+          description: errorData.message || "Invalid authentication code",
+          variant: "destructive",
+        });
+        // An expired login has to start over with the password
+        if (response.status === 401 && errorData.message?.includes('expired')) {
+          setTwoFactorRequired(false);
+        }
+      }
+    } catch (error) {
+      toast({
+        title: "Login failed",
+        description: "There was an error processing your request. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (twoFactorRequired) {
+    return (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? 'Enter one of your recovery codes'
+              : 'Enter the 6-digit code from your authenticator app'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={onSubmitTwoFactor} className="space-y-6">
+            {useRecoveryCode ? (
+              <Input
+                placeholder="xxxxx-xxxxx"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+              />
+            ) : (
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode}>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <button
+            type="button"
+            className="text-sm text-primary font-medium"
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
+  const ssoButtons = providers.map((provider) => (
+    <Button key={provider.id} asChild variant="outline" className="w-full">
+      <a href={provider.login_url}>Sign in with {provider.name}</a>
+    </Button>
+  ));
+
+  // The local form is hidden entirely while SSO-only mode is on
+  if (ssoOnly) {
+    return (
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle>Sign In</CardTitle>
+          <CardDescription>Sign in with your organization account</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">{ssoButtons}</CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader>
@@ -75,6 +211,12 @@ export function LoginForm() {
         <CardDescription>Enter your credentials to access your account</CardDescription>
       </CardHeader>
       <CardContent>
+        {providers.length > 0 && (
+          <div className="space-y-3 mb-6">
+            {ssoButtons}
+            <p className="text-center text-xs text-neutral-500">or sign in with your password</p>
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <FormField
@@ -96,7 +238,12 @@ export function LoginForm() {
               name="password"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Password</FormLabel>
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Password</FormLabel>
+                    <a href="/forgot-password" className="text-sm text-primary font-medium">
+                      Forgot password?
+                    </a>
+                  </div>
                   <FormControl>
                     <Input type="password" placeholder="••••••••" {...field} />
                   </FormControl>
@@ -111,14 +258,16 @@ export function LoginForm() {
           </form>
         </Form>
       </CardContent>
-      <CardFooter className="flex justify-center">
-        <p className="text-sm text-neutral-500">
-          Don't have an account?{' '}
-          <a href="/register" className="text-primary font-medium">
-            Sign up
-          </a>
-        </p>
-      </CardFooter>
+      {registration?.open && (
+        <CardFooter className="flex justify-center">
+          <p className="text-sm text-neutral-500">
+            Don't have an account?{' '}
+            <a href="/register" className="text-primary font-medium">
+              Sign up
+            </a>
+          </p>
+        </CardFooter>
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+interface Enrollment {
+  secret: string;
+  otpauth_url: string;
+  qr_code: string;
+}
+
+// POSTs JSON and surfaces the server's message on failure
+async function postJson(url: string, body?: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body ?? {}),
+    credentials: 'include',
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || 'Request failed');
+  }
+  return data;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-neutral-600 dark:text-neutral-400">
+        Store these recovery codes somewhere safe. Each one can be used once to sign in if you lose access to your
+        authenticator app. They will not be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 p-3 rounded-md bg-neutral-100 font-mono text-sm dark:bg-neutral-800 dark:text-neutral-300">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <Button variant="outline" onClick={onDone}>
+        I have saved my recovery codes
+      </Button>
+    </div>
+  );
+}
+
+export function TwoFactorSetup() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Two-Factor Error',
+      description: error instanceof Error ? error.message : 'Request failed',
+      variant: 'destructive',
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: () => postJson('/api/auth/2fa/setup'),
+    onSuccess: (data: Enrollment) => {
+      setEnrollment(data);
+      setCode('');
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => postJson('/api/auth/2fa/enable', { code }),
+    onSuccess: (data: { recovery_codes: string[] }) => {
+      setEnrollment(null);
+      setCode('');
+      setRecoveryCodes(data.recovery_codes);
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => postJson('/api/auth/2fa/recovery-codes', { code }),
+    onSuccess: (data: { recovery_codes: string[] }) => {
+      setCode('');
+      setRecoveryCodes(data.recovery_codes);
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => postJson('/api/auth/2fa/disable', { password }),
+    onSuccess: () => {
+      setPassword('');
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      toast({
+        title: 'Two-Factor Disabled',
+        description: 'Two-factor authentication has been turned off',
+      });
+    },
+    onError,
+  });
+
+  // The /api/auth/me refetch is deferred until the codes have been seen,
+  // otherwise a forced enrollment screen would disappear with them
+  if (recoveryCodes) {
+    return (
+      <RecoveryCodes
+        codes={recoveryCodes}
+        onDone={() => {
+          setRecoveryCodes(null);
+          queryClient.invalidateQueries();
+        }}
+      />
+    );
+  }
+
+  if (user?.totp_enabled) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-green-700 dark:text-green-400">Two-factor authentication is enabled.</p>
+
+        <div className="space-y-2">
+          <Label>New recovery codes</Label>
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">
+            Enter a code from your authenticator app to replace your recovery codes.
+          </p>
+          <div className="flex items-center gap-3">
+            <CodeInput value={code} onChange={setCode} />
+            <Button
+              variant="outline"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={code.length !== 6 || regenerateMutation.isPending}
+            >
+              Regenerate
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="disable2faPassword">Turn off two-factor authentication</Label>
+          <div className="flex items-center gap-3">
+            <Input
+              id="disable2faPassword"
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="max-w-xs dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+            />
+            <Button
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20"
+              onClick={() => disableMutation.mutate()}
+              disabled={!password || disableMutation.isPending}
+            >
+              Disable
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-neutral-600 dark:text-neutral-400">
+          Scan this QR code with your authenticator app, or enter the secret manually, then type the 6-digit code it
+          shows.
+        </p>
+        <div className="flex flex-col sm:flex-row items-start gap-4">
+          <img src={enrollment.qr_code} alt="Two-factor QR code" className="h-40 w-40 rounded-md border" />
+          <div className="space-y-3">
+            <div>
+              <Label>Secret</Label>
+              <p className="font-mono text-sm break-all text-neutral-700 dark:text-neutral-300">{enrollment.secret}</p>
+            </div>
+            <CodeInput value={code} onChange={setCode} />
+            <div className="flex gap-2">
+              <Button onClick={() => enableMutation.mutate()} disabled={code.length !== 6 || enableMutation.isPending}>
+                {enableMutation.isPending ? 'Verifying...' : 'Verify and Enable'}
+              </Button>
+              <Button variant="ghost" onClick={() => setEnrollment(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-neutral-600 dark:text-neutral-400">
+        Protect your account with a one-time code from an authenticator app in addition to your password.
+      </p>
+      <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+        Set Up Two-Factor Authentication
+      </Button>
+    </div>
+  );
+}
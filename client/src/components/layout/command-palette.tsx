@@ -0,0 +1,137 @@
+import { Fragment, useEffect, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { BugIcon, FileTextIcon, ListChecksIcon, PlayCircleIcon } from 'lucide-react';
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+
+type SearchResultType = 'test_case' | 'test_step' | 'bug' | 'test_run';
+
+interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  test_case_id?: number;
+  title: string;
+  snippet: string;
+  highlights: [number, number][];
+  rank: number;
+}
+
+const groups: { type: SearchResultType; heading: string; icon: typeof BugIcon }[] = [
+  { type: 'test_case', heading: 'Test Cases', icon: FileTextIcon },
+  { type: 'test_step', heading: 'Test Steps', icon: ListChecksIcon },
+  { type: 'bug', heading: 'Bugs', icon: BugIcon },
+  { type: 'test_run', heading: 'Test Runs', icon: PlayCircleIcon },
+];
+
+function resultPath(result: SearchResult): string {
+  switch (result.type) {
+    case 'test_case':
+      return `/test-cases/${result.id}/details`;
+    case 'test_step':
+      return `/test-cases/${result.test_case_id}/details`;
+    case 'bug':
+      return result.test_case_id ? `/test-cases/${result.test_case_id}/details` : '/reports';
+    case 'test_run':
+      return '/reports';
+  }
+}
+
+// Splits the snippet at the highlight offsets so matches render as <mark>
+// without handing server text to innerHTML
+function Snippet({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm dark:bg-yellow-700">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts.map((part, index) => <Fragment key={index}>{part}</Fragment>)}</>;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+
+  // Ctrl+K / Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ['/api/search', { q: debouncedQuery }],
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30_000,
+  });
+
+  const select = (result: SearchResult) => {
+    onOpenChange(false);
+    setQuery('');
+    setLocation(resultPath(result));
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search test cases, steps, bugs and runs..."
+        value={query}
+        onValueChange={setQuery}
+      />
+      <CommandList>
+        {debouncedQuery && (
+          <CommandEmpty>{isFetching ? 'Searching...' : 'No results found.'}</CommandEmpty>
+        )}
+        {groups.map(({ type, heading, icon: Icon }) => {
+          const matches = results.filter((result) => result.type === type);
+          if (matches.length === 0) return null;
+
+          return (
+            <CommandGroup key={type} heading={heading}>
+              {matches.map((result) => (
+                <CommandItem
+                  key={`${result.type}:${result.id}`}
+                  value={`${result.type}:${result.id}`}
+                  onSelect={() => select(result)}
+                  className="items-start"
+                >
+                  <Icon className="mr-2 mt-0.5 shrink-0 text-neutral-400" />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{result.title}</div>
+                    <div className="text-xs text-neutral-500 line-clamp-2 dark:text-neutral-400">
+                      <Snippet text={result.snippet} highlights={result.highlights} />
+                    </div>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          );
+        })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
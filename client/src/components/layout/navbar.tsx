@@ -1,9 +1,10 @@
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { useState } from "react";
 import { BellIcon, HelpCircleIcon, SearchIcon } from "lucide-react";
 import { useTheme } from "@/lib/themes";
 import { Moon, Sun } from "lucide-react";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CommandPalette } from "@/components/layout/command-palette";
 
 interface NavbarProps {
   title: string;
@@ -12,6 +13,7 @@ interface NavbarProps {
 
 export function Navbar({ title, onToggleSidebar }: NavbarProps) {
   const { theme, setTheme } = useTheme();
+  const [searchOpen, setSearchOpen] = useState(false);
 
   return (
     <header className="bg-white shadow-sm z-10 dark:bg-neutral-900 dark:border-b dark:border-neutral-800">
@@ -45,16 +47,16 @@ export function Navbar({ title, onToggleSidebar }: NavbarProps) {
         </div>
         
         <div className="flex items-center space-x-4">
-          <div className="relative hidden sm:block">
-            <Input 
-              type="text" 
-              placeholder="Search..." 
-              className="w-64 pl-10 pr-4 py-2 bg-white border-neutral-200 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300 dark:placeholder-neutral-500"
-            />
-            <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-              <SearchIcon className="text-neutral-400 dark:text-neutral-500 h-4 w-4" />
-            </div>
-          </div>
+          <button
+            type="button"
+            onClick={() => setSearchOpen(true)}
+            className="hidden sm:flex items-center w-64 px-3 py-2 text-sm text-left text-neutral-400 bg-white border border-neutral-200 rounded-md hover:border-neutral-300 focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-500"
+          >
+            <SearchIcon className="h-4 w-4 mr-2" />
+            <span className="flex-1">Search...</span>
+            <kbd className="text-xs font-mono text-neutral-400 border border-neutral-200 rounded px-1.5 dark:border-neutral-700">⌘K</kbd>
+          </button>
+          <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
           
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+interface ProjectItem {
+  id: number;
+  name: string;
+  role: string;
+  active: boolean;
+}
+
+interface ProjectSwitcherProps {
+  className?: string;
+}
+
+export function ProjectSwitcher({ className }: ProjectSwitcherProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: projects, isLoading } = useQuery<ProjectItem[]>({
+    queryKey: ['/api/projects'],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (projectId: string) => {
+      const response = await apiRequest('PUT', `/api/projects/${projectId}/activate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      // Every project-scoped list has to be refetched for the new project
+      queryClient.invalidateQueries();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to switch project: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-9 w-full" />;
+  }
+
+  if (!projects || projects.length === 0) {
+    return null;
+  }
+
+  const activeProject = projects.find((project) => project.active) ?? projects[0];
+
+  return (
+    <Select
+      value={String(activeProject.id)}
+      onValueChange={(value) => switchMutation.mutate(value)}
+      disabled={switchMutation.isPending}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Select project" />
+      </SelectTrigger>
+      <SelectContent>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={String(project.id)}>
+            {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
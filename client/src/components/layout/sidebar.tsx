@@ -7,6 +7,8 @@ import {
   UsersIcon, 
   CogIcon, 
   FolderIcon,
+  LayersIcon,
+  Trash2Icon,
   XIcon,
   MenuIcon
 } from 'lucide-react';
@@ -14,6 +16,7 @@ import { Button } from '@/components/ui/button';
 import { useQuery } from '@tanstack/react-query';
 import { useEffect, useState } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
+import { ProjectSwitcher } from '@/components/layout/project-switcher';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -80,6 +83,11 @@ export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
           </button>
         </div>
         
+        {/* Project */}
+        <div className="px-3 pt-4">
+          <ProjectSwitcher className="w-full dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300" />
+        </div>
+        
         {/* Navigation */}
         <nav className="flex-1 overflow-y-auto py-4 px-3">
           <ul className="space-y-1">
@@ -111,6 +119,20 @@ export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
                 </a>
               </Link>
             </li>
+            <li>
+              <Link href="/shared-steps">
+                <a
+                  onClick={closeSidebarOnMobile}
+                  className={cn(
+                    "flex items-center px-3 py-2 text-sm font-medium rounded-md hover:bg-primary-50 hover:text-primary-600 dark:hover:bg-primary-900 dark:hover:text-primary-400",
+                    currentPage === 'shared-steps' ? "bg-primary-50 text-primary-600 dark:bg-primary-900 dark:text-primary-400" : "text-neutral-500 dark:text-neutral-400"
+                  )}
+                >
+                  <LayersIcon className="w-5 h-5 mr-3" />
+                  <span>Shared Steps</span>
+                </a>
+              </Link>
+            </li>
             <li>
               <Link href="/reports">
                 <a
@@ -125,6 +147,20 @@ export function Sidebar({ isOpen, setIsOpen }: SidebarProps) {
                 </a>
               </Link>
             </li>
+            <li>
+              <Link href="/trash">
+                <a
+                  onClick={closeSidebarOnMobile}
+                  className={cn(
+                    "flex items-center px-3 py-2 text-sm font-medium rounded-md hover:bg-primary-50 hover:text-primary-600 dark:hover:bg-primary-900 dark:hover:text-primary-400",
+                    currentPage === 'trash' ? "bg-primary-50 text-primary-600 dark:bg-primary-900 dark:text-primary-400" : "text-neutral-500 dark:text-neutral-400"
+                  )}
+                >
+                  <Trash2Icon className="w-5 h-5 mr-3" />
+                  <span>Trash</span>
+                </a>
+              </Link>
+            </li>
             <li>
               <Link href="/users">
                 <a
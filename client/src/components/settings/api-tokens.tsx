@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { KeyRound } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Personal API token as returned by /api/auth/tokens
+interface ApiToken {
+  id: number;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: string | null;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+const expiryOptions = [
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiration' },
+];
+
+export function ApiTokens() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expiry, setExpiry] = useState('30');
+  const [scopes, setScopes] = useState<string[]>([]);
+  // The plain token is only available right after creation
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiToken[]>({
+    queryKey: ['/api/auth/tokens'],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/tokens', {
+        name,
+        scopes,
+        expires_in_days: expiry === 'never' ? null : parseInt(expiry),
+      });
+      return response.json();
+    },
+    onSuccess: (data: ApiToken & { token: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+      setCreatedToken(data.token);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/auth/tokens/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+      toast({
+        title: 'Token Revoked',
+        description: 'The API token can no longer be used',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openDialog = () => {
+    setName('');
+    setExpiry('30');
+    setScopes([]);
+    setCreatedToken(null);
+    setDialogOpen(true);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-neutral-700 dark:text-neutral-300">
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary-500" />
+            <span>Personal Access Tokens</span>
+          </div>
+        </h3>
+        <Button type="button" variant="outline" onClick={openDialog}>
+          New Token
+        </Button>
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        Tokens let scripts and CI call the API with <code>Authorization: Bearer &lt;token&gt;</code>. A token can only
+        do what both its scopes and your role allow.
+      </p>
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : tokens && tokens.length > 0 ? (
+          tokens.map((token) => (
+            <div key={token.id} className="flex justify-between items-start py-2 border-b last:border-b-0 dark:border-neutral-800">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                  {token.name} <span className="font-mono text-xs text-neutral-500">{token.token_prefix}…</span>
+                </p>
+                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                  Created {formatDate(token.created_at)} •{' '}
+                  {token.expires_at ? `Expires ${formatDate(token.expires_at)}` : 'Never expires'} •{' '}
+                  {token.last_used_at ? `Last used ${formatRelativeTime(token.last_used_at)}` : 'Never used'}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {token.scopes.map((scope) => (
+                    <Badge key={scope} variant="secondary" className="text-xs">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20"
+                onClick={() => revokeMutation.mutate(token.id)}
+                disabled={revokeMutation.isPending}
+              >
+                Revoke
+              </Button>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">You have no API tokens.</p>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{createdToken ? 'Token Created' : 'New API Token'}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? 'Copy the token now. It will not be shown again.'
+                : 'Choose a name, an expiration and the permissions the token may use.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdToken ? (
+            <div className="flex">
+              <Input readOnly value={createdToken} className="rounded-r-none font-mono text-xs" />
+              <Button
+                type="button"
+                className="rounded-l-none"
+                variant="outline"
+                onClick={() => {
+                  navigator.clipboard.writeText(createdToken);
+                  toast({
+                    title: 'Copied',
+                    description: 'API token copied to clipboard',
+                  });
+                }}
+              >
+                Copy
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. CI pipeline"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="token-expiry">Expiration</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger id="token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Scopes</Label>
+                <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                  {user?.permissions.map((permission) => (
+                    <label key={permission} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={scopes.includes(permission)}
+                        onCheckedChange={(checked) => toggleScope(permission, checked === true)}
+                      />
+                      <span className="font-mono text-xs">{permission}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdToken ? (
+              <Button type="button" onClick={() => setDialogOpen(false)}>
+                Done
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                onClick={() => createMutation.mutate()}
+                disabled={!name || scopes.length === 0 || createMutation.isPending}
+              >
+                {createMutation.isPending ? 'Creating...' : 'Create Token'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { ListPlus } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { customFieldKey, customFieldTypeLabels, type CustomField, type CustomFieldEntityType, type CustomFieldType } from '@/lib/custom-fields';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+
+const entityLabels: Record<CustomFieldEntityType, string> = {
+  test_case: 'Test Cases',
+  bug: 'Bugs',
+};
+
+const hasOptions = (fieldType: CustomFieldType) => fieldType === 'select' || fieldType === 'multi_select';
+
+// Admin-defined fields of the current project's test cases and bugs
+export function CustomFieldSettings() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [entityType, setEntityType] = useState<CustomFieldEntityType>('test_case');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // The field being edited, or null while creating one
+  const [editing, setEditing] = useState<CustomField | null>(null);
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+  const [keyEdited, setKeyEdited] = useState(false);
+  const [fieldType, setFieldType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+  const [required, setRequired] = useState(false);
+
+  const { fields, isLoading } = useCustomFields(entityType);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const optionList = hasOptions(fieldType)
+        ? options.split('\n').map((option) => option.trim()).filter(Boolean)
+        : null;
+      const response = editing
+        ? await apiRequest('PUT', `/api/custom-fields/${editing.id}`, { name, options: optionList, required })
+        : await apiRequest('POST', '/api/custom-fields', { entity_type: entityType, key, name, field_type: fieldType, options: optionList, required });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+      toast({
+        title: editing ? 'Field Updated' : 'Field Created',
+        description: `${name} is available on ${entityLabels[entityType].toLowerCase()}`,
+      });
+      setDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/custom-fields/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+    },
+    onError,
+  });
+
+  const openDialog = (field: CustomField | null) => {
+    setEditing(field);
+    setName(field?.name ?? '');
+    setKey(field?.key ?? '');
+    setKeyEdited(!!field);
+    setFieldType(field?.field_type ?? 'text');
+    setOptions(field?.options?.join('\n') ?? '');
+    setRequired(field?.required ?? false);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (field: CustomField) => {
+    if (confirm(`Delete the "${field.name}" field? Values already entered are dropped the next time each item is saved.`)) {
+      deleteMutation.mutate(field.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium text-neutral-700 dark:text-neutral-300">
+          <div className="flex items-center gap-2">
+            <ListPlus className="h-5 w-5 text-primary-500" />
+            <span>Custom Fields</span>
+          </div>
+        </h3>
+        <div className="flex items-center gap-2">
+          <Select value={entityType} onValueChange={(value) => setEntityType(value as CustomFieldEntityType)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(entityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" onClick={() => openDialog(null)}>
+            New Field
+          </Button>
+        </div>
+      </div>
+      <p className="text-xs text-neutral-500 dark:text-neutral-400">
+        Extra fields shown on every item of this project. They appear in the forms and in Excel exports, and select fields can be
+        used as list filters.
+      </p>
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <Skeleton className="h-12 w-full" />
+        ) : fields.length > 0 ? (
+          fields.map((field) => (
+            <div key={field.id} className="flex justify-between items-start py-2 border-b last:border-b-0 dark:border-neutral-800">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                  {field.name} <span className="font-mono text-xs text-neutral-500">{field.key}</span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary" className="text-xs">
+                    {customFieldTypeLabels[field.field_type]}
+                  </Badge>
+                  {field.required && (
+                    <Badge variant="outline" className="text-xs">
+                      Required
+                    </Badge>
+                  )}
+                  {field.options?.map((option) => (
+                    <Badge key={option} variant="outline" className="text-xs font-normal">
+                      {option}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" onClick={() => openDialog(field)}>
+                  Edit
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20"
+                  onClick={() => handleDelete(field)}
+                  disabled={deleteMutation.isPending}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400">
+            No custom fields are defined for {entityLabels[entityType].toLowerCase()}.
+          </p>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Field' : 'New Field'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'The key and type of a field cannot change once it exists.'
+                : `Add a field to the ${entityLabels[entityType].toLowerCase()} of this project.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="custom-field-name">Name</Label>
+              <Input
+                id="custom-field-name"
+                placeholder="e.g. Component"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value);
+                  if (!keyEdited) setKey(customFieldKey(e.target.value));
+                }}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-key">Key</Label>
+                <Input
+                  id="custom-field-key"
+                  className="font-mono text-xs"
+                  value={key}
+                  disabled={!!editing}
+                  onChange={(e) => {
+                    setKey(e.target.value);
+                    setKeyEdited(true);
+                  }}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-type">Type</Label>
+                <Select value={fieldType} onValueChange={(value) => setFieldType(value as CustomFieldType)} disabled={!!editing}>
+                  <SelectTrigger id="custom-field-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(customFieldTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {hasOptions(fieldType) && (
+              <div className="space-y-2">
+                <Label htmlFor="custom-field-options">Options</Label>
+                <Textarea
+                  id="custom-field-options"
+                  rows={4}
+                  placeholder="One option per line"
+                  value={options}
+                  onChange={(e) => setOptions(e.target.value)}
+                />
+              </div>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={required} onCheckedChange={(checked) => setRequired(checked === true)} />
+              <span>Required</span>
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={!name || !key || (hasOptions(fieldType) && !options.trim()) || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : editing ? 'Save Field' : 'Create Field'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
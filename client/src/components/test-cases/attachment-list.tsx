@@ -0,0 +1,137 @@
+import { useRef } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileIcon, Paperclip, XIcon } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { attachmentAccept, attachmentUrl, formatFileSize, thumbnailUrl, uploadAttachment, type Attachment } from '@/lib/attachments';
+import { attachmentsKey } from '@/hooks/useAttachments';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+
+interface AttachmentListProps {
+  testCaseId: number;
+  attachments: Attachment[];
+  // Uploads go to this step, or to the test case itself when left out
+  stepNumber?: number;
+  editable?: boolean;
+  compact?: boolean;
+}
+
+// Thumbnails of the attached files, each opening the file in a new tab, with
+// an upload button and delete buttons when editable
+export function AttachmentList({ testCaseId, attachments, stepNumber, editable = false, compact = false }: AttachmentListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        await uploadAttachment(testCaseId, file, stepNumber);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentsKey(testCaseId) });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/attachments/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentsKey(testCaseId) });
+    },
+    onError,
+  });
+
+  const handleDelete = (attachment: Attachment) => {
+    if (confirm(`Delete ${attachment.file_name}?`)) {
+      deleteMutation.mutate(attachment.id);
+    }
+  };
+
+  const size = compact ? 'h-12 w-12' : 'h-20 w-20';
+
+  if (attachments.length === 0 && !editable) {
+    return compact ? null : <p className="text-sm text-neutral-500 dark:text-neutral-400">No attachments</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      {attachments.map((attachment) => (
+        <div key={attachment.id} className="group relative">
+          <a
+            href={attachmentUrl(attachment)}
+            target="_blank"
+            rel="noreferrer"
+            title={`${attachment.file_name} (${formatFileSize(attachment.size)})`}
+            className={`${size} flex flex-col items-center justify-center overflow-hidden rounded-md border border-neutral-200 bg-neutral-50 hover:border-primary-400 dark:border-neutral-700 dark:bg-neutral-800`}
+          >
+            {attachment.thumbnail_key ? (
+              <img src={thumbnailUrl(attachment)} alt={attachment.file_name} className="h-full w-full object-cover" />
+            ) : (
+              <>
+                <FileIcon className="h-5 w-5 text-neutral-400" />
+                {!compact && (
+                  <span className="mt-1 w-full truncate px-1 text-center text-[10px] text-neutral-500 dark:text-neutral-400">
+                    {attachment.file_name}
+                  </span>
+                )}
+              </>
+            )}
+          </a>
+          {editable && (
+            <button
+              type="button"
+              aria-label={`Delete ${attachment.file_name}`}
+              onClick={() => handleDelete(attachment)}
+              disabled={deleteMutation.isPending}
+              className="absolute -right-1.5 -top-1.5 hidden rounded-full bg-red-600 p-0.5 text-white group-hover:block"
+            >
+              <XIcon className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {editable && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={attachmentAccept}
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              e.target.value = '';
+              if (files.length > 0) uploadMutation.mutate(files);
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size={compact ? 'icon' : 'sm'}
+            className={compact ? 'h-12 w-12' : undefined}
+            onClick={() => inputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            title="Attach files"
+          >
+            <Paperclip className="h-4 w-4" />
+            {!compact && <span className="ml-1">{uploadMutation.isPending ? 'Uploading...' : 'Attach'}</span>}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
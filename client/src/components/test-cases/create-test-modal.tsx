@@ -13,20 +13,33 @@ import * as z from 'zod';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { XIcon, PlusIcon, Trash2Icon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { CustomFieldInputs } from '@/components/test-cases/custom-field-inputs';
+import { TagInput } from '@/components/test-cases/tag-input';
+import { TestDataEditor } from '@/components/test-cases/test-data-editor';
+import { SharedStepPicker, SharedStepReference } from '@/components/test-cases/shared-step-fields';
+import { useCustomFields } from '@/hooks/useCustomFields';
 
 // Define form schema
 const testCaseSchema = z.object({
   title: z.string().min(3, { message: 'Title must be at least 3 characters long' }),
   description: z.string().optional(),
+  preconditions: z.string().optional(),
   priority: z.string(),
   type: z.string(),
   assigned_to: z.number().optional().nullable(),
   expected_result: z.string().optional(),
   folderId: z.number().optional().nullable(),
+  // Checked against the project's field definitions on the server
+  custom_fields: z.record(z.any()).optional(),
+  tags: z.array(z.string()).optional(),
+  // Parameter names and row sizes are checked on the server
+  test_data: z.object({ parameters: z.array(z.string()), rows: z.array(z.array(z.string())) }).nullable().optional(),
   steps: z.array(
     z.object({
       description: z.string().min(1, { message: 'Step description is required' }),
-      expected_result: z.string().optional()
+      expected_result: z.string().optional(),
+      shared_step_id: z.number().nullable().optional(),
+      shared_step_version: z.number().nullable().optional()
     })
   ).min(1, { message: 'At least one step is required' })
 });
@@ -65,17 +78,23 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
     enabled: isOpen
   });
   
+  const { fields: customFields } = useCustomFields('test_case', isOpen);
+  
   // Form setup
   const form = useForm<TestCaseFormValues>({
     resolver: zodResolver(testCaseSchema),
     defaultValues: {
       title: '',
       description: '',
+      preconditions: '',
       priority: 'medium',
       type: 'functional',
       assigned_to: null,
       expected_result: '',
       folderId: initialFolder || null,
+      custom_fields: {},
+      tags: [],
+      test_data: null,
       steps: [{ description: '', expected_result: '' }]
     },
   });
@@ -93,7 +112,10 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
       const { folderId, ...testCaseData } = data;
       
       // Create test case
-      const response = await apiRequest('POST', '/api/testcases', testCaseData);
+      const response = await apiRequest('POST', '/api/testcases', {
+        ...testCaseData,
+        steps: testCaseData.steps.map((step, index) => ({ ...step, step_number: index + 1 })),
+      });
       const testCase = await response.json();
       
       // If folder ID is provided, assign test case to folder
@@ -109,6 +131,7 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
         description: 'Test case created successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
       queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
       onClose();
       form.reset();
@@ -167,6 +190,20 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="preconditions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preconditions</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="State the system must be in before the first step" rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -279,6 +316,37 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
               />
             </div>
             
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="test_data"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Test Data</FormLabel>
+                  <FormDescription>Parameters the test case is run with, one row per data set</FormDescription>
+                  <FormControl>
+                    <TestDataEditor value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <CustomFieldInputs control={form.control} fields={customFields} />
+            
             <div>
               <FormLabel>Test Steps</FormLabel>
               <div className="border border-neutral-200 rounded-md p-3 space-y-3 dark:border-neutral-800">
@@ -289,32 +357,48 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
                         {index + 1}
                       </span>
                     </div>
-                    <div className="ml-3 flex-1 space-y-2">
-                      <FormField
-                        control={form.control}
-                        name={`steps.${index}.description`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input placeholder="Enter step description..." {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name={`steps.${index}.expected_result`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input placeholder="Expected result for this step (optional)" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    {field.shared_step_id ? (
+                      <div className="ml-3 flex-1">
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.shared_step_version`}
+                          render={({ field: versionField }) => (
+                            <SharedStepReference
+                              sharedStepId={field.shared_step_id!}
+                              version={versionField.value}
+                              onVersionChange={versionField.onChange}
+                            />
+                          )}
+                        />
+                      </div>
+                    ) : (
+                      <div className="ml-3 flex-1 space-y-2">
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.description`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Enter step description..." {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.expected_result`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Expected result for this step (optional)" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
                     <div className="ml-2 mt-2">
                       <Button
                         type="button"
@@ -329,15 +413,22 @@ export function CreateTestModal({ isOpen, onClose, initialFolder }: CreateTestMo
                     </div>
                   </div>
                 ))}
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => append({ description: '', expected_result: '' })}
-                  className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
-                >
-                  <PlusIcon className="h-4 w-4 mr-1" /> Add Step
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => append({ description: '', expected_result: '' })}
+                    className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" /> Add Step
+                  </Button>
+                  <SharedStepPicker
+                    onSelect={(sharedStep) =>
+                      append({ description: sharedStep.name, expected_result: '', shared_step_id: sharedStep.id, shared_step_version: null })
+                    }
+                  />
+                </div>
               </div>
               {form.formState.errors.steps && (
                 <p className="mt-1 text-sm text-red-500 dark:text-red-400">
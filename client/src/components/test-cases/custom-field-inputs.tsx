@@ -0,0 +1,113 @@
+import type { Control } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import type { CustomField } from '@/lib/custom-fields';
+
+interface UserItem {
+  id: number;
+  full_name: string;
+}
+
+interface CustomFieldInputsProps {
+  // Any form with a custom_fields object
+  control: Control<any>;
+  fields: CustomField[];
+}
+
+const inputClassName = 'dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300';
+
+// One form input per custom field, bound to custom_fields.<key>. Cleared
+// inputs send an empty value, which the server stores as no value.
+export function CustomFieldInputs({ control, fields }: CustomFieldInputsProps) {
+  const { data: users } = useQuery<UserItem[]>({
+    queryKey: ['/api/users'],
+    enabled: fields.some((field) => field.field_type === 'user'),
+  });
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {fields.map((customField) => (
+        <FormField
+          key={customField.id}
+          control={control}
+          name={`custom_fields.${customField.key}`}
+          render={({ field }) => (
+            <FormItem className={customField.field_type === 'multi_select' ? 'md:col-span-2' : undefined}>
+              <FormLabel>
+                {customField.name}
+                {customField.required && <span className="text-red-500"> *</span>}
+              </FormLabel>
+              {customField.field_type === 'select' || customField.field_type === 'user' ? (
+                <Select
+                  onValueChange={(value) => field.onChange(customField.field_type === 'user' && value ? parseInt(value) : value)}
+                  value={field.value?.toString() ?? ''}
+                >
+                  <FormControl>
+                    <SelectTrigger className={inputClassName}>
+                      <SelectValue placeholder={`Select ${customField.name.toLowerCase()}`} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="">None</SelectItem>
+                    {customField.field_type === 'select'
+                      ? (customField.options ?? []).map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {option}
+                          </SelectItem>
+                        ))
+                      : users?.map((user) => (
+                          <SelectItem key={user.id} value={user.id.toString()}>
+                            {user.full_name}
+                          </SelectItem>
+                        ))}
+                  </SelectContent>
+                </Select>
+              ) : customField.field_type === 'multi_select' ? (
+                <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+                  {(customField.options ?? []).map((option) => {
+                    const selected: string[] = field.value ?? [];
+                    const id = `custom-field-${customField.key}-${option}`;
+                    return (
+                      <div key={option} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={id}
+                          checked={selected.includes(option)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(checked === true ? [...selected, option] : selected.filter((value) => value !== option))
+                          }
+                        />
+                        <Label htmlFor={id} className="text-sm font-normal text-neutral-600 dark:text-neutral-300">
+                          {option}
+                        </Label>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <FormControl>
+                  <Input
+                    type={customField.field_type === 'number' ? 'number' : customField.field_type === 'date' ? 'date' : 'text'}
+                    value={field.value ?? ''}
+                    onChange={(event) => {
+                      const { value } = event.target;
+                      field.onChange(customField.field_type === 'number' && value !== '' ? Number(value) : value);
+                    }}
+                    onBlur={field.onBlur}
+                    className={inputClassName}
+                  />
+                </FormControl>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      ))}
+    </div>
+  );
+}
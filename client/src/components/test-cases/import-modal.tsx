@@ -8,6 +8,8 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { parseTestCasesFromExcel } from '@/lib/excel';
+import { customFieldsFromColumns } from '@/lib/custom-fields';
+import { useCustomFields } from '@/hooks/useCustomFields';
 import { FileIcon, UploadIcon } from 'lucide-react';
 
 interface ImportModalProps {
@@ -20,6 +22,11 @@ interface FolderItem {
   name: string;
 }
 
+interface UserItem {
+  id: number;
+  full_name: string;
+}
+
 export function ImportModal({ isOpen, onClose }: ImportModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -36,12 +43,20 @@ export function ImportModal({ isOpen, onClose }: ImportModalProps) {
     enabled: isOpen
   });
   
+  // Custom field columns are matched by field name; user fields by the user's name
+  const { fields: customFields } = useCustomFields('test_case', isOpen);
+  const { data: users } = useQuery<UserItem[]>({
+    queryKey: ['/api/users'],
+    enabled: isOpen && customFields.some((field) => field.field_type === 'user')
+  });
+  
   // Import test cases mutation
   const importTestCasesMutation = useMutation({
     mutationFn: async (testCases: any[]) => {
       // Create each test case
       for (const testCase of testCases) {
-        const { folder, ...testCaseData } = testCase;
+        const { folder, custom_fields, ...testCaseData } = testCase;
+        testCaseData.custom_fields = customFieldsFromColumns(customFields, custom_fields, users);
         const folderIdToUse = folderId || (folder ? folders?.find((f: any) => f.name === folder)?.id : null);
         
         // Create test case
@@ -0,0 +1,89 @@
+import { LayersIcon, PlusIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSharedSteps } from '@/hooks/useSharedSteps';
+import type { SharedStep } from '@/lib/shared-steps';
+
+interface SharedStepPickerProps {
+  onSelect: (sharedStep: SharedStep) => void;
+}
+
+// Button listing the project's shared steps, for adding one to a test case
+export function SharedStepPicker({ onSelect }: SharedStepPickerProps) {
+  const { sharedSteps, isLoading } = useSharedSteps();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" /> Add Shared Step
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+        <DropdownMenuLabel>Shared Steps</DropdownMenuLabel>
+        {isLoading ? (
+          <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+        ) : sharedSteps.length === 0 ? (
+          <DropdownMenuItem disabled>No shared steps yet</DropdownMenuItem>
+        ) : (
+          sharedSteps.map((sharedStep) => (
+            <DropdownMenuItem key={sharedStep.id} onSelect={() => onSelect(sharedStep)}>
+              {sharedStep.name}
+              <span className="ml-auto pl-4 text-xs text-neutral-400">{sharedStep.steps.length} steps</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface SharedStepReferenceProps {
+  sharedStepId: number;
+  // The pinned version, or null to follow the latest
+  version: number | null | undefined;
+  onVersionChange: (version: number | null) => void;
+}
+
+// A test case step standing for a shared step block, with a choice between
+// following its latest version and pinning one
+export function SharedStepReference({ sharedStepId, version, onVersionChange }: SharedStepReferenceProps) {
+  const { sharedSteps } = useSharedSteps();
+  const sharedStep = sharedSteps.find((step) => step.id === sharedStepId);
+  const versions = sharedStep ? Array.from({ length: sharedStep.version }, (_, i) => sharedStep.version - i) : [];
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-dashed border-primary-200 bg-primary-50/50 px-3 py-2 dark:border-primary-900 dark:bg-primary-900/20">
+      <LayersIcon className="h-4 w-4 flex-shrink-0 text-primary-500" />
+      <div className="flex-1 min-w-0">
+        <p className="truncate text-sm font-medium text-neutral-700 dark:text-neutral-300">
+          {sharedStep?.name ?? `Shared step ${sharedStepId}`}
+        </p>
+        {sharedStep && <p className="text-xs text-neutral-500 dark:text-neutral-400">{sharedStep.steps.length} steps</p>}
+      </div>
+      <Select
+        value={version ? String(version) : 'latest'}
+        onValueChange={(value) => onVersionChange(value === 'latest' ? null : parseInt(value))}
+      >
+        <SelectTrigger className="h-8 w-[150px]" aria-label="Version">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="latest">Latest version</SelectItem>
+          {versions.map((v) => (
+            <SelectItem key={v} value={String(v)}>
+              Pin v{v}
+            </SelectItem>
+          ))}
+          {version && !versions.includes(version) && <SelectItem value={String(version)}>Pin v{version}</SelectItem>}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
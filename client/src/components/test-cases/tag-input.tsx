@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { TagBadge } from '@/components/ui/tag-badge';
+import { useTags, type TaggableEntityType } from '@/hooks/useTags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  entityType?: TaggableEntityType;
+  placeholder?: string;
+}
+
+// Same rule as the server's tagSchema
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._:/+#-]*$/;
+const OPERATORS = ['and', 'or', 'not'];
+const MAX_SUGGESTIONS = 8;
+
+// Free-form tag entry. Enter, comma or Tab adds the typed tag and the
+// project's existing tags are suggested as you type.
+export function TagInput({ value, onChange, entityType = 'test_case', placeholder = 'Add tags...' }: TagInputProps) {
+  const [text, setText] = useState('');
+  const [focused, setFocused] = useState(false);
+  const { tags } = useTags(entityType);
+
+  const typed = text.trim().toLowerCase();
+  const invalid = typed !== '' && (!TAG_PATTERN.test(typed) || typed.length > 50 || OPERATORS.includes(typed));
+  const suggestions = tags
+    .filter((tag) => !value.includes(tag.name) && tag.name.startsWith(typed))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addTag = (tag: string) => {
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setText('');
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input px-2 py-1 dark:bg-neutral-800 dark:border-neutral-700">
+        {value.map((tag) => (
+          <TagBadge key={tag} tag={tag} onRemove={() => onChange(value.filter((t) => t !== tag))} />
+        ))}
+        <Input
+          value={text}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="h-7 flex-1 min-w-[120px] border-0 p-0 shadow-none focus-visible:ring-0 dark:bg-neutral-800 dark:text-neutral-300"
+          onChange={(e) => setText(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (typed && !invalid) addTag(typed);
+          }}
+          onKeyDown={(e) => {
+            if ((e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && typed)) && !invalid) {
+              e.preventDefault();
+              addTag(typed);
+            } else if (e.key === 'Backspace' && !text && value.length > 0) {
+              onChange(value.slice(0, -1));
+            }
+          }}
+        />
+      </div>
+      {invalid && (
+        <p className="mt-1 text-xs text-red-500">
+          Tags may only contain letters, digits and . _ : / + # -, and cannot be AND, OR or NOT
+        </p>
+      )}
+      {focused && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-white p-1 shadow-md dark:bg-neutral-800 dark:border-neutral-700">
+          {suggestions.map((tag) => (
+            <button
+              key={tag.name}
+              type="button"
+              className="flex w-full items-center justify-between rounded px-2 py-1 text-sm hover:bg-neutral-100 dark:hover:bg-neutral-700"
+              // Keeps the input focused so the click lands before onBlur
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag.name)}
+            >
+              <TagBadge tag={tag.name} />
+              <span className="text-xs text-neutral-400">{tag.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
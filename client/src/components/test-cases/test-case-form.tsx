@@ -13,20 +13,35 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { XIcon, PlusIcon, Trash2Icon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { CustomFieldInputs } from '@/components/test-cases/custom-field-inputs';
+import { TagInput } from '@/components/test-cases/tag-input';
+import { TestDataEditor, type TestData } from '@/components/test-cases/test-data-editor';
+import { SharedStepPicker, SharedStepReference } from '@/components/test-cases/shared-step-fields';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import type { CustomFieldValues } from '@/lib/custom-fields';
 
 // Define form schema
 const testCaseSchema = z.object({
   title: z.string().min(3, { message: 'Title must be at least 3 characters long' }),
   description: z.string().optional(),
+  preconditions: z.string().optional(),
   status: z.string(),
   priority: z.string(),
   type: z.string(),
   assigned_to: z.number().optional().nullable(),
+  assigned_team_id: z.number().optional().nullable(),
   expected_result: z.string().optional(),
+  // Checked against the project's field definitions on the server
+  custom_fields: z.record(z.any()).optional(),
+  tags: z.array(z.string()).optional(),
+  // Parameter names and row sizes are checked on the server
+  test_data: z.object({ parameters: z.array(z.string()), rows: z.array(z.array(z.string())) }).nullable().optional(),
   steps: z.array(
     z.object({
       description: z.string().min(1, { message: 'Step description is required' }),
-      expected_result: z.string().optional()
+      expected_result: z.string().optional(),
+      shared_step_id: z.number().nullable().optional(),
+      shared_step_version: z.number().nullable().optional()
     })
   ).min(1, { message: 'At least one step is required' })
 });
@@ -45,19 +60,31 @@ interface UserItem {
   full_name: string;
 }
 
+interface TeamItem {
+  id: number;
+  name: string;
+}
+
 interface StepItem {
   description: string;
   expected_result?: string;
+  shared_step_id?: number | null;
+  shared_step_version?: number | null;
 }
 
 interface TestCaseDetails {
   title: string;
   description?: string;
+  preconditions?: string | null;
   status: string;
   priority: string;
   type: string;
   assigned_to?: number | null;
+  assigned_team_id?: number | null;
   expected_result?: string;
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
+  test_data?: TestData | null;
 }
 
 interface TestCaseData {
@@ -74,9 +101,16 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
     queryKey: ['/api/users'],
   });
   
+  // Get teams for team dropdown
+  const { data: teams } = useQuery<TeamItem[]>({
+    queryKey: ['/api/teams'],
+  });
+  
+  const { fields: customFields } = useCustomFields('test_case');
+  
   // Get test case details if editing
   const { data: testCaseData, isLoading } = useQuery<TestCaseData>({
-    queryKey: ['/api/testcases', test_case_id],
+    queryKey: [`/api/testcases/${test_case_id}`],
     enabled: !!test_case_id,
   });
   
@@ -86,11 +120,16 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
     defaultValues: {
       title: '',
       description: '',
+      preconditions: '',
       status: 'pending',
       priority: 'medium',
       type: 'functional',
       assigned_to: null,
+      assigned_team_id: null,
       expected_result: '',
+      custom_fields: {},
+      tags: [],
+      test_data: null,
       created_by: 1, // Default user ID for development
       steps: [{ description: '', expected_result: '' }]
     },
@@ -104,14 +143,21 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
       form.reset({
         title: testCase.title,
         description: testCase.description || '',
+        preconditions: testCase.preconditions || '',
         status: testCase.status,
         priority: testCase.priority,
         type: testCase.type,
         assigned_to: testCase.assigned_to || null,
+        assigned_team_id: testCase.assigned_team_id || null,
         expected_result: testCase.expected_result || '',
+        custom_fields: testCase.custom_fields ?? {},
+        tags: testCase.tags ?? [],
+        test_data: testCase.test_data ?? null,
         steps: testCaseData.steps && testCaseData.steps.length > 0 ? testCaseData.steps.map((step: StepItem) => ({
           description: step.description,
-          expected_result: step.expected_result || ''
+          expected_result: step.expected_result || '',
+          shared_step_id: step.shared_step_id ?? null,
+          shared_step_version: step.shared_step_version ?? null
         })) : [{ description: '', expected_result: '' }]
       });
     }
@@ -125,7 +171,11 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
   
   // Update test case mutation
   const updateTestCaseMutation = useMutation({
-    mutationFn: async (data: TestCaseFormValues) => {
+    mutationFn: async (formData: TestCaseFormValues) => {
+      const data = {
+        ...formData,
+        steps: formData.steps.map((step, index) => ({ ...step, step_number: index + 1 })),
+      };
       if (test_case_id) {
         // Update existing test case
         const response = await apiRequest('PUT', `/api/testcases/${test_case_id}`, data);
@@ -142,8 +192,9 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
         description: `Test case ${test_case_id ? 'updated' : 'created'} successfully`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
       if (test_case_id) {
-        queryClient.invalidateQueries({ queryKey: ['/api/testcases', test_case_id] });
+        queryClient.invalidateQueries({ queryKey: [`/api/testcases/${test_case_id}`] });
       }
       if (onSaved) onSaved();
     },
@@ -217,6 +268,22 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
               )}
             />
             
+            <FormField
+              control={form.control}
+              name="preconditions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Preconditions</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="State the system must be in before the first step" rows={2} {...field} 
+                      className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300" 
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -322,8 +389,68 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
                   </FormItem>
                 )}
               />
+              
+              <FormField
+                control={form.control}
+                name="assigned_team_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Team</FormLabel>
+                    <Select 
+                      onValueChange={val => field.onChange(val ? parseInt(val) : null)} 
+                      value={field.value?.toString() || ""}
+                    >
+                      <FormControl>
+                        <SelectTrigger className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                          <SelectValue placeholder="Select team" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="">None</SelectItem>
+                        {teams && teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id.toString()}>
+                            {team.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
             
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="test_data"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Test Data</FormLabel>
+                  <FormDescription>Parameters the test case is run with, one row per data set</FormDescription>
+                  <FormControl>
+                    <TestDataEditor value={field.value} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <CustomFieldInputs control={form.control} fields={customFields} />
+            
             <div>
               <FormLabel>Test Steps</FormLabel>
               <div className="border border-neutral-200 rounded-md p-3 space-y-3 dark:border-neutral-700">
@@ -334,36 +461,52 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
                         {index + 1}
                       </span>
                     </div>
-                    <div className="ml-3 flex-1 space-y-2">
-                      <FormField
-                        control={form.control}
-                        name={`steps.${index}.description`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input placeholder="Enter step description..." {...field} 
-                                className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={form.control}
-                        name={`steps.${index}.expected_result`}
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormControl>
-                              <Input placeholder="Expected result for this step (optional)" {...field} 
-                                className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
+                    {field.shared_step_id ? (
+                      <div className="ml-3 flex-1">
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.shared_step_version`}
+                          render={({ field: versionField }) => (
+                            <SharedStepReference
+                              sharedStepId={field.shared_step_id!}
+                              version={versionField.value}
+                              onVersionChange={versionField.onChange}
+                            />
+                          )}
+                        />
+                      </div>
+                    ) : (
+                      <div className="ml-3 flex-1 space-y-2">
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.description`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Enter step description..." {...field} 
+                                  className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name={`steps.${index}.expected_result`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input placeholder="Expected result for this step (optional)" {...field} 
+                                  className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    )}
                     <div className="ml-2 mt-2">
                       <Button
                         type="button"
@@ -378,15 +521,22 @@ export function TestCaseForm({ test_case_id, onSaved }: TestCaseFormProps) {
                     </div>
                   </div>
                 ))}
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => append({ description: '', expected_result: '' })}
-                  className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
-                >
-                  <PlusIcon className="h-4 w-4 mr-1" /> Add Step
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => append({ description: '', expected_result: '' })}
+                    className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-1" /> Add Step
+                  </Button>
+                  <SharedStepPicker
+                    onSelect={(sharedStep) =>
+                      append({ description: sharedStep.name, expected_result: '', shared_step_id: sharedStep.id, shared_step_version: null })
+                    }
+                  />
+                </div>
               </div>
               {form.formState.errors.steps && (
                 <p className="mt-1 text-sm text-red-500 dark:text-red-400">
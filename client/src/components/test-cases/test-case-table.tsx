@@ -1,47 +1,110 @@
 import { useState } from 'react';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { DataTable } from '@/components/ui/data-table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSub, DropdownMenuSubContent, DropdownMenuSubTrigger, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { StatusBadge } from '@/components/ui/status-badge';
 import { PriorityBadge } from '@/components/ui/priority-badge';
+import { TagBadge } from '@/components/ui/tag-badge';
+import { TagInput } from '@/components/test-cases/tag-input';
 import { formatDate } from '@/lib/utils';
-import { Edit, Trash2, MoreVertical } from 'lucide-react';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ChevronDown, Copy, Edit, FolderInput, Tags, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from '@/components/ui/pagination';
 
 interface TestCase {
   id: number;
   title: string;
-  description: string;
+  description?: string;
   status: string;
   priority: string;
+  type: string;
   assigned_to?: number;
-  assigneeName?: string;
-  last_run?: string;
-  folder?: string;
+  updated_at?: string;
+  tags?: string[];
 }
 
+interface UserItem {
+  id: number;
+  full_name: string;
+}
+
+interface FolderItem {
+  id: number;
+  name: string;
+}
+
+// Body of POST /api/testcases/bulk, without the ids
+type BulkOperation =
+  | { action: 'update'; changes: { status?: string; priority?: string; type?: string; assigned_to?: number | null } }
+  | { action: 'move' | 'copy'; folder_id: number }
+  | { action: 'tag'; add: string[]; remove: string[] }
+  | { action: 'delete' };
+
+interface BulkResponse {
+  results: { id: number; success: boolean; message?: string }[];
+  succeeded: number;
+  failed: number;
+}
+
+const bulkFields = {
+  status: ['passed', 'failed', 'blocked', 'pending'],
+  priority: ['critical', 'high', 'medium', 'low'],
+  type: ['functional', 'performance', 'security', 'usability'],
+};
+
+const bulkDoneLabels: Record<BulkOperation['action'], string> = {
+  update: 'Updated',
+  move: 'Moved',
+  copy: 'Copied',
+  tag: 'Tagged',
+  delete: 'Moved to trash',
+};
+
 interface TestCaseTableProps {
+  // The current page; paging and sorting happen on the server
   testCases: TestCase[];
+  total: number;
+  page: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  onSort: (field: string, direction: 'asc' | 'desc') => void;
+  users?: UserItem[];
+  folders?: FolderItem[];
   onEdit: (id: number) => void;
   onView: (id: number) => void;
+  noDataMessage?: string;
 }
 
-export function TestCaseTable({ testCases, onEdit, onView }: TestCaseTableProps) {
+// Tags shown in a row before the rest collapse into "+n"
+const MAX_ROW_TAGS = 3;
+
+export function TestCaseTable({
+  testCases,
+  total,
+  page,
+  pageSize,
+  onPageChange,
+  onSort,
+  users,
+  folders,
+  onEdit,
+  onView,
+  noDataMessage,
+}: TestCaseTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  // Selection survives paging, so one bulk action can cover rows of several pages
   const [selectedIds, setSelectedIds] = useState<number[]>([]);
-  const [page, setPage] = useState(1);
-  const pageSize = 10;
-
-  // Calculate pagination
-  const totalPages = Math.ceil(testCases.length / pageSize);
-  const start = (page - 1) * pageSize;
-  const end = start + pageSize;
-  const paginatedTestCases = testCases.slice(start, end);
+  const [folderDialog, setFolderDialog] = useState<'move' | 'copy' | null>(null);
+  const [targetFolder, setTargetFolder] = useState('');
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
 
   // Delete test case mutation
   const deleteTestCaseMutation = useMutation({
@@ -49,57 +112,209 @@ export function TestCaseTable({ testCases, onEdit, onView }: TestCaseTableProps)
       const response = await apiRequest('DELETE', `/api/testcases/${id}`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      setSelectedIds((ids) => ids.filter((selected) => selected !== id));
+      queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+    },
+    onError: (error) => {
       toast({
-        title: 'Success',
-        description: 'Test case deleted successfully',
+        title: 'Error',
+        description: `Failed to delete test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // One operation over every selected test case. Cases that fail stay
+  // selected so the action can be retried on them.
+  const bulkMutation = useMutation({
+    mutationFn: async (operation: BulkOperation) => {
+      const response = await apiRequest('POST', '/api/testcases/bulk', { ...operation, ids: selectedIds });
+      return response.json() as Promise<BulkResponse>;
+    },
+    onSuccess: ({ results, succeeded, failed }, operation) => {
+      const failures = results.filter((result) => !result.success);
+      toast({
+        title: failed > 0 ? 'Some Test Cases Failed' : 'Success',
+        description:
+          `${bulkDoneLabels[operation.action]} ${succeeded} test case${succeeded === 1 ? '' : 's'}` +
+          (failed > 0 ? `; ${failed} failed (${failures[0].message})` : ''),
+        variant: failed > 0 ? 'destructive' : 'default',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
       queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      setSelectedIds(failures.map((result) => result.id));
+      setTagDialogOpen(false);
+      setFolderDialog(null);
     },
     onError: (error) => {
       toast({
         title: 'Error',
-        description: `Failed to delete test case: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to update test cases: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: 'destructive',
       });
     },
   });
 
-  // Delete selected test cases
-  const deleteSelected = async () => {
-    if (selectedIds.length === 0) return;
+  const handleDelete = (id: number) => {
+    if (confirm('Move this test case to the trash?')) {
+      deleteTestCaseMutation.mutate(id);
+    }
+  };
 
-    if (confirm(`Are you sure you want to delete ${selectedIds.length} test cases?`)) {
-      try {
-        for (const id of selectedIds) {
-          await deleteTestCaseMutation.mutateAsync(id);
-        }
-        setSelectedIds([]);
-      } catch (error) {
-        console.error('Error deleting test cases:', error);
-      }
+  // Delete selected test cases
+  const deleteSelected = () => {
+    if (confirm(`Move ${selectedIds.length} test cases to the trash?`)) {
+      bulkMutation.mutate({ action: 'delete' });
     }
   };
 
-  // Toggle select all
+  const openFolderDialog = (action: 'move' | 'copy') => {
+    setTargetFolder('');
+    setFolderDialog(action);
+  };
+
+  const openTagDialog = () => {
+    setTagsToAdd([]);
+    setTagsToRemove([]);
+    setTagDialogOpen(true);
+  };
+
+  const pageIds = testCases.map((testCase) => testCase.id);
+  const allSelected = pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id));
+
+  // Toggle select all on the current page
   const toggleSelectAll = () => {
-    if (selectedIds.length === paginatedTestCases.length) {
-      setSelectedIds([]);
+    if (allSelected) {
+      setSelectedIds(selectedIds.filter((id) => !pageIds.includes(id)));
     } else {
-      setSelectedIds(paginatedTestCases.map(tc => tc.id));
+      setSelectedIds(Array.from(new Set([...selectedIds, ...pageIds])));
     }
   };
 
   // Toggle select single test case
   const toggleSelect = (id: number) => {
     if (selectedIds.includes(id)) {
-      setSelectedIds(selectedIds.filter(i => i !== id));
+      setSelectedIds(selectedIds.filter((i) => i !== id));
     } else {
       setSelectedIds([...selectedIds, id]);
     }
   };
 
+  const columns = [
+    {
+      key: 'select',
+      header: <Checkbox checked={allSelected} onCheckedChange={toggleSelectAll} aria-label="Select all" />,
+      cell: (testCase: TestCase) => (
+        <Checkbox
+          checked={selectedIds.includes(testCase.id)}
+          onCheckedChange={() => toggleSelect(testCase.id)}
+          aria-label={`Select ${testCase.title}`}
+        />
+      ),
+    },
+    {
+      key: 'title',
+      header: 'Title',
+      sortable: true,
+      cell: (testCase: TestCase) => (
+        <div className="cursor-pointer" onClick={() => onView(testCase.id)}>
+          <div className="font-medium text-neutral-700 dark:text-neutral-300">{testCase.title}</div>
+          {testCase.description && (
+            <div className="text-sm text-neutral-400 line-clamp-1 dark:text-neutral-500">{testCase.description}</div>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      sortable: true,
+      cell: (testCase: TestCase) => <StatusBadge status={testCase.status} />,
+    },
+    {
+      key: 'priority',
+      header: 'Priority',
+      sortable: true,
+      cell: (testCase: TestCase) => <PriorityBadge priority={testCase.priority} />,
+    },
+    {
+      key: 'type',
+      header: 'Type',
+      sortable: true,
+      cell: (testCase: TestCase) => (
+        <span className="text-sm capitalize text-neutral-500 dark:text-neutral-400">{testCase.type}</span>
+      ),
+    },
+    {
+      key: 'tags',
+      header: 'Tags',
+      cell: (testCase: TestCase) => {
+        const tags = testCase.tags ?? [];
+        return (
+          <div className="flex flex-wrap gap-1">
+            {tags.slice(0, MAX_ROW_TAGS).map((tag) => (
+              <TagBadge key={tag} tag={tag} />
+            ))}
+            {tags.length > MAX_ROW_TAGS && (
+              <span className="text-xs text-neutral-400 dark:text-neutral-500" title={tags.slice(MAX_ROW_TAGS).join(', ')}>
+                +{tags.length - MAX_ROW_TAGS}
+              </span>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: 'assigned_to',
+      header: 'Assignee',
+      cell: (testCase: TestCase) => (
+        <span className="text-sm text-neutral-500 dark:text-neutral-400">
+          {users?.find((user) => user.id === testCase.assigned_to)?.full_name ?? '-'}
+        </span>
+      ),
+    },
+    {
+      key: 'updated_at',
+      header: 'Updated',
+      sortable: true,
+      cell: (testCase: TestCase) => (
+        <span className="text-sm text-neutral-400 dark:text-neutral-500">{formatDate(testCase.updated_at ?? null)}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      cell: (testCase: TestCase) => (
+        <div className="flex items-center justify-end space-x-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onEdit(testCase.id)}
+            className="text-primary-600 hover:text-primary-900 dark:text-primary-400 dark:hover:text-primary-300"
+          >
+            <Edit size={16} />
+            <span className="sr-only">Edit</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleDelete(testCase.id)}
+            className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+          >
+            <Trash2 size={16} />
+            <span className="sr-only">Delete</span>
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
   return (
     <div className="space-y-4">
       {selectedIds.length > 0 && (
@@ -107,204 +322,152 @@ export function TestCaseTable({ testCases, onEdit, onView }: TestCaseTableProps)
           <span className="text-sm text-neutral-500 dark:text-neutral-400">
             {selectedIds.length} test case{selectedIds.length > 1 ? 's' : ''} selected
           </span>
-          <Button 
-            variant="destructive" 
-            size="sm" 
-            onClick={deleteSelected}
-            disabled={deleteTestCaseMutation.isPending}
-          >
-            {deleteTestCaseMutation.isPending ? 'Deleting...' : 'Delete Selected'}
-          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={bulkMutation.isPending}>
+                  {bulkMutation.isPending ? 'Updating...' : 'Set Field'} <ChevronDown className="h-4 w-4 ml-2" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {Object.entries(bulkFields).map(([field, values]) => (
+                  <DropdownMenuSub key={field}>
+                    <DropdownMenuSubTrigger className="capitalize">{field}</DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {values.map((value) => (
+                        <DropdownMenuItem
+                          key={value}
+                          className="capitalize"
+                          onClick={() => bulkMutation.mutate({ action: 'update', changes: { [field]: value } })}
+                        >
+                          {value}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                ))}
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>Assignee</DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuItem onClick={() => bulkMutation.mutate({ action: 'update', changes: { assigned_to: null } })}>
+                      Unassigned
+                    </DropdownMenuItem>
+                    {users?.map((user) => (
+                      <DropdownMenuItem
+                        key={user.id}
+                        onClick={() => bulkMutation.mutate({ action: 'update', changes: { assigned_to: user.id } })}
+                      >
+                        {user.full_name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" size="sm" onClick={() => openFolderDialog('move')}>
+              <FolderInput className="h-4 w-4 mr-2" /> Move
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openFolderDialog('copy')}>
+              <Copy className="h-4 w-4 mr-2" /> Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={openTagDialog}>
+              <Tags className="h-4 w-4 mr-2" /> Tags
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={deleteSelected}
+              disabled={bulkMutation.isPending}
+            >
+              Delete Selected
+            </Button>
+          </div>
         </div>
       )}
 
-      <div className="rounded-md border border-neutral-200 dark:border-neutral-800">
-        <Table>
-          <TableHeader>
-            <TableRow className="bg-neutral-50 dark:bg-neutral-800">
-              <TableHead className="w-[40px]">
-                <Checkbox 
-                  checked={paginatedTestCases.length > 0 && selectedIds.length === paginatedTestCases.length} 
-                  onCheckedChange={toggleSelectAll}
-                  aria-label="Select all"
-                />
-              </TableHead>
-              <TableHead>Title</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Priority</TableHead>
-              <TableHead>Assignee</TableHead>
-              <TableHead>Last Run</TableHead>
-              <TableHead className="text-right">Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {paginatedTestCases.length === 0 ? (
-              <TableRow>
-                <TableCell colSpan={7} className="h-24 text-center text-neutral-500 dark:text-neutral-400">
-                  No test cases found
-                </TableCell>
-              </TableRow>
-            ) : (
-              paginatedTestCases.map((testCase) => (
-                <TableRow 
-                  key={testCase.id} 
-                  className="hover:bg-neutral-50 cursor-pointer dark:hover:bg-neutral-800/50"
-                  onClick={() => onView(testCase.id)}
-                >
-                  <TableCell onClick={(e) => e.stopPropagation()}>
-                    <Checkbox 
-                      checked={selectedIds.includes(testCase.id)} 
-                      onCheckedChange={() => toggleSelect(testCase.id)}
-                      aria-label={`Select ${testCase.title}`}
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <div className="font-medium text-neutral-700 dark:text-neutral-300">{testCase.title}</div>
-                        <div className="text-sm text-neutral-400 dark:text-neutral-500">{testCase.description}</div>
-                      </div>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (confirm('Are you sure you want to delete this test case?')) {
-                            deleteTestCaseMutation.mutate(testCase.id);
-                          }
-                        }}
-                      >
-                        <Trash2 size={16} />
-                        <span className="sr-only">Delete</span>
-                      </Button>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <StatusBadge status={testCase.status} />
-                  </TableCell>
-                  <TableCell>
-                    <PriorityBadge priority={testCase.priority} />
-                  </TableCell>
-                  <TableCell>
-                    <div 
-  className="text-sm text-neutral-500 dark:text-neutral-400 cursor-pointer" 
-  onClick={() => onView(testCase.id)}
->{testCase.assigneeName || '-'}</div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="text-sm text-neutral-400 dark:text-neutral-500">{formatDate(testCase.last_run ?? null)}</div>
-                  </TableCell>
-                  <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
-                    <div className="flex items-center justify-end space-x-2">
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onEdit(testCase.id);
-                        }}
-                        className="text-primary-600 hover:text-primary-900 dark:text-primary-400 dark:hover:text-primary-300"
-                      >
-                        <Edit size={16} />
-                        <span className="sr-only">Edit</span>
-                      </Button>
+      <DataTable
+        data={testCases}
+        columns={columns}
+        total={total}
+        page={page}
+        onPageChange={onPageChange}
+        pageSize={pageSize}
+        sortField="updated_at"
+        sortDirection="desc"
+        onSort={onSort}
+        noDataMessage={noDataMessage}
+      />
 
-                      <Button 
-                        variant="ghost" 
-                        size="icon" 
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          if (confirm('Are you sure you want to delete this test case?')) {
-                            deleteTestCaseMutation.mutate(testCase.id);
-                          }
-                        }}
-                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
-                      >
-                        <Trash2 size={16} />
-                        <span className="sr-only">Delete</span>
-                      </Button>
+      <Dialog open={tagDialogOpen} onOpenChange={setTagDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Edit Tags</DialogTitle>
+            <DialogDescription>
+              Change the tags of {selectedIds.length} selected test case{selectedIds.length > 1 ? 's' : ''}. Other tags are left as they are.
+            </DialogDescription>
+          </DialogHeader>
 
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button 
-                            variant="ghost" 
-                            size="icon" 
-                            className="text-neutral-600 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-neutral-300"
-                          >
-                            <MoreVertical size={16} />
-                            <span className="sr-only">More options</span>
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuItem onClick={() => onView(testCase.id)}>View details</DropdownMenuItem>
-                          <DropdownMenuItem onClick={() => onEdit(testCase.id)}>Edit</DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem 
-                            className="text-red-600 focus:text-red-600 dark:text-red-400 dark:focus:text-red-400"
-                            onClick={() => {
-                              if (confirm('Are you sure you want to delete this test case?')) {
-                                deleteTestCaseMutation.mutate(testCase.id);
-                              }
-                            }}
-                          >
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-      </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Add</Label>
+              <TagInput value={tagsToAdd} onChange={setTagsToAdd} placeholder="Tags to add..." />
+            </div>
+            <div className="space-y-2">
+              <Label>Remove</Label>
+              <TagInput value={tagsToRemove} onChange={setTagsToRemove} placeholder="Tags to remove..." />
+            </div>
+          </div>
 
-      {/* Pagination */}
-      {totalPages > 1 && (
-        <Pagination>
-          <PaginationContent>
-            <PaginationItem>
-              <PaginationPrevious 
-                href="#" 
-                onClick={(e) => {
-                  e.preventDefault();
-                  if (page > 1) setPage(page - 1);
-                }}
-                className={page === 1 ? 'pointer-events-none opacity-50' : ''}
-              />
-            </PaginationItem>
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => bulkMutation.mutate({ action: 'tag', add: tagsToAdd, remove: tagsToRemove })}
+              disabled={(tagsToAdd.length === 0 && tagsToRemove.length === 0) || bulkMutation.isPending}
+            >
+              {bulkMutation.isPending ? 'Saving...' : 'Apply'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
-            {Array.from({ length: totalPages }).map((_, i) => (
-              <PaginationItem key={i}>
-                <PaginationLink 
-                  href="#" 
-                  onClick={(e) => {
-                    e.preventDefault();
-                    setPage(i + 1);
-                  }}
-                  is_active={page === i + 1}
-                >
-                  {i + 1}
-                </PaginationLink>
-              </PaginationItem>
-            ))}
+      <Dialog open={folderDialog !== null} onOpenChange={(open) => !open && setFolderDialog(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{folderDialog === 'copy' ? 'Copy to Folder' : 'Move to Folder'}</DialogTitle>
+            <DialogDescription>
+              {folderDialog === 'copy'
+                ? `Create copies of ${selectedIds.length} test case${selectedIds.length > 1 ? 's' : ''} in the folder. The originals stay where they are.`
+                : `Move ${selectedIds.length} test case${selectedIds.length > 1 ? 's' : ''} into the folder, out of any other folder.`}
+            </DialogDescription>
+          </DialogHeader>
 
-            <PaginationItem>
-              <PaginationNext 
-                href="#" 
-                onClick={(e) => {
-                  e.preventDefault();
-                  if (page < totalPages) setPage(page + 1);
-                }}
-                className={page === totalPages ? 'pointer-events-none opacity-50' : ''}
-              />
-            </PaginationItem>
-          </PaginationContent>
-        </Pagination>
-      )}
+          <Select value={targetFolder} onValueChange={setTargetFolder}>
+            <SelectTrigger className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+              <SelectValue placeholder="Select folder" />
+            </SelectTrigger>
+            <SelectContent>
+              {folders?.map((folder) => (
+                <SelectItem key={folder.id} value={folder.id.toString()}>
+                  {folder.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => folderDialog && bulkMutation.mutate({ action: folderDialog, folder_id: parseInt(targetFolder) })}
+              disabled={!targetFolder || bulkMutation.isPending}
+            >
+              {bulkMutation.isPending ? 'Saving...' : folderDialog === 'copy' ? 'Copy' : 'Move'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,161 @@
+import { PlusIcon, XIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+// Parameters and the rows of values a test case is run with. Each row holds
+// one value per parameter.
+export interface TestData {
+  parameters: string[];
+  rows: string[][];
+}
+
+interface TestDataEditorProps {
+  value: TestData | null | undefined;
+  onChange: (value: TestData | null) => void;
+}
+
+const inputClassName = 'h-8 dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300';
+
+// Spreadsheet-like editor for parameterized test data. Removing the last
+// parameter clears the data.
+export function TestDataEditor({ value, onChange }: TestDataEditorProps) {
+  const parameters = value?.parameters ?? [];
+  const rows = value?.rows ?? [];
+
+  const update = (next: TestData) => onChange(next.parameters.length > 0 ? next : null);
+
+  const addParameter = () =>
+    update({
+      parameters: [...parameters, `param${parameters.length + 1}`],
+      rows: (rows.length > 0 ? rows : [[]]).map((row) => [...row, '']),
+    });
+
+  const removeParameter = (index: number) =>
+    update({
+      parameters: parameters.filter((_, i) => i !== index),
+      rows: rows.map((row) => row.filter((_, i) => i !== index)),
+    });
+
+  const renameParameter = (index: number, name: string) =>
+    update({ parameters: parameters.map((parameter, i) => (i === index ? name : parameter)), rows });
+
+  const setCell = (rowIndex: number, index: number, cell: string) =>
+    update({
+      parameters,
+      rows: rows.map((row, r) => (r === rowIndex ? row.map((current, i) => (i === index ? cell : current)) : row)),
+    });
+
+  if (parameters.length === 0) {
+    return (
+      <Button type="button" variant="outline" size="sm" onClick={addParameter}>
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Add Parameter
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="border border-neutral-100 rounded-md overflow-x-auto dark:border-neutral-800">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-neutral-50 dark:bg-neutral-800">
+              {parameters.map((parameter, index) => (
+                <TableHead key={index} className="min-w-[140px] py-2">
+                  <div className="flex items-center gap-1">
+                    <Input
+                      aria-label={`Parameter ${index + 1}`}
+                      value={parameter}
+                      onChange={(e) => renameParameter(index, e.target.value)}
+                      className={`${inputClassName} font-mono text-xs`}
+                    />
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeParameter(index)}>
+                      <XIcon className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </TableHead>
+              ))}
+              <TableHead className="w-[40px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, index) => (
+                  <TableCell key={index} className="py-1">
+                    <Input value={cell} onChange={(e) => setCell(rowIndex, index, e.target.value)} className={inputClassName} />
+                  </TableCell>
+                ))}
+                <TableCell className="py-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => update({ parameters, rows: rows.filter((_, r) => r !== rowIndex) })}
+                  >
+                    <XIcon className="h-3 w-3" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ parameters, rows: [...rows, parameters.map(() => '')] })}
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Row
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={addParameter}>
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Add Parameter
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Read-only view of the same data
+export function TestDataTable({ data }: { data: TestData }) {
+  return (
+    <div className="border border-neutral-100 rounded-md overflow-x-auto dark:border-neutral-800">
+      <Table>
+        <TableHeader>
+          <TableRow className="bg-neutral-50 dark:bg-neutral-800">
+            {data.parameters.map((parameter) => (
+              <TableHead key={parameter} className="font-mono text-xs">
+                {parameter}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={data.parameters.length} className="h-12 text-center text-neutral-500 dark:text-neutral-400">
+                No rows
+              </TableCell>
+            </TableRow>
+          ) : (
+            data.rows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, index) => (
+                  <TableCell key={index} className="text-neutral-700 dark:text-neutral-300">
+                    {cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
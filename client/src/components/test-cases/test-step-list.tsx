@@ -1,17 +1,30 @@
+import { Fragment } from 'react';
+import { LayersIcon } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { AttachmentList } from '@/components/test-cases/attachment-list';
+import type { Attachment } from '@/lib/attachments';
+import { sharedStepVersionLabel, type ExpandedSharedStep } from '@/lib/shared-steps';
 
 interface TestStep {
   id: number;
   step_number: number;
   description: string;
   expected_result?: string;
+  shared_step?: ExpandedSharedStep;
 }
 
 interface TestStepListProps {
   steps: TestStep[];
+  // Shows an attachments column with the files of each step
+  testCaseId?: number;
+  attachments?: Attachment[];
+  editable?: boolean;
 }
 
-export function TestStepList({ steps }: TestStepListProps) {
+export function TestStepList({ steps, testCaseId, attachments = [], editable = false }: TestStepListProps) {
+  const showAttachments = testCaseId !== undefined;
+
   return (
     <div className="border border-neutral-100 rounded-md overflow-hidden dark:border-neutral-800">
       <Table>
@@ -20,24 +33,63 @@ export function TestStepList({ steps }: TestStepListProps) {
             <TableHead className="w-[60px]">Step</TableHead>
             <TableHead>Description</TableHead>
             <TableHead>Expected Result</TableHead>
+            {showAttachments && <TableHead>Attachments</TableHead>}
           </TableRow>
         </TableHeader>
         <TableBody>
           {steps.length === 0 ? (
             <TableRow>
-              <TableCell colSpan={3} className="h-16 text-center text-neutral-500 dark:text-neutral-400">
+              <TableCell colSpan={showAttachments ? 4 : 3} className="h-16 text-center text-neutral-500 dark:text-neutral-400">
                 No steps defined
               </TableCell>
             </TableRow>
           ) : (
             steps.map((step) => (
-              <TableRow key={step.id}>
-                <TableCell className="font-medium text-center text-primary-600 dark:text-primary-400">
-                  {step.step_number}
-                </TableCell>
-                <TableCell className="text-neutral-700 dark:text-neutral-300">{step.description}</TableCell>
-                <TableCell className="text-neutral-500 dark:text-neutral-400">{step.expected_result || '-'}</TableCell>
-              </TableRow>
+              <Fragment key={step.id}>
+                <TableRow>
+                  <TableCell className="font-medium text-center text-primary-600 dark:text-primary-400">
+                    {step.step_number}
+                  </TableCell>
+                  {step.shared_step ? (
+                    <TableCell colSpan={2} className="text-neutral-700 dark:text-neutral-300">
+                      <div className="flex items-center gap-2">
+                        <LayersIcon className="h-4 w-4 text-primary-500" />
+                        <span className="font-medium">{step.shared_step.name}</span>
+                        <Badge variant="outline" className="text-xs font-normal">
+                          {sharedStepVersionLabel(step.shared_step)}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                  ) : (
+                    <>
+                      <TableCell className="text-neutral-700 dark:text-neutral-300">{step.description}</TableCell>
+                      <TableCell className="text-neutral-500 dark:text-neutral-400">{step.expected_result || '-'}</TableCell>
+                    </>
+                  )}
+                  {showAttachments && (
+                    <TableCell>
+                      <AttachmentList
+                        testCaseId={testCaseId}
+                        attachments={attachments.filter((attachment) => attachment.step_number === step.step_number)}
+                        stepNumber={step.step_number}
+                        editable={editable}
+                        compact
+                      />
+                    </TableCell>
+                  )}
+                </TableRow>
+                {/* The steps of a shared step block, numbered under the step that uses it */}
+                {step.shared_step?.steps.map((item, index) => (
+                  <TableRow key={index} className="bg-neutral-50/50 dark:bg-neutral-900/40">
+                    <TableCell className="text-center text-xs text-neutral-500 dark:text-neutral-400">
+                      {step.step_number}.{index + 1}
+                    </TableCell>
+                    <TableCell className="pl-8 text-neutral-700 dark:text-neutral-300">{item.description}</TableCell>
+                    <TableCell className="text-neutral-500 dark:text-neutral-400">{item.expected_result || '-'}</TableCell>
+                    {showAttachments && <TableCell />}
+                  </TableRow>
+                ))}
+              </Fragment>
             ))
           )}
         </TableBody>
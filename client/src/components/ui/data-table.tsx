@@ -1,13 +1,13 @@
 import { useState } from 'react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { Pagination, PaginationContent, PaginationEllipsis, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Search } from "lucide-react";
 
 type Column<T> = {
   key: string;
-  header: string;
+  header: React.ReactNode;
   cell: (row: T) => React.ReactNode;
   sortable?: boolean;
 };
@@ -23,6 +23,25 @@ interface DataTableProps<T> {
   sortDirection?: 'asc' | 'desc';
   onSort?: (field: string, direction: 'asc' | 'desc') => void;
   noDataMessage?: string;
+  // Server-side mode: when total is given, data is already the current page,
+  // filtered and sorted by the server. The table only reports page and sort
+  // changes through onPageChange and onSort.
+  total?: number;
+  page?: number;
+  onPageChange?: (page: number) => void;
+}
+
+// Page numbers to show around the current page; null marks a gap
+function pageWindow(page: number, totalPages: number): (number | null)[] {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= totalPages; i++) {
+    if (i === 1 || i === totalPages || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
 }
 
 export function DataTable<T extends { id: number | string }>({
@@ -36,14 +55,20 @@ export function DataTable<T extends { id: number | string }>({
   sortDirection = 'asc',
   onSort,
   noDataMessage = 'No data found',
+  total,
+  page: serverPage,
+  onPageChange,
 }: DataTableProps<T>) {
-  const [page, setPage] = useState(1);
+  const serverSide = total !== undefined;
+  const [localPage, setLocalPage] = useState(1);
+  const page = serverSide ? serverPage ?? 1 : localPage;
+  const setPage = (next: number) => (serverSide ? onPageChange?.(next) : setLocalPage(next));
   const [search, setSearch] = useState('');
   const [currentSortField, setCurrentSortField] = useState(sortField);
   const [currentSortDirection, setCurrentSortDirection] = useState(sortDirection);
   
   // Filter data by search term if searchable
-  const filteredData = searchable && search
+  const filteredData = !serverSide && searchable && search
     ? data.filter(item => 
         searchField
           ? String(item[searchField as keyof T]).toLowerCase().includes(search.toLowerCase())
@@ -54,7 +79,7 @@ export function DataTable<T extends { id: number | string }>({
     : data;
   
   // Sort data if sortable
-  const sortedData = currentSortField
+  const sortedData = !serverSide && currentSortField
     ? [...filteredData].sort((a, b) => {
         const valueA = a[currentSortField as keyof T];
         const valueB = b[currentSortField as keyof T];
@@ -67,10 +92,10 @@ export function DataTable<T extends { id: number | string }>({
     : filteredData;
   
   // Calculate pagination
-  const totalPages = Math.ceil(sortedData.length / pageSize);
+  const totalPages = Math.ceil((serverSide ? total : sortedData.length) / pageSize);
   const start = (page - 1) * pageSize;
   const end = start + pageSize;
-  const paginatedData = sortedData.slice(start, end);
+  const paginatedData = serverSide ? sortedData : sortedData.slice(start, end);
   
   // Handle sort
   const handleSort = (field: string) => {
@@ -116,7 +141,7 @@ export function DataTable<T extends { id: number | string }>({
   return (
     <div className="space-y-4">
       {/* Search bar */}
-      {searchable && (
+      {searchable && !serverSide && (
         <div className="relative">
           <Input
             placeholder="Search..."
@@ -201,18 +226,22 @@ export function DataTable<T extends { id: number | string }>({
               />
             </PaginationItem>
             
-            {Array.from({ length: totalPages }).map((_, i) => (
+            {pageWindow(page, totalPages).map((pageNumber, i) => (
               <PaginationItem key={i}>
-                <PaginationLink 
-                  href="#" 
-                  onClick={(e) => {
-                    e.preventDefault();
-                    setPage(i + 1);
-                  }}
-                  is_active={page === i + 1}
-                >
-                  {i + 1}
-                </PaginationLink>
+                {pageNumber === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink 
+                    href="#" 
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(pageNumber);
+                    }}
+                    is_active={page === pageNumber}
+                  >
+                    {pageNumber}
+                  </PaginationLink>
+                )}
               </PaginationItem>
             ))}
             
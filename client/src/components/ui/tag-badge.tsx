@@ -0,0 +1,53 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface TagBadgeProps {
+  tag: string;
+  onRemove?: () => void;
+  className?: string;
+}
+
+const tagColors = [
+  'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-900/50',
+  'bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-900/50',
+  'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-900/50',
+  'bg-purple-50 text-purple-700 border-purple-200 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-900/50',
+  'bg-pink-50 text-pink-700 border-pink-200 dark:bg-pink-900/20 dark:text-pink-400 dark:border-pink-900/50',
+  'bg-teal-50 text-teal-700 border-teal-200 dark:bg-teal-900/20 dark:text-teal-400 dark:border-teal-900/50',
+  'bg-orange-50 text-orange-700 border-orange-200 dark:bg-orange-900/20 dark:text-orange-400 dark:border-orange-900/50',
+  'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900/20 dark:text-indigo-400 dark:border-indigo-900/50',
+];
+
+// The color is derived from the name, so a tag looks the same everywhere
+function getTagClass(tag: string) {
+  let hash = 0;
+  for (let i = 0; i < tag.length; i++) {
+    hash = (hash * 31 + tag.charCodeAt(i)) | 0;
+  }
+  return tagColors[Math.abs(hash) % tagColors.length];
+}
+
+export function TagBadge({ tag, onRemove, className }: TagBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn('font-normal', getTagClass(tag), className)}
+    >
+      {tag}
+      {onRemove && (
+        <button
+          type="button"
+          className="ml-1 rounded-full opacity-60 hover:opacity-100"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+        >
+          <X className="h-3 w-3" />
+          <span className="sr-only">Remove {tag}</span>
+        </button>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+
+// Pending invitation as returned by /api/invitations
+interface Invitation {
+  id: number;
+  email: string;
+  role: string;
+  expires_at: string;
+  created_at: string;
+  invited_by: string | null;
+}
+
+const formatRole = (role: string) =>
+  role.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState('tester');
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/invitations', { email, role });
+      return response.json();
+    },
+    onSuccess: (invitation: Invitation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      toast({
+        title: 'Invitation Sent',
+        description: `An invitation has been emailed to ${invitation.email}`,
+      });
+      setEmail('');
+      setRole('tester');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to send invitation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-neutral-700 dark:text-neutral-300">Invite User</DialogTitle>
+          <DialogDescription className="text-neutral-500 dark:text-neutral-400">
+            The invitee receives a single-use link to choose their own username and password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite-email">Email</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="email@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invite-role">Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger id="invite-role" className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="system_owner">System Owner</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+                <SelectItem value="tester">Tester</SelectItem>
+                <SelectItem value="viewer">Viewer</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => inviteMutation.mutate()}
+            disabled={!email || inviteMutation.isPending}
+            className="bg-primary-600 text-white hover:bg-primary-700 dark:bg-primary-700 dark:hover:bg-primary-600"
+          >
+            {inviteMutation.isPending ? 'Sending...' : 'Send Invitation'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function PendingInvitations() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: invitations, isLoading } = useQuery<Invitation[]>({
+    queryKey: ['/api/invitations'],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/invitations/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/invitations'] });
+      toast({
+        title: 'Invitation Revoked',
+        description: 'The invitation link can no longer be used',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke invitation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!invitations || invitations.length === 0) {
+    return <p className="text-sm text-neutral-500 dark:text-neutral-400">No pending invitations.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {invitations.map((invitation) => (
+        <div key={invitation.id} className="flex justify-between items-center py-2 border-b last:border-b-0 dark:border-neutral-800">
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+              {invitation.email}{' '}
+              <Badge variant="outline" className="ml-1 text-xs">
+                {formatRole(invitation.role)}
+              </Badge>
+            </p>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+              Invited {formatDate(invitation.created_at)}
+              {invitation.invited_by ? ` by ${invitation.invited_by}` : ''} • Expires {formatDate(invitation.expires_at)}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20"
+            onClick={() => revokeMutation.mutate(invitation.id)}
+            disabled={revokeMutation.isPending}
+          >
+            Revoke
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
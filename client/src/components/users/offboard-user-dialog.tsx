@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { User } from './user-table';
+
+interface OffboardUserDialogProps {
+  user: User | null;
+  mode: 'deactivate' | 'delete';
+  // Candidates for the successor; inactive users and the user itself are skipped
+  users: User[];
+  onClose: () => void;
+}
+
+export function OffboardUserDialog({ user, mode, users, onClose }: OffboardUserDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [successorId, setSuccessorId] = useState('');
+
+  const candidates = users.filter((candidate) => candidate.is_active && candidate.id !== user?.id);
+
+  const offboardMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        mode === 'delete' ? 'DELETE' : 'POST',
+        mode === 'delete' ? `/api/users/${user!.id}` : `/api/users/${user!.id}/deactivate`,
+        { successor_id: parseInt(successorId) },
+      );
+      return response.json();
+    },
+    onSuccess: (result: { reassigned: { test_cases: number; bugs: number } }) => {
+      toast({
+        title: 'Success',
+        description:
+          `User ${mode === 'delete' ? 'deleted' : 'deactivated'} successfully. ` +
+          `${result.reassigned.test_cases} test cases and ${result.reassigned.bugs} bugs were reassigned.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to ${mode} user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setSuccessorId('');
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-neutral-700 dark:text-neutral-300">
+            {mode === 'delete' ? 'Delete User' : 'Deactivate User'}
+          </DialogTitle>
+          <DialogDescription className="text-neutral-500 dark:text-neutral-400">
+            Test cases and bugs assigned to {user?.full_name} will be reassigned to the user you choose. Their history is
+            kept, and their sessions and API tokens stop working immediately.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="successor">Successor</Label>
+          <Select value={successorId} onValueChange={setSuccessorId}>
+            <SelectTrigger id="successor" className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+              <SelectValue placeholder="Select a user" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                  {candidate.full_name} (@{candidate.username})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            className="dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => offboardMutation.mutate()}
+            disabled={!successorId || offboardMutation.isPending}
+          >
+            {offboardMutation.isPending
+              ? (mode === 'delete' ? 'Deleting...' : 'Deactivating...')
+              : (mode === 'delete' ? 'Delete User' : 'Deactivate User')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 
 interface Permission {
+  id: string;
   name: string;
   systemOwner: boolean;
   admin: boolean;
@@ -34,7 +35,7 @@ export function RoleTable({
         </TableHeader>
         <TableBody>
           {permissions.map((permission) => (
-            <TableRow key={permission.name} className="hover:bg-neutral-50 dark:hover:bg-neutral-800/50">
+            <TableRow key={permission.id} className="hover:bg-neutral-50 dark:hover:bg-neutral-800/50">
               <TableCell className="font-medium text-neutral-700 dark:text-neutral-300">
                 {permission.name}
               </TableCell>
@@ -43,7 +44,7 @@ export function RoleTable({
                   <Checkbox
                     checked={permission.systemOwner}
                     onCheckedChange={(checked) => 
-                      onPermissionChange(permission.name, 'systemOwner', !!checked)
+                      onPermissionChange(permission.id, 'systemOwner', !!checked)
                     }
                     disabled={true} // System Owner always has all permissions
                   />
@@ -66,7 +67,7 @@ export function RoleTable({
                   <Checkbox
                     checked={permission.admin}
                     onCheckedChange={(checked) => 
-                      onPermissionChange(permission.name, 'admin', !!checked)
+                      onPermissionChange(permission.id, 'admin', !!checked)
                     }
                   />
                 ) : permission.admin ? (
@@ -88,7 +89,7 @@ export function RoleTable({
                   <Checkbox
                     checked={permission.tester}
                     onCheckedChange={(checked) => 
-                      onPermissionChange(permission.name, 'tester', !!checked)
+                      onPermissionChange(permission.id, 'tester', !!checked)
                     }
                   />
                 ) : permission.tester ? (
@@ -110,7 +111,7 @@ export function RoleTable({
                   <Checkbox
                     checked={permission.viewer}
                     onCheckedChange={(checked) => 
-                      onPermissionChange(permission.name, 'viewer', !!checked)
+                      onPermissionChange(permission.id, 'viewer', !!checked)
                     }
                   />
                 ) : permission.viewer ? (
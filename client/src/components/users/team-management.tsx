@@ -0,0 +1,245 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { Trash2, X } from 'lucide-react';
+import type { User } from './user-table';
+
+// Team as returned by /api/teams
+export interface Team {
+  id: number;
+  name: string;
+  description: string | null;
+  members: { id: number; username: string; full_name: string }[];
+}
+
+interface CreateTeamDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CreateTeamDialog({ open, onOpenChange }: CreateTeamDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/teams', { name, description: description || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+      toast({
+        title: 'Success',
+        description: 'Team created successfully',
+      });
+      setName('');
+      setDescription('');
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create team: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-neutral-700 dark:text-neutral-300">Create Team</DialogTitle>
+          <DialogDescription className="text-neutral-500 dark:text-neutral-400">
+            Teams can own folders and be assigned test cases and bugs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="team-name">Name</Label>
+            <Input
+              id="team-name"
+              placeholder="e.g. Payments QA"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="team-description">Description</Label>
+            <Textarea
+              id="team-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="mt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => createMutation.mutate()}
+            disabled={!name || createMutation.isPending}
+            className="bg-primary-600 text-white hover:bg-primary-700 dark:bg-primary-700 dark:hover:bg-primary-600"
+          >
+            {createMutation.isPending ? 'Creating...' : 'Create Team'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TeamListProps {
+  // Candidates for membership; inactive users are skipped
+  users: User[];
+}
+
+export function TeamList({ users }: TeamListProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: teams, isLoading } = useQuery<Team[]>({
+    queryKey: ['/api/teams'],
+  });
+
+  const onError = (action: string) => (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      variant: 'destructive',
+    });
+  };
+
+  const addMemberMutation = useMutation({
+    mutationFn: async ({ teamId, userId }: { teamId: number; userId: number }) => {
+      const response = await apiRequest('POST', `/api/teams/${teamId}/members`, { user_id: userId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+    },
+    onError: onError('add team member'),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async ({ teamId, userId }: { teamId: number; userId: number }) => {
+      const response = await apiRequest('DELETE', `/api/teams/${teamId}/members/${userId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+    },
+    onError: onError('remove team member'),
+  });
+
+  const deleteTeamMutation = useMutation({
+    mutationFn: async (teamId: number) => {
+      const response = await apiRequest('DELETE', `/api/teams/${teamId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/teams'] });
+      toast({
+        title: 'Team Deleted',
+        description: 'Work assigned to the team is now unassigned',
+      });
+    },
+    onError: onError('delete team'),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!teams || teams.length === 0) {
+    return <p className="text-sm text-neutral-500 dark:text-neutral-400">No teams yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {teams.map((team) => {
+        const candidates = users.filter(
+          (user) => user.is_active && !team.members.some((member) => member.id === user.id),
+        );
+
+        return (
+          <div key={team.id} className="py-3 border-b last:border-b-0 dark:border-neutral-800 space-y-2">
+            <div className="flex justify-between items-start">
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">{team.name}</p>
+                {team.description && (
+                  <p className="text-xs text-neutral-500 dark:text-neutral-400">{team.description}</p>
+                )}
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:bg-red-50 hover:text-red-700 dark:text-red-400 dark:hover:bg-red-900/20"
+                onClick={() => deleteTeamMutation.mutate(team.id)}
+                disabled={deleteTeamMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {team.members.map((member) => (
+                <Badge key={member.id} variant="outline" className="text-xs">
+                  {member.full_name}
+                  <button
+                    type="button"
+                    className="ml-1 text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200"
+                    onClick={() => removeMemberMutation.mutate({ teamId: team.id, userId: member.id })}
+                    aria-label={`Remove ${member.full_name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {candidates.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(value) => addMemberMutation.mutate({ teamId: team.id, userId: parseInt(value) })}
+                >
+                  <SelectTrigger className="h-7 w-40 text-xs dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                    <SelectValue placeholder="Add member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((user) => (
+                      <SelectItem key={user.id} value={user.id.toString()}>
+                        {user.full_name} (@{user.username})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
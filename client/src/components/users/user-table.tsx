@@ -10,6 +10,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
+import { OffboardUserDialog } from "@/components/users/offboard-user-dialog";
 
 export interface User {
   id: number;
@@ -20,6 +21,7 @@ export interface User {
   avatar?: string;
   last_login?: string;
   is_active: boolean;
+  locked_until?: string | null;
 }
 
 interface UserTableProps {
@@ -32,6 +34,8 @@ export function UserTable({ users, onEdit, onResetPassword }: UserTableProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [page, setPage] = useState(1);
+  // User being deactivated or deleted, pending the choice of a successor
+  const [offboarding, setOffboarding] = useState<{ user: User; mode: 'deactivate' | 'delete' } | null>(null);
   const pageSize = 10;
   
   // Calculate pagination
@@ -63,61 +67,59 @@ export function UserTable({ users, onEdit, onResetPassword }: UserTableProps) {
     }
   };
   
-  // Delete user mutation
-  const deleteUserMutation = useMutation({
-    mutationFn: async (id: number) => {
-      const response = await apiRequest('DELETE', `/api/users/${id}`);
+  // Toggle user active status mutation
+  const toggleUserStatusMutation = useMutation({
+    mutationFn: async ({ id, is_active }: { id: number, is_active: boolean }) => {
+      const response = await apiRequest('PUT', `/api/users/${id}`, { is_active });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, variables) => {
       toast({
         title: 'Success',
-        description: 'User deleted successfully',
+        description: `User ${variables.is_active ? 'activated' : 'deactivated'} successfully`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
     },
     onError: (error) => {
       toast({
         title: 'Error',
-        description: `Failed to delete user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to update user status: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: 'destructive',
       });
     },
   });
   
-  // Toggle user active status mutation
-  const toggleUserStatusMutation = useMutation({
-    mutationFn: async ({ id, is_active }: { id: number, is_active: boolean }) => {
-      const response = await apiRequest('PUT', `/api/users/${id}`, { is_active });
+  // Unlock user mutation
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/users/${id}/unlock`);
       return response.json();
     },
-    onSuccess: (_, variables) => {
+    onSuccess: () => {
       toast({
         title: 'Success',
-        description: `User ${variables.is_active ? 'activated' : 'deactivated'} successfully`,
+        description: 'User unlocked successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
     },
     onError: (error) => {
       toast({
         title: 'Error',
-        description: `Failed to update user status: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to unlock user: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: 'destructive',
       });
     },
   });
   
-  // Handle delete user
-  const handleDeleteUser = (id: number) => {
-    if (confirm('Are you sure you want to delete this user?')) {
-      deleteUserMutation.mutate(id);
-    }
-  };
+  // A lockout only applies until it expires
+  const isLocked = (user: User) => !!user.locked_until && new Date(user.locked_until).getTime() > Date.now();
   
-  // Handle toggle user status
-  const handleToggleUserStatus = (id: number, currentStatus: boolean) => {
-    if (confirm(`Are you sure you want to ${currentStatus ? 'deactivate' : 'activate'} this user?`)) {
-      toggleUserStatusMutation.mutate({ id, is_active: !currentStatus });
+  // Handle toggle user status; deactivation needs a successor
+  const handleToggleUserStatus = (user: User) => {
+    if (user.is_active) {
+      setOffboarding({ user, mode: 'deactivate' });
+    } else if (confirm('Are you sure you want to activate this user?')) {
+      toggleUserStatusMutation.mutate({ id: user.id, is_active: true });
     }
   };
   
@@ -175,6 +177,14 @@ export function UserTable({ users, onEdit, onResetPassword }: UserTableProps) {
                     >
                       {user.is_active ? 'Active' : 'Inactive'}
                     </Badge>
+                    {isLocked(user) && (
+                      <Badge
+                        className="ml-2 bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300"
+                        title={`Locked until ${new Date(user.locked_until!).toLocaleTimeString()}`}
+                      >
+                        Locked
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell className="text-sm text-neutral-400 dark:text-neutral-500">
                     {formatDate(user.last_login ?? null)}
@@ -222,13 +232,18 @@ export function UserTable({ users, onEdit, onResetPassword }: UserTableProps) {
                               Reset password
                             </DropdownMenuItem>
                           )}
-                          <DropdownMenuItem onClick={() => handleToggleUserStatus(user.id, user.is_active)}>
+                          <DropdownMenuItem onClick={() => handleToggleUserStatus(user)}>
                             {user.is_active ? 'Deactivate' : 'Activate'} user
                           </DropdownMenuItem>
+                          {isLocked(user) && (
+                            <DropdownMenuItem onClick={() => unlockUserMutation.mutate(user.id)}>
+                              Unlock account
+                            </DropdownMenuItem>
+                          )}
                           <DropdownMenuSeparator />
                           <DropdownMenuItem 
                             className="text-red-600 focus:text-red-600 dark:text-red-400 dark:focus:text-red-400"
-                            onClick={() => handleDeleteUser(user.id)}
+                            onClick={() => setOffboarding({ user, mode: 'delete' })}
                           >
                             Delete user
                           </DropdownMenuItem>
@@ -243,6 +258,13 @@ export function UserTable({ users, onEdit, onResetPassword }: UserTableProps) {
         </Table>
       </div>
       
+      <OffboardUserDialog
+        user={offboarding?.user ?? null}
+        mode={offboarding?.mode ?? 'deactivate'}
+        users={users}
+        onClose={() => setOffboarding(null)}
+      />
+      
       {/* Pagination */}
       {totalPages > 1 && (
         <Pagination>
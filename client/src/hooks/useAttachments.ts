@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Attachment } from '@/lib/attachments';
+
+export const attachmentsKey = (testCaseId: number) => [`/api/testcases/${testCaseId}/attachments`];
+
+// Files attached to a test case and its steps, oldest first
+export function useAttachments(testCaseId: number, enabled = true) {
+  const { data, isLoading } = useQuery<Attachment[]>({
+    queryKey: attachmentsKey(testCaseId),
+    enabled: enabled && testCaseId > 0,
+  });
+
+  return {
+    attachments: data ?? [],
+    isLoading,
+  };
+}
@@ -1,4 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
+import { getQueryFn } from '@/lib/queryClient';
 
 interface User {
   id: number;
@@ -7,22 +8,30 @@ interface User {
   full_name: string;
   role: string;
   avatar?: string;
+  permissions: string[];
+  totp_enabled: boolean;
+  // Set while the 2FA policy blocks the API until the user enrolls
+  two_factor_enrollment_required: boolean;
 }
 
 export function useAuth() {
-  const { data: user, isLoading, error, refetch } = useQuery<User>({
+  const { data: user, isLoading, error, refetch } = useQuery<User | null>({
     queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
     retry: false,
     refetchOnWindowFocus: false,
   });
 
   const isAuthenticated = !!user;
 
+  const can = (permission: string) => !!user?.permissions.includes(permission);
+
   return {
     user,
     isLoading,
     error,
     isAuthenticated,
+    can,
     refetch
   };
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { CustomField, CustomFieldEntityType } from '@/lib/custom-fields';
+
+// Custom fields the current project defines for test cases or bugs
+export function useCustomFields(entityType: CustomFieldEntityType, enabled = true) {
+  const { data, isLoading } = useQuery<CustomField[]>({
+    queryKey: ['/api/custom-fields', { entity_type: entityType }],
+    enabled,
+  });
+
+  return {
+    fields: data ?? [],
+    isLoading,
+  };
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SharedStep } from '@/lib/shared-steps';
+
+// Shared step blocks of the current project, by name
+export function useSharedSteps(enabled = true) {
+  const { data, isLoading } = useQuery<SharedStep[]>({
+    queryKey: ['/api/shared-steps'],
+    enabled,
+  });
+
+  return {
+    sharedSteps: data ?? [],
+    isLoading,
+  };
+}
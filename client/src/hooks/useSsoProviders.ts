@@ -0,0 +1,32 @@
+import { useQuery } from '@tanstack/react-query';
+
+interface SsoProvider {
+  id: string;
+  name: string;
+  login_url: string;
+}
+
+interface SsoProvidersResponse {
+  providers: SsoProvider[];
+  // When set, password login, registration and password resets are disabled
+  sso_only: boolean;
+}
+
+export function useSsoProviders() {
+  const { data, isLoading } = useQuery<SsoProvidersResponse>({
+    queryKey: ['/api/auth/sso/providers'],
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  return {
+    providers: data?.providers ?? [],
+    ssoOnly: data?.sso_only ?? false,
+    isLoading,
+  };
+}
+
+// Error passed back by the SSO callback redirect, e.g. /login?sso_error=...
+export function getSsoError(): string {
+  return new URLSearchParams(window.location.search).get('sso_error') ?? '';
+}
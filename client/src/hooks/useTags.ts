@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+
+export type TaggableEntityType = 'test_case' | 'bug';
+
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+// Tags in use in the current project, most used first
+export function useTags(entityType: TaggableEntityType = 'test_case', enabled = true) {
+  const { data, isLoading } = useQuery<TagCount[]>({
+    queryKey: ['/api/tags', { entity_type: entityType }],
+    enabled,
+  });
+
+  return {
+    tags: data ?? [],
+    isLoading,
+  };
+}
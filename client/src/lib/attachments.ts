@@ -0,0 +1,109 @@
+// Files attached to a test case or one of its steps, as returned by
+// /api/testcases/:id/attachments
+export interface Attachment {
+  id: number;
+  project_id: number;
+  test_case_id: number;
+  step_number: number | null;
+  file_name: string;
+  content_type: string;
+  size: number;
+  thumbnail_key: string | null;
+  uploaded_by: number;
+  created_at: string;
+}
+
+// Mirrors the server's allowlist, for the file picker
+export const attachmentAccept = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'application/json',
+  'application/xml',
+  'text/xml',
+].join(',');
+
+const THUMBNAIL_SIZE = 160;
+
+export const attachmentUrl = (attachment: Attachment) => `/api/attachments/${attachment.id}`;
+export const thumbnailUrl = (attachment: Attachment) => `/api/attachments/${attachment.id}/thumbnail`;
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function send(method: string, url: string, body: Blob, contentType: string): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: { 'Content-Type': contentType },
+    body,
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return res;
+}
+
+// Scales an image down to a small JPEG, or resolves to null when the browser
+// cannot decode it
+export function createThumbnail(file: File): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const image = new Image();
+    const url = URL.createObjectURL(file);
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const context = canvas.getContext('2d');
+      if (!context) return resolve(null);
+      // JPEG has no transparency, so transparent pixels become white
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(resolve, 'image/jpeg', 0.8);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    image.src = url;
+  });
+}
+
+// Uploads the file and, for images, a thumbnail rendered in the browser. A
+// failed thumbnail leaves the attachment without one.
+export async function uploadAttachment(testCaseId: number, file: File, stepNumber?: number): Promise<Attachment> {
+  const params = new URLSearchParams({
+    file_name: file.name,
+    content_type: file.type || 'application/octet-stream',
+  });
+  if (stepNumber !== undefined) params.set('step_number', String(stepNumber));
+
+  const res = await send('POST', `/api/testcases/${testCaseId}/attachments?${params}`, file, 'application/octet-stream');
+  let attachment: Attachment = await res.json();
+
+  if (file.type.startsWith('image/')) {
+    const thumbnail = await createThumbnail(file);
+    if (thumbnail) {
+      try {
+        const thumbRes = await send('PUT', `/api/attachments/${attachment.id}/thumbnail`, thumbnail, 'image/jpeg');
+        attachment = await thumbRes.json();
+      } catch (error) {
+        console.warn('Failed to upload thumbnail:', error);
+      }
+    }
+  }
+
+  return attachment;
+}
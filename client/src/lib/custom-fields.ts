@@ -0,0 +1,96 @@
+// Custom field definitions as returned by /api/custom-fields
+export type CustomFieldEntityType = 'test_case' | 'bug';
+export type CustomFieldType = 'text' | 'number' | 'select' | 'multi_select' | 'user' | 'date';
+
+export interface CustomField {
+  id: number;
+  project_id: number;
+  entity_type: CustomFieldEntityType;
+  key: string;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[] | null;
+  required: boolean;
+  position: number;
+}
+
+// Stored values: numbers for number and user fields, lists for multi_select
+// fields and YYYY-MM-DD strings for date fields
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const customFieldTypeLabels: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  multi_select: 'Multi-select',
+  user: 'User',
+  date: 'Date',
+};
+
+interface UserItem {
+  id: number;
+  full_name: string;
+}
+
+// Key suggested for a new field, e.g. "Automation Status" -> "automation_status"
+export function customFieldKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '');
+}
+
+export function formatCustomFieldValue(field: CustomField, value: CustomFieldValue | undefined, users: UserItem[] = []): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.field_type === 'user') {
+    return users.find((user) => user.id === value)?.full_name ?? String(value);
+  }
+  return String(value);
+}
+
+// Days between 1899-12-30 and 1970-01-01, for dates Excel stores as serials
+const EXCEL_EPOCH_OFFSET = 25569;
+
+// Reads a value back from its text form (an Excel cell). Values that cannot
+// be read are passed through as text so the server reports them.
+export function parseCustomFieldValue(field: CustomField, text: string, users: UserItem[] = []): CustomFieldValue | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+
+  switch (field.field_type) {
+    case 'number':
+      return isNaN(Number(trimmed)) ? trimmed : Number(trimmed);
+    case 'multi_select':
+      return trimmed.split(',').map((option) => option.trim()).filter(Boolean);
+    case 'user': {
+      const user = users.find((user) => user.full_name.toLowerCase() === trimmed.toLowerCase());
+      return user?.id ?? (isNaN(Number(trimmed)) ? trimmed : Number(trimmed));
+    }
+    case 'date':
+      if (/^\d+$/.test(trimmed)) {
+        const date = new Date((Number(trimmed) - EXCEL_EPOCH_OFFSET) * 24 * 60 * 60 * 1000);
+        return date.toISOString().slice(0, 10);
+      }
+      return trimmed;
+    default:
+      return trimmed;
+  }
+}
+
+// Excel columns are named after the fields
+export function customFieldsToColumns(fields: CustomField[], values: CustomFieldValues | undefined, users: UserItem[] = []): Record<string, string> {
+  return Object.fromEntries(fields.map((field) => [field.name, formatCustomFieldValue(field, values?.[field.key], users)]));
+}
+
+export function customFieldsFromColumns(fields: CustomField[], columns: Record<string, string> | undefined, users: UserItem[] = []): CustomFieldValues {
+  const values: CustomFieldValues = {};
+  for (const field of fields) {
+    const value = parseCustomFieldValue(field, columns?.[field.name] ?? '', users);
+    if (value !== undefined) {
+      values[field.key] = value;
+    }
+  }
+  return values;
+}
@@ -15,8 +15,12 @@ interface TestCaseExport {
     expected_result?: string;
   }[];
   folder?: string;
+  // Custom field values as cell text, keyed by column (field name)
+  custom_fields?: Record<string, string>;
 }
 
+const TEST_CASE_COLUMNS = ['Title', 'Description', 'Status', 'Priority', 'Type', 'Assigned To', 'Expected Result', 'Folder'];
+
 // Export test cases to Excel
 export function exportTestCasesToExcel(testCases: TestCaseExport[]): void {
   try {
@@ -31,6 +35,7 @@ export function exportTestCasesToExcel(testCases: TestCaseExport[]): void {
         'Assigned To': tc.assigned_to || '',
         'Expected Result': tc.expected_result || '',
         'Folder': tc.folder || '',
+        ...tc.custom_fields,
         // We'll handle steps separately
       }))
     );
@@ -94,6 +99,13 @@ export async function parseTestCasesFromExcel(file: File): Promise<TestCaseExpor
             }))
             .sort((a, b) => a.step_number - b.step_number);
 
+          // Any other column holds a custom field
+          const customFields = Object.fromEntries(
+            Object.entries(row)
+              .filter(([column]) => !TEST_CASE_COLUMNS.includes(column))
+              .map(([column, value]) => [column, String(value)])
+          );
+
           return {
             title: row['Title'] || '',
             description: row['Description'] || '',
@@ -103,6 +115,7 @@ export async function parseTestCasesFromExcel(file: File): Promise<TestCaseExpor
             assigned_to: row['Assigned To'] || '',
             expected_result: row['Expected Result'] || '',
             folder: row['Folder'] || '',
+            custom_fields: customFields,
             steps: testCaseSteps.length > 0 ? testCaseSteps : [{ step_number: 1, description: '', expected_result: '' }]
           };
         });
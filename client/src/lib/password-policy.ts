@@ -0,0 +1,29 @@
+// Password policy as returned by /api/auth/password-policy
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  history: number;
+}
+
+// Human-readable summary shown under password fields
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const classes = [
+    policy.requireUppercase && 'an uppercase letter',
+    policy.requireLowercase && 'a lowercase letter',
+    policy.requireDigit && 'a digit',
+    policy.requireSymbol && 'a symbol',
+  ].filter(Boolean);
+
+  let description = `At least ${policy.minLength} characters`;
+  if (classes.length > 0) {
+    description += `, including ${classes.join(', ')}`;
+  }
+  if (policy.history > 0) {
+    description += `. Must differ from your last ${policy.history} passwords`;
+  }
+
+  return `${description}.`;
+}
@@ -23,13 +23,31 @@ export async function apiRequest(
   return res;
 }
 
+// A query key is the URL, optionally followed by an object of query
+// parameters. Undefined values are left out and arrays are comma-separated.
+function queryUrl(queryKey: readonly unknown[]): string {
+  const [url, params] = queryKey;
+  if (!params || typeof params !== "object") {
+    return url as string;
+  }
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "") continue;
+    search.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  }
+
+  const query = search.toString();
+  return query ? `${url}?${query}` : (url as string);
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    const res = await fetch(queryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -0,0 +1,52 @@
+// Shared step blocks as returned by /api/shared-steps
+export interface SharedStepItem {
+  description: string;
+  expected_result: string | null;
+}
+
+export interface SharedStep {
+  id: number;
+  project_id: number;
+  name: string;
+  description: string | null;
+  steps: SharedStepItem[];
+  version: number;
+  created_by: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SharedStepVersion {
+  id: number;
+  shared_step_id: number;
+  version: number;
+  name: string;
+  steps: SharedStepItem[];
+  created_by: number;
+  created_at: string;
+}
+
+// GET /api/shared-steps/:id
+export interface SharedStepDetails {
+  sharedStep: SharedStep;
+  versions: SharedStepVersion[];
+  usedBy: number[];
+}
+
+// Set by the server on test case steps that use a shared step block, with
+// the steps of the version in use
+export interface ExpandedSharedStep {
+  id: number;
+  name: string;
+  version: number;
+  latest_version: number;
+  pinned: boolean;
+  steps: SharedStepItem[];
+}
+
+export function sharedStepVersionLabel(sharedStep: ExpandedSharedStep): string {
+  if (!sharedStep.pinned) return `v${sharedStep.version}`;
+  return sharedStep.version === sharedStep.latest_version
+    ? `v${sharedStep.version} pinned`
+    : `v${sharedStep.version} pinned, latest v${sharedStep.latest_version}`;
+}
@@ -1,14 +1,25 @@
 import React, { useState } from 'react';
 import { useLocation } from 'wouter';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { getSsoError, useSsoProviders } from '@/hooks/useSsoProviders';
 
 export default function Login() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(getSsoError);
   const [isLoading, setIsLoading] = useState(false);
+  // Second step for accounts with two-factor authentication
+  const [twoFactorRequired, setTwoFactorRequired] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
+  const { providers, ssoOnly } = useSsoProviders();
+  const { data: registration } = useQuery<{ open: boolean }>({
+    queryKey: ['/api/auth/registration'],
+  });
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -22,16 +33,46 @@ export default function Login() {
         body: JSON.stringify({ username, password }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.message || 'Login failed');
       }
 
-      // Login successful, invalidate queries to refetch data with new auth state
-      queryClient.invalidateQueries();
-      
-      // Redirect to dashboard
-      navigate('/');
+      if (data.two_factor_required) {
+        setTwoFactorRequired(true);
+        return;
+      }
+
+      await finishLogin();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred during login');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleTwoFactorSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(useRecoveryCode ? { recovery_code: recoveryCode } : { code }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        // An expired login has to start over with the password
+        if (response.status === 401 && data.message?.includes('expired')) {
+          setTwoFactorRequired(false);
+        }
+        throw new Error(data.message || 'Login failed');
+      }
+
+      await finishLogin();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred during login');
     } finally {
@@ -39,6 +80,83 @@ export default function Login() {
     }
   }
 
+  async function finishLogin() {
+    // Login successful, wait for queries to refetch with the new auth state
+    await queryClient.invalidateQueries();
+    
+    // Redirect to dashboard
+    navigate('/');
+  }
+
+  if (twoFactorRequired) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="w-full max-w-md">
+          <div className="bg-white p-8 rounded-lg shadow-md">
+            <h1 className="text-2xl font-bold text-center mb-6">Two-Factor Authentication</h1>
+            
+            {error && (
+              <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                {error}
+              </div>
+            )}
+            
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {useRecoveryCode ? (
+                <div>
+                  <label htmlFor="recoveryCode" className="block text-sm font-medium text-gray-700">
+                    Recovery code
+                  </label>
+                  <input
+                    id="recoveryCode"
+                    type="text"
+                    value={recoveryCode}
+                    onChange={(e) => setRecoveryCode(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+              ) : (
+                <div className="flex flex-col items-center space-y-2">
+                  <p className="text-sm text-gray-600">Enter the 6-digit code from your authenticator app.</p>
+                  <InputOTP maxLength={6} value={code} onChange={setCode}>
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              
+              <div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+                    isLoading ? 'opacity-70 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {isLoading ? 'Verifying...' : 'Verify'}
+                </button>
+              </div>
+            </form>
+            
+            <div className="mt-4 text-center">
+              <button
+                type="button"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
       <div className="w-full max-w-md">
@@ -51,63 +169,94 @@ export default function Login() {
             </div>
           )}
           
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label htmlFor="username" className="block text-sm font-medium text-gray-700">
-                Username
-              </label>
-              <input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                required
-              />
+          {providers.length > 0 && (
+            <div className="space-y-3 mb-6">
+              {providers.map((provider) => (
+                <a
+                  key={provider.id}
+                  href={provider.login_url}
+                  className="block w-full py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-center text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Sign in with {provider.name}
+                </a>
+              ))}
+              {!ssoOnly && <p className="text-center text-xs text-gray-500">or log in with your password</p>}
             </div>
+          )}
+          
+          {!ssoOnly && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="username" className="block text-sm font-medium text-gray-700">
+                  Username
+                </label>
+                <input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+              </div>
             
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                required
-              />
-            </div>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  required
+                />
+                <div className="mt-1 text-right">
+                  <a 
+                    href="/forgot-password" 
+                    onClick={(e) => {
+                      e.preventDefault();
+                      navigate('/forgot-password');
+                    }}
+                    className="text-sm font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    Forgot password?
+                  </a>
+                </div>
+              </div>
             
-            <div>
-              <button
-                type="submit"
-                disabled={isLoading}
-                className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
-                  isLoading ? 'opacity-70 cursor-not-allowed' : ''
-                }`}
-              >
-                {isLoading ? 'Logging in...' : 'Log in'}
-              </button>
-            </div>
-          </form>
+              <div>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+                    isLoading ? 'opacity-70 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {isLoading ? 'Logging in...' : 'Log in'}
+                </button>
+              </div>
+            </form>
+          )}
           
-          <div className="mt-4 text-center">
-            <p className="text-sm text-gray-600">
-              Don't have an account?{' '}
-              <a 
-                href="/register" 
-                onClick={(e) => {
-                  e.preventDefault();
-                  navigate('/register');
-                }}
-                className="font-medium text-blue-600 hover:text-blue-500"
-              >
-                Register here
-              </a>
-            </p>
-          </div>
+          {registration?.open && (
+            <div className="mt-4 text-center">
+              <p className="text-sm text-gray-600">
+                Don't have an account?{' '}
+                <a 
+                  href="/register" 
+                  onClick={(e) => {
+                    e.preventDefault();
+                    navigate('/register');
+                  }}
+                  className="font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Register here
+                </a>
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,13 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+
+// Invitation details as returned by /api/auth/invitations/:token
+interface Invitation {
+  email: string;
+  role: string;
+  expires_at: string;
+}
 
 export default function Register() {
   const [username, setUsername] = useState('');
@@ -10,6 +18,24 @@ export default function Register() {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [, navigate] = useLocation();
+  const inviteToken = new URLSearchParams(window.location.search).get('invite');
+
+  const { data: registration } = useQuery<{ open: boolean }>({
+    queryKey: ['/api/auth/registration'],
+  });
+
+  const { data: invitation, error: invitationError, isLoading: invitationLoading } = useQuery<Invitation>({
+    queryKey: [`/api/auth/invitations/${inviteToken}`],
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  // The invitation decides the email address
+  useEffect(() => {
+    if (invitation) {
+      setEmail(invitation.email);
+    }
+  }, [invitation]);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -33,7 +59,8 @@ export default function Register() {
           password,
           confirm_password,
           full_name,
-          role: 'tester' // Default role
+          role: 'tester', // Default role, invitations carry their own
+          ...(inviteToken ? { invite_token: inviteToken } : {}),
         }),
       });
 
@@ -52,12 +79,51 @@ export default function Register() {
     }
   }
 
+  // Without a usable invitation the form is only shown while registration is open
+  const closedMessage = inviteToken
+    ? invitationError
+      ? 'This invitation is invalid or has expired. Ask an administrator to send a new one.'
+      : null
+    : registration && !registration.open
+      ? 'Registration is by invitation only. Ask an administrator to invite you.'
+      : null;
+
+  if (closedMessage || (inviteToken && invitationLoading)) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+        <div className="w-full max-w-md">
+          <div className="bg-white p-8 rounded-lg shadow-md text-center">
+            <h1 className="text-2xl font-bold mb-4">Register for Test Sphere</h1>
+            <p className="text-sm text-gray-600 mb-4">{closedMessage ?? 'Checking your invitation...'}</p>
+            <a
+              href="/login"
+              onClick={(e) => {
+                e.preventDefault();
+                navigate('/login');
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to login
+            </a>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
       <div className="w-full max-w-md">
         <div className="bg-white p-8 rounded-lg shadow-md">
           <h1 className="text-2xl font-bold text-center mb-6">Register for Test Sphere</h1>
           
+          {invitation && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded text-sm">
+              You have been invited as {invitation.role.replace('_', ' ')}. Choose a username and password to finish
+              setting up your account.
+            </div>
+          )}
+          
           {error && (
             <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
               {error}
@@ -88,7 +154,10 @@ export default function Register() {
                 type="email"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                readOnly={!!invitation}
+                className={`mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+                  invitation ? 'bg-gray-100 text-gray-500' : ''
+                }`}
                 required
               />
             </div>
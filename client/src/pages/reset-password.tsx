@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useLocation } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { PasswordPolicy, describePasswordPolicy } from '@/lib/password-policy';
+
+export default function ResetPassword() {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirm_password, setconfirm_password] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [, navigate] = useLocation();
+
+  // The token comes from the link in the reset email
+  const token = new URLSearchParams(window.location.search).get('token') ?? '';
+
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+
+    // Basic validation
+    if (newPassword !== confirm_password) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          token,
+          new_password: newPassword,
+          confirm_password,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Password reset failed');
+      }
+
+      // Reset successful, redirect to login
+      alert('Your password has been reset. Please log in.');
+      navigate('/login');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while resetting your password');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+      <div className="w-full max-w-md">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h1 className="text-2xl font-bold text-center mb-6">Choose a New Password</h1>
+
+          {!token ? (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              This reset link is incomplete. Please use the link from your email.
+            </div>
+          ) : (
+            <>
+              {error && (
+                <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                  {error}
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700">
+                    New Password
+                  </label>
+                  <input
+                    id="newPassword"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                  {passwordPolicy && (
+                    <p className="mt-1 text-xs text-gray-500">{describePasswordPolicy(passwordPolicy)}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor="confirm_password" className="block text-sm font-medium text-gray-700">
+                    Confirm New Password
+                  </label>
+                  <input
+                    id="confirm_password"
+                    type="password"
+                    value={confirm_password}
+                    onChange={(e) => setconfirm_password(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <button
+                    type="submit"
+                    disabled={isLoading}
+                    className={`w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
+                      isLoading ? 'opacity-70 cursor-not-allowed' : ''
+                    }`}
+                  >
+                    {isLoading ? 'Resetting...' : 'Reset password'}
+                  </button>
+                </div>
+              </form>
+            </>
+          )}
+
+          <div className="mt-4 text-center">
+            <a
+              href="/login"
+              onClick={(e) => {
+                e.preventDefault();
+                navigate('/login');
+              }}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Back to login
+            </a>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
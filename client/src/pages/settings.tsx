@@ -13,11 +13,48 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Sun, Moon, LaptopIcon, KeyRound, Shield, DatabaseIcon, Share2 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { formatRelativeTime } from '@/lib/utils';
+import { Skeleton } from '@/components/ui/skeleton';
+import { PasswordPolicy, describePasswordPolicy } from '@/lib/password-policy';
+import { TwoFactorSetup } from '@/components/auth/two-factor-setup';
+import { ApiTokens } from '@/components/settings/api-tokens';
+import { CustomFieldSettings } from '@/components/settings/custom-fields';
+import { useAuth } from '@/hooks/useAuth';
+import { useSsoProviders } from '@/hooks/useSsoProviders';
+
+// Admin-managed settings as returned by /api/settings
+interface SystemSettings {
+  require_2fa_roles: string[];
+  sso_only: boolean;
+  allow_registration: boolean;
+  trash_retention_days: number;
+}
+
+const twoFactorPolicyRoles = [
+  { role: 'system_owner', label: 'System Owners' },
+  { role: 'admin', label: 'Admins' },
+  { role: 'tester', label: 'Testers' },
+  { role: 'viewer', label: 'Viewers' },
+];
+
+// Signed-in session as returned by /api/auth/sessions
+interface SessionEntry {
+  id: number;
+  device: string;
+  ip_address: string | null;
+  created_at: string;
+  expires_at: string;
+  current: boolean;
+}
 
 export default function Settings() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
   
   // State for form fields
   const [profileForm, setProfileForm] = useState({
@@ -53,11 +90,57 @@ export default function Settings() {
     });
   };
   
+  // Password policy, shown as a hint under the new password field
+  const { data: passwordPolicy } = useQuery<PasswordPolicy>({
+    queryKey: ['/api/auth/password-policy'],
+  });
+  
+  const passwordMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          current_password: passwordForm.currentPassword,
+          new_password: passwordForm.newPassword,
+          confirm_password: passwordForm.confirm_password,
+        }),
+      });
+      
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update password');
+      }
+      return data;
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Password Updated',
+        description: 'Your password has been updated and your other sessions were signed out',
+      });
+      
+      // Reset password fields
+      setPasswordForm({
+        currentPassword: '',
+        newPassword: '',
+        confirm_password: ''
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Password Error',
+        description: error instanceof Error ? error.message : 'Failed to update password',
+        variant: 'destructive',
+      });
+    },
+  });
+  
   // Handle password form update
   const handlePasswordUpdate = (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Simple validation
+    // Simple validation; the password policy is enforced by the server
     if (passwordForm.newPassword !== passwordForm.confirm_password) {
       toast({
         title: 'Password Error',
@@ -67,26 +150,87 @@ export default function Settings() {
       return;
     }
     
-    if (passwordForm.newPassword.length < 6) {
+    passwordMutation.mutate();
+  };
+  
+  // Signed-in sessions
+  const { data: sessions, isLoading: sessionsLoading } = useQuery<SessionEntry[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+  
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (session: SessionEntry) => {
+      const response = await apiRequest('DELETE', `/api/auth/sessions/${session.id}`);
+      return response.json();
+    },
+    onSuccess: (_data, session) => {
+      // Revoking the current session signs this browser out as well
+      queryClient.invalidateQueries({
+        queryKey: session.current ? ['/api/auth/me'] : ['/api/auth/sessions'],
+      });
+    },
+    onError: (error) => {
       toast({
-        title: 'Password Error',
-        description: 'Password must be at least 6 characters long',
+        title: 'Error',
+        description: `Failed to sign out session: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: 'destructive',
       });
-      return;
-    }
-    
-    // API call would go here
-    toast({
-      title: 'Password Updated',
-      description: 'Your password has been updated successfully',
-    });
-    
-    // Reset password fields
-    setPasswordForm({
-      currentPassword: '',
-      newPassword: '',
-      confirm_password: ''
+    },
+  });
+  
+  const revokeOtherSessionsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', '/api/auth/sessions');
+      return response.json();
+    },
+    onSuccess: (data: { revoked: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: 'Sessions Signed Out',
+        description: `${data.revoked} other session(s) have been signed out`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to sign out sessions: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const { providers: ssoProviders } = useSsoProviders();
+  
+  // System-wide 2FA policy, editable by system owners
+  const { data: systemSettings } = useQuery<SystemSettings>({
+    queryKey: ['/api/settings'],
+    enabled: can('system.configure'),
+  });
+  
+  const settingsMutation = useMutation({
+    mutationFn: async (changes: Partial<SystemSettings>) => {
+      const response = await apiRequest('PUT', '/api/settings', changes);
+      return response.json();
+    },
+    onSuccess: (settings: SystemSettings) => {
+      queryClient.setQueryData(['/api/settings'], settings);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sso/providers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/registration'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update settings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+  
+  const handleTwoFactorPolicyToggle = (role: string, required: boolean) => {
+    const roles = systemSettings?.require_2fa_roles ?? [];
+    settingsMutation.mutate({
+      require_2fa_roles: required ? [...roles, role] : roles.filter(r => r !== role),
     });
   };
   
@@ -118,12 +262,13 @@ export default function Settings() {
         <main className="flex-1 overflow-y-auto p-4 sm:p-6">
           <div className="space-y-6 max-w-4xl mx-auto">
             <Tabs defaultValue="profile" className="w-full">
-              <TabsList className="grid grid-cols-5 mb-6">
+              <TabsList className={`grid ${can('project.manage') ? 'grid-cols-6' : 'grid-cols-5'} mb-6`}>
                 <TabsTrigger value="profile">Profile</TabsTrigger>
                 <TabsTrigger value="security">Security</TabsTrigger>
                 <TabsTrigger value="appearance">Appearance</TabsTrigger>
                 <TabsTrigger value="notifications">Notifications</TabsTrigger>
                 <TabsTrigger value="api">API</TabsTrigger>
+                {can('project.manage') && <TabsTrigger value="fields">Fields</TabsTrigger>}
               </TabsList>
               
               {/* Profile Tab */}
@@ -233,6 +378,11 @@ export default function Settings() {
                             onChange={e => setPasswordForm({...passwordForm, newPassword: e.target.value})}
                             className="dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
                           />
+                          {passwordPolicy && (
+                            <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                              {describePasswordPolicy(passwordPolicy)}
+                            </p>
+                          )}
                         </div>
                         <div className="space-y-2">
                           <Label htmlFor="confirm_password">Confirm New Password</Label>
@@ -249,9 +399,10 @@ export default function Settings() {
                         <Button 
                           type="submit"
                           className="bg-primary-600 hover:bg-primary-700 text-white dark:bg-primary-700 dark:hover:bg-primary-600"
+                          disabled={passwordMutation.isPending}
                         >
                           <KeyRound className="h-4 w-4 mr-2" />
-                          Update Password
+                          {passwordMutation.isPending ? 'Updating...' : 'Update Password'}
                         </Button>
                       </div>
                     </form>
@@ -259,17 +410,143 @@ export default function Settings() {
                     <Separator className="my-6" />
                     
                     <div>
-                      <h3 className="text-lg font-medium text-neutral-700 mb-4 dark:text-neutral-300">Session Management</h3>
-                      <div className="space-y-2">
-                        <div className="flex justify-between items-center py-2">
+                      <h3 className="text-lg font-medium text-neutral-700 mb-4 dark:text-neutral-300">Two-Factor Authentication</h3>
+                      <TwoFactorSetup />
+                    </div>
+                    
+                    {can('system.configure') && systemSettings && (
+                      <>
+                        <Separator className="my-6" />
+                        
+                        <div>
+                          <h3 className="text-lg font-medium text-neutral-700 mb-1 dark:text-neutral-300">Two-Factor Policy</h3>
+                          <p className="text-sm text-neutral-500 mb-4 dark:text-neutral-400">
+                            Users with these roles must set up two-factor authentication before they can continue.
+                          </p>
+                          <div className="space-y-3">
+                            {twoFactorPolicyRoles.map(({ role, label }) => (
+                              <div key={role} className="flex items-center justify-between">
+                                <Label htmlFor={`require2fa-${role}`}>{label}</Label>
+                                <Switch 
+                                  id={`require2fa-${role}`}
+                                  checked={systemSettings.require_2fa_roles.includes(role)}
+                                  onCheckedChange={(checked) => handleTwoFactorPolicyToggle(role, checked)}
+                                  disabled={settingsMutation.isPending}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                        
+                        <Separator className="my-6" />
+                        
+                        <div className="flex items-center justify-between">
                           <div>
-                            <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Current Session</p>
-                            <p className="text-xs text-neutral-500 dark:text-neutral-400">Started 2 hours ago • Chrome on Windows</p>
+                            <h3 className="text-lg font-medium text-neutral-700 mb-1 dark:text-neutral-300">Self-Registration</h3>
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                              Let anyone create an account. When off, new users need an invitation.
+                            </p>
                           </div>
-                          <Button variant="outline" className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20">
-                            Sign Out
-                          </Button>
+                          <Switch 
+                            id="allowRegistration"
+                            checked={systemSettings.allow_registration}
+                            onCheckedChange={(checked) => settingsMutation.mutate({ allow_registration: checked })}
+                            disabled={settingsMutation.isPending}
+                          />
                         </div>
+                        
+                        <Separator className="my-6" />
+                        
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <h3 className="text-lg font-medium text-neutral-700 mb-1 dark:text-neutral-300">Trash Retention</h3>
+                            <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                              Days deleted test cases and folders stay in the trash before they are removed for good.
+                            </p>
+                          </div>
+                          <Input
+                            key={systemSettings.trash_retention_days}
+                            id="trashRetentionDays"
+                            type="number"
+                            min={1}
+                            max={3650}
+                            className="w-24"
+                            defaultValue={systemSettings.trash_retention_days}
+                            onBlur={(e) => {
+                              const days = parseInt(e.target.value);
+                              if (days >= 1 && days <= 3650 && days !== systemSettings.trash_retention_days) {
+                                settingsMutation.mutate({ trash_retention_days: days });
+                              }
+                            }}
+                            disabled={settingsMutation.isPending}
+                          />
+                        </div>
+                        
+                        {ssoProviders.length > 0 && (
+                          <>
+                            <Separator className="my-6" />
+                            
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h3 className="text-lg font-medium text-neutral-700 mb-1 dark:text-neutral-300">Single Sign-On Only</h3>
+                                <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                                  Hide password login and registration. Everyone signs in through {ssoProviders.map(p => p.name).join(', ')}.
+                                </p>
+                              </div>
+                              <Switch 
+                                id="ssoOnly"
+                                checked={systemSettings.sso_only}
+                                onCheckedChange={(checked) => settingsMutation.mutate({ sso_only: checked })}
+                                disabled={settingsMutation.isPending}
+                              />
+                            </div>
+                          </>
+                        )}
+                      </>
+                    )}
+                    
+                    <Separator className="my-6" />
+                    
+                    <div>
+                      <div className="flex justify-between items-center mb-4">
+                        <h3 className="text-lg font-medium text-neutral-700 dark:text-neutral-300">Session Management</h3>
+                        {sessions && sessions.some(session => !session.current) && (
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => revokeOtherSessionsMutation.mutate()}
+                            disabled={revokeOtherSessionsMutation.isPending}
+                          >
+                            Sign Out Other Sessions
+                          </Button>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        {sessionsLoading ? (
+                          <Skeleton className="h-12 w-full" />
+                        ) : (
+                          sessions?.map(session => (
+                            <div key={session.id} className="flex justify-between items-center py-2">
+                              <div>
+                                <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">
+                                  {session.current ? 'Current Session' : session.device}
+                                </p>
+                                <p className="text-xs text-neutral-500 dark:text-neutral-400">
+                                  Started {formatRelativeTime(session.created_at)} • {session.device}
+                                  {session.ip_address && ` • ${session.ip_address}`}
+                                </p>
+                              </div>
+                              <Button 
+                                variant="outline" 
+                                className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700 dark:border-red-900/50 dark:text-red-400 dark:hover:bg-red-900/20"
+                                onClick={() => revokeSessionMutation.mutate(session)}
+                                disabled={revokeSessionMutation.isPending}
+                              >
+                                Sign Out
+                              </Button>
+                            </div>
+                          ))
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -489,9 +766,24 @@ export default function Settings() {
                         </Button>
                       </div>
                     </form>
+                    
+                    <Separator className="my-6" />
+                    
+                    <ApiTokens />
                   </CardContent>
                 </Card>
               </TabsContent>
+              
+              {/* Custom Fields Tab */}
+              {can('project.manage') && (
+                <TabsContent value="fields">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <CustomFieldSettings />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
             </Tabs>
           </div>
         </main>
@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Sidebar } from '@/components/layout/sidebar';
+import { Navbar } from '@/components/layout/navbar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { useSharedSteps } from '@/hooks/useSharedSteps';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDateTime, formatRelativeTime } from '@/lib/utils';
+import type { SharedStep, SharedStepDetails, SharedStepItem } from '@/lib/shared-steps';
+import { History, LayersIcon, PlusIcon, Trash2Icon } from 'lucide-react';
+
+const emptyStep = (): SharedStepItem => ({ description: '', expected_result: '' });
+
+// Library of step blocks that test cases reference. Editing a block saves a
+// new version, which every test case that does not pin an older one uses.
+export default function SharedSteps() {
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+
+  const { sharedSteps, isLoading } = useSharedSteps();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // The shared step being edited, or null while creating one
+  const [editing, setEditing] = useState<SharedStep | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [steps, setSteps] = useState<SharedStepItem[]>([emptyStep()]);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+
+  const { data: history } = useQuery<SharedStepDetails>({
+    queryKey: [`/api/shared-steps/${historyId}`],
+    enabled: historyId !== null,
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name,
+        description: description || null,
+        steps: steps.filter((step) => step.description.trim()),
+      };
+      const response = editing
+        ? await apiRequest('PUT', `/api/shared-steps/${editing.id}`, body)
+        : await apiRequest('POST', '/api/shared-steps', body);
+      return response.json();
+    },
+    onSuccess: (sharedStep: SharedStep) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shared-steps'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/shared-steps/${sharedStep.id}`] });
+      // Test cases show the new contents
+      queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
+      toast({
+        title: editing ? 'Shared Step Updated' : 'Shared Step Created',
+        description: `${sharedStep.name} is at version ${sharedStep.version}`,
+      });
+      setDialogOpen(false);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/shared-steps/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shared-steps'] });
+    },
+    onError,
+  });
+
+  const openDialog = (sharedStep: SharedStep | null) => {
+    setEditing(sharedStep);
+    setName(sharedStep?.name ?? '');
+    setDescription(sharedStep?.description ?? '');
+    setSteps(sharedStep ? sharedStep.steps.map((step) => ({ ...step, expected_result: step.expected_result ?? '' })) : [emptyStep()]);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (sharedStep: SharedStep) => {
+    if (confirm(`Delete the shared step "${sharedStep.name}"?`)) {
+      deleteMutation.mutate(sharedStep.id);
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<SharedStepItem>) =>
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+
+  return (
+    <div className="min-h-screen flex bg-neutral-50 dark:bg-neutral-900">
+      <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Shared Steps" onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+
+        <main className="flex-1 overflow-y-auto p-4 sm:p-6">
+          <div className="space-y-6">
+            <div className="flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-medium text-neutral-500 dark:text-neutral-300">Shared Steps</h2>
+                <CardDescription className="mt-1">
+                  Steps kept in one place and added to test cases with "Add Shared Step". Each edit is a new version; test cases use
+                  the latest one unless they pin a version.
+                </CardDescription>
+              </div>
+              {can('testcase.create') && (
+                <Button onClick={() => openDialog(null)}>
+                  <PlusIcon className="h-4 w-4 mr-1" /> New Shared Step
+                </Button>
+              )}
+            </div>
+
+            <Card className="shadow-sm border dark:border-neutral-800">
+              <CardContent className="pt-6">
+                {isLoading ? (
+                  <Skeleton className="h-24 w-full" />
+                ) : sharedSteps.length === 0 ? (
+                  <p className="text-sm text-neutral-400 dark:text-neutral-500">No shared steps yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Steps</TableHead>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Updated</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sharedSteps.map((sharedStep) => (
+                        <TableRow key={sharedStep.id}>
+                          <TableCell>
+                            <div className="flex items-center gap-2 font-medium text-neutral-700 dark:text-neutral-300">
+                              <LayersIcon className="h-4 w-4 text-primary-500" />
+                              {sharedStep.name}
+                            </div>
+                            {sharedStep.description && (
+                              <div className="text-xs text-neutral-400 dark:text-neutral-500">{sharedStep.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-neutral-500 dark:text-neutral-400">{sharedStep.steps.length}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">v{sharedStep.version}</Badge>
+                          </TableCell>
+                          <TableCell className="text-sm text-neutral-500 dark:text-neutral-400">
+                            {formatRelativeTime(sharedStep.updated_at)}
+                          </TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button variant="outline" size="sm" onClick={() => setHistoryId(sharedStep.id)}>
+                              <History className="h-4 w-4 mr-1" /> History
+                            </Button>
+                            {can('testcase.edit') && (
+                              <Button variant="outline" size="sm" onClick={() => openDialog(sharedStep)}>
+                                Edit
+                              </Button>
+                            )}
+                            {can('testcase.delete') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700 dark:text-red-400"
+                                disabled={deleteMutation.isPending}
+                                onClick={() => handleDelete(sharedStep)}
+                              >
+                                <Trash2Icon className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Shared Step' : 'New Shared Step'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? `Saving creates version ${editing.version + 1}. Test cases pinned to an older version keep it.`
+                : 'A named block of steps that test cases can reuse.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="shared-step-name">Name</Label>
+              <Input id="shared-step-name" placeholder="e.g. Log in as admin" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shared-step-description">Description</Label>
+              <Textarea id="shared-step-description" rows={2} value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Steps</Label>
+              <div className="border border-neutral-200 rounded-md p-3 space-y-3 dark:border-neutral-800">
+                {steps.map((step, index) => (
+                  <div key={index} className="flex items-start">
+                    <span className="mt-2 bg-primary-50 text-primary-600 h-5 w-5 flex-shrink-0 rounded-full flex items-center justify-center text-xs dark:bg-primary-900 dark:text-primary-400">
+                      {index + 1}
+                    </span>
+                    <div className="ml-3 flex-1 space-y-2">
+                      <Input
+                        placeholder="Enter step description..."
+                        value={step.description}
+                        onChange={(e) => updateStep(index, { description: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Expected result for this step (optional)"
+                        value={step.expected_result ?? ''}
+                        onChange={(e) => updateStep(index, { expected_result: e.target.value })}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="ml-2 mt-1 text-neutral-400 hover:text-neutral-500"
+                      disabled={steps.length === 1}
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                    >
+                      <Trash2Icon className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSteps([...steps, emptyStep()])}
+                  className="flex items-center text-primary-600 text-sm font-medium hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" /> Add Step
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={!name.trim() || !steps.some((step) => step.description.trim()) || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Saving...' : editing ? 'Save New Version' : 'Create Shared Step'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyId !== null} onOpenChange={(open) => !open && setHistoryId(null)}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{history?.sharedStep.name ?? 'Shared Step'} History</DialogTitle>
+            <DialogDescription>
+              {history ? `Used by ${history.usedBy.length} test case(s).` : 'Loading...'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {[...(history?.versions ?? [])].reverse().map((version) => (
+              <div key={version.id} className="rounded-md border border-neutral-200 p-3 dark:border-neutral-800">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={version.version === history?.sharedStep.version ? 'default' : 'outline'}>v{version.version}</Badge>
+                    <span className="text-sm font-medium text-neutral-700 dark:text-neutral-300">{version.name}</span>
+                  </div>
+                  <span className="text-xs text-neutral-400">{formatDateTime(version.created_at)}</span>
+                </div>
+                <ol className="list-decimal pl-5 space-y-1 text-sm text-neutral-600 dark:text-neutral-400">
+                  {version.steps.map((step, index) => (
+                    <li key={index}>
+                      {step.description}
+                      {step.expected_result && <span className="text-neutral-400"> → {step.expected_result}</span>}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
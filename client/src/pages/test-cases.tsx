@@ -2,18 +2,21 @@ import { useState } from 'react';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Navbar } from '@/components/layout/navbar';
 import { Button } from '@/components/ui/button';
-import { Plus, FolderInput, Download, Bot } from 'lucide-react';
+import { Plus, FolderInput, Download, Bot, Tags } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { TestCaseTable } from '@/components/test-cases/test-case-table';
 import { CreateTestModal } from '@/components/test-cases/create-test-modal';
 import { ImportModal } from '@/components/test-cases/import-modal';
 import { AIGenerateModal } from '@/components/test-cases/ai-generate-modal';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { exportTestCasesToExcel } from '@/lib/excel';
+import { customFieldsToColumns, type CustomFieldValues } from '@/lib/custom-fields';
+import { useCustomFields } from '@/hooks/useCustomFields';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card } from '@/components/ui/card';
-import { ClipboardCheckIcon, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ClipboardCheckIcon } from 'lucide-react';
 
 interface TestCaseStep {
   step_number: number;
@@ -32,8 +35,19 @@ interface TestCaseItem {
   expected_result?: string;
   steps?: TestCaseStep[];
   folderId?: number;
+  updated_at?: string;
+  custom_fields?: CustomFieldValues;
+  tags?: string[];
 }
 
+// Paged response of /api/testcases
+interface TestCasePage {
+  items: TestCaseItem[];
+  total: number;
+}
+
+const PAGE_SIZE = 25;
+
 interface FolderItem {
   id: number;
   name: string;
@@ -48,17 +62,56 @@ export default function TestCases() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [filterStatus, setFilterStatus] = useState('all');
   const [filterFolder, setFilterFolder] = useState('all');
+  const [filterPriority, setFilterPriority] = useState('all');
+  const [filterType, setFilterType] = useState('all');
+  // Selected option per select-type custom field, keyed by field key
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
+  // Tag expression such as "smoke AND NOT flaky", applied on Enter or blur
+  const [tagFilterText, setTagFilterText] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState('-updated_at');
   const [createModalOpen, setCreateModalOpen] = useState(false);
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [aiGenerateModalOpen, setAIGenerateModalOpen] = useState(false);
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
+  const { fields: customFields } = useCustomFields('test_case');
+  const filterableCustomFields = customFields.filter((field) => field.field_type === 'select' || field.field_type === 'multi_select');
+
+  // Filters shared by the paged list and the export
+  const filters = {
+    status: filterStatus !== 'all' ? filterStatus : undefined,
+    priority: filterPriority !== 'all' ? filterPriority : undefined,
+    type: filterType !== 'all' ? filterType : undefined,
+    folderId: filterFolder !== 'all' ? parseInt(filterFolder) : undefined,
+    tags: tagFilter || undefined,
+    ...Object.fromEntries(
+      Object.entries(customFieldFilters)
+        .filter(([, value]) => value !== 'all')
+        .map(([key, value]) => [`cf[${key}]`, value])
+    ),
+  };
+  const hasFilters = Object.values(filters).some((value) => value !== undefined);
 
-  // Fetch test cases
-  const { data: testCases, isLoading: testCasesLoading } = useQuery<TestCaseItem[]>({
-    queryKey: ['/api/testcases', { status: filterStatus !== 'all' ? filterStatus : undefined, folderId: filterFolder !== 'all' ? parseInt(filterFolder) : undefined }],
+  // Fetch the current page of test cases, keeping the previous page on screen while the next one loads
+  const { data: testCasePage, isLoading: testCasesLoading, isError: testCasesError } = useQuery<TestCasePage>({
+    queryKey: ['/api/testcases', { ...filters, sort, page, limit: PAGE_SIZE }],
+    placeholderData: keepPreviousData,
   });
 
+  // Any filter change starts over at the first page
+  const changeFilter = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setPage(1);
+  };
+
+  const applyTagFilter = () => {
+    if (tagFilterText.trim() !== tagFilter) {
+      changeFilter(setTagFilter)(tagFilterText.trim());
+    }
+  };
+
   // Fetch folders
   const { data: folders, isLoading: foldersLoading, isError: foldersError } = useQuery<FolderItem[]>({
     queryKey: ['/api/folders'],
@@ -69,9 +122,12 @@ export default function TestCases() {
     queryKey: ['/api/users'],
   });
 
-  // Handle export test cases
-  const handleExport = () => {
-    if (!testCases || testCases.length === 0) return;
+  // Handle export test cases; exports every case matching the filters, not just the current page
+  const handleExport = async () => {
+    const testCases = await queryClient.fetchQuery<TestCaseItem[]>({
+      queryKey: ['/api/testcases', { ...filters, sort }],
+    });
+    if (testCases.length === 0) return;
 
     const testCasesToExport = testCases.map((testCase) => {
       const assigneeName = users?.find((user) => user.id === testCase.assigned_to)?.full_name;
@@ -89,7 +145,8 @@ export default function TestCases() {
           ...step,
           step_number: index + 1,
         })) : [],
-        folder: folderName
+        folder: folderName,
+        custom_fields: customFieldsToColumns(customFields, testCase.custom_fields, users)
       };
     });
 
@@ -135,40 +192,6 @@ export default function TestCases() {
     </Card>
   );
 
-  const TestCaseRow = ({ testCase }: any) => (
-    <div
-      key={testCase.id}
-      className="border p-4 rounded hover:bg-gray-50 cursor-pointer"
-      onClick={() => navigate(`/test-cases/${testCase.id}/details`)}
-    >
-      <div className="flex justify-between items-start">
-        <div>
-          <div className="flex items-center space-x-2">
-            <h3 className="font-semibold">{testCase.title}</h3>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                if (confirm('Are you sure you want to delete this test case?')) {
-                  fetch(`/api/testcases/${testCase.id}`, { method: 'DELETE' })
-                    .then(() => {
-                      queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
-                    });
-                }
-              }}
-              className="text-red-500 hover:text-red-700"
-            >
-              <Trash2 size={16} />
-            </button>
-          </div>
-          <p className="text-sm text-gray-600">{testCase.description}</p>
-        </div>
-        <div className="flex items-center space-x-2">
-          {/* Add more details here if needed */}
-        </div>
-      </div>
-    </div>
-  );
-
   return (
     <div className="min-h-screen flex bg-neutral-50 dark:bg-neutral-900">
       <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} />
@@ -198,7 +221,7 @@ export default function TestCases() {
                   onClick={handleExport}
                   variant="outline"
                   className="border-neutral-200 dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
-                  disabled={!testCases || testCases.length === 0}
+                  disabled={!testCasePage || testCasePage.total === 0}
                 >
                   <Download className="h-4 w-4 mr-2" /> Export
                 </Button>
@@ -212,7 +235,7 @@ export default function TestCases() {
               <div className="flex items-center space-x-3">
                 <Select
                   value={filterStatus}
-                  onValueChange={setFilterStatus}
+                  onValueChange={changeFilter(setFilterStatus)}
                 >
                   <SelectTrigger className="w-full min-w-[140px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
                     <SelectValue placeholder="All Status" />
@@ -225,9 +248,39 @@ export default function TestCases() {
                     <SelectItem value="pending">Pending</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select
+                  value={filterPriority}
+                  onValueChange={changeFilter(setFilterPriority)}
+                >
+                  <SelectTrigger className="w-full min-w-[140px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                    <SelectValue placeholder="All Priorities" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Priorities</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="low">Low</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={filterType}
+                  onValueChange={changeFilter(setFilterType)}
+                >
+                  <SelectTrigger className="w-full min-w-[140px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                    <SelectValue placeholder="All Types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Types</SelectItem>
+                    <SelectItem value="functional">Functional</SelectItem>
+                    <SelectItem value="performance">Performance</SelectItem>
+                    <SelectItem value="security">Security</SelectItem>
+                    <SelectItem value="usability">Usability</SelectItem>
+                  </SelectContent>
+                </Select>
                 <Select
                   value={filterFolder}
-                  onValueChange={setFilterFolder}
+                  onValueChange={changeFilter(setFilterFolder)}
                 >
                   <SelectTrigger className="w-full min-w-[140px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
                     <SelectValue placeholder="All Folders" />
@@ -243,25 +296,72 @@ export default function TestCases() {
                     ))}
                   </SelectContent>
                 </Select>
+                <div className="relative">
+                  <Tags className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400 dark:text-neutral-500" />
+                  <Input
+                    value={tagFilterText}
+                    placeholder="smoke AND NOT flaky"
+                    title="Filter by tags with AND, OR, NOT and parentheses"
+                    className="pl-9 min-w-[200px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300"
+                    onChange={(e) => setTagFilterText(e.target.value)}
+                    onBlur={applyTagFilter}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') applyTagFilter();
+                    }}
+                  />
+                </div>
+                {filterableCustomFields.map((field) => (
+                  <Select
+                    key={field.id}
+                    value={customFieldFilters[field.key] ?? 'all'}
+                    onValueChange={changeFilter((value) => setCustomFieldFilters((current) => ({ ...current, [field.key]: value })))}
+                  >
+                    <SelectTrigger className="w-full min-w-[140px] dark:bg-neutral-800 dark:border-neutral-700 dark:text-neutral-300">
+                      <SelectValue placeholder={`All ${field.name}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All {field.name}</SelectItem>
+                      {(field.options ?? []).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
               </div>
             </div>
 
+            {testCasesError && tagFilter && (
+              <p className="text-sm text-red-500">
+                The tag filter could not be read. Combine tags with AND, OR, NOT and parentheses, e.g. smoke AND NOT (flaky OR slow).
+              </p>
+            )}
+
             {/* Test Cases List */}
             {testCasesLoading || foldersLoading ? (
               <div className="space-y-4">
                 <Skeleton className="h-10 w-full" />
                 <Skeleton className="h-96 w-full" />
               </div>
-            ) : testCases && testCases.length > 0 ? (
-              <div>
-                {testCases.map((testCase) => (
-                  <TestCaseRow
-                    key={testCase.id}
-                    testCase={testCase}
-                  />
-                ))}
-              </div>
-            ) : (
+            ) : testCasePage && (testCasePage.total > 0 || hasFilters) ? (
+              <TestCaseTable
+                testCases={testCasePage.items}
+                total={testCasePage.total}
+                page={page}
+                onPageChange={setPage}
+                pageSize={PAGE_SIZE}
+                users={users}
+                folders={folders}
+                onEdit={handleEdit}
+                onView={handleView}
+                onSort={(field, direction) => {
+                  setSort(direction === 'desc' ? `-${field}` : field);
+                  setPage(1);
+                }}
+                noDataMessage="No test cases match the filters"
+              />
+            ) : testCasesError && tagFilter ? null : (
               renderEmptyState()
             )}
           </div>
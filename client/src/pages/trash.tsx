@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Sidebar } from '@/components/layout/sidebar';
+import { Navbar } from '@/components/layout/navbar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashedItem {
+  id: number;
+  deleted_at: string;
+  deleted_by: number | null;
+}
+
+interface TrashedTestCase extends TrashedItem {
+  title: string;
+  status: string;
+}
+
+interface TrashedFolder extends TrashedItem {
+  name: string;
+}
+
+interface TrashData {
+  testCases: TrashedTestCase[];
+  folders: TrashedFolder[];
+  retentionDays: number;
+}
+
+type TrashKind = 'testcases' | 'folders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function Trash() {
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: trash, isLoading } = useQuery<TrashData>({
+    queryKey: ['/api/trash'],
+  });
+
+  const onError = (error: unknown) => {
+    toast({
+      title: 'Error',
+      description: error instanceof Error ? error.message : 'Unknown error',
+      variant: 'destructive',
+    });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      const response = await apiRequest('POST', `/api/trash/${kind}/${id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_data, { kind }) => {
+      toast({
+        title: 'Restored',
+        description: kind === 'testcases' ? 'Test case restored' : 'Folder restored',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/testcases'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+    },
+    onError,
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async ({ kind, id }: { kind: TrashKind; id: number }) => {
+      const response = await apiRequest('DELETE', `/api/trash/${kind}/${id}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: 'Deleted', description: data.message });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    },
+    onError,
+  });
+
+  const handlePurge = (kind: TrashKind, id: number, name: string) => {
+    if (confirm(`Permanently delete "${name}"? This cannot be undone.`)) {
+      purgeMutation.mutate({ kind, id });
+    }
+  };
+
+  const purgeDate = (item: TrashedItem) =>
+    formatDate(new Date(new Date(item.deleted_at).getTime() + (trash?.retentionDays ?? 0) * DAY_MS));
+
+  const renderRows = (kind: TrashKind, items: { item: TrashedItem; name: string; detail?: string }[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead>Deleted</TableHead>
+          <TableHead>Purged on</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(({ item, name, detail }) => (
+          <TableRow key={item.id}>
+            <TableCell>
+              <div className="font-medium text-neutral-700 dark:text-neutral-300">{name}</div>
+              {detail && <div className="text-xs text-neutral-400 capitalize dark:text-neutral-500">{detail}</div>}
+            </TableCell>
+            <TableCell className="text-sm text-neutral-500 dark:text-neutral-400">{formatRelativeTime(item.deleted_at)}</TableCell>
+            <TableCell className="text-sm text-neutral-500 dark:text-neutral-400">{purgeDate(item)}</TableCell>
+            <TableCell className="text-right space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={restoreMutation.isPending}
+                onClick={() => restoreMutation.mutate({ kind, id: item.id })}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" /> Restore
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600 hover:text-red-700 dark:text-red-400"
+                disabled={purgeMutation.isPending}
+                onClick={() => handlePurge(kind, item.id, name)}
+              >
+                <Trash2 className="h-4 w-4 mr-1" /> Delete forever
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const renderSection = (title: string, kind: TrashKind, items: { item: TrashedItem; name: string; detail?: string }[]) => (
+    <Card className="shadow-sm border dark:border-neutral-800">
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : items.length > 0 ? (
+          renderRows(kind, items)
+        ) : (
+          <p className="text-sm text-neutral-400 dark:text-neutral-500">Nothing here.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen flex bg-neutral-50 dark:bg-neutral-900">
+      <Sidebar isOpen={sidebarOpen} setIsOpen={setSidebarOpen} />
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Navbar title="Trash" onToggleSidebar={() => setSidebarOpen(!sidebarOpen)} />
+
+        <main className="flex-1 overflow-y-auto p-4 sm:p-6">
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-lg font-medium text-neutral-500 dark:text-neutral-300">Trash</h2>
+              <CardDescription className="mt-1">
+                Deleted test cases and folders can be restored for {trash?.retentionDays ?? '…'} days, after which they are removed for good.
+              </CardDescription>
+            </div>
+
+            {renderSection(
+              'Test Cases',
+              'testcases',
+              (trash?.testCases ?? []).map((testCase) => ({ item: testCase, name: testCase.title, detail: testCase.status }))
+            )}
+            {renderSection(
+              'Folders',
+              'folders',
+              (trash?.folders ?? []).map((folder) => ({ item: folder, name: folder.name }))
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
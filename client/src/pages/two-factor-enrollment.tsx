@@ -0,0 +1,37 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { TwoFactorSetup } from '@/components/auth/two-factor-setup';
+
+// Shown instead of the app while the 2FA policy requires the user to enroll
+export default function TwoFactorEnrollment() {
+  const queryClient = useQueryClient();
+
+  async function handleLogout() {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    await queryClient.invalidateQueries();
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-gray-100">
+      <div className="w-full max-w-xl">
+        <div className="bg-white p-8 rounded-lg shadow-md">
+          <h1 className="text-2xl font-bold text-center mb-2">Set Up Two-Factor Authentication</h1>
+          <p className="text-sm text-gray-600 text-center mb-6">
+            Your organization requires two-factor authentication for your role before you can continue.
+          </p>
+
+          <TwoFactorSetup />
+
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={handleLogout}
+              className="text-sm font-medium text-blue-600 hover:text-blue-500"
+            >
+              Log out
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
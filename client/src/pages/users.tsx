@@ -2,8 +2,10 @@ import { useState } from 'react';
 import { Sidebar } from '@/components/layout/sidebar';
 import { Navbar } from '@/components/layout/navbar';
 import { Button } from '@/components/ui/button';
-import { UserPlus, Filter } from 'lucide-react';
-import { UserTable } from '@/components/users/user-table';
+import { UserPlus, Filter, Mail, UsersRound } from 'lucide-react';
+import { UserTable, type User } from '@/components/users/user-table';
+import { InviteUserDialog, PendingInvitations } from '@/components/users/invitations';
+import { CreateTeamDialog, TeamList } from '@/components/users/team-management';
 import { RoleTable } from '@/components/users/role-table';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -18,16 +20,22 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 
-// Define permissions data
-const permissionsData = [
-  { name: 'Create Test Cases', systemOwner: true, admin: true, tester: true, viewer: false },
-  { name: 'Edit Test Cases', systemOwner: true, admin: true, tester: true, viewer: false },
-  { name: 'Delete Test Cases', systemOwner: true, admin: true, tester: false, viewer: false },
-  { name: 'Execute Tests', systemOwner: true, admin: true, tester: true, viewer: false },
-  { name: 'Generate Reports', systemOwner: true, admin: true, tester: true, viewer: true },
-  { name: 'Manage Users', systemOwner: true, admin: true, tester: false, viewer: false },
-  { name: 'System Configuration', systemOwner: true, admin: false, tester: false, viewer: false },
-];
+import { useAuth } from '@/hooks/useAuth';
+
+// Permission matrix as returned by /api/permissions
+interface PermissionEntry {
+  permission: string;
+  label: string;
+  roles: string[];
+}
+
+// RoleTable column keys mapped to server role names
+const roleColumns: Record<string, string> = {
+  systemOwner: 'system_owner',
+  admin: 'admin',
+  tester: 'tester',
+  viewer: 'viewer',
+};
 
 // User form schema
 const userFormSchema = z.object({
@@ -44,16 +52,56 @@ type UserFormValues = z.infer<typeof userFormSchema>;
 export default function Users() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [addUserDialogOpen, setAddUserDialogOpen] = useState(false);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [teamDialogOpen, setTeamDialogOpen] = useState(false);
   const [editUserId, setEditUserId] = useState<number | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
   
   // Fetch users
   const { data: users, isLoading: usersLoading } = useQuery({
     queryKey: ['/api/users'],
   });
   
+  // Fetch the role permission matrix
+  const { data: permissionMatrix, isLoading: permissionsLoading } = useQuery<PermissionEntry[]>({
+    queryKey: ['/api/permissions'],
+  });
+
+  const permissionsData = (permissionMatrix || []).map((entry) => ({
+    id: entry.permission,
+    name: entry.label,
+    systemOwner: entry.roles.includes('system_owner'),
+    admin: entry.roles.includes('admin'),
+    tester: entry.roles.includes('tester'),
+    viewer: entry.roles.includes('viewer'),
+  }));
+
+  // Toggle a single permission for a role
+  const permissionMutation = useMutation({
+    mutationFn: async ({ permission, role, granted }: { permission: string; role: string; granted: boolean }) => {
+      const response = await apiRequest('PUT', '/api/permissions', { permission, role, granted });
+      return response.json();
+    },
+    onSuccess: (matrix: PermissionEntry[]) => {
+      queryClient.setQueryData(['/api/permissions'], matrix);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update permission: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handlePermissionChange = (permission: string, column: string, granted: boolean) => {
+    permissionMutation.mutate({ permission, role: roleColumns[column], granted });
+  };
+  
   // Fetch user to edit
   const { data: userToEdit } = useQuery({
     queryKey: ['/api/users', editUserId],
@@ -181,6 +229,13 @@ export default function Users() {
                 >
                   <UserPlus className="h-4 w-4 mr-2" /> Add User
                 </Button>
+                <Button 
+                  variant="outline"
+                  onClick={() => setInviteDialogOpen(true)}
+                  className="border-neutral-200 dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
+                >
+                  <Mail className="h-4 w-4 mr-2" /> Invite User
+                </Button>
                 <Button 
                   variant="outline"
                   className="border-neutral-200 dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
@@ -214,6 +269,42 @@ export default function Users() {
               </CardContent>
             </Card>
             
+            {/* Pending Invitations */}
+            <Card className="shadow-sm border dark:border-neutral-800">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium text-neutral-500 dark:text-neutral-300">Pending Invitations</CardTitle>
+                <CardDescription className="text-neutral-400 dark:text-neutral-500">
+                  Invitations that have not been accepted yet
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PendingInvitations />
+              </CardContent>
+            </Card>
+            
+            {/* Teams */}
+            <Card className="shadow-sm border dark:border-neutral-800">
+              <CardHeader className="pb-2 flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-lg font-medium text-neutral-500 dark:text-neutral-300">Teams</CardTitle>
+                  <CardDescription className="text-neutral-400 dark:text-neutral-500">
+                    Groups that can own folders and receive test case and bug assignments
+                  </CardDescription>
+                </div>
+                <Button 
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTeamDialogOpen(true)}
+                  className="border-neutral-200 dark:border-neutral-700 dark:text-neutral-300 dark:bg-neutral-800"
+                >
+                  <UsersRound className="h-4 w-4 mr-2" /> Create Team
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <TeamList users={(users as User[] | undefined) || []} />
+              </CardContent>
+            </Card>
+            
             {/* Role and Permission Management */}
             <Card className="shadow-sm border dark:border-neutral-800">
               <CardHeader className="pb-2">
@@ -223,13 +314,24 @@ export default function Users() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <RoleTable permissions={permissionsData} />
+                {permissionsLoading ? (
+                  <Skeleton className="h-60 w-full" />
+                ) : (
+                  <RoleTable
+                    permissions={permissionsData}
+                    editable={can('system.configure')}
+                    onPermissionChange={handlePermissionChange}
+                  />
+                )}
               </CardContent>
             </Card>
           </div>
         </main>
       </div>
       
+      <InviteUserDialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen} />
+      <CreateTeamDialog open={teamDialogOpen} onOpenChange={setTeamDialogOpen} />
+      
       {/* Add/Edit User Dialog */}
       <Dialog open={addUserDialogOpen} onOpenChange={(open) => {
         if (!open) {
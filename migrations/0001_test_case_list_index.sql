@@ -0,0 +1 @@
+CREATE INDEX "test_cases_project_updated_idx" ON "test_cases" USING btree ("project_id","updated_at");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE INDEX "bugs_search_idx" ON "bugs" USING gin ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')));--> statement-breakpoint
+CREATE INDEX "test_cases_search_idx" ON "test_cases" USING gin ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B') || setweight(to_tsvector('english', coalesce("expected_result", '')), 'C')));--> statement-breakpoint
+CREATE INDEX "test_runs_search_idx" ON "test_runs" USING gin ((setweight(to_tsvector('english', coalesce("name", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')));--> statement-breakpoint
+CREATE INDEX "test_steps_search_idx" ON "test_steps" USING gin ((setweight(to_tsvector('english', coalesce("description", '')), 'A') || setweight(to_tsvector('english', coalesce("expected_result", '')), 'B')));
\ No newline at end of file
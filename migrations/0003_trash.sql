@@ -0,0 +1,6 @@
+ALTER TABLE "folders" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "test_cases" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "test_cases" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "folders" ADD CONSTRAINT "folders_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "test_cases" ADD CONSTRAINT "test_cases_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "bugs" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+ALTER TABLE "test_cases" ADD COLUMN "tags" text[] DEFAULT '{}'::text[] NOT NULL;--> statement-breakpoint
+CREATE INDEX "test_cases_tags_idx" ON "test_cases" USING gin ("tags");
\ No newline at end of file
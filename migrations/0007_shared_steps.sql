@@ -0,0 +1,30 @@
+CREATE TABLE "shared_step_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"shared_step_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"name" text NOT NULL,
+	"steps" jsonb NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "shared_steps" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"project_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"steps" jsonb NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "test_steps" ADD COLUMN "shared_step_id" integer;--> statement-breakpoint
+ALTER TABLE "test_steps" ADD COLUMN "shared_step_version" integer;--> statement-breakpoint
+ALTER TABLE "shared_step_versions" ADD CONSTRAINT "shared_step_versions_shared_step_id_shared_steps_id_fk" FOREIGN KEY ("shared_step_id") REFERENCES "public"."shared_steps"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_step_versions" ADD CONSTRAINT "shared_step_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_steps" ADD CONSTRAINT "shared_steps_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shared_steps" ADD CONSTRAINT "shared_steps_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "shared_step_versions_version_idx" ON "shared_step_versions" USING btree ("shared_step_id","version");--> statement-breakpoint
+ALTER TABLE "test_steps" ADD CONSTRAINT "test_steps_shared_step_id_shared_steps_id_fk" FOREIGN KEY ("shared_step_id") REFERENCES "public"."shared_steps"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
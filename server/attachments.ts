@@ -0,0 +1,164 @@
+import express, {
+  type NextFunction,
+  type Request,
+  type Response,
+} from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { getBlobStore } from "./blob-store";
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export const ATTACHMENT_MAX_BYTES =
+  envNumber("ATTACHMENT_MAX_MB", 10) * 1024 * 1024;
+export const THUMBNAIL_MAX_BYTES = 256 * 1024;
+
+// Content types that may be uploaded, with the leading bytes binary formats
+// must start with. SVG and HTML are left out because browsers run scripts in
+// them.
+const attachmentTypes: Record<string, Buffer[] | null> = {
+  "image/png": [Buffer.from([0x89, 0x50, 0x4e, 0x47])],
+  "image/jpeg": [Buffer.from([0xff, 0xd8, 0xff])],
+  "image/gif": [Buffer.from("GIF87a"), Buffer.from("GIF89a")],
+  "image/webp": [Buffer.from("RIFF")],
+  "application/pdf": [Buffer.from("%PDF")],
+  "application/zip": [Buffer.from([0x50, 0x4b, 0x03, 0x04])],
+  "text/plain": null,
+  "text/csv": null,
+  "application/json": null,
+  "application/xml": null,
+  "text/xml": null,
+};
+
+export class AttachmentError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message);
+  }
+}
+
+function assertContent(contentType: string, data: Buffer) {
+  if (!(contentType in attachmentTypes)) {
+    throw new AttachmentError(
+      `Files of type ${contentType} cannot be attached`,
+      415,
+    );
+  }
+  if (data.length === 0) {
+    throw new AttachmentError("The file is empty");
+  }
+
+  const signatures = attachmentTypes[contentType];
+  const matches =
+    !signatures ||
+    signatures.some((signature) =>
+      data.subarray(0, signature.length).equals(signature),
+    );
+  if (!matches || (contentType === "image/webp" && !isWebp(data))) {
+    throw new AttachmentError(`The file is not a valid ${contentType} file`);
+  }
+}
+
+function isWebp(data: Buffer): boolean {
+  return data.subarray(8, 12).toString("latin1") === "WEBP";
+}
+
+// Reads the request body as raw bytes, whatever its Content-Type, and turns
+// an oversized body into a 413 with a readable message
+export function attachmentBody(limit: number) {
+  const parse = express.raw({ type: () => true, limit });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    parse(req, res, (error?: any) => {
+      if (error?.type === "entity.too.large") {
+        return res.status(413).json({
+          message: `Files can be at most ${Math.floor(limit / 1024 / 1024) || 1} MB`,
+        });
+      }
+      next(error);
+    });
+  };
+}
+
+// File details travel in the query string because the body holds the bytes
+export const uploadQuerySchema = z.object({
+  file_name: z.string().trim().min(1).max(255),
+  content_type: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((value) => value.split(";")[0].trim()),
+  step_number: z.coerce.number().int().positive().optional(),
+});
+
+export type UploadQuery = z.infer<typeof uploadQuerySchema>;
+
+// Stores the bytes first and then the row, so a row never points at a
+// missing blob
+export async function storeAttachment(
+  testCase: schema.TestCase,
+  data: Buffer,
+  upload: UploadQuery,
+  uploadedBy: number,
+): Promise<schema.Attachment> {
+  assertContent(upload.content_type, data);
+
+  const key = `${testCase.project_id}/${testCase.id}/${randomUUID()}`;
+  const blobStore = getBlobStore();
+  await blobStore.put(key, data);
+
+  try {
+    return await storage.createAttachment({
+      project_id: testCase.project_id,
+      test_case_id: testCase.id,
+      step_number: upload.step_number ?? null,
+      file_name: upload.file_name,
+      content_type: upload.content_type,
+      size: data.length,
+      storage_key: key,
+      uploaded_by: uploadedBy,
+    });
+  } catch (error) {
+    await blobStore.delete(key);
+    throw error;
+  }
+}
+
+// Thumbnails are rendered by the browser that uploads the image and are
+// always JPEG
+export async function setAttachmentThumbnail(
+  attachment: schema.Attachment,
+  data: Buffer,
+): Promise<schema.Attachment | undefined> {
+  if (!attachment.content_type.startsWith("image/")) {
+    throw new AttachmentError("Only images have thumbnails");
+  }
+  assertContent("image/jpeg", data);
+
+  const key = `${attachment.storage_key}-thumb`;
+  await getBlobStore().put(key, data);
+  return storage.updateAttachment(attachment.id, { thumbnail_key: key });
+}
+
+// Removes the stored bytes of attachments whose rows are gone. Failures are
+// only logged, an orphaned file is harmless.
+export async function deleteAttachmentBlobs(attachments: schema.Attachment[]) {
+  const blobStore = getBlobStore();
+  for (const attachment of attachments) {
+    for (const key of [attachment.storage_key, attachment.thumbnail_key]) {
+      if (!key) continue;
+      try {
+        await blobStore.delete(key);
+      } catch (error) {
+        console.error(`Failed to delete blob ${key}:`, error);
+      }
+    }
+  }
+}
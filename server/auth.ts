@@ -1,39 +1,98 @@
 import crypto from 'crypto';
 import { promisify } from 'util';
 
-// Utility functions for password hashing and verification
+// Utility functions for password hashing and verification.
+//
+// Hashes are stored as "$scrypt$ln=16,r=8,p=1$<salt>$<hash>" (base64), so the
+// algorithm and its cost travel with every hash and can be raised later.
+// Hashes written before the versioned format are "<salt>:<hash>" in hex,
+// derived with PBKDF2-SHA512 and 1000 iterations; they still verify and are
+// replaced on the next successful login (see needsRehash).
 const pbkdf2 = promisify(crypto.pbkdf2);
 
+const SCRYPT_PARAMS = { ln: 16, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+function scrypt(
+  password: string,
+  salt: Buffer,
+  params: { ln: number; r: number; p: number },
+): Promise<Buffer> {
+  const N = 2 ** params.ln;
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      salt,
+      KEY_LENGTH,
+      // scrypt needs 128 * N * r bytes; leave headroom above that
+      { N, r: params.r, p: params.p, maxmem: 256 * N * params.r },
+      (err, derivedKey) => (err ? reject(err) : resolve(derivedKey))
+    );
+  });
+}
+
+function parseScryptHash(hash: string) {
+  const [, algorithm, paramString, salt, key] = hash.split('$');
+  if (algorithm !== 'scrypt' || !paramString || !salt || !key) {
+    return undefined;
+  }
+
+  const params = Object.fromEntries(
+    paramString.split(',').map((pair) => {
+      const [name, value] = pair.split('=');
+      return [name, parseInt(value)];
+    })
+  );
+
+  return {
+    params: { ln: params.ln, r: params.r, p: params.p },
+    salt: Buffer.from(salt, 'base64'),
+    key: Buffer.from(key, 'base64'),
+  };
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
 export async function generateHash(password: string): Promise<string> {
   // Generate a random salt
-  const salt = crypto.randomBytes(16).toString('hex');
-  
-  // Hash the password with the salt
-  const derivedKey = await pbkdf2(
-    password,
-    salt,
-    1000,
-    64,
-    'sha512'
-  );
-  
-  // Return the salt and hash together
-  return `${salt}:${derivedKey.toString('hex')}`;
+  const salt = crypto.randomBytes(16);
+
+  const derivedKey = await scrypt(password, salt, SCRYPT_PARAMS);
+
+  const { ln, r, p } = SCRYPT_PARAMS;
+  return `$scrypt$ln=${ln},r=${r},p=${p}$${salt.toString('base64')}$${derivedKey.toString('base64')}`;
 }
 
 export async function verifyHash(password: string, hash: string): Promise<boolean> {
-  // Split the stored hash into salt and hash
+  if (hash.startsWith('$')) {
+    const parsed = parseScryptHash(hash);
+    if (!parsed) {
+      return false;
+    }
+
+    const derivedKey = await scrypt(password, parsed.salt, parsed.params);
+    return safeEqual(derivedKey, parsed.key);
+  }
+
+  // Legacy PBKDF2 format
   const [salt, storedHash] = hash.split(':');
-  
-  // Hash the provided password with the same salt
-  const derivedKey = await pbkdf2(
-    password,
-    salt,
-    1000,
-    64,
-    'sha512'
+  if (!salt || !storedHash) {
+    return false;
+  }
+
+  const derivedKey = await pbkdf2(password, salt, 1000, 64, 'sha512');
+  return safeEqual(derivedKey, Buffer.from(storedHash, 'hex'));
+}
+
+// True when the hash was not produced with the current algorithm and cost
+export function needsRehash(hash: string): boolean {
+  const parsed = parseScryptHash(hash);
+  return (
+    !parsed ||
+    parsed.params.ln !== SCRYPT_PARAMS.ln ||
+    parsed.params.r !== SCRYPT_PARAMS.r ||
+    parsed.params.p !== SCRYPT_PARAMS.p
   );
-  
-  // Compare the hashes
-  return storedHash === derivedKey.toString('hex');
 }
@@ -0,0 +1,67 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Where attachment bytes live. Keys are generated by the server and look
+// like "<project>/<test case>/<uuid>".
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Undefined when nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[\w-]+(\/[\w-]+)*$/;
+
+// Keeps every blob as a file below a directory, the default
+export class LocalBlobStore implements BlobStore {
+  constructor(private directory: string) {}
+
+  private filePath(key: string): string {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return path.join(this.directory, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.filePath(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+// BLOB_STORE selects the store ("local" writes into BLOB_DIR). Other stores,
+// such as S3, can be plugged in at startup with setBlobStore.
+function createBlobStore(): BlobStore {
+  const store = process.env.BLOB_STORE || "local";
+
+  switch (store) {
+    case "local":
+      return new LocalBlobStore(process.env.BLOB_DIR || "uploads");
+    default:
+      throw new Error(`Unknown BLOB_STORE "${store}"`);
+  }
+}
+
+let blobStore: BlobStore = createBlobStore();
+
+export function setBlobStore(store: BlobStore) {
+  blobStore = store;
+}
+
+export function getBlobStore(): BlobStore {
+  return blobStore;
+}
@@ -0,0 +1,119 @@
+import { z, ZodError } from "zod";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function valueSchema(
+  field: schema.CustomField,
+  userIds: number[],
+): z.ZodTypeAny {
+  const options = field.options ?? [];
+  const option = z.string().refine((value) => options.includes(value), {
+    message: `Must be one of: ${options.join(", ")}`,
+  });
+
+  switch (field.field_type as schema.CustomFieldType) {
+    case "text":
+      return z.string().max(5000);
+    case "number":
+      return z.number().finite();
+    case "select":
+      return option;
+    case "multi_select":
+      return z.array(option);
+    case "user":
+      return z
+        .number()
+        .int()
+        .refine((id) => userIds.includes(id), {
+          message: "Must be a member of the project",
+        });
+    case "date":
+      return z
+        .string()
+        .regex(DATE_PATTERN, "Must be a date in YYYY-MM-DD form")
+        .refine((value) => !isNaN(Date.parse(value)), "Not a valid date");
+    default:
+      return z.never();
+  }
+}
+
+// Builds the schema for the custom_fields object of a test case or bug from
+// the project's field definitions. Unknown keys are rejected. Empty strings,
+// empty lists and null all mean "no value" and come out as null.
+export function customFieldsSchema(
+  fields: schema.CustomField[],
+  userIds: number[] = [],
+) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    shape[field.key] = z.preprocess(
+      (value) =>
+        value === "" || (Array.isArray(value) && value.length === 0)
+          ? null
+          : value,
+      valueSchema(field, userIds).nullable().optional(),
+    );
+  }
+  return z.object(shape).strict();
+}
+
+// Users a "user" field may point at: the project's members and the global
+// admins, who can act in every project
+async function projectUserIds(projectId: number): Promise<number[]> {
+  const [members, users] = await Promise.all([
+    storage.getProjectMembers(projectId),
+    storage.getUsers(),
+  ]);
+  return [
+    ...members.map((member) => member.user_id),
+    ...users
+      .filter((user) => user.role === "system_owner" || user.role === "admin")
+      .map((user) => user.id),
+  ];
+}
+
+// Validates the custom field values sent for a test case or bug and returns
+// the values to store. Values sent for an existing row are merged over its
+// current ones, so a partial update only touches the keys it names; values of
+// deleted fields are dropped. Throws a ZodError when a value is invalid or a
+// required field ends up empty.
+export async function resolveCustomFields(
+  projectId: number,
+  entityType: schema.CustomFieldEntityType,
+  input: unknown,
+  existing: schema.CustomFieldValues = {},
+): Promise<schema.CustomFieldValues> {
+  const fields = await storage.getCustomFields(projectId, entityType);
+  const userIds = fields.some((field) => field.field_type === "user")
+    ? await projectUserIds(projectId)
+    : [];
+
+  const changes = customFieldsSchema(fields, userIds).parse(input ?? {}, {
+    path: ["custom_fields"],
+  });
+
+  const values: schema.CustomFieldValues = {};
+  for (const { key } of fields) {
+    const value = key in changes ? changes[key] : existing[key];
+    if (value !== null && value !== undefined) {
+      values[key] = value;
+    }
+  }
+
+  const missing = fields.filter(
+    (field) => field.required && !(field.key in values),
+  );
+  if (missing.length > 0) {
+    throw new ZodError(
+      missing.map((field) => ({
+        code: "custom" as const,
+        path: ["custom_fields", field.key],
+        message: `${field.name} is required`,
+      })),
+    );
+  }
+
+  return values;
+}
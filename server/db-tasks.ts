@@ -0,0 +1,29 @@
+import { runMigrations } from "./migrate";
+import { seedDemoData } from "./seed";
+
+// Entry point for `npm run db:migrate` and `npm run db:seed`
+async function main(task: string | undefined) {
+  switch (task) {
+    case "migrate":
+      await runMigrations();
+      console.log("Migrations applied");
+      break;
+    case "seed": {
+      // Imported here so migrating does not need a configured backend
+      const { storage } = await import("./storage");
+      const seeded = await seedDemoData(storage);
+      console.log(seeded ? "Demo data seeded" : "Store is not empty, skipped");
+      break;
+    }
+    default:
+      throw new Error(`Unknown task "${task}", expected migrate or seed`);
+  }
+}
+
+main(process.argv[2]).then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage, storageBackend } from "./storage";
+import { runMigrations } from "./migrate";
+import { seedDemoData } from "./seed";
+import { startTrashPurgeJob } from "./trash";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +41,25 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // The postgres backend brings its schema up to date on start unless
+  // MIGRATE_ON_START=false; other databases use `npm run db:migrate`
+  if (
+    storageBackend === "postgres" &&
+    process.env.MIGRATE_ON_START !== "false"
+  ) {
+    await runMigrations();
+    log("database migrations applied");
+  }
+
+  // The in-memory store always starts from the demo data
+  if (storageBackend === "memory" || process.env.SEED_DEMO_DATA === "true") {
+    if (await seedDemoData(storage)) {
+      log("demo data seeded");
+    }
+  }
+
+  startTrashPurgeJob();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
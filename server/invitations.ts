@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { sendMail } from "./mail";
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return Number.isNaN(value) ? fallback : value;
+}
+
+const INVITATION_TTL_MS =
+  envNumber("INVITATION_TTL_DAYS", 7) * 24 * 60 * 60 * 1000;
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function isPending(invitation: schema.UserInvitation): boolean {
+  return (
+    !invitation.accepted_at &&
+    new Date(invitation.expires_at).getTime() > Date.now()
+  );
+}
+
+// Invitations that can still be accepted, newest first
+export async function getPendingInvitations(): Promise<
+  schema.UserInvitation[]
+> {
+  return (await storage.getUserInvitations()).filter(isPending);
+}
+
+// Creates an invitation and emails the link. Earlier pending invitations for
+// the same address are replaced so only the newest link works.
+export async function inviteUser(
+  inviter: schema.User,
+  data: { email: string; role: schema.Role },
+  baseUrl: string,
+): Promise<schema.UserInvitation> {
+  const email = data.email.toLowerCase();
+  for (const invitation of await getPendingInvitations()) {
+    if (invitation.email === email) {
+      await storage.deleteUserInvitation(invitation.id);
+    }
+  }
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const invitation = await storage.createUserInvitation({
+    email,
+    role: data.role,
+    token_hash: hashInvitationToken(token),
+    invited_by: inviter.id,
+    expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+  });
+
+  const link = `${baseUrl}/register?invite=${token}`;
+  await sendMail({
+    to: email,
+    subject: "You have been invited to Test Sphere",
+    text:
+      `Hi,\n\n` +
+      `${inviter.full_name} has invited you to join Test Sphere. Use the ` +
+      `link below to choose a username and password. It expires in ` +
+      `${INVITATION_TTL_MS / (24 * 60 * 60 * 1000)} days and can only be ` +
+      `used once.\n\n` +
+      `${link}\n\n` +
+      `If you were not expecting this invitation you can ignore this email.`,
+  });
+
+  return invitation;
+}
+
+// Resolves an emailed token to its invitation, or undefined when the token
+// is unknown, expired or already used
+export async function getPendingInvitation(
+  token: string,
+): Promise<schema.UserInvitation | undefined> {
+  const invitation = await storage.getUserInvitationByHash(
+    hashInvitationToken(token),
+  );
+  return invitation && isPending(invitation) ? invitation : undefined;
+}
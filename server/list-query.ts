@@ -0,0 +1,235 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import {
+  BugFilters,
+  DateRange,
+  ListOptions,
+  Page,
+  SearchResultType,
+  searchResultTypes,
+  TestCaseFilters,
+  TestRunFilters,
+  WhiteboardFilters,
+} from "./storage.interface";
+import { parseTagExpression, TagExpressionError } from "./tag-expression";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+// Accepts ?status=a,b as well as ?status=a&status=b. "all" means no filter.
+const multi = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform((value) => {
+    const values = [value ?? []]
+      .flat()
+      .flatMap((item) => item.split(","))
+      .map((item) => item.trim())
+      .filter((item) => item && item !== "all");
+    return values.length > 0 ? values : undefined;
+  });
+
+const multiIds = multi.pipe(z.array(z.coerce.number().int()).optional());
+
+const id = z.coerce.number().int().optional();
+
+const date = z.coerce.date().optional();
+
+// A bare date as the upper bound covers that whole day
+const endDate = z
+  .string()
+  .optional()
+  .transform((value) =>
+    value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T23:59:59.999`
+      : value,
+  )
+  .pipe(date);
+
+// ?cf[key]=a,b filters on custom field values, with the same list syntax
+const customFields = z
+  .record(z.string().regex(/^[a-z][a-z0-9_]*$/), multi)
+  .optional()
+  .transform((filters) => {
+    const list = Object.entries(filters ?? {}).flatMap(([key, values]) =>
+      values ? [{ key, values }] : [],
+    );
+    return list.length > 0 ? list : undefined;
+  });
+
+// ?tags=smoke AND NOT flaky
+const tags = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value?.trim()) return undefined;
+    try {
+      return parseTagExpression(value);
+    } catch (error) {
+      if (!(error instanceof TagExpressionError)) throw error;
+      ctx.addIssue({ code: "custom", message: error.message });
+      return z.NEVER;
+    }
+  });
+
+function range(from?: Date, to?: Date): DateRange | undefined {
+  return from || to ? { from, to } : undefined;
+}
+
+// Parses ?page, ?limit and ?sort. sort names one of the allowed fields,
+// prefixed with "-" for descending order. Leaving out both page and limit
+// asks for every row.
+export function parseListOptions<F extends string>(
+  query: Request["query"],
+  fields: readonly F[],
+): ListOptions<F> {
+  const { page, limit, sort } = z
+    .object({
+      page: z.coerce.number().int().min(1).optional(),
+      limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+      sort: z
+        .string()
+        .refine((value) => fields.includes(value.replace(/^-/, "") as F), {
+          message: `sort must be one of ${fields.join(", ")}, optionally prefixed with -`,
+        })
+        .optional(),
+    })
+    .parse(query);
+
+  return {
+    page: page ?? (limit ? 1 : undefined),
+    limit: limit ?? (page ? DEFAULT_PAGE_SIZE : undefined),
+    sort: sort
+      ? {
+          field: sort.replace(/^-/, "") as F,
+          direction: sort.startsWith("-") ? "desc" : "asc",
+        }
+      : undefined,
+  };
+}
+
+export function parseTestCaseFilters(query: Request["query"]): TestCaseFilters {
+  const filters = z
+    .object({
+      status: multi,
+      priority: multi,
+      type: multi,
+      assigned_to: multiIds,
+      folderId: id,
+      team_id: id,
+      created_from: date,
+      created_to: endDate,
+      updated_from: date,
+      updated_to: endDate,
+      cf: customFields,
+      tags,
+    })
+    .parse(query);
+
+  return {
+    status: filters.status,
+    priority: filters.priority,
+    type: filters.type,
+    assignedTo: filters.assigned_to,
+    folderId: filters.folderId,
+    teamId: filters.team_id,
+    createdAt: range(filters.created_from, filters.created_to),
+    updatedAt: range(filters.updated_from, filters.updated_to),
+    customFields: filters.cf,
+    tags: filters.tags,
+  };
+}
+
+export function parseBugFilters(query: Request["query"]): BugFilters {
+  const filters = z
+    .object({
+      status: multi,
+      severity: multi,
+      assigned_to: multiIds,
+      test_case_id: id,
+      team_id: id,
+      reported_from: date,
+      reported_to: endDate,
+      cf: customFields,
+      tags,
+    })
+    .parse(query);
+
+  return {
+    status: filters.status,
+    severity: filters.severity,
+    assignedTo: filters.assigned_to,
+    test_case_id: filters.test_case_id,
+    teamId: filters.team_id,
+    reportedAt: range(filters.reported_from, filters.reported_to),
+    customFields: filters.cf,
+    tags: filters.tags,
+  };
+}
+
+export function parseTestRunFilters(query: Request["query"]): TestRunFilters {
+  const filters = z
+    .object({
+      status: multi,
+      executed_by: multiIds,
+      started_from: date,
+      started_to: endDate,
+    })
+    .parse(query);
+
+  return {
+    status: filters.status,
+    executedBy: filters.executed_by,
+    startedAt: range(filters.started_from, filters.started_to),
+  };
+}
+
+export function parseWhiteboardFilters(
+  query: Request["query"],
+): WhiteboardFilters {
+  const filters = z
+    .object({
+      created_by: multiIds,
+      updated_from: date,
+      updated_to: endDate,
+    })
+    .parse(query);
+
+  return {
+    createdBy: filters.created_by,
+    updatedAt: range(filters.updated_from, filters.updated_to),
+  };
+}
+
+// Parses ?q, ?limit and ?types (comma-separated result types) of a search
+export function parseSearchQuery(query: Request["query"]): {
+  q: string;
+  limit: number;
+  types: SearchResultType[];
+} {
+  const { q, limit, types } = z
+    .object({
+      q: z.string().trim().min(1).max(200),
+      limit: z.coerce.number().int().min(1).max(50).default(20),
+      types: multi.pipe(z.array(z.enum(searchResultTypes)).optional()),
+    })
+    .parse(query);
+
+  return { q, limit, types: types ?? [...searchResultTypes] };
+}
+
+// Paged requests get { items, total, page, limit }. Unpaged ones keep the
+// plain array older clients expect. Both carry the total in X-Total-Count.
+export function sendList<T>(
+  res: Response,
+  { items, total }: Page<T>,
+  options: ListOptions<string>,
+) {
+  res.set("X-Total-Count", total.toString());
+
+  if (options.limit) {
+    return res.json({ items, total, page: options.page, limit: options.limit });
+  }
+
+  res.json(items);
+}
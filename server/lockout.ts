@@ -0,0 +1,117 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Failures allowed per username before the account is locked. An IP address
+// gets a larger budget since several people may share it.
+export const lockoutPolicy = {
+  maxFailures: envNumber("LOGIN_MAX_FAILURES", 5),
+  maxFailuresPerIp: envNumber("LOGIN_MAX_FAILURES_PER_IP", 20),
+  lockoutMinutes: envNumber("LOGIN_LOCKOUT_MINUTES", 15),
+  // Failures older than this no longer count towards a lockout
+  windowMinutes: envNumber("LOGIN_FAILURE_WINDOW_MINUTES", 15),
+  maxBackoffSeconds: envNumber("LOGIN_MAX_BACKOFF_SECONDS", 60),
+};
+
+export function usernameKey(username: string): string {
+  return `user:${username.toLowerCase()}`;
+}
+
+export function ipKey(ip: string | undefined): string {
+  return `ip:${ip ?? "unknown"}`;
+}
+
+// Delay enforced after each failure: 1s, 2s, 4s, ... up to the maximum
+function backoffMs(failures: number): number {
+  if (failures <= 0) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - 1), lockoutPolicy.maxBackoffSeconds) * 1000;
+}
+
+function isStale(throttle: schema.LoginThrottle, now: number): boolean {
+  const lockedUntil = throttle.locked_until
+    ? new Date(throttle.locked_until).getTime()
+    : 0;
+  return (
+    lockedUntil <= now &&
+    now - new Date(throttle.last_failure_at).getTime() >
+      lockoutPolicy.windowMinutes * 60 * 1000
+  );
+}
+
+// Milliseconds until another attempt is allowed for the given keys, or 0
+export async function getRetryDelay(keys: string[]): Promise<number> {
+  const now = Date.now();
+  let delay = 0;
+
+  for (const key of keys) {
+    const throttle = await storage.getLoginThrottle(key);
+    if (!throttle || isStale(throttle, now)) {
+      continue;
+    }
+
+    const lockedUntil = throttle.locked_until
+      ? new Date(throttle.locked_until).getTime()
+      : 0;
+    const backoffUntil =
+      new Date(throttle.last_failure_at).getTime() +
+      backoffMs(throttle.failures);
+    delay = Math.max(delay, lockedUntil - now, backoffUntil - now);
+  }
+
+  return Math.max(delay, 0);
+}
+
+// Counts a failed attempt against the key. Returns the lock expiry when this
+// failure locked the key.
+export async function recordLoginFailure(
+  key: string,
+  maxFailures: number,
+): Promise<Date | undefined> {
+  const now = Date.now();
+  const existing = await storage.getLoginThrottle(key);
+  const failures =
+    existing && !isStale(existing, now) ? existing.failures + 1 : 1;
+
+  const lockedUntil =
+    failures >= maxFailures
+      ? new Date(now + lockoutPolicy.lockoutMinutes * 60 * 1000)
+      : null;
+
+  await storage.setLoginThrottle({
+    key,
+    // Start counting again once a lockout has been served
+    failures: lockedUntil ? 0 : failures,
+    last_failure_at: new Date(now),
+    locked_until: lockedUntil,
+  });
+
+  return lockedUntil ?? undefined;
+}
+
+export async function clearLoginFailures(key: string): Promise<void> {
+  await storage.deleteLoginThrottle(key);
+}
+
+// Lock expiry per username for accounts that are currently locked
+export async function getLockedUsernames(): Promise<Map<string, Date>> {
+  const now = Date.now();
+  const locked = new Map<string, Date>();
+
+  for (const throttle of await storage.getLoginThrottles()) {
+    if (
+      throttle.key.startsWith("user:") &&
+      throttle.locked_until &&
+      new Date(throttle.locked_until).getTime() > now
+    ) {
+      locked.set(throttle.key.slice(5), new Date(throttle.locked_until));
+    }
+  }
+
+  return locked;
+}
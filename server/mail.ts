@@ -0,0 +1,131 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log. Reset and invitation links work as
+// credentials, so they are left out when redactLinks is set.
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private redactLinks = false) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const text = this.redactLinks
+      ? message.text.replace(/https?:\/\/\S+/g, "[link redacted]")
+      : message.text;
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${text}`,
+    );
+  }
+}
+
+// Writes every message as a JSON file into a directory, handy for inspecting
+// outgoing mail in development and end-to-end tests
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sent_at: new Date() }, null, 2),
+    );
+  }
+}
+
+// Delivers messages through an SMTP server
+export class SmtpMailTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(
+    options: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user?: string;
+      password?: string;
+    },
+    private from: string,
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user
+        ? { user: options.user, pass: options.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ ...message, from: this.from });
+  }
+}
+
+const production = process.env.NODE_ENV === "production";
+
+// MAIL_TRANSPORT selects the transport ("console", "file" or "smtp"). The
+// file transport writes into MAIL_DIR; the SMTP transport sends from
+// MAIL_FROM through SMTP_HOST and SMTP_PORT (587 by default, or 465 with
+// SMTP_SECURE=true), logging in when SMTP_USER is set. A custom transport can
+// be plugged in at startup with setMailTransport.
+function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || "console";
+
+  switch (transport) {
+    case "console":
+      if (production) {
+        console.warn(
+          "Using the console mail transport: mail is not delivered, so password resets and invitations are refused",
+        );
+      }
+      return new ConsoleMailTransport(production);
+    case "file":
+      return new FileMailTransport(process.env.MAIL_DIR || "mail");
+    case "smtp": {
+      if (!process.env.SMTP_HOST || !process.env.MAIL_FROM) {
+        throw new Error(
+          "MAIL_TRANSPORT=smtp needs SMTP_HOST and MAIL_FROM to be set",
+        );
+      }
+      const secure = process.env.SMTP_SECURE === "true";
+      return new SmtpMailTransport(
+        {
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT ?? "") || (secure ? 465 : 587),
+          secure,
+          user: process.env.SMTP_USER,
+          password: process.env.SMTP_PASSWORD,
+        },
+        process.env.MAIL_FROM,
+      );
+    }
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+let mailTransport: MailTransport = createMailTransport();
+
+export function setMailTransport(transport: MailTransport) {
+  mailTransport = transport;
+}
+
+// False when mail would only reach the server log of a production server.
+// Flows that email a link refuse to start then.
+export function canDeliverMail(): boolean {
+  return !(production && mailTransport instanceof ConsoleMailTransport);
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await mailTransport.send(message);
+}
@@ -0,0 +1,25 @@
+import path from "path";
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+
+// Generated from shared/schema.ts with `npm run db:generate`. Resolved from
+// this file so it works both from server/ and from the dist/ bundle.
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Applies the checked-in migrations that have not run yet. Drizzle records
+// applied ones in drizzle.__drizzle_migrations, so this is safe on every start.
+export async function runMigrations(
+  connectionString = process.env.DATABASE_URL,
+): Promise<void> {
+  if (!connectionString) {
+    throw new Error("Missing DATABASE_URL for running migrations");
+  }
+
+  const pool = new pg.Pool({ connectionString, max: 1 });
+  try {
+    await migrate(drizzle(pool), { migrationsFolder });
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,96 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { IStorage } from "./storage.interface";
+import { revokeUserSessions } from "./session";
+
+export class OffboardingError extends Error {}
+
+// Checks that the user may be removed and the successor can take over
+export async function validateOffboarding(
+  user: schema.User,
+  successor: schema.User | undefined,
+  actor: schema.User,
+): Promise<void> {
+  if (user.id === actor.id) {
+    throw new OffboardingError("You cannot remove your own account");
+  }
+
+  if (
+    !successor ||
+    successor.id === user.id ||
+    !successor.is_active ||
+    successor.deleted_at
+  ) {
+    throw new OffboardingError("Successor must be another active user");
+  }
+
+  await assertNotLastOwner(user, "The last system owner cannot be removed");
+}
+
+// Throws when the user is the only active system owner left
+export async function assertNotLastOwner(
+  user: schema.User,
+  message: string,
+): Promise<void> {
+  if (user.role !== "system_owner" || !user.is_active || user.deleted_at) {
+    return;
+  }
+
+  const owners = (await storage.getUsers()).filter(
+    (other) =>
+      other.role === "system_owner" && other.is_active && !other.deleted_at,
+  );
+  if (owners.length <= 1) {
+    throw new OffboardingError(message);
+  }
+}
+
+// Deactivates or deletes a user. Their test case and bug assignments move to
+// the successor, while created_by/executed_by history is left untouched.
+// Sessions and API tokens stop working immediately. Pass db to make the
+// changes part of a caller's transaction.
+export async function offboardUser(
+  user: schema.User,
+  successor: schema.User,
+  actor: schema.User,
+  mode: "deactivate" | "delete",
+  db: IStorage = storage,
+) {
+  const { reassigned, tokens } = await db.withTransaction(async (tx) => {
+    const reassigned = await tx.reassignUserAssignments(user.id, successor.id);
+
+    if (mode === "delete") {
+      await tx.markUserDeleted(user.id);
+    } else {
+      await tx.updateUser(user.id, { is_active: false });
+    }
+
+    const tokens = await tx.getApiTokens(user.id);
+    for (const token of tokens) {
+      await tx.deleteApiToken(token.id);
+    }
+
+    return { reassigned, tokens };
+  });
+
+  const sessionsRevoked = await revokeUserSessions(user.id);
+
+  const summary = {
+    username: user.username,
+    successor_id: successor.id,
+    successor_username: successor.username,
+    reassigned,
+    sessions_revoked: sessionsRevoked,
+    tokens_revoked: tokens.length,
+  };
+
+  storage.logActivity({
+    user_id: actor.id,
+    action: mode === "delete" ? "delete_user" : "deactivate_user",
+    entity_type: "user",
+    entity_id: user.id,
+    details: summary,
+  });
+
+  return summary;
+}
@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { IStorage } from "./storage.interface";
+import { verifyHash } from "./auth";
+import { sendMail } from "./mail";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  // How many previous passwords may not be reused (0 disables the check)
+  history: number;
+}
+
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name];
+  return value === undefined ? fallback : value === "true";
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "");
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: envNumber("PASSWORD_MIN_LENGTH", 8),
+  requireUppercase: envFlag("PASSWORD_REQUIRE_UPPERCASE", true),
+  requireLowercase: envFlag("PASSWORD_REQUIRE_LOWERCASE", true),
+  requireDigit: envFlag("PASSWORD_REQUIRE_DIGIT", true),
+  requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", false),
+  history: envNumber("PASSWORD_HISTORY", 5),
+};
+
+const RESET_TOKEN_TTL_MS =
+  envNumber("PASSWORD_RESET_TTL_MINUTES", 60) * 60 * 1000;
+
+export class PasswordPolicyError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join(", "));
+    this.name = "PasswordPolicyError";
+  }
+}
+
+// Every rule of the policy the password breaks, empty when it is acceptable
+export function checkPasswordPolicy(password: string): string[] {
+  const problems: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    problems.push(
+      `Password must be at least ${passwordPolicy.minLength} characters`,
+    );
+  }
+  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
+    problems.push("Password must contain an uppercase letter");
+  }
+  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
+    problems.push("Password must contain a lowercase letter");
+  }
+  if (passwordPolicy.requireDigit && !/[0-9]/.test(password)) {
+    problems.push("Password must contain a digit");
+  }
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    problems.push("Password must contain a symbol");
+  }
+
+  return problems;
+}
+
+export function assertPasswordPolicy(password: string) {
+  const problems = checkPasswordPolicy(password);
+  if (problems.length > 0) {
+    throw new PasswordPolicyError(problems);
+  }
+}
+
+async function isRecentPassword(
+  user: schema.User,
+  password: string,
+): Promise<boolean> {
+  if (passwordPolicy.history <= 0) {
+    return false;
+  }
+
+  const previous = await storage.getPasswordHistory(
+    user.id,
+    passwordPolicy.history,
+  );
+  const hashes = [user.password, ...previous.map((entry) => entry.password)];
+
+  for (const hash of hashes.slice(0, passwordPolicy.history)) {
+    if (await verifyHash(password, hash)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Validates the new password against the policy and the user's recent
+// passwords, then stores it. Throws PasswordPolicyError when it is rejected.
+export async function setUserPassword(
+  user: schema.User,
+  password: string,
+  db: IStorage = storage,
+): Promise<void> {
+  assertPasswordPolicy(password);
+
+  if (await isRecentPassword(user, password)) {
+    throw new PasswordPolicyError([
+      `Password must differ from your last ${passwordPolicy.history} passwords`,
+    ]);
+  }
+
+  await db.addPasswordHistory(user.id, user.password);
+  await db.updateUser(user.id, { password });
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Creates a single-use reset token and emails the reset link to the user
+export async function sendPasswordResetEmail(
+  user: schema.User,
+  baseUrl: string,
+): Promise<void> {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await storage.createPasswordResetToken({
+    user_id: user.id,
+    token_hash: hashResetToken(token),
+    expires_at: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+  });
+
+  const link = `${baseUrl}/reset-password?token=${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Reset your Test Sphere password",
+    text:
+      `Hi ${user.full_name},\n\n` +
+      `Use the link below to choose a new password. It expires in ` +
+      `${RESET_TOKEN_TTL_MS / 60000} minutes and can only be used once.\n\n` +
+      `${link}\n\n` +
+      `If you did not ask for a password reset you can ignore this email.`,
+  });
+}
+
+// Sets a new password through an emailed token. Returns the user, or
+// undefined when the token is unknown, expired or already used. The token is
+// only spent once the new password has been accepted.
+export async function resetPasswordWithToken(
+  token: string,
+  password: string,
+): Promise<schema.User | undefined> {
+  const resetToken = await storage.getPasswordResetToken(hashResetToken(token));
+
+  if (
+    !resetToken ||
+    resetToken.used_at ||
+    new Date(resetToken.expires_at).getTime() < Date.now()
+  ) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(resetToken.user_id);
+  if (!user || !user.is_active) {
+    return undefined;
+  }
+
+  await setUserPassword(user, password);
+  await storage.markPasswordResetTokenUsed(resetToken.id);
+  return user;
+}
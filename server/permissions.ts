@@ -0,0 +1,135 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+const allPermissions = Object.keys(schema.permissions) as schema.Permission[];
+
+const viewPermissions: schema.Permission[] = [
+  "testcase.view",
+  "run.view",
+  "bug.view",
+  "whiteboard.view",
+  "report.view",
+];
+
+const testPermissions: schema.Permission[] = [
+  ...viewPermissions,
+  "testcase.create",
+  "testcase.edit",
+  "folder.manage",
+  "run.execute",
+  "run.complete",
+  "bug.create",
+  "bug.edit",
+  "whiteboard.edit",
+  "ai.generate",
+];
+
+// Matrix written to storage the first time it is found empty
+export const defaultRolePermissions: Record<schema.Role, schema.Permission[]> =
+  {
+    system_owner: allPermissions,
+    admin: allPermissions.filter((p) => p !== "system.configure"),
+    tester: testPermissions,
+    viewer: viewPermissions,
+  };
+
+// Permission checks run on every request, so the matrix is cached briefly.
+// Updates through setRolePermission clear the cache immediately; other
+// server instances pick changes up once the TTL expires.
+const CACHE_TTL_MS = 30 * 1000;
+let cache: { matrix: Map<string, Set<string>>; loadedAt: number } | null = null;
+
+async function loadMatrix(): Promise<Map<string, Set<string>>> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.matrix;
+  }
+
+  let rows = await storage.getRolePermissions();
+
+  if (rows.length === 0) {
+    for (const [role, granted] of Object.entries(defaultRolePermissions)) {
+      for (const permission of granted) {
+        await storage.setRolePermission(role, permission, true);
+      }
+    }
+    rows = await storage.getRolePermissions();
+  }
+
+  const matrix = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!matrix.has(row.role)) {
+      matrix.set(row.role, new Set());
+    }
+    matrix.get(row.role)!.add(row.permission);
+  }
+
+  cache = { matrix, loadedAt: Date.now() };
+  return matrix;
+}
+
+export async function getPermissionsForRole(
+  role: string,
+): Promise<schema.Permission[]> {
+  // The system owner can never be locked out
+  if (role === "system_owner") {
+    return allPermissions;
+  }
+
+  const granted = (await loadMatrix()).get(role);
+  return allPermissions.filter((permission) => granted?.has(permission));
+}
+
+export async function roleCan(
+  role: string,
+  permission: schema.Permission,
+): Promise<boolean> {
+  return (await getPermissionsForRole(role)).includes(permission);
+}
+
+// The full matrix keyed by permission, in the shape the role table renders
+export async function getPermissionMatrix(): Promise<
+  { permission: schema.Permission; label: string; roles: schema.Role[] }[]
+> {
+  const byRole = await Promise.all(
+    schema.roles.map(
+      async (role) =>
+        [role, new Set(await getPermissionsForRole(role))] as const,
+    ),
+  );
+
+  return allPermissions.map((permission) => ({
+    permission,
+    label: schema.permissions[permission],
+    roles: byRole
+      .filter(([, granted]) => granted.has(permission))
+      .map(([role]) => role),
+  }));
+}
+
+export async function setRolePermission(
+  role: schema.Role,
+  permission: schema.Permission,
+  granted: boolean,
+): Promise<void> {
+  await loadMatrix();
+  await storage.setRolePermission(role, permission, granted);
+  cache = null;
+}
+
+// Position in schema.roles, which lists roles from most to least privileged
+const roleRank = (role: string) => {
+  const rank = schema.roles.indexOf(role as schema.Role);
+  return rank === -1 ? schema.roles.length : rank;
+};
+
+// Users may hand out, and manage holders of, roles up to their own. The
+// system owner role also needs system.configure.
+export async function canAssignRole(
+  actor: schema.User,
+  role: string,
+): Promise<boolean> {
+  if (roleRank(role) < roleRank(actor.role)) {
+    return false;
+  }
+  return role !== "system_owner" || roleCan(actor.role, "system.configure");
+}
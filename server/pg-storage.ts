@@ -0,0 +1,2046 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type {
+  AnyPgColumn,
+  PgDatabase,
+  PgQueryResultHKT,
+  PgTable,
+} from "drizzle-orm/pg-core";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  lte,
+  not,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { generateHash, verifyHash, needsRehash } from "./auth";
+import {
+  BugFilters,
+  BugSortField,
+  CustomFieldFilter,
+  DateRange,
+  IStorage,
+  ListOptions,
+  Page,
+  SearchResult,
+  SearchResultType,
+  TagCount,
+  TagExpression,
+  TaggableEntityType,
+  TestCaseFilters,
+  TestCaseSortField,
+  TestRunFilters,
+  TestRunSortField,
+  Trash,
+  WhiteboardFilters,
+  WhiteboardSortField,
+} from "./storage.interface";
+import { restoreTestCaseSnapshot, snapshotTestCase } from "./test-versions";
+import { tokenize } from "./search";
+
+// Matches rows whose column holds any of the values; no values means no filter
+function anyOf<T>(column: AnyPgColumn, values?: T[]): SQL | undefined {
+  return values?.length ? inArray(column, values) : undefined;
+}
+
+function inRange(column: AnyPgColumn, range?: DateRange): SQL | undefined {
+  return and(
+    range?.from ? gte(column, range.from) : undefined,
+    range?.to ? lte(column, range.to) : undefined,
+  );
+}
+
+// Each filter matches a scalar value equal to one of its values, or an array
+// (multi_select) value holding one of them. ->> renders numbers as text.
+function customFieldsMatch(
+  column: AnyPgColumn,
+  filters?: CustomFieldFilter[],
+): SQL | undefined {
+  return and(
+    ...(filters ?? []).map(({ key, values }) => {
+      const list = sql.join(
+        values.map((value) => sql`${value}`),
+        sql`, `,
+      );
+      return or(
+        sql`${column} ->> ${key} in (${list})`,
+        sql`${column} -> ${key} ?| array[${list}]::text[]`,
+      );
+    }),
+  );
+}
+
+// @> lets the GIN index on the tags column serve each tag of the expression
+function tagsMatch(
+  column: AnyPgColumn,
+  expression?: TagExpression,
+): SQL | undefined {
+  if (!expression) return undefined;
+  if ("tag" in expression) {
+    return sql`${column} @> array[${expression.tag}]::text[]`;
+  }
+  if ("not" in expression) return not(tagsMatch(column, expression.not)!);
+  if ("and" in expression) {
+    return and(...expression.and.map((operand) => tagsMatch(column, operand)));
+  }
+  return or(...expression.or.map((operand) => tagsMatch(column, operand)));
+}
+
+function textArray(values: string[]): SQL {
+  return values.length > 0
+    ? sql`array[${sql.join(
+        values.map((value) => sql`${value}`),
+        sql`, `,
+      )}]::text[]`
+    : sql`array[]::text[]`;
+}
+
+// Prefix query requiring every word of the search, e.g. "log:* & page:*".
+// tokenize only keeps letters and digits, so no tsquery syntax gets through.
+function prefixQuery(query: string): SQL | undefined {
+  const terms = tokenize(query);
+  return terms.length > 0
+    ? sql`to_tsquery('english', ${terms.map((term) => `${term}:*`).join(" & ")})`
+    : undefined;
+}
+
+// ts_headline marks matches with these, which parseHeadline turns into offsets
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+function headline(tsquery: SQL, ...columns: AnyPgColumn[]): SQL<string> {
+  const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2`;
+  return sql<string>`ts_headline('english', concat_ws(' ', ${sql.join(columns, sql`, `)}), ${tsquery}, ${options})`;
+}
+
+function parseHeadline(
+  text: string,
+): Pick<SearchResult, "snippet" | "highlights"> {
+  let snippet = "";
+  let start = 0;
+  const highlights: [number, number][] = [];
+  for (const char of text) {
+    if (char === HIGHLIGHT_START) {
+      start = snippet.length;
+    } else if (char === HIGHLIGHT_END) {
+      highlights.push([start, snippet.length]);
+    } else {
+      snippet += char;
+    }
+  }
+  return { snippet, highlights };
+}
+
+// Talks to Postgres directly through drizzle, using the tables declared in
+// shared/schema.ts. Selected with STORAGE_BACKEND=postgres.
+export class PgStorage implements IStorage {
+  private db: PgDatabase<PgQueryResultHKT>;
+
+  // Without a db, connects to DATABASE_URL; transactions and tests pass
+  // their own
+  constructor(db?: PgDatabase<PgQueryResultHKT>) {
+    if (db) {
+      this.db = db;
+      return;
+    }
+
+    if (!process.env.DATABASE_URL) {
+      throw new Error("Missing DATABASE_URL for the postgres storage backend");
+    }
+
+    this.db = drizzle(
+      new pg.Pool({ connectionString: process.env.DATABASE_URL }),
+    );
+  }
+
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.transaction(fn);
+  }
+
+  // Nested calls become savepoints inside the enclosing transaction
+  private transaction<T>(fn: (tx: PgStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new PgStorage(tx)));
+  }
+
+  // Counts the rows matching where and fetches the requested page of them
+  private async list<TTable extends PgTable & { id: AnyPgColumn }>(
+    table: TTable,
+    where: SQL | undefined,
+    sort: NonNullable<ListOptions<string>["sort"]>,
+    options?: ListOptions<string>,
+  ): Promise<Page<TTable["$inferSelect"]>> {
+    const direction = sort.direction === "asc" ? asc : desc;
+    let query = this.db
+      .select()
+      .from(table as PgTable)
+      .where(where)
+      .orderBy(
+        direction(table[sort.field as keyof TTable] as AnyPgColumn),
+        direction(table.id),
+      )
+      .$dynamic();
+
+    if (options?.limit) {
+      query = query
+        .limit(options.limit)
+        .offset(((options.page ?? 1) - 1) * options.limit);
+    }
+
+    const items = (await query) as TTable["$inferSelect"][];
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(table as PgTable)
+      .where(where);
+    return { items, total };
+  }
+
+  // User operations
+  async getUser(id: number): Promise<schema.User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<schema.User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<schema.User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(schema.users)
+      .where(eq(schema.users.email, email));
+    return user;
+  }
+
+  async createUser(user: schema.InsertUser): Promise<schema.User> {
+    const [newUser] = await this.db
+      .insert(schema.users)
+      .values({ ...user, password: await generateHash(user.password) })
+      .returning();
+    return newUser;
+  }
+
+  async updateUser(
+    id: number,
+    data: Partial<schema.InsertUser>,
+  ): Promise<schema.User | undefined> {
+    const changes = data.password
+      ? { ...data, password: await generateHash(data.password) }
+      : data;
+
+    const [updatedUser] = await this.db
+      .update(schema.users)
+      .set(changes)
+      .where(eq(schema.users.id, id))
+      .returning();
+    return updatedUser;
+  }
+
+  async getUsers(): Promise<schema.User[]> {
+    return this.db.select().from(schema.users);
+  }
+
+  async updateUserlast_login(id: number): Promise<void> {
+    await this.db
+      .update(schema.users)
+      .set({ last_login: new Date() })
+      .where(eq(schema.users.id, id));
+  }
+
+  async markUserDeleted(id: number): Promise<void> {
+    await this.db
+      .update(schema.users)
+      .set({ is_active: false, deleted_at: new Date() })
+      .where(eq(schema.users.id, id));
+  }
+
+  async reassignUserAssignments(
+    fromUserId: number,
+    toUserId: number,
+  ): Promise<{ test_cases: number; bugs: number }> {
+    return this.transaction(async (tx) => {
+      const testCases = await tx.db
+        .update(schema.testCases)
+        .set({ assigned_to: toUserId })
+        .where(eq(schema.testCases.assigned_to, fromUserId))
+        .returning({ id: schema.testCases.id });
+
+      const bugs = await tx.db
+        .update(schema.bugs)
+        .set({ assigned_to: toUserId })
+        .where(eq(schema.bugs.assigned_to, fromUserId))
+        .returning({ id: schema.bugs.id });
+
+      return { test_cases: testCases.length, bugs: bugs.length };
+    });
+  }
+
+  async setUserTwoFactor(
+    id: number,
+    settings: schema.TwoFactorSettings,
+  ): Promise<void> {
+    await this.db
+      .update(schema.users)
+      .set(settings)
+      .where(eq(schema.users.id, id));
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<boolean> {
+    const claimed = await this.db
+      .update(schema.users)
+      .set({ totp_last_step: step })
+      .where(
+        and(
+          eq(schema.users.id, id),
+          or(
+            isNull(schema.users.totp_last_step),
+            lt(schema.users.totp_last_step, step),
+          ),
+        ),
+      )
+      .returning({ id: schema.users.id });
+    return claimed.length > 0;
+  }
+
+  async verifyCredentials(
+    username: string,
+    password: string,
+  ): Promise<schema.User | undefined> {
+    const user = await this.getUserByUsername(username);
+    if (!user) return undefined;
+
+    const passwordValid = await verifyHash(password, user.password);
+    if (!passwordValid) return undefined;
+
+    // Move hashes from older algorithms or weaker settings to the current one
+    if (needsRehash(user.password)) {
+      return (await this.updateUser(user.id, { password })) ?? user;
+    }
+
+    return user;
+  }
+
+  // Team operations
+  async getTeams(): Promise<schema.Team[]> {
+    return this.db.select().from(schema.teams).orderBy(asc(schema.teams.name));
+  }
+
+  async getTeam(id: number): Promise<schema.Team | undefined> {
+    const [team] = await this.db
+      .select()
+      .from(schema.teams)
+      .where(eq(schema.teams.id, id));
+    return team;
+  }
+
+  async createTeam(team: schema.InsertTeam): Promise<schema.Team> {
+    const [newTeam] = await this.db
+      .insert(schema.teams)
+      .values(team)
+      .returning();
+    return newTeam;
+  }
+
+  async updateTeam(
+    id: number,
+    team: Partial<schema.InsertTeam>,
+  ): Promise<schema.Team | undefined> {
+    const [updatedTeam] = await this.db
+      .update(schema.teams)
+      .set(team)
+      .where(eq(schema.teams.id, id))
+      .returning();
+    return updatedTeam;
+  }
+
+  // Removes the team along with its memberships, folder ownership and
+  // assignments; the affected items keep their individual assignees
+  async deleteTeam(id: number): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      await tx.db
+        .update(schema.testCases)
+        .set({ assigned_team_id: null })
+        .where(eq(schema.testCases.assigned_team_id, id));
+      await tx.db
+        .update(schema.bugs)
+        .set({ assigned_team_id: null })
+        .where(eq(schema.bugs.assigned_team_id, id));
+      await tx.db
+        .update(schema.folders)
+        .set({ team_id: null })
+        .where(eq(schema.folders.team_id, id));
+      await tx.db
+        .delete(schema.teamMembers)
+        .where(eq(schema.teamMembers.team_id, id));
+
+      const deleted = await tx.db
+        .delete(schema.teams)
+        .where(eq(schema.teams.id, id))
+        .returning({ id: schema.teams.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getTeamMembers(teamId?: number): Promise<schema.TeamMember[]> {
+    return this.db
+      .select()
+      .from(schema.teamMembers)
+      .where(teamId ? eq(schema.teamMembers.team_id, teamId) : undefined);
+  }
+
+  async addTeamMember(
+    teamId: number,
+    userId: number,
+  ): Promise<schema.TeamMember> {
+    const [member] = await this.db
+      .insert(schema.teamMembers)
+      .values({ team_id: teamId, user_id: userId })
+      .onConflictDoUpdate({
+        target: [schema.teamMembers.team_id, schema.teamMembers.user_id],
+        set: { user_id: userId },
+      })
+      .returning();
+    return member;
+  }
+
+  async removeTeamMember(teamId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.teamMembers)
+      .where(
+        and(
+          eq(schema.teamMembers.team_id, teamId),
+          eq(schema.teamMembers.user_id, userId),
+        ),
+      )
+      .returning({ id: schema.teamMembers.id });
+    return deleted.length > 0;
+  }
+
+  // Project operations
+  async createProject(project: schema.InsertProject): Promise<schema.Project> {
+    const [newProject] = await this.db
+      .insert(schema.projects)
+      .values(project)
+      .returning();
+    return newProject;
+  }
+
+  async getProject(id: number): Promise<schema.Project | undefined> {
+    const [project] = await this.db
+      .select()
+      .from(schema.projects)
+      .where(eq(schema.projects.id, id));
+    return project;
+  }
+
+  async getProjects(): Promise<schema.Project[]> {
+    return this.db
+      .select()
+      .from(schema.projects)
+      .orderBy(asc(schema.projects.name));
+  }
+
+  async getUserProjects(userId: number): Promise<schema.Project[]> {
+    const rows = await this.db
+      .select({ project: schema.projects })
+      .from(schema.projectMembers)
+      .innerJoin(
+        schema.projects,
+        eq(schema.projectMembers.project_id, schema.projects.id),
+      )
+      .where(eq(schema.projectMembers.user_id, userId));
+    return rows.map((row) => row.project);
+  }
+
+  async updateProject(
+    id: number,
+    data: Partial<schema.InsertProject>,
+  ): Promise<schema.Project | undefined> {
+    const [updatedProject] = await this.db
+      .update(schema.projects)
+      .set(data)
+      .where(eq(schema.projects.id, id))
+      .returning();
+    return updatedProject;
+  }
+
+  async getProjectMembers(projectId: number): Promise<schema.ProjectMember[]> {
+    return this.db
+      .select()
+      .from(schema.projectMembers)
+      .where(eq(schema.projectMembers.project_id, projectId));
+  }
+
+  async getProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<schema.ProjectMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(schema.projectMembers)
+      .where(
+        and(
+          eq(schema.projectMembers.project_id, projectId),
+          eq(schema.projectMembers.user_id, userId),
+        ),
+      );
+    return member;
+  }
+
+  async setProjectMember(
+    member: schema.InsertProjectMember,
+  ): Promise<schema.ProjectMember> {
+    const [projectMember] = await this.db
+      .insert(schema.projectMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [
+          schema.projectMembers.project_id,
+          schema.projectMembers.user_id,
+        ],
+        set: { role: member.role },
+      })
+      .returning();
+    return projectMember;
+  }
+
+  async removeProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.projectMembers)
+      .where(
+        and(
+          eq(schema.projectMembers.project_id, projectId),
+          eq(schema.projectMembers.user_id, userId),
+        ),
+      )
+      .returning({ id: schema.projectMembers.id });
+    return deleted.length > 0;
+  }
+
+  // Folder operations
+  async createFolder(folder: schema.InsertFolder): Promise<schema.Folder> {
+    const [newFolder] = await this.db
+      .insert(schema.folders)
+      .values(folder)
+      .returning();
+    return newFolder;
+  }
+
+  async getFolder(id: number): Promise<schema.Folder | undefined> {
+    const [folder] = await this.db
+      .select()
+      .from(schema.folders)
+      .where(eq(schema.folders.id, id));
+    return folder;
+  }
+
+  async getFolders(projectId: number): Promise<schema.Folder[]> {
+    return this.db
+      .select()
+      .from(schema.folders)
+      .where(
+        and(
+          eq(schema.folders.project_id, projectId),
+          isNull(schema.folders.deleted_at),
+        ),
+      );
+  }
+
+  async updateFolder(
+    id: number,
+    data: Partial<schema.InsertFolder>,
+  ): Promise<schema.Folder | undefined> {
+    const [updatedFolder] = await this.db
+      .update(schema.folders)
+      .set(data)
+      .where(eq(schema.folders.id, id))
+      .returning();
+    return updatedFolder;
+  }
+
+  async deleteFolder(id: number, deletedBy: number): Promise<boolean> {
+    const deleted = await this.db
+      .update(schema.folders)
+      .set({ deleted_at: new Date(), deleted_by: deletedBy })
+      .where(and(eq(schema.folders.id, id), isNull(schema.folders.deleted_at)))
+      .returning({ id: schema.folders.id });
+    return deleted.length > 0;
+  }
+
+  async restoreFolder(id: number): Promise<schema.Folder | undefined> {
+    const [folder] = await this.db
+      .update(schema.folders)
+      .set({ deleted_at: null, deleted_by: null })
+      .where(
+        and(eq(schema.folders.id, id), isNotNull(schema.folders.deleted_at)),
+      )
+      .returning();
+    return folder;
+  }
+
+  async purgeFolder(id: number): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      await tx.db
+        .delete(schema.testCaseFolders)
+        .where(eq(schema.testCaseFolders.folderId, id));
+
+      const deleted = await tx.db
+        .delete(schema.folders)
+        .where(eq(schema.folders.id, id))
+        .returning({ id: schema.folders.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getTestCountByFolder(): Promise<
+    { folderId: number; testCount: number }[]
+  > {
+    return this.db
+      .select({
+        folderId: schema.testCaseFolders.folderId,
+        testCount: count(),
+      })
+      .from(schema.testCaseFolders)
+      .innerJoin(
+        schema.testCases,
+        eq(schema.testCaseFolders.test_case_id, schema.testCases.id),
+      )
+      .where(isNull(schema.testCases.deleted_at))
+      .groupBy(schema.testCaseFolders.folderId);
+  }
+
+  async assignTestCaseToFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<schema.TestCaseFolder> {
+    const [assignment] = await this.db
+      .insert(schema.testCaseFolders)
+      .values({ test_case_id, folderId })
+      .onConflictDoUpdate({
+        target: [
+          schema.testCaseFolders.test_case_id,
+          schema.testCaseFolders.folderId,
+        ],
+        set: { folderId },
+      })
+      .returning();
+    return assignment;
+  }
+
+  async removeTestCaseFromFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.testCaseFolders)
+      .where(
+        and(
+          eq(schema.testCaseFolders.test_case_id, test_case_id),
+          eq(schema.testCaseFolders.folderId, folderId),
+        ),
+      )
+      .returning({ id: schema.testCaseFolders.id });
+    return deleted.length > 0;
+  }
+
+  async getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]> {
+    const rows = await this.db
+      .select({ folder: schema.folders })
+      .from(schema.testCaseFolders)
+      .innerJoin(
+        schema.folders,
+        eq(schema.testCaseFolders.folderId, schema.folders.id),
+      )
+      .where(
+        and(
+          eq(schema.testCaseFolders.test_case_id, test_case_id),
+          isNull(schema.folders.deleted_at),
+        ),
+      );
+    return rows.map((row) => row.folder);
+  }
+
+  // Test case operations
+  async createTestCase(
+    testCaseWithSteps: schema.TestCaseWithSteps,
+  ): Promise<schema.TestCase> {
+    const { steps, ...testCase } = testCaseWithSteps;
+
+    return this.transaction(async (tx) => {
+      const [newTestCase] = await tx.db
+        .insert(schema.testCases)
+        .values(testCase)
+        .returning();
+
+      if (steps?.length) {
+        await tx.db
+          .insert(schema.testSteps)
+          .values(
+            steps.map((step) => ({ ...step, test_case_id: newTestCase.id })),
+          );
+      }
+
+      await tx.createTestVersion({
+        test_case_id: newTestCase.id,
+        version: newTestCase.version,
+        data: snapshotTestCase(newTestCase, steps ?? []),
+        created_by: newTestCase.created_by,
+      });
+
+      return newTestCase;
+    });
+  }
+
+  async getTestCase(id: number): Promise<schema.TestCase | undefined> {
+    const [testCase] = await this.db
+      .select()
+      .from(schema.testCases)
+      .where(eq(schema.testCases.id, id));
+    return testCase;
+  }
+
+  async getTestCaseWithSteps(
+    id: number,
+  ): Promise<
+    { testCase: schema.TestCase; steps: schema.TestStep[] } | undefined
+  > {
+    const testCase = await this.getTestCase(id);
+    if (!testCase) return undefined;
+
+    const steps = await this.getTestSteps(id);
+    return { testCase, steps };
+  }
+
+  async getTestCases(
+    projectId: number,
+    filters?: TestCaseFilters,
+    options?: ListOptions<TestCaseSortField>,
+  ): Promise<Page<schema.TestCase>> {
+    const { testCases } = schema;
+    return this.list(
+      testCases,
+      and(
+        eq(testCases.project_id, projectId),
+        isNull(testCases.deleted_at),
+        anyOf(testCases.status, filters?.status),
+        anyOf(testCases.priority, filters?.priority),
+        anyOf(testCases.type, filters?.type),
+        anyOf(testCases.assigned_to, filters?.assignedTo),
+        filters?.folderId
+          ? inArray(
+              testCases.id,
+              this.db
+                .select({ id: schema.testCaseFolders.test_case_id })
+                .from(schema.testCaseFolders)
+                .where(eq(schema.testCaseFolders.folderId, filters.folderId)),
+            )
+          : undefined,
+        filters?.teamId
+          ? eq(testCases.assigned_team_id, filters.teamId)
+          : undefined,
+        inRange(testCases.created_at, filters?.createdAt),
+        inRange(testCases.updated_at, filters?.updatedAt),
+        customFieldsMatch(testCases.custom_fields, filters?.customFields),
+        tagsMatch(testCases.tags, filters?.tags),
+      ),
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateTestCase(
+    id: number,
+    data: Partial<schema.InsertTestCase>,
+    steps?: schema.InsertTestStep[],
+    editedBy?: number,
+  ): Promise<schema.TestCase | undefined> {
+    const {
+      id: _id,
+      project_id: _projectId,
+      ...changes
+    } = data as Partial<schema.TestCase>;
+
+    return this.transaction(async (tx) => {
+      const [updatedTestCase] = await tx.db
+        .update(schema.testCases)
+        .set({
+          ...changes,
+          version: sql`${schema.testCases.version} + 1`,
+          updated_at: new Date(),
+        })
+        .where(eq(schema.testCases.id, id))
+        .returning();
+
+      if (!updatedTestCase) return undefined;
+
+      if (steps) {
+        await tx.db
+          .delete(schema.testSteps)
+          .where(eq(schema.testSteps.test_case_id, id));
+
+        if (steps.length > 0) {
+          await tx.db
+            .insert(schema.testSteps)
+            .values(steps.map((step) => ({ ...step, test_case_id: id })));
+        }
+      }
+
+      await tx.createTestVersion({
+        test_case_id: id,
+        version: updatedTestCase.version,
+        data: snapshotTestCase(updatedTestCase, await tx.getTestSteps(id)),
+        created_by: editedBy ?? updatedTestCase.created_by,
+      });
+
+      return updatedTestCase;
+    });
+  }
+
+  async deleteTestCase(id: number, deletedBy: number): Promise<boolean> {
+    const deleted = await this.db
+      .update(schema.testCases)
+      .set({ deleted_at: new Date(), deleted_by: deletedBy })
+      .where(
+        and(eq(schema.testCases.id, id), isNull(schema.testCases.deleted_at)),
+      )
+      .returning({ id: schema.testCases.id });
+    return deleted.length > 0;
+  }
+
+  async restoreTestCase(id: number): Promise<schema.TestCase | undefined> {
+    const [testCase] = await this.db
+      .update(schema.testCases)
+      .set({ deleted_at: null, deleted_by: null })
+      .where(
+        and(
+          eq(schema.testCases.id, id),
+          isNotNull(schema.testCases.deleted_at),
+        ),
+      )
+      .returning();
+    return testCase;
+  }
+
+  // Run results of the test case go with it. Bugs are kept but lose their
+  // link to the test case and to those results.
+  async purgeTestCase(id: number): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      const results = tx.db
+        .select({ id: schema.testRunResults.id })
+        .from(schema.testRunResults)
+        .where(eq(schema.testRunResults.test_case_id, id));
+      await tx.db
+        .update(schema.bugs)
+        .set({ test_run_result_id: null })
+        .where(inArray(schema.bugs.test_run_result_id, results));
+      await tx.db
+        .update(schema.bugs)
+        .set({ test_case_id: null })
+        .where(eq(schema.bugs.test_case_id, id));
+      await tx.db
+        .delete(schema.testRunResults)
+        .where(eq(schema.testRunResults.test_case_id, id));
+
+      await tx.db
+        .delete(schema.testSteps)
+        .where(eq(schema.testSteps.test_case_id, id));
+      await tx.db
+        .delete(schema.testCaseFolders)
+        .where(eq(schema.testCaseFolders.test_case_id, id));
+      await tx.db
+        .delete(schema.testVersions)
+        .where(eq(schema.testVersions.test_case_id, id));
+      await tx.db
+        .delete(schema.attachments)
+        .where(eq(schema.attachments.test_case_id, id));
+
+      const deleted = await tx.db
+        .delete(schema.testCases)
+        .where(eq(schema.testCases.id, id))
+        .returning({ id: schema.testCases.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getTestCasesByFolder(folderId: number): Promise<schema.TestCase[]> {
+    const rows = await this.db
+      .select({ testCase: schema.testCases })
+      .from(schema.testCaseFolders)
+      .innerJoin(
+        schema.testCases,
+        eq(schema.testCaseFolders.test_case_id, schema.testCases.id),
+      )
+      .where(
+        and(
+          eq(schema.testCaseFolders.folderId, folderId),
+          isNull(schema.testCases.deleted_at),
+        ),
+      );
+    return rows.map((row) => row.testCase);
+  }
+
+  // Tag operations
+  async getTags(
+    projectId: number,
+    entityType: TaggableEntityType,
+  ): Promise<TagCount[]> {
+    const { testCases, bugs } = schema;
+    const rows =
+      entityType === "test_case"
+        ? this.db
+            .select({ name: sql<string>`unnest(${testCases.tags})`.as("name") })
+            .from(testCases)
+            .where(
+              and(
+                eq(testCases.project_id, projectId),
+                isNull(testCases.deleted_at),
+              ),
+            )
+        : this.db
+            .select({ name: sql<string>`unnest(${bugs.tags})`.as("name") })
+            .from(bugs)
+            .where(eq(bugs.project_id, projectId));
+    const tags = rows.as("tags");
+
+    return this.db
+      .select({ name: tags.name, count: count() })
+      .from(tags)
+      .groupBy(tags.name)
+      .orderBy(desc(count()), asc(tags.name));
+  }
+
+  // Keeps the existing order of each row's tags and appends the new ones
+  async updateTestCaseTags(
+    projectId: number,
+    ids: number[],
+    add: string[],
+    remove: string[],
+    editedBy: number,
+  ): Promise<number[]> {
+    const { testCases } = schema;
+    return this.transaction(async (tx) => {
+      const rows = await tx.db
+        .update(testCases)
+        .set({
+          tags: sql`array(
+            select tag
+            from unnest(array_cat(${testCases.tags}, ${textArray(add)})) with ordinality as merged(tag, position)
+            where tag <> all(${textArray(remove)})
+            group by tag
+            order by min(position)
+          )`,
+          version: sql`${testCases.version} + 1`,
+          updated_at: new Date(),
+        })
+        .where(
+          and(
+            inArray(testCases.id, ids),
+            eq(testCases.project_id, projectId),
+            isNull(testCases.deleted_at),
+          ),
+        )
+        .returning();
+
+      for (const row of rows) {
+        await tx.createTestVersion({
+          test_case_id: row.id,
+          version: row.version,
+          data: snapshotTestCase(row, await tx.getTestSteps(row.id)),
+          created_by: editedBy,
+        });
+      }
+      return rows.map((row) => row.id);
+    });
+  }
+
+  // Trash operations
+  async getTrash(projectId: number): Promise<Trash> {
+    const { testCases, folders } = schema;
+    return {
+      testCases: await this.db
+        .select()
+        .from(testCases)
+        .where(
+          and(
+            eq(testCases.project_id, projectId),
+            isNotNull(testCases.deleted_at),
+          ),
+        )
+        .orderBy(desc(testCases.deleted_at)),
+      folders: await this.db
+        .select()
+        .from(folders)
+        .where(
+          and(eq(folders.project_id, projectId), isNotNull(folders.deleted_at)),
+        )
+        .orderBy(desc(folders.deleted_at)),
+    };
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<{
+    testCases: number;
+    folders: number;
+    attachments: schema.Attachment[];
+  }> {
+    const testCases = await this.db
+      .select({ id: schema.testCases.id })
+      .from(schema.testCases)
+      .where(lt(schema.testCases.deleted_at, deletedBefore));
+    const folders = await this.db
+      .select({ id: schema.folders.id })
+      .from(schema.folders)
+      .where(lt(schema.folders.deleted_at, deletedBefore));
+
+    const attachments: schema.Attachment[] = [];
+    for (const { id } of testCases) {
+      attachments.push(...(await this.getAttachments(id)));
+      await this.purgeTestCase(id);
+    }
+    for (const { id } of folders) await this.purgeFolder(id);
+    return {
+      testCases: testCases.length,
+      folders: folders.length,
+      attachments,
+    };
+  }
+
+  // Test steps operations
+  async getTestSteps(test_case_id: number): Promise<schema.TestStep[]> {
+    return this.db
+      .select()
+      .from(schema.testSteps)
+      .where(eq(schema.testSteps.test_case_id, test_case_id))
+      .orderBy(asc(schema.testSteps.step_number));
+  }
+
+  // Attachment operations
+  async getAttachments(test_case_id: number): Promise<schema.Attachment[]> {
+    return this.db
+      .select()
+      .from(schema.attachments)
+      .where(eq(schema.attachments.test_case_id, test_case_id))
+      .orderBy(asc(schema.attachments.id));
+  }
+
+  async getAttachment(id: number): Promise<schema.Attachment | undefined> {
+    const [attachment] = await this.db
+      .select()
+      .from(schema.attachments)
+      .where(eq(schema.attachments.id, id));
+    return attachment;
+  }
+
+  async createAttachment(
+    attachment: schema.InsertAttachment,
+  ): Promise<schema.Attachment> {
+    const [newAttachment] = await this.db
+      .insert(schema.attachments)
+      .values(attachment)
+      .returning();
+    return newAttachment;
+  }
+
+  async updateAttachment(
+    id: number,
+    data: Partial<schema.InsertAttachment>,
+  ): Promise<schema.Attachment | undefined> {
+    const [updatedAttachment] = await this.db
+      .update(schema.attachments)
+      .set(data)
+      .where(eq(schema.attachments.id, id))
+      .returning();
+    return updatedAttachment;
+  }
+
+  async deleteAttachment(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.attachments)
+      .where(eq(schema.attachments.id, id))
+      .returning({ id: schema.attachments.id });
+    return deleted.length > 0;
+  }
+
+  // Test case version operations
+  async createTestVersion(
+    version: schema.InsertTestVersion,
+  ): Promise<schema.TestVersion> {
+    const [newVersion] = await this.db
+      .insert(schema.testVersions)
+      .values(version)
+      .returning();
+    return newVersion;
+  }
+
+  async getTestVersions(test_case_id: number): Promise<schema.TestVersion[]> {
+    return this.db
+      .select()
+      .from(schema.testVersions)
+      .where(eq(schema.testVersions.test_case_id, test_case_id))
+      .orderBy(asc(schema.testVersions.version));
+  }
+
+  async revertToVersion(
+    test_case_id: number,
+    version: number,
+    revertedBy?: number,
+  ): Promise<boolean> {
+    const [snapshot] = await this.db
+      .select()
+      .from(schema.testVersions)
+      .where(
+        and(
+          eq(schema.testVersions.test_case_id, test_case_id),
+          eq(schema.testVersions.version, version),
+        ),
+      );
+    if (!snapshot) return false;
+
+    // Reverting saves the restored state as a new version
+    const { changes, steps } = restoreTestCaseSnapshot(
+      test_case_id,
+      snapshot.data,
+    );
+    const updatedTestCase = await this.updateTestCase(
+      test_case_id,
+      changes,
+      steps,
+      revertedBy,
+    );
+    return !!updatedTestCase;
+  }
+
+  // Test run operations
+  async createTestRun(testRun: schema.InsertTestRun): Promise<schema.TestRun> {
+    const [newTestRun] = await this.db
+      .insert(schema.testRuns)
+      .values(testRun)
+      .returning();
+    return newTestRun;
+  }
+
+  async getTestRun(id: number): Promise<schema.TestRun | undefined> {
+    const [testRun] = await this.db
+      .select()
+      .from(schema.testRuns)
+      .where(eq(schema.testRuns.id, id));
+    return testRun;
+  }
+
+  async getTestRuns(
+    projectId: number,
+    filters?: TestRunFilters,
+    options?: ListOptions<TestRunSortField>,
+  ): Promise<Page<schema.TestRun>> {
+    const { testRuns } = schema;
+    return this.list(
+      testRuns,
+      and(
+        eq(testRuns.project_id, projectId),
+        anyOf(testRuns.status, filters?.status),
+        anyOf(testRuns.executed_by, filters?.executedBy),
+        inRange(testRuns.started_at, filters?.startedAt),
+      ),
+      options?.sort ?? { field: "started_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateTestRun(
+    id: number,
+    data: Partial<schema.InsertTestRun>,
+  ): Promise<schema.TestRun | undefined> {
+    const [updatedTestRun] = await this.db
+      .update(schema.testRuns)
+      .set(data)
+      .where(eq(schema.testRuns.id, id))
+      .returning();
+    return updatedTestRun;
+  }
+
+  async completeTestRun(id: number): Promise<schema.TestRun | undefined> {
+    const testRun = await this.getTestRun(id);
+    if (!testRun) return undefined;
+
+    const now = new Date();
+    const [completedTestRun] = await this.db
+      .update(schema.testRuns)
+      .set({
+        status: "completed",
+        complete_at: now,
+        duration: Math.floor(
+          (now.getTime() - testRun.started_at.getTime()) / 1000,
+        ),
+      })
+      .where(eq(schema.testRuns.id, id))
+      .returning();
+    return completedTestRun;
+  }
+
+  // Test run results operations
+  async createTestRunResult(
+    result: schema.InsertTestRunResult,
+  ): Promise<schema.TestRunResult> {
+    return this.transaction(async (tx) => {
+      const [newResult] = await tx.db
+        .insert(schema.testRunResults)
+        .values(result)
+        .returning();
+
+      // Keep the test case status in line with its latest result
+      await tx.db
+        .update(schema.testCases)
+        .set({ status: result.status, last_run: newResult.executed_at })
+        .where(eq(schema.testCases.id, result.test_case_id));
+
+      return newResult;
+    });
+  }
+
+  async getTestRunResults(runId: number): Promise<schema.TestRunResult[]> {
+    return this.db
+      .select()
+      .from(schema.testRunResults)
+      .where(eq(schema.testRunResults.runId, runId))
+      .orderBy(desc(schema.testRunResults.executed_at));
+  }
+
+  async getTestStatusCounts(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
+    return this.db
+      .select({ status: schema.testCases.status, count: count() })
+      .from(schema.testCases)
+      .where(
+        and(
+          eq(schema.testCases.project_id, projectId),
+          isNull(schema.testCases.deleted_at),
+        ),
+      )
+      .groupBy(schema.testCases.status);
+  }
+
+  // Bug operations
+  async createBug(bug: schema.InsertBug): Promise<schema.Bug> {
+    const [newBug] = await this.db.insert(schema.bugs).values(bug).returning();
+    return newBug;
+  }
+
+  async getBug(id: number): Promise<schema.Bug | undefined> {
+    const [bug] = await this.db
+      .select()
+      .from(schema.bugs)
+      .where(eq(schema.bugs.id, id));
+    return bug;
+  }
+
+  async getBugs(
+    projectId: number,
+    filters?: BugFilters,
+    options?: ListOptions<BugSortField>,
+  ): Promise<Page<schema.Bug>> {
+    const { bugs } = schema;
+    return this.list(
+      bugs,
+      and(
+        eq(bugs.project_id, projectId),
+        anyOf(bugs.status, filters?.status),
+        anyOf(bugs.severity, filters?.severity),
+        anyOf(bugs.assigned_to, filters?.assignedTo),
+        filters?.test_case_id
+          ? eq(bugs.test_case_id, filters.test_case_id)
+          : undefined,
+        filters?.teamId ? eq(bugs.assigned_team_id, filters.teamId) : undefined,
+        inRange(bugs.reported_at, filters?.reportedAt),
+        customFieldsMatch(bugs.custom_fields, filters?.customFields),
+        tagsMatch(bugs.tags, filters?.tags),
+      ),
+      options?.sort ?? { field: "reported_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateBug(
+    id: number,
+    data: Partial<schema.InsertBug>,
+  ): Promise<schema.Bug | undefined> {
+    const [updatedBug] = await this.db
+      .update(schema.bugs)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(schema.bugs.id, id))
+      .returning();
+    return updatedBug;
+  }
+
+  // Custom field operations
+  async getCustomFields(
+    projectId: number,
+    entityType?: schema.CustomFieldEntityType,
+  ): Promise<schema.CustomField[]> {
+    const { customFields } = schema;
+    return this.db
+      .select()
+      .from(customFields)
+      .where(
+        and(
+          eq(customFields.project_id, projectId),
+          entityType ? eq(customFields.entity_type, entityType) : undefined,
+        ),
+      )
+      .orderBy(asc(customFields.position), asc(customFields.id));
+  }
+
+  async getCustomField(id: number): Promise<schema.CustomField | undefined> {
+    const [field] = await this.db
+      .select()
+      .from(schema.customFields)
+      .where(eq(schema.customFields.id, id));
+    return field;
+  }
+
+  async createCustomField(
+    field: schema.InsertCustomField,
+  ): Promise<schema.CustomField> {
+    const [newField] = await this.db
+      .insert(schema.customFields)
+      .values(field)
+      .returning();
+    return newField;
+  }
+
+  async updateCustomField(
+    id: number,
+    data: Partial<schema.InsertCustomField>,
+  ): Promise<schema.CustomField | undefined> {
+    const [updatedField] = await this.db
+      .update(schema.customFields)
+      .set(data)
+      .where(eq(schema.customFields.id, id))
+      .returning();
+    return updatedField;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.customFields)
+      .where(eq(schema.customFields.id, id))
+      .returning({ id: schema.customFields.id });
+    return deleted.length > 0;
+  }
+
+  // Shared step operations
+  async getSharedSteps(projectId: number): Promise<schema.SharedStep[]> {
+    return this.db
+      .select()
+      .from(schema.sharedSteps)
+      .where(eq(schema.sharedSteps.project_id, projectId))
+      .orderBy(asc(schema.sharedSteps.name), asc(schema.sharedSteps.id));
+  }
+
+  async getSharedStep(id: number): Promise<schema.SharedStep | undefined> {
+    const [step] = await this.db
+      .select()
+      .from(schema.sharedSteps)
+      .where(eq(schema.sharedSteps.id, id));
+    return step;
+  }
+
+  async createSharedStep(
+    step: schema.InsertSharedStep,
+  ): Promise<schema.SharedStep> {
+    return this.transaction(async (tx) => {
+      const [newStep] = await tx.db
+        .insert(schema.sharedSteps)
+        .values(step)
+        .returning();
+
+      await tx.db.insert(schema.sharedStepVersions).values({
+        shared_step_id: newStep.id,
+        version: newStep.version,
+        name: newStep.name,
+        steps: newStep.steps,
+        created_by: newStep.created_by,
+      });
+
+      return newStep;
+    });
+  }
+
+  // created_by in data names the editor of the new version; the shared
+  // step keeps its original author
+  async updateSharedStep(
+    id: number,
+    data: Partial<schema.InsertSharedStep>,
+  ): Promise<schema.SharedStep | undefined> {
+    const { created_by, ...changes } = data;
+    return this.transaction(async (tx) => {
+      const [updatedStep] = await tx.db
+        .update(schema.sharedSteps)
+        .set({
+          ...changes,
+          version: sql`${schema.sharedSteps.version} + 1`,
+          updated_at: new Date(),
+        })
+        .where(eq(schema.sharedSteps.id, id))
+        .returning();
+
+      if (!updatedStep) return undefined;
+
+      await tx.db.insert(schema.sharedStepVersions).values({
+        shared_step_id: id,
+        version: updatedStep.version,
+        name: updatedStep.name,
+        steps: updatedStep.steps,
+        created_by: created_by ?? updatedStep.created_by,
+      });
+
+      return updatedStep;
+    });
+  }
+
+  async deleteSharedStep(id: number): Promise<boolean> {
+    return this.transaction(async (tx) => {
+      await tx.db
+        .delete(schema.sharedStepVersions)
+        .where(eq(schema.sharedStepVersions.shared_step_id, id));
+
+      const deleted = await tx.db
+        .delete(schema.sharedSteps)
+        .where(eq(schema.sharedSteps.id, id))
+        .returning({ id: schema.sharedSteps.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getSharedStepVersions(
+    shared_step_id: number,
+  ): Promise<schema.SharedStepVersion[]> {
+    return this.db
+      .select()
+      .from(schema.sharedStepVersions)
+      .where(eq(schema.sharedStepVersions.shared_step_id, shared_step_id))
+      .orderBy(asc(schema.sharedStepVersions.version));
+  }
+
+  async getSharedStepVersion(
+    shared_step_id: number,
+    version: number,
+  ): Promise<schema.SharedStepVersion | undefined> {
+    const { sharedStepVersions } = schema;
+    const [row] = await this.db
+      .select()
+      .from(sharedStepVersions)
+      .where(
+        and(
+          eq(sharedStepVersions.shared_step_id, shared_step_id),
+          eq(sharedStepVersions.version, version),
+        ),
+      );
+    return row;
+  }
+
+  async getSharedStepUsage(shared_step_id: number): Promise<number[]> {
+    const rows = await this.db
+      .selectDistinct({ test_case_id: schema.testSteps.test_case_id })
+      .from(schema.testSteps)
+      .where(eq(schema.testSteps.shared_step_id, shared_step_id))
+      .orderBy(asc(schema.testSteps.test_case_id));
+    return rows.map((row) => row.test_case_id);
+  }
+
+  // Whiteboard operations
+  async createWhiteboard(
+    whiteboard: schema.InsertWhiteboard,
+  ): Promise<schema.Whiteboard> {
+    const [newWhiteboard] = await this.db
+      .insert(schema.whiteboards)
+      .values(whiteboard)
+      .returning();
+    return newWhiteboard;
+  }
+
+  async getWhiteboard(id: number): Promise<schema.Whiteboard | undefined> {
+    const [whiteboard] = await this.db
+      .select()
+      .from(schema.whiteboards)
+      .where(eq(schema.whiteboards.id, id));
+    return whiteboard;
+  }
+
+  async getWhiteboards(
+    projectId: number,
+    filters?: WhiteboardFilters,
+    options?: ListOptions<WhiteboardSortField>,
+  ): Promise<Page<schema.Whiteboard>> {
+    const { whiteboards } = schema;
+    return this.list(
+      whiteboards,
+      and(
+        eq(whiteboards.project_id, projectId),
+        anyOf(whiteboards.created_by, filters?.createdBy),
+        inRange(whiteboards.updated_at, filters?.updatedAt),
+      ),
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateWhiteboard(
+    id: number,
+    data: Partial<schema.InsertWhiteboard>,
+  ): Promise<schema.Whiteboard | undefined> {
+    const [updatedWhiteboard] = await this.db
+      .update(schema.whiteboards)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(schema.whiteboards.id, id))
+      .returning();
+    return updatedWhiteboard;
+  }
+
+  // AI Test Case operations
+  async saveAITestCase(
+    aiTestCase: schema.InsertAITestCase,
+  ): Promise<schema.AITestCase> {
+    const [newAITestCase] = await this.db
+      .insert(schema.aiTestCases)
+      .values(aiTestCase)
+      .returning();
+    return newAITestCase;
+  }
+
+  async markAITestCaseAsImported(id: number): Promise<void> {
+    await this.db
+      .update(schema.aiTestCases)
+      .set({ imported: true })
+      .where(eq(schema.aiTestCases.id, id));
+  }
+
+  async getAITestCases(userId: number): Promise<schema.AITestCase[]> {
+    return this.db
+      .select()
+      .from(schema.aiTestCases)
+      .where(eq(schema.aiTestCases.created_by, userId))
+      .orderBy(desc(schema.aiTestCases.created_at));
+  }
+
+  // Search operations
+  async search(
+    projectId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number },
+  ): Promise<SearchResult[]> {
+    const tsquery = prefixQuery(query);
+    if (!tsquery) return [];
+
+    const { testCases, testSteps, bugs, testRuns, searchVector } = schema;
+    const results: SearchResult[] = [];
+    const rankBy = (vector: SQL) =>
+      sql<number>`ts_rank(${vector}, ${tsquery})`.mapWith(Number);
+
+    // The vectors are the expressions the *_search_idx indexes are built on
+    if (options.types.includes("test_case")) {
+      const vector = searchVector(
+        testCases.title,
+        testCases.description,
+        testCases.expected_result,
+      );
+      const rank = rankBy(vector);
+      const rows = await this.db
+        .select({
+          id: testCases.id,
+          title: testCases.title,
+          headline: headline(
+            tsquery,
+            testCases.title,
+            testCases.description,
+            testCases.expected_result,
+          ),
+          rank,
+        })
+        .from(testCases)
+        .where(
+          and(
+            eq(testCases.project_id, projectId),
+            isNull(testCases.deleted_at),
+            sql`${vector} @@ ${tsquery}`,
+          ),
+        )
+        .orderBy(desc(rank))
+        .limit(options.limit);
+      results.push(
+        ...rows.map(({ headline, ...row }) => ({
+          type: "test_case" as const,
+          ...row,
+          ...parseHeadline(headline),
+        })),
+      );
+    }
+
+    if (options.types.includes("test_step")) {
+      const vector = searchVector(
+        testSteps.description,
+        testSteps.expected_result,
+      );
+      const rank = rankBy(vector);
+      const rows = await this.db
+        .select({
+          id: testSteps.id,
+          test_case_id: testSteps.test_case_id,
+          title: testCases.title,
+          headline: headline(
+            tsquery,
+            testSteps.description,
+            testSteps.expected_result,
+          ),
+          rank,
+        })
+        .from(testSteps)
+        .innerJoin(testCases, eq(testSteps.test_case_id, testCases.id))
+        .where(
+          and(
+            eq(testCases.project_id, projectId),
+            isNull(testCases.deleted_at),
+            sql`${vector} @@ ${tsquery}`,
+          ),
+        )
+        .orderBy(desc(rank))
+        .limit(options.limit);
+      results.push(
+        ...rows.map(({ headline, ...row }) => ({
+          type: "test_step" as const,
+          ...row,
+          ...parseHeadline(headline),
+        })),
+      );
+    }
+
+    if (options.types.includes("bug")) {
+      const vector = searchVector(bugs.title, bugs.description);
+      const rank = rankBy(vector);
+      const rows = await this.db
+        .select({
+          id: bugs.id,
+          test_case_id: bugs.test_case_id,
+          title: bugs.title,
+          headline: headline(tsquery, bugs.title, bugs.description),
+          rank,
+        })
+        .from(bugs)
+        .where(
+          and(eq(bugs.project_id, projectId), sql`${vector} @@ ${tsquery}`),
+        )
+        .orderBy(desc(rank))
+        .limit(options.limit);
+      results.push(
+        ...rows.map(({ headline, test_case_id, ...row }) => ({
+          type: "bug" as const,
+          ...row,
+          test_case_id: test_case_id ?? undefined,
+          ...parseHeadline(headline),
+        })),
+      );
+    }
+
+    if (options.types.includes("test_run")) {
+      const vector = searchVector(testRuns.name, testRuns.description);
+      const rank = rankBy(vector);
+      const rows = await this.db
+        .select({
+          id: testRuns.id,
+          title: testRuns.name,
+          headline: headline(tsquery, testRuns.name, testRuns.description),
+          rank,
+        })
+        .from(testRuns)
+        .where(
+          and(eq(testRuns.project_id, projectId), sql`${vector} @@ ${tsquery}`),
+        )
+        .orderBy(desc(rank))
+        .limit(options.limit);
+      results.push(
+        ...rows.map(({ headline, ...row }) => ({
+          type: "test_run" as const,
+          ...row,
+          ...parseHeadline(headline),
+        })),
+      );
+    }
+
+    return results.sort((a, b) => b.rank - a.rank).slice(0, options.limit);
+  }
+
+  // Activity log operations
+  async logActivity(
+    log: schema.InsertActivityLog,
+  ): Promise<schema.ActivityLog> {
+    const [activityLog] = await this.db
+      .insert(schema.activityLogs)
+      .values(log)
+      .returning();
+    return activityLog;
+  }
+
+  async getRecentActivities(
+    projectId: number,
+    limit: number = 10,
+  ): Promise<
+    (schema.ActivityLog & {
+      user: Pick<schema.User, "username" | "full_name">;
+    })[]
+  > {
+    const rows = await this.db
+      .select({
+        activity: schema.activityLogs,
+        username: schema.users.username,
+        full_name: schema.users.full_name,
+      })
+      .from(schema.activityLogs)
+      .leftJoin(schema.users, eq(schema.activityLogs.user_id, schema.users.id))
+      .where(eq(schema.activityLogs.project_id, projectId))
+      .orderBy(desc(schema.activityLogs.created_at))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      ...row.activity,
+      user: {
+        username: row.username || "Unknown",
+        full_name: row.full_name || "Unknown",
+      },
+    }));
+  }
+
+  // Dashboard statistics
+  async getTestStatusStats(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
+    return this.getTestStatusCounts(projectId);
+  }
+
+  async getRecentTestCases(
+    projectId: number,
+    limit: number = 5,
+  ): Promise<schema.TestCase[]> {
+    return this.db
+      .select()
+      .from(schema.testCases)
+      .where(
+        and(
+          eq(schema.testCases.project_id, projectId),
+          isNull(schema.testCases.deleted_at),
+        ),
+      )
+      .orderBy(desc(schema.testCases.updated_at))
+      .limit(limit);
+  }
+
+  async getTestRunStats(projectId: number): Promise<{
+    totalRuns: number;
+    avgDuration: number | null;
+    passRate: number | null;
+  }> {
+    const [runs] = await this.db
+      .select({
+        totalRuns: count(),
+        avgDuration: sql<
+          string | null
+        >`avg(${schema.testRuns.duration}) filter (where ${schema.testRuns.status} = 'completed')`,
+      })
+      .from(schema.testRuns)
+      .where(eq(schema.testRuns.project_id, projectId));
+
+    const [results] = await this.db
+      .select({
+        total: count(),
+        passed: count(
+          sql`case when ${schema.testRunResults.status} = 'passed' then 1 end`,
+        ),
+      })
+      .from(schema.testRunResults)
+      .innerJoin(
+        schema.testRuns,
+        eq(schema.testRunResults.runId, schema.testRuns.id),
+      )
+      .where(eq(schema.testRuns.project_id, projectId));
+
+    return {
+      totalRuns: runs.totalRuns,
+      avgDuration: runs.avgDuration === null ? null : Number(runs.avgDuration),
+      passRate:
+        results.total > 0 ? (results.passed / results.total) * 100 : null,
+    };
+  }
+
+  // Role permission operations
+  async getRolePermissions(): Promise<schema.RolePermission[]> {
+    return this.db.select().from(schema.rolePermissions);
+  }
+
+  async setRolePermission(
+    role: string,
+    permission: string,
+    granted: boolean,
+  ): Promise<void> {
+    if (granted) {
+      await this.db
+        .insert(schema.rolePermissions)
+        .values({ role, permission })
+        .onConflictDoNothing();
+    } else {
+      await this.db
+        .delete(schema.rolePermissions)
+        .where(
+          and(
+            eq(schema.rolePermissions.role, role),
+            eq(schema.rolePermissions.permission, permission),
+          ),
+        );
+    }
+  }
+
+  // User session operations
+  async createUserSession(
+    userSession: schema.InsertUserSession,
+  ): Promise<schema.UserSession> {
+    const [newUserSession] = await this.db
+      .insert(schema.userSessions)
+      .values(userSession)
+      .returning();
+    return newUserSession;
+  }
+
+  async getUserSessions(userId: number): Promise<schema.UserSession[]> {
+    return this.db
+      .select()
+      .from(schema.userSessions)
+      .where(eq(schema.userSessions.user_id, userId))
+      .orderBy(desc(schema.userSessions.created_at));
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    await this.db
+      .delete(schema.userSessions)
+      .where(eq(schema.userSessions.sid, sid));
+  }
+
+  // Password operations
+  async addPasswordHistory(userId: number, password: string): Promise<void> {
+    await this.db
+      .insert(schema.passwordHistory)
+      .values({ user_id: userId, password });
+  }
+
+  async getPasswordHistory(
+    userId: number,
+    limit: number,
+  ): Promise<schema.PasswordHistoryEntry[]> {
+    return this.db
+      .select()
+      .from(schema.passwordHistory)
+      .where(eq(schema.passwordHistory.user_id, userId))
+      .orderBy(desc(schema.passwordHistory.created_at))
+      .limit(limit);
+  }
+
+  async createPasswordResetToken(
+    token: schema.InsertPasswordResetToken,
+  ): Promise<schema.PasswordResetToken> {
+    const [resetToken] = await this.db
+      .insert(schema.passwordResetTokens)
+      .values(token)
+      .returning();
+    return resetToken;
+  }
+
+  async getPasswordResetToken(
+    tokenHash: string,
+  ): Promise<schema.PasswordResetToken | undefined> {
+    const [resetToken] = await this.db
+      .select()
+      .from(schema.passwordResetTokens)
+      .where(eq(schema.passwordResetTokens.token_hash, tokenHash));
+    return resetToken;
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<void> {
+    await this.db
+      .update(schema.passwordResetTokens)
+      .set({ used_at: new Date() })
+      .where(eq(schema.passwordResetTokens.id, id));
+  }
+
+  // API token operations
+  async createApiToken(token: schema.InsertApiToken): Promise<schema.ApiToken> {
+    const [apiToken] = await this.db
+      .insert(schema.apiTokens)
+      .values({ ...token, scopes: token.scopes as string[] })
+      .returning();
+    return apiToken;
+  }
+
+  async getApiTokens(userId: number): Promise<schema.ApiToken[]> {
+    return this.db
+      .select()
+      .from(schema.apiTokens)
+      .where(eq(schema.apiTokens.user_id, userId))
+      .orderBy(desc(schema.apiTokens.created_at));
+  }
+
+  async getApiTokenByHash(
+    tokenHash: string,
+  ): Promise<schema.ApiToken | undefined> {
+    const [apiToken] = await this.db
+      .select()
+      .from(schema.apiTokens)
+      .where(eq(schema.apiTokens.token_hash, tokenHash));
+    return apiToken;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await this.db
+      .update(schema.apiTokens)
+      .set({ last_used_at: new Date() })
+      .where(eq(schema.apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.apiTokens)
+      .where(eq(schema.apiTokens.id, id))
+      .returning({ id: schema.apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // User invitation operations
+  async createUserInvitation(
+    invitation: schema.InsertUserInvitation,
+  ): Promise<schema.UserInvitation> {
+    const [newInvitation] = await this.db
+      .insert(schema.userInvitations)
+      .values(invitation)
+      .returning();
+    return newInvitation;
+  }
+
+  async getUserInvitations(): Promise<schema.UserInvitation[]> {
+    return this.db
+      .select()
+      .from(schema.userInvitations)
+      .orderBy(desc(schema.userInvitations.created_at));
+  }
+
+  async getUserInvitationByHash(
+    tokenHash: string,
+  ): Promise<schema.UserInvitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(schema.userInvitations)
+      .where(eq(schema.userInvitations.token_hash, tokenHash));
+    return invitation;
+  }
+
+  async markUserInvitationAccepted(id: number): Promise<void> {
+    await this.db
+      .update(schema.userInvitations)
+      .set({ accepted_at: new Date() })
+      .where(eq(schema.userInvitations.id, id));
+  }
+
+  async deleteUserInvitation(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(schema.userInvitations)
+      .where(eq(schema.userInvitations.id, id))
+      .returning({ id: schema.userInvitations.id });
+    return deleted.length > 0;
+  }
+
+  // User identity operations
+  async getUserIdentity(
+    provider: string,
+    subject: string,
+  ): Promise<schema.UserIdentity | undefined> {
+    const [identity] = await this.db
+      .select()
+      .from(schema.userIdentities)
+      .where(
+        and(
+          eq(schema.userIdentities.provider, provider),
+          eq(schema.userIdentities.subject, subject),
+        ),
+      );
+    return identity;
+  }
+
+  async createUserIdentity(
+    identity: schema.InsertUserIdentity,
+  ): Promise<schema.UserIdentity> {
+    const [newIdentity] = await this.db
+      .insert(schema.userIdentities)
+      .values(identity)
+      .returning();
+    return newIdentity;
+  }
+
+  // Login throttle operations
+  async getLoginThrottle(
+    key: string,
+  ): Promise<schema.LoginThrottle | undefined> {
+    const [throttle] = await this.db
+      .select()
+      .from(schema.loginThrottles)
+      .where(eq(schema.loginThrottles.key, key));
+    return throttle;
+  }
+
+  async getLoginThrottles(): Promise<schema.LoginThrottle[]> {
+    return this.db.select().from(schema.loginThrottles);
+  }
+
+  async setLoginThrottle(throttle: schema.LoginThrottle): Promise<void> {
+    await this.db
+      .insert(schema.loginThrottles)
+      .values(throttle)
+      .onConflictDoUpdate({ target: schema.loginThrottles.key, set: throttle });
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    await this.db
+      .delete(schema.loginThrottles)
+      .where(eq(schema.loginThrottles.key, key));
+  }
+
+  // System setting operations
+  async getSystemSettings(): Promise<schema.SystemSetting[]> {
+    return this.db.select().from(schema.systemSettings);
+  }
+
+  async setSystemSetting(key: string, value: unknown): Promise<void> {
+    const updated_at = new Date();
+    await this.db
+      .insert(schema.systemSettings)
+      .values({ key, value, updated_at })
+      .onConflictDoUpdate({
+        target: schema.systemSettings.key,
+        set: { value, updated_at },
+      });
+  }
+}
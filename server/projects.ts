@@ -0,0 +1,26 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+// Global admins act with their own role in every project; everyone else
+// needs a membership, whose role then applies inside that project.
+export async function getProjectRole(
+  user: schema.User,
+  projectId: number,
+): Promise<string | undefined> {
+  if (user.role === "system_owner" || user.role === "admin") {
+    return user.role;
+  }
+
+  const member = await storage.getProjectMember(projectId, user.id);
+  return member?.role;
+}
+
+export async function getAccessibleProjects(
+  user: schema.User,
+): Promise<schema.Project[]> {
+  if (user.role === "system_owner" || user.role === "admin") {
+    return storage.getProjects();
+  }
+
+  return storage.getUserProjects(user.id);
+}
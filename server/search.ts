@@ -0,0 +1,249 @@
+import * as schema from "@shared/schema";
+import { SearchResult, SearchResultType } from "./storage.interface";
+
+const SNIPPET_LENGTH = 160;
+
+// Runs of letters and digits in any script
+const WORD = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+// Lowercased words of text. Queries and documents are split the same way, and
+// every query word has to start some word of the document.
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(WORD) ?? [];
+}
+
+// Searchable text of a document; heavier fields rank higher
+export type SearchField = { text: string | null; weight: number };
+
+export type SearchDocument = {
+  type: SearchResultType;
+  id: number;
+  project_id: number;
+  test_case_id?: number;
+  title: string;
+  fields: SearchField[];
+};
+
+export function testCaseDocument(testCase: schema.TestCase): SearchDocument {
+  return {
+    type: "test_case",
+    id: testCase.id,
+    project_id: testCase.project_id,
+    title: testCase.title,
+    fields: [
+      { text: testCase.title, weight: 3 },
+      { text: testCase.description, weight: 2 },
+      { text: testCase.expected_result, weight: 1 },
+    ],
+  };
+}
+
+// Steps are listed under the title of their test case
+export function testStepDocument(
+  step: schema.TestStep,
+  testCase: Pick<schema.TestCase, "project_id" | "title">,
+): SearchDocument {
+  return {
+    type: "test_step",
+    id: step.id,
+    project_id: testCase.project_id,
+    test_case_id: step.test_case_id,
+    title: testCase.title,
+    fields: [
+      { text: step.description, weight: 2 },
+      { text: step.expected_result, weight: 1 },
+    ],
+  };
+}
+
+export function bugDocument(bug: schema.Bug): SearchDocument {
+  return {
+    type: "bug",
+    id: bug.id,
+    project_id: bug.project_id,
+    test_case_id: bug.test_case_id ?? undefined,
+    title: bug.title,
+    fields: [
+      { text: bug.title, weight: 3 },
+      { text: bug.description, weight: 2 },
+    ],
+  };
+}
+
+export function testRunDocument(run: schema.TestRun): SearchDocument {
+  return {
+    type: "test_run",
+    id: run.id,
+    project_id: run.project_id,
+    title: run.name,
+    fields: [
+      { text: run.name, weight: 3 },
+      { text: run.description, weight: 1 },
+    ],
+  };
+}
+
+// Cuts a window of text around the first match and marks every matching word
+// inside it
+function buildSnippet(
+  text: string,
+  terms: string[],
+): Pick<SearchResult, "snippet" | "highlights"> {
+  const matches: [number, number][] = [];
+  for (const word of Array.from(text.matchAll(WORD))) {
+    if (terms.some((term) => word[0].toLowerCase().startsWith(term))) {
+      matches.push([word.index!, word.index! + word[0].length]);
+    }
+  }
+
+  const start =
+    matches.length > 0 && text.length > SNIPPET_LENGTH
+      ? Math.max(0, Math.min(matches[0][0] - 40, text.length - SNIPPET_LENGTH))
+      : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+
+  return {
+    snippet: prefix + text.slice(start, end) + (end < text.length ? "…" : ""),
+    highlights: matches
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [
+        from - start + prefix.length,
+        to - start + prefix.length,
+      ]),
+  };
+}
+
+// Scores a document against the query words, or returns undefined when one of
+// them matches nothing. A word counts with the weight of the best field it
+// appears in, and whole-word matches beat prefix matches.
+function rankDocument(
+  document: SearchDocument,
+  terms: string[],
+): SearchResult | undefined {
+  const fields = document.fields
+    .filter((field) => field.text)
+    .map((field) => ({ ...field, words: tokenize(field.text!) }));
+
+  let rank = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const field of fields) {
+      if (field.words.includes(term)) {
+        best = Math.max(best, field.weight);
+      } else if (field.words.some((word) => word.startsWith(term))) {
+        best = Math.max(best, field.weight / 2);
+      }
+    }
+    if (best === 0) return undefined;
+    rank += best;
+  }
+
+  // The snippet comes from the field with the most matching words
+  const snippetField = fields
+    .map((field) => ({
+      field,
+      hits: field.words.filter((word) =>
+        terms.some((term) => word.startsWith(term)),
+      ).length,
+    }))
+    .sort((a, b) => b.hits - a.hits || b.field.weight - a.field.weight)[0];
+
+  const { fields: _fields, project_id: _projectId, ...result } = document;
+  return {
+    ...result,
+    ...buildSnippet(snippetField?.field.text ?? document.title, terms),
+    rank,
+  };
+}
+
+// Ranks candidate documents for a query, best first
+export function rankDocuments(
+  documents: Iterable<SearchDocument>,
+  query: string,
+  limit: number,
+): SearchResult[] {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const document of Array.from(documents)) {
+    const result = rankDocument(document, terms);
+    if (result) results.push(result);
+  }
+
+  return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
+
+// Inverted index over the in-memory store, kept up to date on every write
+export class SearchIndex {
+  private documents = new Map<string, SearchDocument>();
+  private words = new Map<string, Set<string>>();
+
+  private key(type: SearchResultType, id: number) {
+    return `${type}:${id}`;
+  }
+
+  upsert(document: SearchDocument) {
+    this.remove(document.type, document.id);
+
+    const key = this.key(document.type, document.id);
+    this.documents.set(key, document);
+    for (const field of document.fields) {
+      for (const word of tokenize(field.text ?? "")) {
+        if (!this.words.has(word)) this.words.set(word, new Set());
+        this.words.get(word)!.add(key);
+      }
+    }
+  }
+
+  remove(type: SearchResultType, id: number) {
+    const key = this.key(type, id);
+    const document = this.documents.get(key);
+    if (!document) return;
+
+    this.documents.delete(key);
+    for (const field of document.fields) {
+      for (const word of tokenize(field.text ?? "")) {
+        const keys = this.words.get(word);
+        keys?.delete(key);
+        if (keys?.size === 0) this.words.delete(word);
+      }
+    }
+  }
+
+  clear() {
+    this.documents.clear();
+    this.words.clear();
+  }
+
+  search(
+    projectId: number,
+    query: string,
+    types: SearchResultType[],
+    limit: number,
+  ): SearchResult[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    // Documents having a word that starts with every term
+    let candidates: Set<string> | undefined;
+    for (const term of terms) {
+      const matching = new Set<string>();
+      for (const [word, keys] of Array.from(this.words)) {
+        if (word.startsWith(term)) keys.forEach((key) => matching.add(key));
+      }
+      candidates = candidates
+        ? new Set(Array.from(candidates).filter((key) => matching.has(key)))
+        : matching;
+    }
+
+    const documents = Array.from(candidates!)
+      .map((key) => this.documents.get(key)!)
+      .filter(
+        (document) =>
+          document.project_id === projectId && types.includes(document.type),
+      );
+    return rankDocuments(documents, query, limit);
+  }
+}
@@ -0,0 +1,242 @@
+import * as schema from "@shared/schema";
+import { IStorage } from "./storage.interface";
+
+// Demo accounts, one per role. They all share SEED_PASSWORD, which defaults
+// to "password" for local setups.
+const demoUsers: Omit<schema.InsertUser, "password">[] = [
+  {
+    username: "admin",
+    email: "admin@example.com",
+    full_name: "System Admin",
+    role: "system_owner",
+  },
+  {
+    username: "manager",
+    email: "manager@example.com",
+    full_name: "Project Manager",
+    role: "admin",
+  },
+  {
+    username: "tester",
+    email: "tester@example.com",
+    full_name: "Test Engineer",
+    role: "tester",
+  },
+  {
+    username: "viewer",
+    email: "viewer@example.com",
+    full_name: "Read Only",
+    role: "viewer",
+  },
+];
+
+const demoFolders = [
+  { name: "Regression Tests", description: "Tests for regression testing" },
+  { name: "Smoke Tests", description: "Quick smoke tests" },
+  { name: "Feature Tests", description: "Feature specific tests" },
+];
+
+// Each case goes into the folder at the given index of demoFolders
+const demoTestCases: {
+  folder: number;
+  testCase: Omit<
+    schema.TestCaseWithSteps,
+    "project_id" | "created_by" | "assigned_to"
+  >;
+}[] = [
+  {
+    folder: 0,
+    testCase: {
+      title: "User Login Verification",
+      description: "Verify that users can login with valid credentials",
+      status: "passed",
+      priority: "high",
+      type: "functional",
+      tags: ["smoke", "auth"],
+      expected_result: "User should be logged in successfully",
+      steps: [
+        {
+          description: "Navigate to login page",
+          expected_result: "Login page is displayed",
+          step_number: 1,
+        },
+        {
+          description: "Enter valid username and password",
+          expected_result: "Credentials are accepted",
+          step_number: 2,
+        },
+        {
+          description: "Click on Login button",
+          expected_result: "User is redirected to dashboard",
+          step_number: 3,
+        },
+      ],
+    },
+  },
+  {
+    folder: 0,
+    testCase: {
+      title: "Password Reset Flow",
+      description: "Test the complete password reset workflow",
+      status: "failed",
+      priority: "critical",
+      type: "functional",
+      tags: ["auth", "email"],
+      expected_result:
+        "Password reset email should be sent and new password should work",
+      steps: [
+        {
+          description: "Navigate to login page",
+          expected_result: "Login page is displayed",
+          step_number: 1,
+        },
+        {
+          description: "Click on Forgot Password link",
+          expected_result: "Reset page is displayed",
+          step_number: 2,
+        },
+        {
+          description: "Enter valid email address",
+          expected_result: "Success message is shown",
+          step_number: 3,
+        },
+        {
+          description: "Check email and click reset link",
+          expected_result: "Reset form is displayed",
+          step_number: 4,
+        },
+        {
+          description: "Enter new password and confirm",
+          expected_result: "Password is updated",
+          step_number: 5,
+        },
+      ],
+    },
+  },
+  {
+    folder: 1,
+    testCase: {
+      title: "User Registration Form Validation",
+      description: "Validate all form fields during user registration",
+      status: "pending",
+      priority: "medium",
+      type: "functional",
+      tags: ["smoke", "forms"],
+      expected_result: "Form should validate all fields correctly",
+      steps: [
+        {
+          description: "Navigate to registration page",
+          expected_result: "Registration form is displayed",
+          step_number: 1,
+        },
+        {
+          description: "Leave required fields empty and submit",
+          expected_result: "Validation errors are shown",
+          step_number: 2,
+        },
+        {
+          description: "Enter invalid format for email",
+          expected_result: "Email validation error is shown",
+          step_number: 3,
+        },
+        {
+          description: "Enter short password",
+          expected_result: "Password validation error is shown",
+          step_number: 4,
+        },
+        {
+          description: "Enter valid details and submit",
+          expected_result: "Registration is successful",
+          step_number: 5,
+        },
+      ],
+    },
+  },
+];
+
+// Loads the demo project into an empty store: a user per role, folders, test
+// cases and a completed run. Returns false without writing anything when the
+// store already has users, so it is safe to run on every start.
+export async function seedDemoData(storage: IStorage): Promise<boolean> {
+  if ((await storage.getUsers()).length > 0) return false;
+
+  const password = process.env.SEED_PASSWORD || "password";
+
+  await storage.withTransaction(async (tx) => {
+    const users: schema.User[] = [];
+    for (const user of demoUsers) {
+      users.push(await tx.createUser({ ...user, password, is_active: true }));
+    }
+    const [owner, manager, tester, viewer] = users;
+
+    const project = await tx.createProject({
+      name: "Default Project",
+      description: "Initial project",
+      created_by: owner.id,
+    });
+
+    await tx.setProjectMember({
+      project_id: project.id,
+      user_id: owner.id,
+      role: "admin",
+    });
+    await tx.setProjectMember({
+      project_id: project.id,
+      user_id: manager.id,
+      role: "admin",
+    });
+    await tx.setProjectMember({
+      project_id: project.id,
+      user_id: tester.id,
+      role: "tester",
+    });
+    await tx.setProjectMember({
+      project_id: project.id,
+      user_id: viewer.id,
+      role: "viewer",
+    });
+
+    const folders: schema.Folder[] = [];
+    for (const folder of demoFolders) {
+      folders.push(
+        await tx.createFolder({
+          ...folder,
+          project_id: project.id,
+          created_by: owner.id,
+        }),
+      );
+    }
+
+    const testCases: schema.TestCase[] = [];
+    for (const { folder, testCase } of demoTestCases) {
+      const created = await tx.createTestCase({
+        ...testCase,
+        project_id: project.id,
+        created_by: owner.id,
+        assigned_to: tester.id,
+      });
+      await tx.assignTestCaseToFolder(created.id, folders[folder].id);
+      testCases.push(created);
+    }
+
+    // Replay the first two cases' statuses as a finished run
+    const run = await tx.createTestRun({
+      project_id: project.id,
+      name: "Initial regression run",
+      description: "Seeded demo run",
+      status: "in_progress",
+      executed_by: tester.id,
+    });
+    for (const testCase of testCases.slice(0, 2)) {
+      await tx.createTestRunResult({
+        runId: run.id,
+        test_case_id: testCase.id,
+        status: testCase.status,
+        executed_by: tester.id,
+      });
+    }
+    await tx.completeTestRun(run.id);
+  });
+
+  return true;
+}
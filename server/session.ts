@@ -0,0 +1,137 @@
+import type { Request } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+export const SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
+// SESSION_STORE selects the backend ("postgres" or "memory"). It defaults to
+// postgres whenever DATABASE_URL points at the application database, so
+// sessions survive restarts and are shared between server instances.
+function createSessionStore(): session.Store {
+  const backend =
+    process.env.SESSION_STORE ||
+    (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (backend) {
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("SESSION_STORE=postgres requires DATABASE_URL");
+      }
+
+      const PgStore = connectPgSimple(session);
+      return new PgStore({
+        conString: process.env.DATABASE_URL,
+        tableName: "session",
+        createTableIfMissing: true,
+        ttl: SESSION_MAX_AGE / 1000,
+      });
+    }
+    case "memory": {
+      if (process.env.NODE_ENV === "production") {
+        console.warn(
+          "Using the in-memory session store: sessions are lost on restart",
+        );
+      }
+
+      const MemoryStoreFactory = MemoryStore(session);
+      return new MemoryStoreFactory({
+        checkPeriod: SESSION_MAX_AGE,
+      });
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${backend}"`);
+  }
+}
+
+export const sessionStore = createSessionStore();
+
+// Record who owns the freshly established session and where it came from,
+// so it can be listed and revoked from the settings page
+export async function recordUserSession(
+  req: Request,
+  user: schema.User,
+): Promise<void> {
+  await storage.createUserSession({
+    sid: req.sessionID,
+    user_id: user.id,
+    user_agent: req.get("User-Agent") ?? null,
+    ip_address: req.ip ?? null,
+    expires_at:
+      req.session.cookie.expires ?? new Date(Date.now() + SESSION_MAX_AGE),
+  });
+}
+
+// Sessions of the user that have not expired yet. Expired records are
+// dropped on the way.
+export async function getActiveUserSessions(
+  userId: number,
+): Promise<schema.UserSession[]> {
+  const now = Date.now();
+  const sessions = await storage.getUserSessions(userId);
+  const active: schema.UserSession[] = [];
+
+  for (const userSession of sessions) {
+    if (new Date(userSession.expires_at).getTime() > now) {
+      active.push(userSession);
+    } else {
+      await storage.deleteUserSession(userSession.sid);
+    }
+  }
+
+  return active;
+}
+
+// Removes the session from the store, which signs out whoever holds it
+export async function revokeUserSession(sid: string): Promise<void> {
+  await new Promise<void>((resolve, reject) =>
+    sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve())),
+  );
+  await storage.deleteUserSession(sid);
+}
+
+// Signs the user out everywhere, optionally keeping one session (the one
+// making the request). Returns how many sessions were revoked.
+export async function revokeUserSessions(
+  userId: number,
+  keepSid?: string,
+): Promise<number> {
+  const sessions = await getActiveUserSessions(userId);
+  const revoked = sessions.filter((userSession) => userSession.sid !== keepSid);
+
+  for (const userSession of revoked) {
+    await revokeUserSession(userSession.sid);
+  }
+
+  return revoked.length;
+}
+
+// "Chrome on Windows" style label for a User-Agent header
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return "Unknown device";
+  }
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown browser";
+
+  const os =
+    [
+      ["Windows", "Windows"],
+      ["Android", "Android"],
+      ["iPhone", "iOS"],
+      ["iPad", "iOS"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
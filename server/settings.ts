@@ -0,0 +1,44 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+// Values used for keys that have never been saved
+export const defaultSystemSettings: schema.SystemSettings = {
+  require_2fa_roles: [],
+  sso_only: false,
+  allow_registration: true,
+  trash_retention_days: 30,
+};
+
+// Settings are consulted on every request (e.g. the 2FA policy), so they are
+// cached the same way as the permission matrix
+const CACHE_TTL_MS = 30 * 1000;
+let cache: { settings: schema.SystemSettings; loadedAt: number } | null = null;
+
+export async function getSystemSettings(): Promise<schema.SystemSettings> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.settings;
+  }
+
+  const settings = { ...defaultSystemSettings };
+  for (const row of await storage.getSystemSettings()) {
+    if (row.key in settings) {
+      (settings as Record<string, unknown>)[row.key] = row.value;
+    }
+  }
+
+  cache = { settings, loadedAt: Date.now() };
+  return settings;
+}
+
+export async function updateSystemSettings(
+  changes: Partial<schema.SystemSettings>,
+): Promise<schema.SystemSettings> {
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      await storage.setSystemSetting(key, value);
+    }
+  }
+
+  cache = null;
+  return getSystemSettings();
+}
@@ -0,0 +1,105 @@
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+export class SharedStepError extends Error {}
+
+type StepInput = Omit<schema.InsertTestStep, "test_case_id">;
+
+// The contents of a shared step block as used by one test step
+export type ExpandedSharedStep = {
+  id: number;
+  name: string;
+  version: number;
+  latest_version: number;
+  pinned: boolean;
+  steps: schema.SharedStepItem[];
+};
+
+export type ExpandedTestStep = schema.TestStep & {
+  shared_step?: ExpandedSharedStep;
+};
+
+// Checks the shared steps that test case steps point at belong to the project
+// and have the pinned version. A reference step without a description gets
+// the block's name, which keeps it readable in exports and search.
+export async function resolveSharedStepRefs<T extends StepInput>(
+  projectId: number,
+  steps: T[],
+): Promise<T[]> {
+  const resolved: T[] = [];
+  for (const step of steps) {
+    if (!step.shared_step_id) {
+      resolved.push({
+        ...step,
+        shared_step_id: null,
+        shared_step_version: null,
+      });
+      continue;
+    }
+
+    const sharedStep = await storage.getSharedStep(step.shared_step_id);
+    if (!sharedStep || sharedStep.project_id !== projectId) {
+      throw new SharedStepError(
+        `Shared step ${step.shared_step_id} does not exist`,
+      );
+    }
+    const version = step.shared_step_version ?? null;
+    if (version !== null && version > sharedStep.version) {
+      throw new SharedStepError(`${sharedStep.name} has no version ${version}`);
+    }
+
+    resolved.push({
+      ...step,
+      description: step.description?.trim() || sharedStep.name,
+      shared_step_version: version,
+    });
+  }
+  return resolved;
+}
+
+// Attaches the steps of the referenced block to each reference step: those of
+// the pinned version, or of the latest one
+export async function expandSharedSteps(
+  steps: schema.TestStep[],
+): Promise<ExpandedTestStep[]> {
+  const sharedSteps = new Map<number, schema.SharedStep | undefined>();
+
+  const expanded: ExpandedTestStep[] = [];
+  for (const step of steps) {
+    if (!step.shared_step_id) {
+      expanded.push(step);
+      continue;
+    }
+
+    if (!sharedSteps.has(step.shared_step_id)) {
+      sharedSteps.set(
+        step.shared_step_id,
+        await storage.getSharedStep(step.shared_step_id),
+      );
+    }
+    const sharedStep = sharedSteps.get(step.shared_step_id);
+    if (!sharedStep) {
+      expanded.push(step);
+      continue;
+    }
+
+    const version = step.shared_step_version ?? sharedStep.version;
+    const contents =
+      version === sharedStep.version
+        ? sharedStep
+        : await storage.getSharedStepVersion(sharedStep.id, version);
+
+    expanded.push({
+      ...step,
+      shared_step: {
+        id: sharedStep.id,
+        name: contents?.name ?? sharedStep.name,
+        version,
+        latest_version: sharedStep.version,
+        pinned: step.shared_step_version !== null,
+        steps: contents?.steps ?? [],
+      },
+    });
+  }
+  return expanded;
+}
@@ -0,0 +1,196 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { OAuth2Server } from "oauth2-mock-server";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { IStorage } from "./storage.interface";
+
+// Runs the OIDC login flow end to end: the app redirects to a mock issuer,
+// which redirects back to the callback with a code, and the app exchanges it
+// for tokens and provisions the user. Each sign-in issues the claims given.
+let claims: Record<string, unknown> = {};
+let issuer: OAuth2Server;
+let server: Server;
+let appUrl: string;
+let storage: IStorage;
+
+beforeAll(async () => {
+  issuer = new OAuth2Server();
+  await issuer.issuer.keys.generate("RS256");
+  await issuer.start(0, "localhost");
+  issuer.service.on("beforeTokenSigning", (token) => {
+    Object.assign(token.payload, claims);
+  });
+  issuer.service.on("beforeUserinfo", (response) => {
+    response.body = { ...claims };
+  });
+
+  // Read when the modules load, so set before importing them
+  Object.assign(process.env, {
+    STORAGE_BACKEND: "memory",
+    OIDC_ISSUER_URL: issuer.issuer.url,
+    OIDC_CLIENT_ID: "rtmt",
+    OIDC_CLIENT_SECRET: "secret",
+    OIDC_ALLOW_INSECURE_REQUESTS: "true",
+    OIDC_REDIRECT_URI: "http://localhost/api/auth/sso/oidc/callback",
+    OIDC_ROLE_MAPPING: "qa-leads:admin,qa:tester",
+    SSO_DEFAULT_ROLE: "viewer",
+  });
+  ({ storage } = await import("./storage"));
+  const { registerRoutes } = await import("./routes");
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  appUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+}, 60_000);
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+  await issuer.stop();
+});
+
+// Signs in through the provider as the given claims and returns the signed in
+// user, or the error shown on the login page
+async function signIn(
+  tokenClaims: Record<string, unknown>,
+): Promise<{ user?: any; error?: string | null }> {
+  claims = tokenClaims;
+  const cookies = new Map<string, string>();
+  const request = async (url: string) => {
+    const response = await fetch(url, {
+      redirect: "manual",
+      headers: {
+        cookie: Array.from(cookies, ([name, value]) => `${name}=${value}`).join(
+          "; ",
+        ),
+      },
+    });
+    for (const cookie of response.headers.getSetCookie()) {
+      const [pair] = cookie.split(";");
+      const separator = pair.indexOf("=");
+      cookies.set(pair.slice(0, separator), pair.slice(separator + 1));
+    }
+    return response;
+  };
+
+  const login = await request(`${appUrl}/api/auth/sso/oidc`);
+  const authorize = await fetch(login.headers.get("location")!, {
+    redirect: "manual",
+  });
+  const callback = new URL(authorize.headers.get("location")!);
+  const done = await request(`${appUrl}${callback.pathname}${callback.search}`);
+
+  const location = new URL(done.headers.get("location")!, appUrl);
+  if (location.pathname !== "/") {
+    return { error: location.searchParams.get("sso_error") };
+  }
+  const me = await request(`${appUrl}/api/auth/me`);
+  return { user: await me.json() };
+}
+
+describe("OIDC single sign-on", () => {
+  it("provisions a user with the role of their mapped groups", async () => {
+    const { user } = await signIn({
+      sub: "sub-ada",
+      email: "ada@example.com",
+      email_verified: true,
+      preferred_username: "ada",
+      name: "Ada Lovelace",
+      groups: ["qa", "qa-leads"],
+    });
+
+    expect(user).toMatchObject({
+      username: "ada",
+      email: "ada@example.com",
+      full_name: "Ada Lovelace",
+      role: "admin",
+    });
+    expect(await storage.getUserIdentity("oidc", "sub-ada")).toMatchObject({
+      user_id: user.id,
+    });
+  });
+
+  it("signs the subject into the same account and syncs its role", async () => {
+    const first = await signIn({
+      sub: "sub-grace",
+      email: "grace@example.com",
+      groups: ["qa-leads"],
+    });
+    const second = await signIn({
+      sub: "sub-grace",
+      email: "grace@example.com",
+      groups: ["qa"],
+    });
+    const third = await signIn({
+      sub: "sub-grace",
+      email: "grace@example.com",
+      groups: ["marketing"],
+    });
+
+    expect(first.user.role).toBe("admin");
+    expect(second.user).toMatchObject({ id: first.user.id, role: "tester" });
+    expect(third.user).toMatchObject({ id: first.user.id, role: "viewer" });
+  });
+
+  it("links an existing account only when the email is verified", async () => {
+    const existing = await storage.createUser({
+      username: "linus",
+      email: "linus@example.com",
+      password: "correct horse",
+      full_name: "Linus",
+      role: "tester",
+    });
+
+    const unverified = await signIn({
+      sub: "sub-linus",
+      email: "linus@example.com",
+      email_verified: false,
+      groups: ["qa"],
+    });
+    expect(unverified.error).toMatch(/has not verified the address/);
+    expect(await storage.getUserIdentity("oidc", "sub-linus")).toBeUndefined();
+
+    const missingClaim = await signIn({
+      sub: "sub-linus",
+      email: "linus@example.com",
+      groups: ["qa"],
+    });
+    expect(missingClaim.error).toMatch(/has not verified the address/);
+
+    const verified = await signIn({
+      sub: "sub-linus",
+      email: "linus@example.com",
+      email_verified: true,
+      groups: ["qa"],
+    });
+    expect(verified.user.id).toBe(existing.id);
+  });
+
+  it("rejects a sign-in without an email address", async () => {
+    const { error } = await signIn({ sub: "sub-anonymous", groups: ["qa"] });
+
+    expect(error).toMatch(/did not return an email address/);
+  });
+
+  it("keeps the last system owner's role whatever the groups say", async () => {
+    const owner = await storage.createUser({
+      username: "owner",
+      email: "owner@example.com",
+      password: "correct horse",
+      full_name: "Owner",
+      role: "system_owner",
+    });
+
+    const { user } = await signIn({
+      sub: "sub-owner",
+      email: "owner@example.com",
+      email_verified: true,
+      groups: ["qa"],
+    });
+
+    expect(user).toMatchObject({ id: owner.id, role: "system_owner" });
+  });
+});
@@ -0,0 +1,301 @@
+import crypto from "crypto";
+import type { Strategy as PassportStrategy } from "passport";
+import * as oidc from "openid-client";
+import { Strategy as OidcStrategy } from "openid-client/passport";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { getSystemSettings } from "./settings";
+
+// A configured single sign-on provider. Each provider is a passport strategy
+// registered under `id`; SAML or other protocols can be added the same way.
+export interface SsoProvider {
+  id: string;
+  name: string;
+  strategy: PassportStrategy;
+}
+
+// A login the provider vouched for but that cannot be let in; the message is
+// shown on the login page
+export class SsoError extends Error {}
+
+// What a provider tells us about the person signing in
+export interface SsoProfile {
+  subject: string;
+  email?: string;
+  email_verified?: boolean;
+  username?: string;
+  full_name?: string;
+  groups: string[];
+}
+
+// Parses "group:role,group:role" into a lookup, ignoring unknown roles
+function parseRoleMapping(value: string | undefined): Map<string, schema.Role> {
+  const mapping = new Map<string, schema.Role>();
+  for (const entry of (value ?? "").split(",")) {
+    const separator = entry.lastIndexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const group = entry.slice(0, separator).trim();
+    const role = entry.slice(separator + 1).trim() as schema.Role;
+    if (group && schema.roles.includes(role)) {
+      mapping.set(group, role);
+    }
+  }
+  return mapping;
+}
+
+export const ssoConfig = {
+  groupsClaim: process.env.OIDC_GROUPS_CLAIM || "groups",
+  roleMapping: parseRoleMapping(process.env.OIDC_ROLE_MAPPING),
+  defaultRole: (schema.roles.includes(
+    process.env.SSO_DEFAULT_ROLE as schema.Role,
+  )
+    ? process.env.SSO_DEFAULT_ROLE
+    : "viewer") as schema.Role,
+};
+
+// Picks the most privileged role mapped from the user's groups. Roles are
+// listed from most to least privileged in schema.roles.
+export function mapGroupsToRole(groups: string[]): schema.Role | undefined {
+  const mapped = groups
+    .map((group) => ssoConfig.roleMapping.get(group))
+    .filter((role): role is schema.Role => !!role);
+
+  return schema.roles.find((role) => mapped.includes(role));
+}
+
+// The system must keep an active owner, whatever the provider says
+async function isLastSystemOwner(user: schema.User): Promise<boolean> {
+  if (user.role !== "system_owner") {
+    return false;
+  }
+  const owners = (await storage.getUsers()).filter(
+    (other) =>
+      other.role === "system_owner" && other.is_active && !other.deleted_at,
+  );
+  return owners.length <= 1;
+}
+
+async function uniqueUsername(profile: SsoProfile): Promise<string> {
+  const source =
+    profile.username || profile.email?.split("@")[0] || profile.subject;
+  let base = source.toLowerCase().replace(/[^a-z0-9._-]/g, "");
+  if (base.length < 3) {
+    base = `user-${base}`;
+  }
+
+  let candidate = base;
+  for (let suffix = 2; await storage.getUserByUsername(candidate); suffix++) {
+    candidate = `${base}${suffix}`;
+  }
+  return candidate;
+}
+
+// Finds the user for an SSO login, linking an existing account by email
+// (only when the provider says it verified the address) or creating one on
+// first sign-in. With a role mapping configured, the role is synced on every
+// login so group changes at the provider take effect, and a user left without
+// mapped groups drops to the default role.
+export async function provisionSsoUser(
+  provider: string,
+  profile: SsoProfile,
+): Promise<schema.User> {
+  const mappedRole = mapGroupsToRole(profile.groups);
+
+  const identity = await storage.getUserIdentity(provider, profile.subject);
+  let user = identity ? await storage.getUser(identity.user_id) : undefined;
+
+  if (!user && profile.email) {
+    user = await storage.getUserByEmail(profile.email);
+    if (user && profile.email_verified !== true) {
+      throw new SsoError(
+        "An account with this email exists, but the identity provider has not verified the address",
+      );
+    }
+    if (user) {
+      await storage.createUserIdentity({
+        user_id: user.id,
+        provider,
+        subject: profile.subject,
+      });
+      storage.logActivity({
+        user_id: user.id,
+        action: "link_sso_identity",
+        entity_type: "user",
+        entity_id: user.id,
+        details: { provider },
+      });
+    }
+  }
+
+  if (!user) {
+    if (!profile.email) {
+      throw new SsoError(
+        "The identity provider did not return an email address",
+      );
+    }
+
+    user = await storage.createUser({
+      username: await uniqueUsername(profile),
+      email: profile.email,
+      full_name: profile.full_name || profile.username || profile.email,
+      // Never used to sign in; the account authenticates through the provider
+      password: crypto.randomBytes(32).toString("hex"),
+      role: mappedRole ?? ssoConfig.defaultRole,
+      is_active: true,
+    });
+    await storage.createUserIdentity({
+      user_id: user.id,
+      provider,
+      subject: profile.subject,
+    });
+    storage.logActivity({
+      user_id: user.id,
+      action: "provision_sso_user",
+      entity_type: "user",
+      entity_id: user.id,
+      details: { provider, username: user.username, role: user.role },
+    });
+    return user;
+  }
+
+  const syncedRole =
+    ssoConfig.roleMapping.size > 0
+      ? (mappedRole ?? ssoConfig.defaultRole)
+      : undefined;
+  if (
+    syncedRole &&
+    syncedRole !== user.role &&
+    !(await isLastSystemOwner(user))
+  ) {
+    const previousRole = user.role;
+    user = (await storage.updateUser(user.id, { role: syncedRole }))!;
+    storage.logActivity({
+      user_id: user.id,
+      action: "sync_sso_role",
+      entity_type: "user",
+      entity_id: user.id,
+      details: { provider, from: previousRole, to: syncedRole },
+    });
+  }
+
+  return user;
+}
+
+function claimString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function claimGroups(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.filter((group): group is string => typeof group === "string");
+  }
+  return typeof value === "string" ? [value] : [];
+}
+
+// OIDC provider configured from OIDC_* environment variables. Discovery
+// runs once at startup against OIDC_ISSUER_URL.
+async function createOidcProvider(): Promise<SsoProvider | undefined> {
+  const issuerUrl = process.env.OIDC_ISSUER_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuerUrl || !clientId) {
+    return undefined;
+  }
+
+  // Plain HTTP is only meant for a local mock issuer during development
+  const allowInsecure = process.env.OIDC_ALLOW_INSECURE_REQUESTS === "true";
+  const config = await oidc.discovery(
+    new URL(issuerUrl),
+    clientId,
+    process.env.OIDC_CLIENT_SECRET,
+    undefined,
+    allowInsecure ? { execute: [oidc.allowInsecureRequests] } : undefined,
+  );
+
+  const appUrl = process.env.APP_URL || "http://localhost:5000";
+  const strategy = new OidcStrategy(
+    {
+      config,
+      name: "oidc",
+      callbackURL:
+        process.env.OIDC_REDIRECT_URI || `${appUrl}/api/auth/sso/oidc/callback`,
+      scope: process.env.OIDC_SCOPES || "openid email profile",
+    },
+    async (tokens, verified) => {
+      try {
+        const claims: Record<string, unknown> = { ...tokens.claims() };
+
+        // Groups are often only released through the userinfo endpoint
+        if (config.serverMetadata().userinfo_endpoint) {
+          Object.assign(
+            claims,
+            await oidc.fetchUserInfo(
+              config,
+              tokens.access_token,
+              claims.sub as string,
+            ),
+          );
+        }
+
+        const user = await provisionSsoUser("oidc", {
+          subject: claims.sub as string,
+          email: claimString(claims.email),
+          email_verified:
+            typeof claims.email_verified === "boolean"
+              ? claims.email_verified
+              : undefined,
+          username: claimString(claims.preferred_username),
+          full_name: claimString(claims.name),
+          groups: claimGroups(claims[ssoConfig.groupsClaim]),
+        });
+
+        if (!user.is_active) {
+          return verified(null, false, { message: "Account is deactivated" });
+        }
+
+        verified(null, user);
+      } catch (error) {
+        if (error instanceof SsoError) {
+          return verified(null, false, { message: error.message });
+        }
+        verified(error);
+      }
+    },
+  );
+
+  return {
+    id: "oidc",
+    name: process.env.OIDC_DISPLAY_NAME || "Single Sign-On",
+    // openid-client types `authenticate` with its own `this`, which
+    // @types/passport does not accept although passport calls it correctly
+    strategy: strategy as unknown as PassportStrategy,
+  };
+}
+
+export const ssoProviders: SsoProvider[] = [];
+
+// Sets up every configured provider. A provider that cannot be reached is
+// logged and left out so password login keeps working.
+export async function configureSsoProviders(): Promise<SsoProvider[]> {
+  try {
+    const provider = await createOidcProvider();
+    if (provider) {
+      ssoProviders.push(provider);
+    }
+  } catch (error) {
+    console.error("Failed to configure OIDC single sign-on:", error);
+  }
+
+  return ssoProviders;
+}
+
+export function getSsoProvider(id: string): SsoProvider | undefined {
+  return ssoProviders.find((provider) => provider.id === id);
+}
+
+// SSO-only mode only applies once a provider is actually available
+export async function isSsoOnly(): Promise<boolean> {
+  const settings = await getSystemSettings();
+  return settings.sso_only && ssoProviders.length > 0;
+}
@@ -0,0 +1,497 @@
+import * as schema from "@shared/schema";
+
+// Both ends are inclusive; either may be left open
+export type DateRange = { from?: Date; to?: Date };
+
+// Matches rows whose custom field holds any of the values. For multi_select
+// fields, any overlap with the selected options counts.
+export type CustomFieldFilter = { key: string; values: string[] };
+
+// Parsed tag filter such as "smoke AND NOT flaky" (see tag-expression.ts)
+export type TagExpression =
+  | { tag: string }
+  | { not: TagExpression }
+  | { and: TagExpression[] }
+  | { or: TagExpression[] };
+
+// A tag in use and the number of rows carrying it
+export type TagCount = { name: string; count: number };
+
+export type TaggableEntityType = "test_case" | "bug";
+
+// Multi-value filters match any of the given values
+export type TestCaseFilters = {
+  status?: string[];
+  priority?: string[];
+  type?: string[];
+  assignedTo?: number[];
+  folderId?: number;
+  teamId?: number;
+  createdAt?: DateRange;
+  updatedAt?: DateRange;
+  customFields?: CustomFieldFilter[];
+  tags?: TagExpression;
+};
+
+export type BugFilters = {
+  status?: string[];
+  severity?: string[];
+  assignedTo?: number[];
+  test_case_id?: number;
+  teamId?: number;
+  reportedAt?: DateRange;
+  customFields?: CustomFieldFilter[];
+  tags?: TagExpression;
+};
+
+export type TestRunFilters = {
+  status?: string[];
+  executedBy?: number[];
+  startedAt?: DateRange;
+};
+
+export type WhiteboardFilters = {
+  createdBy?: number[];
+  updatedAt?: DateRange;
+};
+
+// Columns the list endpoints may sort by
+export const testCaseSortFields = [
+  "title",
+  "status",
+  "priority",
+  "type",
+  "created_at",
+  "updated_at",
+  "last_run",
+] as const;
+export const bugSortFields = [
+  "title",
+  "status",
+  "severity",
+  "reported_at",
+  "updated_at",
+] as const;
+export const testRunSortFields = [
+  "name",
+  "status",
+  "started_at",
+  "complete_at",
+  "duration",
+] as const;
+export const whiteboardSortFields = [
+  "name",
+  "created_at",
+  "updated_at",
+] as const;
+
+export type TestCaseSortField = (typeof testCaseSortFields)[number];
+export type BugSortField = (typeof bugSortFields)[number];
+export type TestRunSortField = (typeof testRunSortFields)[number];
+export type WhiteboardSortField = (typeof whiteboardSortFields)[number];
+
+// Sorting and paging for list operations. Without a limit every matching row
+// is returned; ties in the sort column are broken by id so pages are stable.
+export type ListOptions<F extends string> = {
+  sort?: { field: F; direction: "asc" | "desc" };
+  page?: number;
+  limit?: number;
+};
+
+// One page of a list and the number of rows matching its filters
+export type Page<T> = { items: T[]; total: number };
+
+// Trashed items of a project, most recently deleted first
+export type Trash = { testCases: schema.TestCase[]; folders: schema.Folder[] };
+
+export const searchResultTypes = [
+  "test_case",
+  "test_step",
+  "bug",
+  "test_run",
+] as const;
+export type SearchResultType = (typeof searchResultTypes)[number];
+
+export type SearchResult = {
+  type: SearchResultType;
+  id: number;
+  // Test case a step or bug belongs to, so the result can link to it
+  test_case_id?: number;
+  title: string;
+  snippet: string;
+  // [start, end) offsets of the matched words within snippet
+  highlights: [number, number][];
+  // Only comparable between results of the same search
+  rank: number;
+};
+
+export type ActivityWithUser = schema.ActivityLog & {
+  user: Pick<schema.User, "username" | "full_name">;
+};
+
+// Operations every storage backend must provide. Routes and services only
+// talk to storage through this interface, so a method added to one backend
+// has to be added to all of them.
+export interface IStorage {
+  // Runs fn against a storage whose writes either all apply or are all
+  // rolled back when fn throws. Methods that write several tables (test
+  // cases with their steps and versions, team and user cleanup) are already
+  // atomic on their own; this is for routes that chain several calls.
+  withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+
+  // User operations
+  getUser(id: number): Promise<schema.User | undefined>;
+  getUserByUsername(username: string): Promise<schema.User | undefined>;
+  getUserByEmail(email: string): Promise<schema.User | undefined>;
+  createUser(user: schema.InsertUser): Promise<schema.User>;
+  updateUser(
+    id: number,
+    data: Partial<schema.InsertUser>,
+  ): Promise<schema.User | undefined>;
+  getUsers(): Promise<schema.User[]>;
+  updateUserlast_login(id: number): Promise<void>;
+  markUserDeleted(id: number): Promise<void>;
+  reassignUserAssignments(
+    fromUserId: number,
+    toUserId: number,
+  ): Promise<{ test_cases: number; bugs: number }>;
+  setUserTwoFactor(
+    id: number,
+    settings: schema.TwoFactorSettings,
+  ): Promise<void>;
+  // Records a TOTP time step as used. False when that step or a later one
+  // was already used, i.e. the code is being replayed.
+  claimTotpStep(id: number, step: number): Promise<boolean>;
+  verifyCredentials(
+    username: string,
+    password: string,
+  ): Promise<schema.User | undefined>;
+
+  // Team operations
+  getTeams(): Promise<schema.Team[]>;
+  getTeam(id: number): Promise<schema.Team | undefined>;
+  createTeam(team: schema.InsertTeam): Promise<schema.Team>;
+  updateTeam(
+    id: number,
+    team: Partial<schema.InsertTeam>,
+  ): Promise<schema.Team | undefined>;
+  deleteTeam(id: number): Promise<boolean>;
+  getTeamMembers(teamId?: number): Promise<schema.TeamMember[]>;
+  addTeamMember(teamId: number, userId: number): Promise<schema.TeamMember>;
+  removeTeamMember(teamId: number, userId: number): Promise<boolean>;
+
+  // Project operations
+  createProject(project: schema.InsertProject): Promise<schema.Project>;
+  getProject(id: number): Promise<schema.Project | undefined>;
+  getProjects(): Promise<schema.Project[]>;
+  getUserProjects(userId: number): Promise<schema.Project[]>;
+  updateProject(
+    id: number,
+    data: Partial<schema.InsertProject>,
+  ): Promise<schema.Project | undefined>;
+  getProjectMembers(projectId: number): Promise<schema.ProjectMember[]>;
+  getProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<schema.ProjectMember | undefined>;
+  setProjectMember(
+    member: schema.InsertProjectMember,
+  ): Promise<schema.ProjectMember>;
+  removeProjectMember(projectId: number, userId: number): Promise<boolean>;
+
+  // Folder operations. Single-row lookups also return trashed rows (see
+  // deleted_at); lists and counts leave them out.
+  createFolder(folder: schema.InsertFolder): Promise<schema.Folder>;
+  getFolder(id: number): Promise<schema.Folder | undefined>;
+  getFolders(projectId: number): Promise<schema.Folder[]>;
+  updateFolder(
+    id: number,
+    data: Partial<schema.InsertFolder>,
+  ): Promise<schema.Folder | undefined>;
+  // Moves the folder to the trash; purgeFolder removes it for good
+  deleteFolder(id: number, deletedBy: number): Promise<boolean>;
+  restoreFolder(id: number): Promise<schema.Folder | undefined>;
+  purgeFolder(id: number): Promise<boolean>;
+  getTestCountByFolder(): Promise<{ folderId: number; testCount: number }[]>;
+  assignTestCaseToFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<schema.TestCaseFolder>;
+  removeTestCaseFromFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<boolean>;
+  getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]>;
+
+  // Test case operations. As with folders, only getTestCase and
+  // getTestCaseWithSteps return trashed test cases.
+  createTestCase(
+    testCaseWithSteps: schema.TestCaseWithSteps,
+  ): Promise<schema.TestCase>;
+  getTestCase(id: number): Promise<schema.TestCase | undefined>;
+  getTestCaseWithSteps(
+    id: number,
+  ): Promise<
+    { testCase: schema.TestCase; steps: schema.TestStep[] } | undefined
+  >;
+  getTestCases(
+    projectId: number,
+    filters?: TestCaseFilters,
+    options?: ListOptions<TestCaseSortField>,
+  ): Promise<Page<schema.TestCase>>;
+  // Saves a new version; editedBy is recorded as its author and defaults to
+  // the test case's creator. An id or project_id in data is ignored.
+  updateTestCase(
+    id: number,
+    data: Partial<schema.InsertTestCase>,
+    steps?: schema.InsertTestStep[],
+    editedBy?: number,
+  ): Promise<schema.TestCase | undefined>;
+  // Moves the test case to the trash; purgeTestCase removes it for good
+  deleteTestCase(id: number, deletedBy: number): Promise<boolean>;
+  restoreTestCase(id: number): Promise<schema.TestCase | undefined>;
+  purgeTestCase(id: number): Promise<boolean>;
+  getTestCasesByFolder(folderId: number): Promise<schema.TestCase[]>;
+
+  // Tag operations. Tags live on the rows themselves; these list the ones in
+  // use (most used first) and retag many test cases at once.
+  getTags(
+    projectId: number,
+    entityType: TaggableEntityType,
+  ): Promise<TagCount[]>;
+  // Only touches test cases of the project that are not in the trash and
+  // returns the ids of those it updated. Each gets a new version by editedBy.
+  updateTestCaseTags(
+    projectId: number,
+    ids: number[],
+    add: string[],
+    remove: string[],
+    editedBy: number,
+  ): Promise<number[]>;
+
+  // Trash operations
+  getTrash(projectId: number): Promise<Trash>;
+  // Purges everything trashed before the cutoff, in every project. Returns
+  // the attachments removed with the test cases, whose files are left for the
+  // caller to delete from the blob store.
+  purgeTrash(deletedBefore: Date): Promise<{
+    testCases: number;
+    folders: number;
+    attachments: schema.Attachment[];
+  }>;
+
+  // Test steps operations
+  getTestSteps(test_case_id: number): Promise<schema.TestStep[]>;
+
+  // Attachment operations. Purging a test case removes its attachment rows
+  // but not the files in the blob store.
+  getAttachments(test_case_id: number): Promise<schema.Attachment[]>;
+  getAttachment(id: number): Promise<schema.Attachment | undefined>;
+  createAttachment(
+    attachment: schema.InsertAttachment,
+  ): Promise<schema.Attachment>;
+  updateAttachment(
+    id: number,
+    data: Partial<schema.InsertAttachment>,
+  ): Promise<schema.Attachment | undefined>;
+  deleteAttachment(id: number): Promise<boolean>;
+
+  // Test case version operations
+  createTestVersion(
+    version: schema.InsertTestVersion,
+  ): Promise<schema.TestVersion>;
+  getTestVersions(test_case_id: number): Promise<schema.TestVersion[]>;
+  revertToVersion(
+    test_case_id: number,
+    version: number,
+    revertedBy?: number,
+  ): Promise<boolean>;
+
+  // Test run operations
+  createTestRun(testRun: schema.InsertTestRun): Promise<schema.TestRun>;
+  getTestRun(id: number): Promise<schema.TestRun | undefined>;
+  getTestRuns(
+    projectId: number,
+    filters?: TestRunFilters,
+    options?: ListOptions<TestRunSortField>,
+  ): Promise<Page<schema.TestRun>>;
+  updateTestRun(
+    id: number,
+    data: Partial<schema.InsertTestRun>,
+  ): Promise<schema.TestRun | undefined>;
+  completeTestRun(id: number): Promise<schema.TestRun | undefined>;
+
+  // Test run results operations
+  createTestRunResult(
+    result: schema.InsertTestRunResult,
+  ): Promise<schema.TestRunResult>;
+  getTestRunResults(runId: number): Promise<schema.TestRunResult[]>;
+  getTestStatusCounts(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]>;
+
+  // Bug operations
+  createBug(bug: schema.InsertBug): Promise<schema.Bug>;
+  getBug(id: number): Promise<schema.Bug | undefined>;
+  getBugs(
+    projectId: number,
+    filters?: BugFilters,
+    options?: ListOptions<BugSortField>,
+  ): Promise<Page<schema.Bug>>;
+  updateBug(
+    id: number,
+    data: Partial<schema.InsertBug>,
+  ): Promise<schema.Bug | undefined>;
+
+  // Custom field operations. Fields come back in position order. Deleting a
+  // field leaves its values on existing rows until they are next saved.
+  getCustomFields(
+    projectId: number,
+    entityType?: schema.CustomFieldEntityType,
+  ): Promise<schema.CustomField[]>;
+  getCustomField(id: number): Promise<schema.CustomField | undefined>;
+  createCustomField(
+    field: schema.InsertCustomField,
+  ): Promise<schema.CustomField>;
+  updateCustomField(
+    id: number,
+    data: Partial<schema.InsertCustomField>,
+  ): Promise<schema.CustomField | undefined>;
+  deleteCustomField(id: number): Promise<boolean>;
+
+  // Shared step operations. Creating and updating a shared step bumps its
+  // version and records the contents of that version.
+  getSharedSteps(projectId: number): Promise<schema.SharedStep[]>;
+  getSharedStep(id: number): Promise<schema.SharedStep | undefined>;
+  createSharedStep(step: schema.InsertSharedStep): Promise<schema.SharedStep>;
+  updateSharedStep(
+    id: number,
+    data: Partial<schema.InsertSharedStep>,
+  ): Promise<schema.SharedStep | undefined>;
+  deleteSharedStep(id: number): Promise<boolean>;
+  getSharedStepVersions(
+    shared_step_id: number,
+  ): Promise<schema.SharedStepVersion[]>;
+  getSharedStepVersion(
+    shared_step_id: number,
+    version: number,
+  ): Promise<schema.SharedStepVersion | undefined>;
+  // Ids of the test cases, trashed ones included, with a step that uses it
+  getSharedStepUsage(shared_step_id: number): Promise<number[]>;
+
+  // Whiteboard operations
+  createWhiteboard(
+    whiteboard: schema.InsertWhiteboard,
+  ): Promise<schema.Whiteboard>;
+  getWhiteboard(id: number): Promise<schema.Whiteboard | undefined>;
+  getWhiteboards(
+    projectId: number,
+    filters?: WhiteboardFilters,
+    options?: ListOptions<WhiteboardSortField>,
+  ): Promise<Page<schema.Whiteboard>>;
+  updateWhiteboard(
+    id: number,
+    data: Partial<schema.InsertWhiteboard>,
+  ): Promise<schema.Whiteboard | undefined>;
+
+  // AI Test Case operations
+  saveAITestCase(
+    aiTestCase: schema.InsertAITestCase,
+  ): Promise<schema.AITestCase>;
+  markAITestCaseAsImported(id: number): Promise<void>;
+  getAITestCases(userId: number): Promise<schema.AITestCase[]>;
+
+  // Search operations
+  search(
+    projectId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number },
+  ): Promise<SearchResult[]>;
+
+  // Activity log operations
+  logActivity(log: schema.InsertActivityLog): Promise<schema.ActivityLog>;
+  getRecentActivities(
+    projectId: number,
+    limit?: number,
+  ): Promise<ActivityWithUser[]>;
+
+  // Dashboard statistics
+  getTestStatusStats(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]>;
+  getRecentTestCases(
+    projectId: number,
+    limit?: number,
+  ): Promise<schema.TestCase[]>;
+  getTestRunStats(projectId: number): Promise<{
+    totalRuns: number;
+    avgDuration: number | null;
+    passRate: number | null;
+  }>;
+
+  // Role permission operations
+  getRolePermissions(): Promise<schema.RolePermission[]>;
+  setRolePermission(
+    role: string,
+    permission: string,
+    granted: boolean,
+  ): Promise<void>;
+
+  // User session operations
+  createUserSession(
+    userSession: schema.InsertUserSession,
+  ): Promise<schema.UserSession>;
+  getUserSessions(userId: number): Promise<schema.UserSession[]>;
+  deleteUserSession(sid: string): Promise<void>;
+
+  // Password operations
+  addPasswordHistory(userId: number, password: string): Promise<void>;
+  getPasswordHistory(
+    userId: number,
+    limit: number,
+  ): Promise<schema.PasswordHistoryEntry[]>;
+  createPasswordResetToken(
+    token: schema.InsertPasswordResetToken,
+  ): Promise<schema.PasswordResetToken>;
+  getPasswordResetToken(
+    tokenHash: string,
+  ): Promise<schema.PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<void>;
+
+  // API token operations
+  createApiToken(token: schema.InsertApiToken): Promise<schema.ApiToken>;
+  getApiTokens(userId: number): Promise<schema.ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<schema.ApiToken | undefined>;
+  touchApiToken(id: number): Promise<void>;
+  deleteApiToken(id: number): Promise<boolean>;
+
+  // User invitation operations
+  createUserInvitation(
+    invitation: schema.InsertUserInvitation,
+  ): Promise<schema.UserInvitation>;
+  getUserInvitations(): Promise<schema.UserInvitation[]>;
+  getUserInvitationByHash(
+    tokenHash: string,
+  ): Promise<schema.UserInvitation | undefined>;
+  markUserInvitationAccepted(id: number): Promise<void>;
+  deleteUserInvitation(id: number): Promise<boolean>;
+
+  // User identity operations
+  getUserIdentity(
+    provider: string,
+    subject: string,
+  ): Promise<schema.UserIdentity | undefined>;
+  createUserIdentity(
+    identity: schema.InsertUserIdentity,
+  ): Promise<schema.UserIdentity>;
+
+  // Login throttle operations
+  getLoginThrottle(key: string): Promise<schema.LoginThrottle | undefined>;
+  getLoginThrottles(): Promise<schema.LoginThrottle[]>;
+  setLoginThrottle(throttle: schema.LoginThrottle): Promise<void>;
+  deleteLoginThrottle(key: string): Promise<void>;
+
+  // System setting operations
+  getSystemSettings(): Promise<schema.SystemSetting[]>;
+  setSystemSetting(key: string, value: unknown): Promise<void>;
+}
@@ -0,0 +1,415 @@
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import { MemStorage, SupabaseStorage } from "./storage";
+import { PgStorage } from "./pg-storage";
+import type { IStorage } from "./storage.interface";
+
+// Every backend must behave the same through IStorage. Postgres runs on an
+// in-process PGlite database with the checked-in migrations applied. The
+// Supabase backend only runs when SUPABASE_URL and SUPABASE_ANON_KEY are set,
+// and leaves its rows behind in that project.
+async function createPgliteStorage(): Promise<IStorage> {
+  const db = drizzle(new PGlite());
+  await migrate(db, {
+    migrationsFolder: path.resolve(import.meta.dirname, "..", "migrations"),
+  });
+  return new PgStorage(db);
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["memory", async () => new MemStorage()],
+  ["postgres", createPgliteStorage],
+];
+if (process.env.SUPABASE_URL && process.env.SUPABASE_ANON_KEY) {
+  backends.push(["supabase", async () => new SupabaseStorage()]);
+}
+
+// Names are unique across runs so a shared Supabase project can be reused
+let sequence = 0;
+function unique(prefix: string) {
+  return `${prefix}-${Date.now()}-${++sequence}`;
+}
+
+describe.each(backends)("%s storage", (_backend, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+  }, 60_000);
+
+  function createUser(data: Partial<schema.InsertUser> = {}) {
+    const username = unique("user");
+    return storage.createUser({
+      username,
+      email: `${username}@example.com`,
+      password: "correct horse",
+      full_name: "Test User",
+      ...data,
+    });
+  }
+
+  async function createProject() {
+    const owner = await createUser();
+    const project = await storage.createProject({
+      name: unique("project"),
+      created_by: owner.id,
+    });
+    return { owner, project };
+  }
+
+  function createTestCase(
+    projectId: number,
+    createdBy: number,
+    data: Partial<schema.TestCaseWithSteps> = {},
+  ) {
+    return storage.createTestCase({
+      project_id: projectId,
+      title: "Log in",
+      created_by: createdBy,
+      steps: [
+        { step_number: 1, description: "Open the login page" },
+        { step_number: 2, description: "Submit", expected_result: "Signed in" },
+      ],
+      ...data,
+    });
+  }
+
+  describe("users", () => {
+    it("stores a password hash that verifyCredentials accepts", async () => {
+      const user = await createUser();
+
+      expect(user.password).not.toBe("correct horse");
+      expect(
+        (await storage.verifyCredentials(user.username, "correct horse"))?.id,
+      ).toBe(user.id);
+      expect(
+        await storage.verifyCredentials(user.username, "wrong"),
+      ).toBeUndefined();
+    });
+
+    it("hashes a password set through updateUser", async () => {
+      const user = await createUser();
+
+      await storage.updateUser(user.id, { password: "battery staple" });
+
+      expect(
+        (await storage.verifyCredentials(user.username, "battery staple"))?.id,
+      ).toBe(user.id);
+    });
+
+    it("claims each TOTP step once, and never an earlier one", async () => {
+      const user = await createUser();
+
+      expect(await storage.claimTotpStep(user.id, 100)).toBe(true);
+      expect(await storage.claimTotpStep(user.id, 100)).toBe(false);
+      expect(await storage.claimTotpStep(user.id, 99)).toBe(false);
+      expect(await storage.claimTotpStep(user.id, 101)).toBe(true);
+    });
+
+    it("moves test case assignments to the successor", async () => {
+      const { owner, project } = await createProject();
+      const successor = await createUser();
+      const testCase = await createTestCase(project.id, owner.id, {
+        assigned_to: owner.id,
+      });
+
+      const reassigned = await storage.reassignUserAssignments(
+        owner.id,
+        successor.id,
+      );
+
+      expect(reassigned).toEqual({ test_cases: 1, bugs: 0 });
+      expect((await storage.getTestCase(testCase.id))?.assigned_to).toBe(
+        successor.id,
+      );
+    });
+  });
+
+  describe("test cases", () => {
+    it("creates a test case with its steps and a first version", async () => {
+      const { owner, project } = await createProject();
+
+      const testCase = await createTestCase(project.id, owner.id);
+
+      const saved = await storage.getTestCaseWithSteps(testCase.id);
+      expect(saved?.testCase).toMatchObject({
+        title: "Log in",
+        project_id: project.id,
+        version: 1,
+      });
+      expect(saved?.steps.map((step) => step.description)).toEqual([
+        "Open the login page",
+        "Submit",
+      ]);
+      expect(
+        (await storage.getTestVersions(testCase.id)).map((v) => v.version),
+      ).toEqual([1]);
+    });
+
+    it("saves a new version with the new steps when updated", async () => {
+      const { owner, project } = await createProject();
+      const testCase = await createTestCase(project.id, owner.id);
+
+      const updated = await storage.updateTestCase(
+        testCase.id,
+        { title: "Log in with SSO" },
+        [
+          {
+            test_case_id: testCase.id,
+            step_number: 1,
+            description: "Choose single sign-on",
+          },
+        ],
+      );
+
+      expect(updated).toMatchObject({ title: "Log in with SSO", version: 2 });
+      expect(
+        (await storage.getTestSteps(testCase.id)).map((s) => s.description),
+      ).toEqual(["Choose single sign-on"]);
+      expect(
+        (await storage.getTestVersions(testCase.id))
+          .map((v) => v.version)
+          .sort(),
+      ).toEqual([1, 2]);
+    });
+
+    it("keeps the id, project and creator when updated", async () => {
+      const { owner, project } = await createProject();
+      const other = await createProject();
+      const editor = await createUser();
+      const testCase = await createTestCase(project.id, owner.id);
+
+      const updated = await storage.updateTestCase(
+        testCase.id,
+        {
+          title: "Log in with SSO",
+          id: testCase.id + 1000,
+          project_id: other.project.id,
+        } as Partial<schema.InsertTestCase>,
+        undefined,
+        editor.id,
+      );
+
+      expect(updated).toMatchObject({
+        id: testCase.id,
+        project_id: project.id,
+        created_by: owner.id,
+        title: "Log in with SSO",
+        version: 2,
+      });
+      expect(await storage.getTestCase(testCase.id)).toMatchObject({
+        project_id: project.id,
+        title: "Log in with SSO",
+      });
+      const versions = await storage.getTestVersions(testCase.id);
+      expect(versions.find((v) => v.version === 2)?.created_by).toBe(editor.id);
+    });
+
+    it("returns undefined when updating a missing test case", async () => {
+      expect(
+        await storage.updateTestCase(999_999, { title: "Missing" }),
+      ).toBeUndefined();
+    });
+
+    it("reverts the fields, tags and steps of an earlier version", async () => {
+      const { owner, project } = await createProject();
+      const testCase = await createTestCase(project.id, owner.id, {
+        tags: ["smoke"],
+      });
+      await storage.updateTestCase(
+        testCase.id,
+        { title: "Changed", tags: ["regression"] },
+        [
+          {
+            test_case_id: testCase.id,
+            step_number: 1,
+            description: "Something else",
+          },
+        ],
+      );
+
+      expect(await storage.revertToVersion(testCase.id, 1, owner.id)).toBe(
+        true,
+      );
+
+      const reverted = await storage.getTestCaseWithSteps(testCase.id);
+      expect(reverted?.testCase).toMatchObject({
+        title: "Log in",
+        tags: ["smoke"],
+        version: 3,
+      });
+      expect(reverted?.steps.map((step) => step.description)).toEqual([
+        "Open the login page",
+        "Submit",
+      ]);
+    });
+
+    it("retags only live test cases of the project, versioning each", async () => {
+      const { owner, project } = await createProject();
+      const other = await createProject();
+      const tagged = await createTestCase(project.id, owner.id, {
+        tags: ["smoke", "old"],
+      });
+      const trashed = await createTestCase(project.id, owner.id);
+      const foreign = await createTestCase(other.project.id, owner.id);
+      await storage.deleteTestCase(trashed.id, owner.id);
+
+      const updated = await storage.updateTestCaseTags(
+        project.id,
+        [tagged.id, trashed.id, foreign.id],
+        ["new"],
+        ["old"],
+        owner.id,
+      );
+
+      expect(updated).toEqual([tagged.id]);
+      expect(await storage.getTestCase(tagged.id)).toMatchObject({
+        tags: ["smoke", "new"],
+        version: 2,
+      });
+      expect((await storage.getTestCase(foreign.id))?.tags).toEqual([]);
+      expect(
+        (await storage.getTestVersions(tagged.id)).map((v) => v.version).sort(),
+      ).toEqual([1, 2]);
+    });
+
+    it("hides trashed test cases from lists until restored", async () => {
+      const { owner, project } = await createProject();
+      const testCase = await createTestCase(project.id, owner.id);
+
+      expect(await storage.deleteTestCase(testCase.id, owner.id)).toBe(true);
+      expect(await storage.deleteTestCase(testCase.id, owner.id)).toBe(false);
+      expect((await storage.getTestCases(project.id)).items).toEqual([]);
+      expect((await storage.getTestCase(testCase.id))?.deleted_by).toBe(
+        owner.id,
+      );
+      expect(
+        (await storage.getTrash(project.id)).testCases.map((t) => t.id),
+      ).toEqual([testCase.id]);
+
+      expect((await storage.restoreTestCase(testCase.id))?.deleted_at).toBe(
+        null,
+      );
+      expect(
+        (await storage.getTestCases(project.id)).items.map((t) => t.id),
+      ).toEqual([testCase.id]);
+    });
+  });
+
+  describe("statistics", () => {
+    it("counts the live test cases of each folder", async () => {
+      const { owner, project } = await createProject();
+      const folder = await storage.createFolder({
+        name: unique("folder"),
+        project_id: project.id,
+        created_by: owner.id,
+      });
+      const kept = await createTestCase(project.id, owner.id);
+      const trashed = await createTestCase(project.id, owner.id);
+      await storage.assignTestCaseToFolder(kept.id, folder.id);
+      await storage.assignTestCaseToFolder(trashed.id, folder.id);
+      await storage.deleteTestCase(trashed.id, owner.id);
+
+      const counts = await storage.getTestCountByFolder();
+
+      expect(counts.find((c) => c.folderId === folder.id)?.testCount).toBe(1);
+    });
+
+    it("counts the live test cases of a project by status", async () => {
+      const { owner, project } = await createProject();
+      await createTestCase(project.id, owner.id, { status: "passed" });
+      await createTestCase(project.id, owner.id, { status: "passed" });
+      await createTestCase(project.id, owner.id, { status: "failed" });
+      const trashed = await createTestCase(project.id, owner.id, {
+        status: "failed",
+      });
+      await storage.deleteTestCase(trashed.id, owner.id);
+
+      const stats = await storage.getTestStatusStats(project.id);
+
+      expect(stats.sort((a, b) => a.status.localeCompare(b.status))).toEqual([
+        { status: "failed", count: 1 },
+        { status: "passed", count: 2 },
+      ]);
+    });
+
+    it("summarises a project's test runs and results", async () => {
+      const { owner, project } = await createProject();
+      expect(await storage.getTestRunStats(project.id)).toEqual({
+        totalRuns: 0,
+        avgDuration: null,
+        passRate: null,
+      });
+
+      const passed = await createTestCase(project.id, owner.id);
+      const failed = await createTestCase(project.id, owner.id);
+      const run = await storage.createTestRun({
+        project_id: project.id,
+        name: "Regression",
+        executed_by: owner.id,
+      });
+      for (const [testCase, status] of [
+        [passed, "passed"],
+        [failed, "failed"],
+      ] as const) {
+        await storage.createTestRunResult({
+          runId: run.id,
+          test_case_id: testCase.id,
+          status,
+          executed_by: owner.id,
+        });
+      }
+      await storage.completeTestRun(run.id);
+      await storage.createTestRun({
+        project_id: project.id,
+        name: "Smoke",
+        executed_by: owner.id,
+      });
+
+      const stats = await storage.getTestRunStats(project.id);
+
+      expect(stats).toMatchObject({ totalRuns: 2, passRate: 50 });
+      expect(stats.avgDuration).toEqual(expect.any(Number));
+    });
+  });
+
+  describe("transactions", () => {
+    it("rolls back every write when the callback throws", async () => {
+      const owner = await createUser();
+      const name = unique("project");
+
+      await expect(
+        storage.withTransaction(async (tx) => {
+          const project = await tx.createProject({
+            name,
+            created_by: owner.id,
+          });
+          await tx.setProjectMember({
+            project_id: project.id,
+            user_id: owner.id,
+            role: "admin",
+          });
+          throw new Error("rolled back");
+        }),
+      ).rejects.toThrow("rolled back");
+
+      const projects = await storage.getProjects();
+      expect(projects.map((project) => project.name)).not.toContain(name);
+    });
+
+    it("keeps the writes of a callback that succeeds", async () => {
+      const owner = await createUser();
+      const name = unique("project");
+
+      const project = await storage.withTransaction((tx) =>
+        tx.createProject({ name, created_by: owner.id }),
+      );
+
+      expect((await storage.getProject(project.id))?.name).toBe(name);
+    });
+  });
+});
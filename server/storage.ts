@@ -1,20 +1,114 @@
 import * as schema from "@shared/schema";
-import { generateHash, verifyHash } from "./auth";
-import { IStorage } from "./storage.interface";
+import { generateHash, verifyHash, needsRehash } from "./auth";
+import {
+  BugFilters,
+  BugSortField,
+  CustomFieldFilter,
+  DateRange,
+  IStorage,
+  ListOptions,
+  Page,
+  SearchResult,
+  SearchResultType,
+  TagCount,
+  TagExpression,
+  TaggableEntityType,
+  TestCaseFilters,
+  TestCaseSortField,
+  TestRunFilters,
+  TestRunSortField,
+  Trash,
+  WhiteboardFilters,
+  WhiteboardSortField,
+} from "./storage.interface";
+import { PgStorage } from "./pg-storage";
+import { restoreTestCaseSnapshot, snapshotTestCase } from "./test-versions";
+import {
+  bugDocument,
+  rankDocuments,
+  SearchDocument,
+  SearchIndex,
+  testCaseDocument,
+  testRunDocument,
+  testStepDocument,
+  tokenize,
+} from "./search";
+import { matchesTagExpression } from "./tag-expression";
 
 import { createClient } from "@supabase/supabase-js";
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_ANON_KEY;
+// Narrows a Supabase query to rows whose column holds any of the values
+function filterAnyOf(query: any, column: string, values?: unknown[]) {
+  return values?.length ? query.in(column, values) : query;
+}
+
+function filterInRange(query: any, column: string, range?: DateRange) {
+  if (range?.from) query = query.gte(column, range.from.toISOString());
+  if (range?.to) query = query.lte(column, range.to.toISOString());
+  return query;
+}
+
+// Narrows a Supabase query by custom field values. Arrays (multi_select
+// values) match when they contain any of the values.
+function filterCustomFields(
+  query: any,
+  column: string,
+  filters?: CustomFieldFilter[],
+) {
+  for (const { key, values } of filters ?? []) {
+    const quoted = values.map((value) => JSON.stringify(value));
+    query = query.or(
+      [
+        `${column}->>${key}.in.(${quoted.join(",")})`,
+        ...quoted.map((value) => `${column}->${key}.cs.[${value}]`),
+      ].join(","),
+    );
+  }
+  return query;
+}
+
+// PostgREST logic tree for a tag expression, e.g. and(tags.cs.{"smoke"},not.tags.cs.{"flaky"})
+function tagFilter(column: string, expression: TagExpression): string {
+  if ("tag" in expression) return `${column}.cs.{"${expression.tag}"}`;
+  if ("not" in expression) {
+    return `not.${tagFilter(column, expression.not)}`;
+  }
+  const [operator, operands] =
+    "and" in expression ? ["and", expression.and] : ["or", expression.or];
+  return `${operator}(${operands.map((operand) => tagFilter(column, operand)).join(",")})`;
+}
+
+function filterTags(query: any, column: string, expression?: TagExpression) {
+  return expression ? query.or(tagFilter(column, expression)) : query;
+}
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error(
-    "SUPABASE_URL and SUPABASE_ANON_KEY environment variables must be set",
+// Adds and removes tags while keeping the order of those already there
+function retag(tags: string[], add: string[], remove: string[]): string[] {
+  return Array.from(new Set([...tags, ...add])).filter(
+    (tag) => !remove.includes(tag),
+  );
+}
+
+// Most used first, then by name
+function countTags(rows: { tags: string[] }[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const { tags } of rows) {
+    for (const tag of tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name),
   );
 }
 
-console.log("Initializing Supabase with URL:", supabaseUrl);
-const supabase = createClient(supabaseUrl, supabaseKey);
+function countBy<T, K>(rows: T[], key: (row: T) => K): [K, number][] {
+  const counts = new Map<K, number>();
+  for (const row of rows) {
+    counts.set(key(row), (counts.get(key(row)) ?? 0) + 1);
+  }
+  return Array.from(counts);
+}
 
 export class SupabaseStorage implements IStorage {
   private baseUrl: string;
@@ -23,9 +117,13 @@ export class SupabaseStorage implements IStorage {
 
   constructor() {
     if (!process.env.SUPABASE_URL || !process.env.SUPABASE_ANON_KEY) {
-      throw new Error("Missing Supabase configuration");
+      throw new Error(
+        "SUPABASE_URL and SUPABASE_ANON_KEY environment variables must be set",
+      );
     }
 
+    console.log("Initializing Supabase with URL:", process.env.SUPABASE_URL);
+
     this.baseUrl = `${process.env.SUPABASE_URL}/rest/v1`;
     this.headers = {
       apikey: process.env.SUPABASE_ANON_KEY,
@@ -34,7 +132,346 @@ export class SupabaseStorage implements IStorage {
       Prefer: "return=representation",
     };
     // Initialize the supabase client properly
-    this.supabase = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY);
+    this.supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_ANON_KEY,
+    );
+  }
+
+  // The REST API offers no transactions, so fn gets a storage that records
+  // how to undo each write, and the undo steps run newest first when fn
+  // throws. Writes without an undo step are refused rather than left behind.
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    const undoSteps: (() => Promise<void>)[] = [];
+    const tx: IStorage = new Proxy(this, {
+      get: (target, name, receiver) => {
+        const value = Reflect.get(target, name, receiver);
+        if (typeof value !== "function" || typeof name !== "string") {
+          return value;
+        }
+        if (name === "withTransaction") {
+          return (inner: (tx: IStorage) => Promise<unknown>) => inner(tx);
+        }
+        if (name.startsWith("get")) return value.bind(target);
+
+        return async (...args: any[]) => {
+          const [result, undo] = await this.reversibleWrite(name, args);
+          undoSteps.push(undo);
+          return result;
+        };
+      },
+    });
+
+    try {
+      return await fn(tx);
+    } catch (error) {
+      for (const undo of undoSteps.reverse()) {
+        try {
+          await undo();
+        } catch (undoError) {
+          console.error(
+            "Error rolling back transaction, partial writes remain:",
+            undoError,
+          );
+        }
+      }
+      throw error;
+    }
+  }
+
+  // Runs one write for withTransaction and returns its result with a step
+  // that restores the rows it touched
+  private async reversibleWrite(
+    name: string,
+    args: any[],
+  ): Promise<[unknown, () => Promise<void>]> {
+    const write = (this as any)[name].bind(this);
+    const createdIn: Record<string, string> = {
+      createUser: "users",
+      createProject: "projects",
+      createFolder: "folders",
+      createTestRun: "test_runs",
+      saveAITestCase: "ai_test_cases",
+    };
+    const updatedColumns: Record<string, [string, string[]]> = {
+      updateUser: ["users", Object.keys(args[1] ?? {})],
+      markUserDeleted: ["users", ["is_active", "deleted_at"]],
+      markUserInvitationAccepted: ["user_invitations", ["accepted_at"]],
+      markAITestCaseAsImported: ["ai_test_cases", ["imported"]],
+      completeTestRun: ["test_runs", ["status", "complete_at", "duration"]],
+    };
+
+    if (name in createdIn) {
+      const created = await write(...args);
+      return [
+        created,
+        () =>
+          this.undo(
+            this.supabase.from(createdIn[name]).delete().eq("id", created.id),
+          ),
+      ];
+    }
+
+    if (name in updatedColumns) {
+      const [table, columns] = updatedColumns[name];
+      const { data: before, error } = await this.supabase
+        .from(table)
+        .select(columns.join(","))
+        .eq("id", args[0])
+        .single();
+      if (error) throw error;
+
+      return [
+        await write(...args),
+        () =>
+          this.undo(this.supabase.from(table).update(before).eq("id", args[0])),
+      ];
+    }
+
+    switch (name) {
+      case "createTestCase": {
+        const created = await write(...args);
+        return [
+          created,
+          async () => {
+            if (!(await this.purgeTestCase(created.id))) {
+              throw new Error(`Failed to remove test case ${created.id}`);
+            }
+          },
+        ];
+      }
+
+      case "createTestRunResult": {
+        // Recording a result also sets the test case's status
+        const testCase = await this.getTestCase(args[0].test_case_id);
+        const created = await write(...args);
+        return [
+          created,
+          async () => {
+            await this.undo(
+              this.supabase
+                .from("test_run_results")
+                .delete()
+                .eq("id", created.id),
+            );
+            if (testCase) {
+              await this.undo(
+                this.supabase
+                  .from("test_cases")
+                  .update({ status: testCase.status })
+                  .eq("id", testCase.id),
+              );
+            }
+          },
+        ];
+      }
+
+      case "updateTestCase": {
+        const [id, , steps] = args;
+        const previous = await this.getTestCaseWithSteps(id);
+        const updated = await write(...args);
+        return [
+          updated,
+          async () => {
+            if (!previous || !updated) return;
+            const { id: _id, ...testCase } = previous.testCase;
+            await this.undo(
+              this.supabase.from("test_cases").update(testCase).eq("id", id),
+            );
+            await this.undo(
+              this.supabase
+                .from("test_versions")
+                .delete()
+                .eq("test_case_id", id)
+                .eq("version", updated.version),
+            );
+            if (steps) {
+              await this.replaceTestSteps(
+                id,
+                previous.steps.map(({ id: _stepId, ...step }) => step),
+              );
+            }
+          },
+        ];
+      }
+
+      case "assignTestCaseToFolder": {
+        const [test_case_id, folderId] = args;
+        const { data: existing } = await this.supabase
+          .from("test_case_folders")
+          .select()
+          .eq("test_case_id", test_case_id)
+          .eq("folderId", folderId)
+          .maybeSingle();
+        const link = await write(...args);
+        return [
+          link,
+          async () => {
+            if (!existing) {
+              await this.undo(
+                this.supabase
+                  .from("test_case_folders")
+                  .delete()
+                  .eq("id", link.id),
+              );
+            }
+          },
+        ];
+      }
+
+      case "removeTestCaseFromFolder": {
+        const [test_case_id, folderId] = args;
+        const { data: link, error } = await this.supabase
+          .from("test_case_folders")
+          .select()
+          .eq("test_case_id", test_case_id)
+          .eq("folderId", folderId)
+          .maybeSingle();
+        if (error) throw error;
+        return [
+          await write(...args),
+          async () => {
+            if (link) {
+              await this.undo(
+                this.supabase.from("test_case_folders").insert([link]),
+              );
+            }
+          },
+        ];
+      }
+
+      case "setProjectMember": {
+        const { project_id, user_id } = args[0];
+        const { data: existing } = await this.supabase
+          .from("project_members")
+          .select()
+          .eq("project_id", project_id)
+          .eq("user_id", user_id)
+          .maybeSingle();
+        const member = await write(...args);
+        return [
+          member,
+          () =>
+            this.undo(
+              existing
+                ? this.supabase
+                    .from("project_members")
+                    .update({ role: existing.role })
+                    .eq("id", existing.id)
+                : this.supabase
+                    .from("project_members")
+                    .delete()
+                    .eq("id", member.id),
+            ),
+        ];
+      }
+
+      case "reassignUserAssignments": {
+        const [fromUserId] = args;
+        const assigned: Record<string, number[]> = {};
+        for (const table of ["test_cases", "bugs"]) {
+          const { data, error } = await this.supabase
+            .from(table)
+            .select("id")
+            .eq("assigned_to", fromUserId);
+          if (error) throw error;
+          assigned[table] = data.map((row: { id: number }) => row.id);
+        }
+        return [
+          await write(...args),
+          async () => {
+            for (const [table, ids] of Object.entries(assigned)) {
+              await this.undo(
+                this.supabase
+                  .from(table)
+                  .update({ assigned_to: fromUserId })
+                  .in("id", ids),
+              );
+            }
+          },
+        ];
+      }
+
+      case "addPasswordHistory": {
+        const [userId] = args;
+        const { data: latest, error } = await this.supabase
+          .from("password_history")
+          .select("id")
+          .order("id", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (error) throw error;
+        return [
+          await write(...args),
+          () =>
+            this.undo(
+              this.supabase
+                .from("password_history")
+                .delete()
+                .eq("user_id", userId)
+                .gt("id", latest?.id ?? 0),
+            ),
+        ];
+      }
+
+      case "deleteApiToken": {
+        const { data: token, error } = await this.supabase
+          .from("api_tokens")
+          .select()
+          .eq("id", args[0])
+          .single();
+        if (error) throw error;
+        return [
+          await write(...args),
+          () => this.undo(this.supabase.from("api_tokens").insert([token])),
+        ];
+      }
+
+      default:
+        throw new Error(
+          `${name} cannot be rolled back, so it cannot run in a transaction`,
+        );
+    }
+  }
+
+  // Awaits one query of an undo step, failing when Supabase reports an error
+  private async undo(query: PromiseLike<{ error: any }>): Promise<void> {
+    const { error } = await query;
+    if (error) throw error;
+  }
+
+  // Runs a project's list query with an exact row count, sorted and paged.
+  // filter receives the base query and returns it with filters applied.
+  private async list<T>(
+    table: string,
+    projectId: number,
+    filter: (query: any) => any,
+    sort: NonNullable<ListOptions<string>["sort"]>,
+    options?: ListOptions<string>,
+  ): Promise<Page<T>> {
+    const ascending = sort.direction === "asc";
+    let query = filter(
+      this.supabase
+        .from(table)
+        .select("*", { count: "exact" })
+        .eq("project_id", projectId),
+    )
+      .order(sort.field, { ascending })
+      .order("id", { ascending });
+
+    if (options?.limit) {
+      const from = ((options.page ?? 1) - 1) * options.limit;
+      query = query.range(from, from + options.limit - 1);
+    }
+
+    const { data, count, error } = await query;
+
+    if (error) {
+      console.error(`Error listing ${table}:`, error.message);
+      return { items: [], total: 0 };
+    }
+
+    return { items: data, total: count ?? data.length };
   }
 
   // User operations
@@ -144,6 +581,79 @@ export class SupabaseStorage implements IStorage {
   }
 
   // Auth operations
+  async markUserDeleted(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("users")
+      .update({ is_active: false, deleted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting user:", error.message);
+      throw error;
+    }
+  }
+
+  // Moves test case and bug assignments from one user to another
+  async reassignUserAssignments(
+    fromUserId: number,
+    toUserId: number,
+  ): Promise<{ test_cases: number; bugs: number }> {
+    const { data: testCases, error: testCaseError } = await this.supabase
+      .from("test_cases")
+      .update({ assigned_to: toUserId })
+      .eq("assigned_to", fromUserId)
+      .select("id");
+
+    if (testCaseError) {
+      console.error("Error reassigning test cases:", testCaseError.message);
+      throw testCaseError;
+    }
+
+    const { data: bugs, error: bugError } = await this.supabase
+      .from("bugs")
+      .update({ assigned_to: toUserId })
+      .eq("assigned_to", fromUserId)
+      .select("id");
+
+    if (bugError) {
+      console.error("Error reassigning bugs:", bugError.message);
+      throw bugError;
+    }
+
+    return { test_cases: testCases.length, bugs: bugs.length };
+  }
+
+  async setUserTwoFactor(
+    id: number,
+    settings: schema.TwoFactorSettings,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("users")
+      .update(settings)
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error updating two-factor settings:", error.message);
+      throw error;
+    }
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("users")
+      .update({ totp_last_step: step })
+      .eq("id", id)
+      .or(`totp_last_step.is.null,totp_last_step.lt.${step}`)
+      .select("id");
+
+    if (error) {
+      console.error("Error recording TOTP step:", error.message);
+      throw error;
+    }
+
+    return data.length > 0;
+  }
+
   async verifyCredentials(
     username: string,
     password: string,
@@ -152,835 +662,3052 @@ export class SupabaseStorage implements IStorage {
     if (!user) return undefined;
 
     const passwordValid = await verifyHash(password, user.password);
-    return passwordValid ? user : undefined;
+    if (!passwordValid) return undefined;
+
+    // Move hashes from older algorithms or weaker settings to the current one
+    if (needsRehash(user.password)) {
+      return (await this.updateUser(user.id, { password })) ?? user;
+    }
+
+    return user;
   }
 
-  // Folder operations
-  async createFolder(folder: schema.InsertFolder): Promise<schema.Folder> {
+  // Team operations
+  async getTeams(): Promise<schema.Team[]> {
     const { data, error } = await this.supabase
-      .from("folders")
-      .insert([folder])
+      .from("teams")
       .select()
-      .single();
+      .order("name");
 
     if (error) {
-      console.error("Error creating folder:", error.message);
+      console.error("Error getting teams:", error.message);
       throw error;
     }
 
     return data;
   }
 
-  async getFolder(id: number): Promise<schema.Folder | undefined> {
+  async getTeam(id: number): Promise<schema.Team | undefined> {
     const { data, error } = await this.supabase
-      .from("folders")
+      .from("teams")
       .select()
       .eq("id", id)
       .single();
 
     if (error) {
-      console.error("Error getting folder:", error.message);
       return undefined;
     }
 
     return data;
   }
 
-  async getFolders(): Promise<schema.Folder[]> {
-    const { data, error } = await this.supabase.from("folders").select();
+  async createTeam(team: schema.InsertTeam): Promise<schema.Team> {
+    const { data, error } = await this.supabase
+      .from("teams")
+      .insert([team])
+      .select()
+      .single();
 
     if (error) {
-      console.error("Error getting folders:", error.message);
+      console.error("Error creating team:", error.message);
       throw error;
     }
 
     return data;
   }
 
-  async updateFolder(
+  async updateTeam(
     id: number,
-    data: Partial<schema.InsertFolder>,
-  ): Promise<schema.Folder | undefined> {
-    const { data: updatedFolder, error } = await this.supabase
-      .from("folders")
-      .update(data)
+    team: Partial<schema.InsertTeam>,
+  ): Promise<schema.Team | undefined> {
+    const { data, error } = await this.supabase
+      .from("teams")
+      .update(team)
       .eq("id", id)
       .select()
       .single();
 
     if (error) {
-      console.error("Error updating folder:", error.message);
+      console.error("Error updating team:", error.message);
       return undefined;
     }
 
-    return updatedFolder;
+    return data;
   }
 
-  async deleteFolder(id: number): Promise<boolean> {
-    const { error } = await this.supabase.from("folders").delete().eq("id", id);
+  // Removes the team along with its memberships, folder ownership and
+  // assignments; the affected items keep their individual assignees
+  async deleteTeam(id: number): Promise<boolean> {
+    for (const [table, column] of [
+      ["test_cases", "assigned_team_id"],
+      ["bugs", "assigned_team_id"],
+      ["folders", "team_id"],
+    ]) {
+      const { error } = await this.supabase
+        .from(table)
+        .update({ [column]: null })
+        .eq(column, id);
+
+      if (error) {
+        console.error(`Error clearing team from ${table}:`, error.message);
+        return false;
+      }
+    }
+
+    const { error: memberError } = await this.supabase
+      .from("team_members")
+      .delete()
+      .eq("team_id", id);
+
+    if (memberError) {
+      console.error("Error deleting team members:", memberError.message);
+      return false;
+    }
+
+    const { error } = await this.supabase.from("teams").delete().eq("id", id);
 
     if (error) {
-      console.error("Error deleting folder:", error.message);
+      console.error("Error deleting team:", error.message);
       return false;
     }
 
     return true;
   }
 
-  async getTestCountByFolder(): Promise<
-    { folderId: number; testCount: number }[]
-  > {
-    // This function requires a more complex query that might be better suited for Supabase functions
-    console.warn("getTestCountByFolder not yet implemented using supabase");
-    return [];
-  }
+  async getTeamMembers(teamId?: number): Promise<schema.TeamMember[]> {
+    let query = this.supabase.from("team_members").select();
 
-  async createTestCase(
-    testCaseWithSteps: schema.TestCaseWithSteps,
-  ): Promise<schema.TestCase> {
-    const { steps, ...testCase } = testCaseWithSteps;
+    if (teamId) {
+      query = query.eq("team_id", teamId);
+    }
 
-    const { data: newTestCase, error: testCaseError } = await this.supabase
-      .from("test_cases")
-      .insert([testCase])
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error getting team members:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async addTeamMember(
+    teamId: number,
+    userId: number,
+  ): Promise<schema.TeamMember> {
+    const { data, error } = await this.supabase
+      .from("team_members")
+      .upsert([{ team_id: teamId, user_id: userId }], {
+        onConflict: "team_id,user_id",
+      })
       .select()
       .single();
 
-    if (testCaseError) {
-      console.error("Error creating test case:", testCaseError.message);
-      throw testCaseError;
+    if (error) {
+      console.error("Error adding team member:", error.message);
+      throw error;
     }
 
-    if (steps && steps.length > 0) {
-      const stepsWithtest_case_id = steps.map((step) => ({
-        ...step,
-        test_case_id: newTestCase.id,
-      }));
+    return data;
+  }
 
-      const { error: stepsError } = await this.supabase
-        .from("test_steps")
-        .insert(stepsWithtest_case_id);
+  async removeTeamMember(teamId: number, userId: number): Promise<boolean> {
+    const { error } = await this.supabase
+      .from("team_members")
+      .delete()
+      .eq("team_id", teamId)
+      .eq("user_id", userId);
 
-      if (stepsError) {
-        console.error("Error creating test steps:", stepsError.message);
-        throw stepsError;
-      }
+    if (error) {
+      console.error("Error removing team member:", error.message);
+      return false;
     }
 
-    return newTestCase;
+    return true;
   }
 
-  async getTestCase(id: number): Promise<schema.TestCase | undefined> {
+  // Project operations
+  async createProject(project: schema.InsertProject): Promise<schema.Project> {
     const { data, error } = await this.supabase
-      .from("test_cases")
+      .from("projects")
+      .insert([project])
       .select()
-      .eq("id", id)
       .single();
 
     if (error) {
-      console.error("Error getting test case:", error.message);
-      return undefined;
+      console.error("Error creating project:", error.message);
+      throw error;
     }
 
     return data;
   }
 
-  async getTestCaseWithSteps(
-    id: number,
-  ): Promise<
-    { testCase: schema.TestCase; steps: schema.TestStep[] } | undefined
-  > {
-    const testCase = await this.getTestCase(id);
-    if (!testCase) return undefined;
+  async getProject(id: number): Promise<schema.Project | undefined> {
+    const { data, error } = await this.supabase
+      .from("projects")
+      .select()
+      .eq("id", id)
+      .single();
 
-    const steps = await this.getTestSteps(id);
-    return { testCase, steps };
+    if (error) {
+      console.error("Error getting project:", error.message);
+      return undefined;
+    }
+
+    return data;
   }
 
-  async getTestCases(filters?: {
-    status?: string;
-    folderId?: number;
-  }): Promise<schema.TestCase[]> {
-    let query = this.supabase.from("test_cases").select();
+  async getProjects(): Promise<schema.Project[]> {
+    const { data, error } = await this.supabase
+      .from("projects")
+      .select()
+      .order("name", { ascending: true });
 
-    if (filters?.status) {
-      query = query.eq("status", filters.status);
+    if (error) {
+      console.error("Error getting projects:", error.message);
+      throw error;
     }
 
-    if (filters?.folderId) {
-      query = query.eq("folderId", filters.folderId);
-    }
+    return data;
+  }
 
-    const { data, error } = await query;
+  async getUserProjects(userId: number): Promise<schema.Project[]> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .select("projects(*)")
+      .eq("user_id", userId);
 
     if (error) {
-      console.error("Error getting test cases:", error.message);
-      return [];
+      console.error("Error getting user projects:", error.message);
+      throw error;
     }
 
-    return data;
+    return data.map((item: { projects: schema.Project }) => item.projects);
   }
 
-  async updateTestCase(
+  async updateProject(
     id: number,
-    data: Partial<schema.InsertTestCase>,
-    steps?: schema.InsertTestStep[],
-  ): Promise<schema.TestCase | undefined> {
-    const { data: updatedTestCase, error: updateError } = await this.supabase
-      .from("test_cases")
+    data: Partial<schema.InsertProject>,
+  ): Promise<schema.Project | undefined> {
+    const { data: updatedProject, error } = await this.supabase
+      .from("projects")
       .update(data)
       .eq("id", id)
       .select()
       .single();
 
-    if (updateError) {
-      console.error("Error updating test case:", updateError.message);
+    if (error) {
+      console.error("Error updating project:", error.message);
       return undefined;
     }
 
-    if (steps) {
-      // Delete existing steps
-      const { error: deleteError } = await this.supabase
-        .from("test_steps")
-        .delete()
-        .eq("test_case_id", id);
-
-      if (deleteError) {
-        console.error("Error deleting test steps:", deleteError.message);
-        return undefined;
-      }
-
-      // Insert new steps
-      const stepsWithtest_case_id = steps.map((step) => ({
-        ...step,
-        test_case_id: id,
-      }));
+    return updatedProject;
+  }
 
-      const { error: insertError } = await this.supabase
-        .from("test_steps")
-        .insert(stepsWithtest_case_id);
+  async getProjectMembers(projectId: number): Promise<schema.ProjectMember[]> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .select()
+      .eq("project_id", projectId);
 
-      if (insertError) {
-        console.error("Error inserting test steps:", insertError.message);
-        return undefined;
-      }
+    if (error) {
+      console.error("Error getting project members:", error.message);
+      throw error;
     }
 
-    return updatedTestCase;
+    return data;
   }
 
-  async deleteTestCase(id: number): Promise<boolean> {
-    // Delete steps first (foreign key constraint)
-    const { error: deleteStepsError } = await this.supabase
-      .from("test_steps")
-      .delete()
-      .eq("test_case_id", id);
+  async getProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<schema.ProjectMember | undefined> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .select()
+      .eq("project_id", projectId)
+      .eq("user_id", userId)
+      .maybeSingle();
 
-    if (deleteStepsError) {
-      console.error("Error deleting test steps:", deleteStepsError.message);
-      return false;
+    if (error) {
+      console.error("Error getting project member:", error.message);
+      return undefined;
     }
 
-    // Delete test case
-    const { error: deleteTestCaseError } = await this.supabase
-      .from("test_cases")
+    return data ?? undefined;
+  }
+
+  async setProjectMember(
+    member: schema.InsertProjectMember,
+  ): Promise<schema.ProjectMember> {
+    const { data, error } = await this.supabase
+      .from("project_members")
+      .upsert([member], { onConflict: "project_id,user_id" })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error setting project member:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async removeProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<boolean> {
+    const { error } = await this.supabase
+      .from("project_members")
       .delete()
-      .eq("id", id);
+      .eq("project_id", projectId)
+      .eq("user_id", userId);
 
-    if (deleteTestCaseError) {
-      console.error("Error deleting test case:", deleteTestCaseError.message);
+    if (error) {
+      console.error("Error removing project member:", error.message);
       return false;
     }
 
     return true;
   }
 
-  async getTestCasesByFolder(folderId: number): Promise<schema.TestCase[]> {
+  // Folder operations
+  async createFolder(folder: schema.InsertFolder): Promise<schema.Folder> {
     const { data, error } = await this.supabase
-      .from("test_cases")
+      .from("folders")
+      .insert([folder])
       .select()
-      .eq("folderId", folderId);
+      .single();
 
     if (error) {
-      console.error("Error getting test cases by folder:", error.message);
-      return [];
+      console.error("Error creating folder:", error.message);
+      throw error;
     }
 
     return data;
   }
 
-  // Test steps operations
-  async getTestSteps(test_case_id: number): Promise<schema.TestStep[]> {
+  async getFolder(id: number): Promise<schema.Folder | undefined> {
     const { data, error } = await this.supabase
-      .from("test_steps")
+      .from("folders")
       .select()
-      .eq("test_case_id", test_case_id);
+      .eq("id", id)
+      .single();
 
     if (error) {
-      console.error("Error getting test steps:", error.message);
-      return [];
+      console.error("Error getting folder:", error.message);
+      return undefined;
     }
 
     return data;
   }
 
-  // Test case version operations
-  async createTestVersion(
-    version: schema.InsertTestVersion,
-  ): Promise<schema.TestVersion> {
+  async getFolders(projectId: number): Promise<schema.Folder[]> {
     const { data, error } = await this.supabase
-      .from("test_versions")
-      .insert([version])
+      .from("folders")
       .select()
-      .single();
+      .eq("project_id", projectId)
+      .is("deleted_at", null);
 
     if (error) {
-      console.error("Error creating test version:", error.message);
+      console.error("Error getting folders:", error.message);
       throw error;
     }
 
     return data;
   }
 
-  async getTestVersions(test_case_id: number): Promise<schema.TestVersion[]> {
-    const { data, error } = await this.supabase
-      .from("test_versions")
+  async updateFolder(
+    id: number,
+    data: Partial<schema.InsertFolder>,
+  ): Promise<schema.Folder | undefined> {
+    const { data: updatedFolder, error } = await this.supabase
+      .from("folders")
+      .update(data)
+      .eq("id", id)
       .select()
-      .eq("test_case_id", test_case_id);
+      .single();
 
     if (error) {
-      console.error("Error getting test versions:", error.message);
-      return [];
+      console.error("Error updating folder:", error.message);
+      return undefined;
     }
 
-    return data;
+    return updatedFolder;
   }
 
-  async revertToVersion(test_case_id: number, version: number): Promise<boolean> {
-    // I'm not entirely sure if this is correct, need to investigate
-    const { data: versions, error } = await this.supabase
-      .from("test_versions")
-      .select()
-      .eq("test_case_id", test_case_id);
+  async deleteFolder(id: number, deletedBy: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("folders")
+      .update({ deleted_at: new Date().toISOString(), deleted_by: deletedBy })
+      .eq("id", id)
+      .is("deleted_at", null)
+      .select("id");
 
     if (error) {
-      console.error("Error getting test versions:", error.message);
+      console.error("Error deleting folder:", error.message);
       return false;
     }
 
-    if (versions.length === 0) return false;
+    return data.length > 0;
+  }
 
-    // Update the test case
-    const { error: updateError } = await this.supabase
-      .from("test_cases")
-      .update(versions[version - 1]) // assuming the version number starts from 1
-      .eq("id", test_case_id);
+  async restoreFolder(id: number): Promise<schema.Folder | undefined> {
+    const { data, error } = await this.supabase
+      .from("folders")
+      .update({ deleted_at: null, deleted_by: null })
+      .eq("id", id)
+      .not("deleted_at", "is", null)
+      .select()
+      .maybeSingle();
 
-    if (updateError) {
-      console.error("Error updating test case:", updateError.message);
-      return false;
+    if (error) {
+      console.error("Error restoring folder:", error.message);
+      return undefined;
     }
 
-    return true;
+    return data ?? undefined;
   }
 
-  async removeTestCaseFromFolder(
-    test_case_id: number,
-    folderId: number,
-  ): Promise<boolean> {
-    const { error } = await this.supabase
+  async purgeFolder(id: number): Promise<boolean> {
+    const { error: linkError } = await this.supabase
       .from("test_case_folders")
       .delete()
-      .eq("test_case_id", test_case_id)
-      .eq("folderId", folderId);
+      .eq("folderId", id);
+
+    if (linkError) {
+      console.error(
+        "Error deleting from test_case_folders:",
+        linkError.message,
+      );
+      return false;
+    }
+
+    const { error } = await this.supabase.from("folders").delete().eq("id", id);
 
     if (error) {
-      console.error("Error removing test case from folder:", error.message);
+      console.error("Error purging folder:", error.message);
       return false;
     }
 
     return true;
   }
 
-  async getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]> {
+  async getTestCountByFolder(): Promise<
+    { folderId: number; testCount: number }[]
+  > {
     const { data, error } = await this.supabase
       .from("test_case_folders")
-      .select("folders(*)")
-      .eq("test_case_id", test_case_id);
+      .select("folderId, test_cases!inner(deleted_at)")
+      .is("test_cases.deleted_at", null);
 
     if (error) {
-      console.error("Error getting test case folders:", error.message);
+      console.error("Error counting test cases by folder:", error.message);
       return [];
     }
 
-    // Extract the folder data from the nested structure
-    const folders = data.map((item) => item.folders);
-    return folders;
+    return countBy(data, (link: { folderId: number }) => link.folderId).map(
+      ([folderId, testCount]) => ({ folderId, testCount }),
+    );
   }
 
-  // Test run operations
-  async createTestRun(testRun: schema.InsertTestRun): Promise<schema.TestRun> {
-    const { data, error } = await this.supabase
-      .from("test_runs")
-      .insert([testRun])
+  async createTestCase(
+    testCaseWithSteps: schema.TestCaseWithSteps,
+  ): Promise<schema.TestCase> {
+    const { steps, ...testCase } = testCaseWithSteps;
+
+    const { data: newTestCase, error: testCaseError } = await this.supabase
+      .from("test_cases")
+      .insert([testCase])
       .select()
       .single();
 
-    if (error) {
-      console.error("Error creating test run:", error.message);
+    if (testCaseError) {
+      console.error("Error creating test case:", testCaseError.message);
+      throw testCaseError;
+    }
+
+    try {
+      if (steps && steps.length > 0) {
+        await this.replaceTestSteps(
+          newTestCase.id,
+          steps.map((step) => ({ ...step, test_case_id: newTestCase.id })),
+        );
+      }
+
+      await this.createTestVersion({
+        test_case_id: newTestCase.id,
+        version: newTestCase.version,
+        data: snapshotTestCase(newTestCase, steps ?? []),
+        created_by: newTestCase.created_by,
+      });
+    } catch (error) {
+      // The REST API has no transactions, so undo the half-written case
+      await this.purgeTestCase(newTestCase.id);
       throw error;
     }
 
-    return data;
+    return newTestCase;
   }
 
-  async getTestRun(id: number): Promise<schema.TestRun | undefined> {
+  async getTestCase(id: number): Promise<schema.TestCase | undefined> {
     const { data, error } = await this.supabase
-      .from("test_runs")
+      .from("test_cases")
       .select()
       .eq("id", id)
       .single();
 
     if (error) {
-      console.error("Error getting test run:", error.message);
+      console.error("Error getting test case:", error.message);
       return undefined;
     }
 
     return data;
   }
 
-  async getTestRuns(): Promise<schema.TestRun[]> {
-    const { data, error } = await this.supabase
-      .from("test_runs")
-      .select()
-      .order("started_at", { ascending: false });
+  async getTestCaseWithSteps(
+    id: number,
+  ): Promise<
+    { testCase: schema.TestCase; steps: schema.TestStep[] } | undefined
+  > {
+    const testCase = await this.getTestCase(id);
+    if (!testCase) return undefined;
 
-    if (error) {
-      console.error("Error getting test runs:", error.message);
-      return [];
-    }
+    const steps = await this.getTestSteps(id);
+    return { testCase, steps };
+  }
 
-    return data;
+  async getTestCases(
+    projectId: number,
+    filters?: TestCaseFilters,
+    options?: ListOptions<TestCaseSortField>,
+  ): Promise<Page<schema.TestCase>> {
+    // Folder membership lives in test_case_folders, not on the test case
+    const folderTestCaseIds = filters?.folderId
+      ? (await this.getTestCasesByFolder(filters.folderId)).map(
+          (testCase) => testCase.id,
+        )
+      : undefined;
+
+    return this.list<schema.TestCase>(
+      "test_cases",
+      projectId,
+      (query) => {
+        query = query.is("deleted_at", null);
+        query = filterAnyOf(query, "status", filters?.status);
+        query = filterAnyOf(query, "priority", filters?.priority);
+        query = filterAnyOf(query, "type", filters?.type);
+        query = filterAnyOf(query, "assigned_to", filters?.assignedTo);
+        if (folderTestCaseIds) {
+          query = query.in("id", folderTestCaseIds);
+        }
+        if (filters?.teamId) {
+          query = query.eq("assigned_team_id", filters.teamId);
+        }
+        query = filterInRange(query, "created_at", filters?.createdAt);
+        query = filterInRange(query, "updated_at", filters?.updatedAt);
+        query = filterTags(query, "tags", filters?.tags);
+        return filterCustomFields(
+          query,
+          "custom_fields",
+          filters?.customFields,
+        );
+      },
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
+    );
   }
 
-  async updateTestRun(
+  async updateTestCase(
     id: number,
-    data: Partial<schema.InsertTestRun>,
-  ): Promise<schema.TestRun | undefined> {
-    const { data: updatedTestRun, error } = await this.supabase
-      .from("test_runs")
-      .update(data)
+    data: Partial<schema.InsertTestCase>,
+    steps?: schema.InsertTestStep[],
+    editedBy?: number,
+  ): Promise<schema.TestCase | undefined> {
+    const previous = await this.getTestCaseWithSteps(id);
+    if (!previous) return undefined;
+
+    const {
+      id: _id,
+      project_id: _projectId,
+      ...changes
+    } = data as Partial<schema.TestCase>;
+
+    const { data: updatedTestCase, error: updateError } = await this.supabase
+      .from("test_cases")
+      .update({
+        ...changes,
+        version: previous.testCase.version + 1,
+        updated_at: new Date(),
+      })
       .eq("id", id)
       .select()
       .single();
 
-    if (error) {
-      console.error("Error updating test run:", error.message);
+    if (updateError) {
+      console.error("Error updating test case:", updateError.message);
       return undefined;
     }
 
-    return updatedTestRun;
-  }
-
-  async completeTestRun(id: number): Promise<schema.TestRun | undefined> {
-    const now = new Date();
-
-    // Get the test run to calculate duration
-    const { data: testRun, error: getRunError } = await this.supabase
-      .from("test_runs")
-      .select()
-      .eq("id", id)
-      .single();
+    try {
+      if (steps) {
+        await this.replaceTestSteps(id, steps);
+      }
 
-    if (getRunError) {
-      console.error("Error getting test run:", getRunError.message);
+      await this.createTestVersion({
+        test_case_id: id,
+        version: updatedTestCase.version,
+        data: snapshotTestCase(updatedTestCase, steps ?? previous.steps),
+        created_by: editedBy ?? previous.testCase.created_by,
+      });
+    } catch (error) {
+      // The REST API has no transactions, so put the previous state back
+      const { id: _id, ...previousTestCase } = previous.testCase;
+      await this.supabase
+        .from("test_cases")
+        .update(previousTestCase)
+        .eq("id", id);
+      if (steps) {
+        await this.replaceTestSteps(
+          id,
+          previous.steps.map(({ id: _stepId, ...step }) => step),
+        ).catch(() => undefined);
+      }
       return undefined;
     }
 
-    if (!testRun) {
-      console.warn("Test run not found with id:", id);
-      return undefined;
+    return updatedTestCase;
+  }
+
+  async deleteTestCase(id: number, deletedBy: number): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from("test_cases")
+      .update({ deleted_at: new Date().toISOString(), deleted_by: deletedBy })
+      .eq("id", id)
+      .is("deleted_at", null)
+      .select("id");
+
+    if (error) {
+      console.error("Error deleting test case:", error.message);
+      return false;
     }
 
-    const startTime = new Date(testRun.started_at).getTime();
-    const endTime = now.getTime();
-    const durationMs = endTime - startTime;
-    const durationSeconds = Math.floor(durationMs / 1000);
+    return data.length > 0;
+  }
 
-    const { data: completedTestRun, error: completeError } = await this.supabase
-      .from("test_runs")
-      .update({
-        status: "completed",
-        complete_at: now,
-        duration: durationSeconds,
-      })
+  async restoreTestCase(id: number): Promise<schema.TestCase | undefined> {
+    const { data, error } = await this.supabase
+      .from("test_cases")
+      .update({ deleted_at: null, deleted_by: null })
       .eq("id", id)
+      .not("deleted_at", "is", null)
       .select()
-      .single();
+      .maybeSingle();
 
-    if (completeError) {
-      console.error("Error completing test run:", completeError.message);
+    if (error) {
+      console.error("Error restoring test case:", error.message);
       return undefined;
     }
 
-    return completedTestRun;
+    return data ?? undefined;
   }
 
-  // Test run results operations
-  async createTestRunResult(
-    result: schema.InsertTestRunResult,
-  ): Promise<schema.TestRunResult> {
-    const { data: insertedResult, error } = await this.supabase
+  async purgeTestCase(id: number): Promise<boolean> {
+    // Bugs are kept, but lose their link to the test case and its results
+    const { data: results, error: resultsError } = await this.supabase
       .from("test_run_results")
-      .insert([result])
-      .select()
-      .single();
+      .select("id")
+      .eq("test_case_id", id);
 
-    if (error) {
-      console.error("Error creating test run result:", error.message);
-      throw error;
+    if (resultsError) {
+      console.error("Error getting test run results:", resultsError.message);
+      return false;
     }
 
-    // Update test case status based on this result
-    if (insertedResult) {
-      await this.updateTestCaseStatus(result.test_case_id, result.status);
+    const resultIds = results.map((result: { id: number }) => result.id);
+    const unlinks = [
+      this.supabase
+        .from("bugs")
+        .update({ test_run_result_id: null })
+        .in("test_run_result_id", resultIds),
+      this.supabase
+        .from("bugs")
+        .update({ test_case_id: null })
+        .eq("test_case_id", id),
+    ];
+    for (const unlink of unlinks) {
+      const { error } = await unlink;
+      if (error) {
+        console.error("Error unlinking bugs:", error.message);
+        return false;
+      }
     }
 
-    return insertedResult;
+    // Delete dependent rows first (foreign key constraints)
+    for (const table of [
+      "test_run_results",
+      "test_steps",
+      "test_versions",
+      "test_case_folders",
+      "attachments",
+    ]) {
+      const { error } = await this.supabase
+        .from(table)
+        .delete()
+        .eq("test_case_id", id);
+
+      if (error) {
+        console.error(`Error deleting from ${table}:`, error.message);
+        return false;
+      }
+    }
+
+    // Delete test case
+    const { error: deleteTestCaseError } = await this.supabase
+      .from("test_cases")
+      .delete()
+      .eq("id", id);
+
+    if (deleteTestCaseError) {
+      console.error("Error purging test case:", deleteTestCaseError.message);
+      return false;
+    }
+
+    return true;
   }
 
-  async getTestRunResults(runId: number): Promise<schema.TestRunResult[]> {
+  async getTestCasesByFolder(folderId: number): Promise<schema.TestCase[]> {
     const { data, error } = await this.supabase
-      .from("test_run_results")
-      .select()
-      .eq("runId", runId)
-      .order("executed_at", { ascending: false });
+      .from("test_case_folders")
+      .select("test_cases!inner(*)")
+      .eq("folderId", folderId)
+      .is("test_cases.deleted_at", null);
 
     if (error) {
-      console.error("Error getting test run results:", error.message);
+      console.error("Error getting test cases by folder:", error.message);
       return [];
     }
 
-    return data;
+    return data.map((item: { test_cases: schema.TestCase }) => item.test_cases);
   }
 
-  async getTestStatusCounts(): Promise<{ status: string; count: number }[]> {
-    // This logic can potentially be implemented directly in Supabase using SQL views or functions for better performance
-    console.warn("getTestStatusCounts not yet implemented using supabase");
-    return [];
+  // Tag operations
+  async getTags(
+    projectId: number,
+    entityType: TaggableEntityType,
+  ): Promise<TagCount[]> {
+    let query = this.supabase
+      .from(entityType === "test_case" ? "test_cases" : "bugs")
+      .select("tags")
+      .eq("project_id", projectId);
+    if (entityType === "test_case") {
+      query = query.is("deleted_at", null);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error getting tags:", error.message);
+      throw error;
+    }
+
+    return countTags(data);
   }
 
-  // Bug operations
-  async createBug(bug: schema.InsertBug): Promise<schema.Bug> {
+  async updateTestCaseTags(
+    projectId: number,
+    ids: number[],
+    add: string[],
+    remove: string[],
+    editedBy: number,
+  ): Promise<number[]> {
     const { data, error } = await this.supabase
-      .from("bugs")
-      .insert([bug])
-      .select()
-      .single();
+      .from("test_cases")
+      .select("id, tags")
+      .eq("project_id", projectId)
+      .is("deleted_at", null)
+      .in("id", ids);
 
     if (error) {
-      console.error("Error creating bug:", error.message);
+      console.error("Error getting test case tags:", error.message);
       throw error;
     }
 
-    return data;
+    // updateTestCase saves the version and undoes the row if that fails
+    const updated: number[] = [];
+    for (const row of data as { id: number; tags: string[] }[]) {
+      const updatedTestCase = await this.updateTestCase(
+        row.id,
+        { tags: retag(row.tags, add, remove) },
+        undefined,
+        editedBy,
+      );
+      if (!updatedTestCase) {
+        throw new Error(`Failed to update the tags of test case ${row.id}`);
+      }
+      updated.push(row.id);
+    }
+    return updated;
   }
 
-  async getBug(id: number): Promise<schema.Bug | undefined> {
+  // Trash operations
+  async getTrash(projectId: number): Promise<Trash> {
+    const trashed = async (table: string) => {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select()
+        .eq("project_id", projectId)
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false });
+
+      if (error) {
+        console.error(`Error getting trashed ${table}:`, error.message);
+        throw error;
+      }
+
+      return data;
+    };
+
+    return {
+      testCases: await trashed("test_cases"),
+      folders: await trashed("folders"),
+    };
+  }
+
+  async purgeTrash(deletedBefore: Date): Promise<{
+    testCases: number;
+    folders: number;
+    attachments: schema.Attachment[];
+  }> {
+    const expired = async (table: string): Promise<number[]> => {
+      const { data, error } = await this.supabase
+        .from(table)
+        .select("id")
+        .lt("deleted_at", deletedBefore.toISOString());
+
+      if (error) {
+        console.error(`Error getting expired ${table}:`, error.message);
+        throw error;
+      }
+
+      return data.map((row: { id: number }) => row.id);
+    };
+
+    let testCases = 0;
+    const attachments: schema.Attachment[] = [];
+    for (const id of await expired("test_cases")) {
+      const testCaseAttachments = await this.getAttachments(id);
+      if (await this.purgeTestCase(id)) {
+        testCases++;
+        attachments.push(...testCaseAttachments);
+      }
+    }
+    let folders = 0;
+    for (const id of await expired("folders")) {
+      if (await this.purgeFolder(id)) folders++;
+    }
+    return { testCases, folders, attachments };
+  }
+
+  // Test steps operations
+  async getTestSteps(test_case_id: number): Promise<schema.TestStep[]> {
     const { data, error } = await this.supabase
-      .from("bugs")
+      .from("test_steps")
       .select()
-      .eq("id", id)
-      .single();
+      .eq("test_case_id", test_case_id);
 
     if (error) {
-      console.error("Error getting bug:", error.message);
-      return undefined;
+      console.error("Error getting test steps:", error.message);
+      return [];
     }
 
     return data;
   }
 
-  async getBugs(filters?: {
-    status?: string;
-    test_case_id?: number;
-  }): Promise<schema.Bug[]> {
-    let query = this.supabase
-      .from("bugs")
+  // Attachment operations
+  async getAttachments(test_case_id: number): Promise<schema.Attachment[]> {
+    const { data, error } = await this.supabase
+      .from("attachments")
       .select()
-      .order("reported_at", { ascending: false });
+      .eq("test_case_id", test_case_id)
+      .order("id");
 
-    if (filters?.status) {
-      query = query.eq("status", filters.status);
+    if (error) {
+      console.error("Error getting attachments:", error.message);
+      throw error;
     }
 
-    if (filters?.test_case_id) {
-      query = query.eq("test_case_id", filters.test_case_id);
+    return data;
+  }
+
+  async getAttachment(id: number): Promise<schema.Attachment | undefined> {
+    const { data, error } = await this.supabase
+      .from("attachments")
+      .select()
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting attachment:", error.message);
+      return undefined;
     }
 
-    const { data, error } = await query;
+    return data ?? undefined;
+  }
+
+  async createAttachment(
+    attachment: schema.InsertAttachment,
+  ): Promise<schema.Attachment> {
+    const { data, error } = await this.supabase
+      .from("attachments")
+      .insert([attachment])
+      .select()
+      .single();
 
     if (error) {
-      console.error("Error getting bugs:", error.message);
-      return [];
+      console.error("Error creating attachment:", error.message);
+      throw error;
     }
 
     return data;
   }
 
-  async updateBug(
+  async updateAttachment(
     id: number,
-    data: Partial<schema.InsertBug>,
-  ): Promise<schema.Bug | undefined> {
-    const { data: updatedBug, error } = await this.supabase
-      .from("bugs")
+    data: Partial<schema.InsertAttachment>,
+  ): Promise<schema.Attachment | undefined> {
+    const { data: updated, error } = await this.supabase
+      .from("attachments")
       .update(data)
       .eq("id", id)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
-      console.error("Error updating bug:", error.message);
-      return undefined;
+      console.error("Error updating attachment:", error.message);
+      throw error;
     }
 
-    return updatedBug;
+    return updated ?? undefined;
   }
 
-  // Whiteboard operations
-  async createWhiteboard(
-    whiteboard: schema.InsertWhiteboard,
-  ): Promise<schema.Whiteboard> {
+  async deleteAttachment(id: number): Promise<boolean> {
     const { data, error } = await this.supabase
-      .from("whiteboards")
-      .insert([whiteboard])
-      .select()
-      .single();
+      .from("attachments")
+      .delete()
+      .eq("id", id)
+      .select("id");
 
     if (error) {
-      console.error("Error creating whiteboard:", error.message);
-      throw error;
+      console.error("Error deleting attachment:", error.message);
+      return false;
     }
 
-    return data;
+    return data.length > 0;
   }
 
-  async getWhiteboard(id: number): Promise<schema.Whiteboard | undefined> {
+  // Test case version operations
+  async createTestVersion(
+    version: schema.InsertTestVersion,
+  ): Promise<schema.TestVersion> {
     const { data, error } = await this.supabase
-      .from("whiteboards")
+      .from("test_versions")
+      .insert([version])
       .select()
-      .eq("id", id)
       .single();
 
     if (error) {
-      console.error("Error getting whiteboard:", error.message);
-      return undefined;
+      console.error("Error creating test version:", error.message);
+      throw error;
     }
 
     return data;
   }
 
-  async getWhiteboards(): Promise<schema.Whiteboard[]> {
+  async getTestVersions(test_case_id: number): Promise<schema.TestVersion[]> {
     const { data, error } = await this.supabase
-      .from("whiteboards")
+      .from("test_versions")
       .select()
-      .order("updated_at", { ascending: false });
+      .eq("test_case_id", test_case_id);
 
     if (error) {
-      console.error("Error getting whiteboards:", error.message);
+      console.error("Error getting test versions:", error.message);
       return [];
     }
 
     return data;
   }
 
-  async updateWhiteboard(
-    id: number,
-    data: Partial<schema.InsertWhiteboard>,
-  ): Promise<schema.Whiteboard | undefined> {
-    const { data: updatedWhiteboard, error } = await this.supabase
-      .from("whiteboards")
-      .update(data)
-      .eq("id", id)
+  async revertToVersion(
+    test_case_id: number,
+    version: number,
+    revertedBy?: number,
+  ): Promise<boolean> {
+    const { data: snapshot, error } = await this.supabase
+      .from("test_versions")
       .select()
-      .single();
+      .eq("test_case_id", test_case_id)
+      .eq("version", version)
+      .maybeSingle();
 
     if (error) {
-      console.error("Error updating whiteboard:", error.message);
-      return undefined;
+      console.error("Error getting test version:", error.message);
+      return false;
     }
 
-    return updatedWhiteboard;
+    if (!snapshot) return false;
+
+    // Reverting saves the restored state as a new version
+    const { changes, steps } = restoreTestCaseSnapshot(
+      test_case_id,
+      snapshot.data,
+    );
+    const updatedTestCase = await this.updateTestCase(
+      test_case_id,
+      changes,
+      steps,
+      revertedBy,
+    );
+    return !!updatedTestCase;
   }
 
-  // AI Test Case operations
-  async saveAITestCase(
-    aiTestCase: schema.InsertAITestCase,
-  ): Promise<schema.AITestCase> {
+  async assignTestCaseToFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<schema.TestCaseFolder> {
+    const { data: existing } = await this.supabase
+      .from("test_case_folders")
+      .select()
+      .eq("test_case_id", test_case_id)
+      .eq("folderId", folderId)
+      .maybeSingle();
+
+    if (existing) return existing;
+
     const { data, error } = await this.supabase
-      .from("ai_test_cases")
-      .insert([aiTestCase])
+      .from("test_case_folders")
+      .insert([{ test_case_id, folderId }])
       .select()
       .single();
 
     if (error) {
-      console.error("Error saving AI test case:", error.message);
+      console.error("Error assigning test case to folder:", error.message);
       throw error;
     }
 
     return data;
   }
 
-  async markAITestCaseAsImported(id: number): Promise<void> {
+  async removeTestCaseFromFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<boolean> {
     const { error } = await this.supabase
-      .from("ai_test_cases")
-      .update({ imported: true })
-      .eq("id", id);
+      .from("test_case_folders")
+      .delete()
+      .eq("test_case_id", test_case_id)
+      .eq("folderId", folderId);
 
     if (error) {
-      console.error("Error marking AI test case as imported:", error.message);
+      console.error("Error removing test case from folder:", error.message);
+      return false;
     }
+
+    return true;
   }
 
-  async getAITestCases(userId: number): Promise<schema.AITestCase[]> {
+  async getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]> {
     const { data, error } = await this.supabase
-      .from("ai_test_cases")
-      .select()
-      .eq("created_by", userId)
-      .order("created_at", { ascending: false });
+      .from("test_case_folders")
+      .select("folders!inner(*)")
+      .eq("test_case_id", test_case_id)
+      .is("folders.deleted_at", null);
 
     if (error) {
-      console.error("Error getting AI test cases:", error.message);
+      console.error("Error getting test case folders:", error.message);
       return [];
     }
 
-    return data;
+    // Extract the folder data from the nested structure
+    const folders = data.map(
+      (item: { folders: schema.Folder }) => item.folders,
+    );
+    return folders;
   }
 
-  // Activity log operations
-  async logActivity(
-    log: schema.InsertActivityLog,
-  ): Promise<schema.ActivityLog> {
+  // Test run operations
+  async createTestRun(testRun: schema.InsertTestRun): Promise<schema.TestRun> {
     const { data, error } = await this.supabase
-      .from("activity_logs")
-      .insert([log])
+      .from("test_runs")
+      .insert([testRun])
       .select()
       .single();
 
     if (error) {
-      console.error("Error logging activity:", error.message);
+      console.error("Error creating test run:", error.message);
       throw error;
     }
+
     return data;
   }
 
-  async getRecentActivities(limit: number = 10): Promise<
-    (schema.ActivityLog & {
-      user: Pick<schema.User, "username" | "full_name">;
-    })[]
-  > {
+  async getTestRun(id: number): Promise<schema.TestRun | undefined> {
     const { data, error } = await this.supabase
-      .from("activity_logs")
-      .select("*, users(username, full_name)")
-      .limit(limit)
-      .order("timestamp", { ascending: false });
+      .from("test_runs")
+      .select()
+      .eq("id", id)
+      .single();
 
     if (error) {
-      console.error("Error getting recent activities:", error.message);
-      return [];
+      console.error("Error getting test run:", error.message);
+      return undefined;
     }
 
-    return data.map((activity) => ({
-      ...activity,
-      user: {
-        username: activity.users?.username || "Unknown",
-        full_name: activity.users?.full_name || "Unknown",
-      },
-    }));
+    return data;
   }
 
-  // Dashboard statistics
-  async getTestStatusStats(): Promise<{ status: string; count: number }[]> {
-    // This logic can potentially be implemented directly in Supabase using SQL views or functions for better performance
-    console.warn("getTestStatusStats not yet implemented using supabase");
-    return [];
+  async getTestRuns(
+    projectId: number,
+    filters?: TestRunFilters,
+    options?: ListOptions<TestRunSortField>,
+  ): Promise<Page<schema.TestRun>> {
+    return this.list<schema.TestRun>(
+      "test_runs",
+      projectId,
+      (query) => {
+        query = filterAnyOf(query, "status", filters?.status);
+        query = filterAnyOf(query, "executed_by", filters?.executedBy);
+        return filterInRange(query, "started_at", filters?.startedAt);
+      },
+      options?.sort ?? { field: "started_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateTestRun(
+    id: number,
+    data: Partial<schema.InsertTestRun>,
+  ): Promise<schema.TestRun | undefined> {
+    const { data: updatedTestRun, error } = await this.supabase
+      .from("test_runs")
+      .update(data)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating test run:", error.message);
+      return undefined;
+    }
+
+    return updatedTestRun;
+  }
+
+  async completeTestRun(id: number): Promise<schema.TestRun | undefined> {
+    const now = new Date();
+
+    // Get the test run to calculate duration
+    const { data: testRun, error: getRunError } = await this.supabase
+      .from("test_runs")
+      .select()
+      .eq("id", id)
+      .single();
+
+    if (getRunError) {
+      console.error("Error getting test run:", getRunError.message);
+      return undefined;
+    }
+
+    if (!testRun) {
+      console.warn("Test run not found with id:", id);
+      return undefined;
+    }
+
+    const startTime = new Date(testRun.started_at).getTime();
+    const endTime = now.getTime();
+    const durationMs = endTime - startTime;
+    const durationSeconds = Math.floor(durationMs / 1000);
+
+    const { data: completedTestRun, error: completeError } = await this.supabase
+      .from("test_runs")
+      .update({
+        status: "completed",
+        complete_at: now,
+        duration: durationSeconds,
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (completeError) {
+      console.error("Error completing test run:", completeError.message);
+      return undefined;
+    }
+
+    return completedTestRun;
+  }
+
+  // Test run results operations
+  async createTestRunResult(
+    result: schema.InsertTestRunResult,
+  ): Promise<schema.TestRunResult> {
+    const { data: insertedResult, error } = await this.supabase
+      .from("test_run_results")
+      .insert([result])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating test run result:", error.message);
+      throw error;
+    }
+
+    // Update test case status based on this result
+    if (insertedResult) {
+      await this.updateTestCaseStatus(result.test_case_id, result.status);
+    }
+
+    return insertedResult;
+  }
+
+  async getTestRunResults(runId: number): Promise<schema.TestRunResult[]> {
+    const { data, error } = await this.supabase
+      .from("test_run_results")
+      .select()
+      .eq("runId", runId)
+      .order("executed_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting test run results:", error.message);
+      return [];
+    }
+
+    return data;
+  }
+
+  async getTestStatusCounts(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
+    const { data, error } = await this.supabase
+      .from("test_cases")
+      .select("status")
+      .eq("project_id", projectId)
+      .is("deleted_at", null);
+
+    if (error) {
+      console.error("Error counting test case statuses:", error.message);
+      return [];
+    }
+
+    return countBy(data, (testCase: { status: string }) => testCase.status).map(
+      ([status, count]) => ({ status, count }),
+    );
+  }
+
+  // Bug operations
+  async createBug(bug: schema.InsertBug): Promise<schema.Bug> {
+    const { data, error } = await this.supabase
+      .from("bugs")
+      .insert([bug])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating bug:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getBug(id: number): Promise<schema.Bug | undefined> {
+    const { data, error } = await this.supabase
+      .from("bugs")
+      .select()
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      console.error("Error getting bug:", error.message);
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async getBugs(
+    projectId: number,
+    filters?: BugFilters,
+    options?: ListOptions<BugSortField>,
+  ): Promise<Page<schema.Bug>> {
+    return this.list<schema.Bug>(
+      "bugs",
+      projectId,
+      (query) => {
+        query = filterAnyOf(query, "status", filters?.status);
+        query = filterAnyOf(query, "severity", filters?.severity);
+        query = filterAnyOf(query, "assigned_to", filters?.assignedTo);
+        if (filters?.test_case_id) {
+          query = query.eq("test_case_id", filters.test_case_id);
+        }
+        if (filters?.teamId) {
+          query = query.eq("assigned_team_id", filters.teamId);
+        }
+        query = filterInRange(query, "reported_at", filters?.reportedAt);
+        query = filterTags(query, "tags", filters?.tags);
+        return filterCustomFields(
+          query,
+          "custom_fields",
+          filters?.customFields,
+        );
+      },
+      options?.sort ?? { field: "reported_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateBug(
+    id: number,
+    data: Partial<schema.InsertBug>,
+  ): Promise<schema.Bug | undefined> {
+    const { data: updatedBug, error } = await this.supabase
+      .from("bugs")
+      .update(data)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating bug:", error.message);
+      return undefined;
+    }
+
+    return updatedBug;
+  }
+
+  // Custom field operations
+  async getCustomFields(
+    projectId: number,
+    entityType?: schema.CustomFieldEntityType,
+  ): Promise<schema.CustomField[]> {
+    let query = this.supabase
+      .from("custom_fields")
+      .select()
+      .eq("project_id", projectId);
+    if (entityType) {
+      query = query.eq("entity_type", entityType);
+    }
+
+    const { data, error } = await query
+      .order("position", { ascending: true })
+      .order("id", { ascending: true });
+
+    if (error) {
+      console.error("Error getting custom fields:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getCustomField(id: number): Promise<schema.CustomField | undefined> {
+    const { data, error } = await this.supabase
+      .from("custom_fields")
+      .select()
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async createCustomField(
+    field: schema.InsertCustomField,
+  ): Promise<schema.CustomField> {
+    const { data, error } = await this.supabase
+      .from("custom_fields")
+      .insert([field])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating custom field:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async updateCustomField(
+    id: number,
+    data: Partial<schema.InsertCustomField>,
+  ): Promise<schema.CustomField | undefined> {
+    const { data: updatedField, error } = await this.supabase
+      .from("custom_fields")
+      .update(data)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating custom field:", error.message);
+      return undefined;
+    }
+
+    return updatedField;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    const { error } = await this.supabase
+      .from("custom_fields")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting custom field:", error.message);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Shared step operations
+  async getSharedSteps(projectId: number): Promise<schema.SharedStep[]> {
+    const { data, error } = await this.supabase
+      .from("shared_steps")
+      .select()
+      .eq("project_id", projectId)
+      .order("name")
+      .order("id");
+
+    if (error) {
+      console.error("Error getting shared steps:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getSharedStep(id: number): Promise<schema.SharedStep | undefined> {
+    const { data, error } = await this.supabase
+      .from("shared_steps")
+      .select()
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting shared step:", error.message);
+      return undefined;
+    }
+
+    return data ?? undefined;
+  }
+
+  private async createSharedStepVersion(
+    version: schema.InsertSharedStepVersion,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("shared_step_versions")
+      .insert([version]);
+
+    if (error) {
+      console.error("Error creating shared step version:", error.message);
+      throw error;
+    }
+  }
+
+  async createSharedStep(
+    step: schema.InsertSharedStep,
+  ): Promise<schema.SharedStep> {
+    const { data, error } = await this.supabase
+      .from("shared_steps")
+      .insert([step])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating shared step:", error.message);
+      throw error;
+    }
+
+    try {
+      await this.createSharedStepVersion({
+        shared_step_id: data.id,
+        version: data.version,
+        name: data.name,
+        steps: data.steps,
+        created_by: data.created_by,
+      });
+    } catch (versionError) {
+      await this.supabase.from("shared_steps").delete().eq("id", data.id);
+      throw versionError;
+    }
+
+    return data;
+  }
+
+  async updateSharedStep(
+    id: number,
+    data: Partial<schema.InsertSharedStep>,
+  ): Promise<schema.SharedStep | undefined> {
+    const previous = await this.getSharedStep(id);
+    if (!previous) return undefined;
+
+    const { created_by, ...changes } = data;
+    const { data: updatedStep, error } = await this.supabase
+      .from("shared_steps")
+      .update({
+        ...changes,
+        version: previous.version + 1,
+        updated_at: new Date(),
+      })
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating shared step:", error.message);
+      return undefined;
+    }
+
+    try {
+      await this.createSharedStepVersion({
+        shared_step_id: id,
+        version: updatedStep.version,
+        name: updatedStep.name,
+        steps: updatedStep.steps,
+        created_by: created_by ?? previous.created_by,
+      });
+    } catch (versionError) {
+      // The REST API has no transactions, so put the previous state back
+      const { id: _id, ...previousStep } = previous;
+      await this.supabase
+        .from("shared_steps")
+        .update(previousStep)
+        .eq("id", id);
+      return undefined;
+    }
+
+    return updatedStep;
+  }
+
+  async deleteSharedStep(id: number): Promise<boolean> {
+    const { error: versionError } = await this.supabase
+      .from("shared_step_versions")
+      .delete()
+      .eq("shared_step_id", id);
+
+    if (versionError) {
+      console.error(
+        "Error deleting shared step versions:",
+        versionError.message,
+      );
+      return false;
+    }
+
+    const { data, error } = await this.supabase
+      .from("shared_steps")
+      .delete()
+      .eq("id", id)
+      .select("id");
+
+    if (error) {
+      console.error("Error deleting shared step:", error.message);
+      return false;
+    }
+
+    return data.length > 0;
+  }
+
+  async getSharedStepVersions(
+    shared_step_id: number,
+  ): Promise<schema.SharedStepVersion[]> {
+    const { data, error } = await this.supabase
+      .from("shared_step_versions")
+      .select()
+      .eq("shared_step_id", shared_step_id)
+      .order("version");
+
+    if (error) {
+      console.error("Error getting shared step versions:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getSharedStepVersion(
+    shared_step_id: number,
+    version: number,
+  ): Promise<schema.SharedStepVersion | undefined> {
+    const { data, error } = await this.supabase
+      .from("shared_step_versions")
+      .select()
+      .eq("shared_step_id", shared_step_id)
+      .eq("version", version)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting shared step version:", error.message);
+      return undefined;
+    }
+
+    return data ?? undefined;
+  }
+
+  async getSharedStepUsage(shared_step_id: number): Promise<number[]> {
+    const { data, error } = await this.supabase
+      .from("test_steps")
+      .select("test_case_id")
+      .eq("shared_step_id", shared_step_id);
+
+    if (error) {
+      console.error("Error getting shared step usage:", error.message);
+      throw error;
+    }
+
+    const ids = new Set<number>(
+      data.map((row: { test_case_id: number }) => row.test_case_id),
+    );
+    return Array.from(ids).sort((a, b) => a - b);
+  }
+
+  // Whiteboard operations
+  async createWhiteboard(
+    whiteboard: schema.InsertWhiteboard,
+  ): Promise<schema.Whiteboard> {
+    const { data, error } = await this.supabase
+      .from("whiteboards")
+      .insert([whiteboard])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating whiteboard:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getWhiteboard(id: number): Promise<schema.Whiteboard | undefined> {
+    const { data, error } = await this.supabase
+      .from("whiteboards")
+      .select()
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      console.error("Error getting whiteboard:", error.message);
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async getWhiteboards(
+    projectId: number,
+    filters?: WhiteboardFilters,
+    options?: ListOptions<WhiteboardSortField>,
+  ): Promise<Page<schema.Whiteboard>> {
+    return this.list<schema.Whiteboard>(
+      "whiteboards",
+      projectId,
+      (query) => {
+        query = filterAnyOf(query, "created_by", filters?.createdBy);
+        return filterInRange(query, "updated_at", filters?.updatedAt);
+      },
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
+    );
+  }
+
+  async updateWhiteboard(
+    id: number,
+    data: Partial<schema.InsertWhiteboard>,
+  ): Promise<schema.Whiteboard | undefined> {
+    const { data: updatedWhiteboard, error } = await this.supabase
+      .from("whiteboards")
+      .update(data)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating whiteboard:", error.message);
+      return undefined;
+    }
+
+    return updatedWhiteboard;
+  }
+
+  // AI Test Case operations
+  async saveAITestCase(
+    aiTestCase: schema.InsertAITestCase,
+  ): Promise<schema.AITestCase> {
+    const { data, error } = await this.supabase
+      .from("ai_test_cases")
+      .insert([aiTestCase])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving AI test case:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async markAITestCaseAsImported(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("ai_test_cases")
+      .update({ imported: true })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error marking AI test case as imported:", error.message);
+    }
+  }
+
+  async getAITestCases(userId: number): Promise<schema.AITestCase[]> {
+    const { data, error } = await this.supabase
+      .from("ai_test_cases")
+      .select()
+      .eq("created_by", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting AI test cases:", error.message);
+      return [];
+    }
+
+    return data;
+  }
+
+  // Search operations
+  async search(
+    projectId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number },
+  ): Promise<SearchResult[]> {
+    // PostgREST cannot rank across columns, so candidates containing the
+    // longest query word are fetched and ranked here like in MemStorage
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+    const term = terms.reduce((a, b) => (b.length > a.length ? b : a));
+    const containsTerm = (columns: string[]) =>
+      columns.map((column) => `${column}.ilike.%${term}%`).join(",");
+
+    const sources: {
+      type: SearchResultType;
+      query: () => any;
+      toDocument: (row: any) => SearchDocument;
+    }[] = [
+      {
+        type: "test_case",
+        query: () =>
+          this.supabase
+            .from("test_cases")
+            .select()
+            .eq("project_id", projectId)
+            .is("deleted_at", null)
+            .or(containsTerm(["title", "description", "expected_result"])),
+        toDocument: testCaseDocument,
+      },
+      {
+        type: "test_step",
+        query: () =>
+          this.supabase
+            .from("test_steps")
+            .select("*, test_cases!inner(project_id, title)")
+            .eq("test_cases.project_id", projectId)
+            .is("test_cases.deleted_at", null)
+            .or(containsTerm(["description", "expected_result"])),
+        toDocument: ({ test_cases, ...step }) =>
+          testStepDocument(step, test_cases),
+      },
+      {
+        type: "bug",
+        query: () =>
+          this.supabase
+            .from("bugs")
+            .select()
+            .eq("project_id", projectId)
+            .or(containsTerm(["title", "description"])),
+        toDocument: bugDocument,
+      },
+      {
+        type: "test_run",
+        query: () =>
+          this.supabase
+            .from("test_runs")
+            .select()
+            .eq("project_id", projectId)
+            .or(containsTerm(["name", "description"])),
+        toDocument: testRunDocument,
+      },
+    ];
+
+    const documents: SearchDocument[] = [];
+    for (const source of sources) {
+      if (!options.types.includes(source.type)) continue;
+
+      const { data, error } = await source.query().limit(200);
+      if (error) {
+        console.error(`Error searching ${source.type}:`, error.message);
+        continue;
+      }
+      documents.push(...data.map(source.toDocument));
+    }
+
+    return rankDocuments(documents, query, options.limit);
+  }
+
+  // Activity log operations
+  async logActivity(
+    log: schema.InsertActivityLog,
+  ): Promise<schema.ActivityLog> {
+    const { data, error } = await this.supabase
+      .from("activity_logs")
+      .insert([log])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error logging activity:", error.message);
+      throw error;
+    }
+    return data;
+  }
+
+  async getRecentActivities(
+    projectId: number,
+    limit: number = 10,
+  ): Promise<
+    (schema.ActivityLog & {
+      user: Pick<schema.User, "username" | "full_name">;
+    })[]
+  > {
+    const { data, error } = await this.supabase
+      .from("activity_logs")
+      .select("*, users(username, full_name)")
+      .eq("project_id", projectId)
+      .limit(limit)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting recent activities:", error.message);
+      return [];
+    }
+
+    return data.map(
+      (
+        activity: schema.ActivityLog & {
+          users?: Pick<schema.User, "username" | "full_name">;
+        },
+      ) => ({
+        ...activity,
+        user: {
+          username: activity.users?.username || "Unknown",
+          full_name: activity.users?.full_name || "Unknown",
+        },
+      }),
+    );
+  }
+
+  // Dashboard statistics
+  async getTestStatusStats(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
+    return this.getTestStatusCounts(projectId);
+  }
+
+  async getRecentTestCases(
+    projectId: number,
+    limit: number = 5,
+  ): Promise<schema.TestCase[]> {
+    const { data, error } = await this.supabase
+      .from("test_cases")
+      .select()
+      .eq("project_id", projectId)
+      .is("deleted_at", null)
+      .order("updated_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error getting recent test cases:", error.message);
+      return [];
+    }
+
+    return data;
+  }
+
+  async getTestRunStats(projectId: number): Promise<{
+    totalRuns: number;
+    avgDuration: number | null;
+    passRate: number | null;
+  }> {
+    const { data: runs, error: runsError } = await this.supabase
+      .from("test_runs")
+      .select("status, duration")
+      .eq("project_id", projectId);
+    if (runsError) {
+      console.error("Error getting test run stats:", runsError.message);
+      throw runsError;
+    }
+
+    const { data: results, error: resultsError } = await this.supabase
+      .from("test_run_results")
+      .select("status, test_runs!inner(project_id)")
+      .eq("test_runs.project_id", projectId);
+    if (resultsError) {
+      console.error("Error getting test run stats:", resultsError.message);
+      throw resultsError;
+    }
+
+    const durations = runs
+      .filter(
+        (run: { status: string; duration: number | null }) =>
+          run.status === "completed" && run.duration !== null,
+      )
+      .map((run: { duration: number }) => run.duration);
+    const passed = results.filter(
+      (result: { status: string }) => result.status === "passed",
+    ).length;
+
+    return {
+      totalRuns: runs.length,
+      avgDuration:
+        durations.length > 0
+          ? durations.reduce((sum: number, d: number) => sum + d, 0) /
+            durations.length
+          : null,
+      passRate: results.length > 0 ? (passed / results.length) * 100 : null,
+    };
+  }
+
+  // Role permission operations
+  async getRolePermissions(): Promise<schema.RolePermission[]> {
+    const { data, error } = await this.supabase
+      .from("role_permissions")
+      .select();
+
+    if (error) {
+      console.error("Error getting role permissions:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async setRolePermission(
+    role: string,
+    permission: string,
+    granted: boolean,
+  ): Promise<void> {
+    const { error } = granted
+      ? await this.supabase
+          .from("role_permissions")
+          .upsert([{ role, permission }], { onConflict: "role,permission" })
+      : await this.supabase
+          .from("role_permissions")
+          .delete()
+          .eq("role", role)
+          .eq("permission", permission);
+
+    if (error) {
+      console.error("Error setting role permission:", error.message);
+      throw error;
+    }
+  }
+
+  // User session operations
+  async createUserSession(
+    userSession: schema.InsertUserSession,
+  ): Promise<schema.UserSession> {
+    const { data, error } = await this.supabase
+      .from("user_sessions")
+      .insert([userSession])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating user session:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getUserSessions(userId: number): Promise<schema.UserSession[]> {
+    const { data, error } = await this.supabase
+      .from("user_sessions")
+      .select()
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting user sessions:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("user_sessions")
+      .delete()
+      .eq("sid", sid);
+
+    if (error) {
+      console.error("Error deleting user session:", error.message);
+      throw error;
+    }
+  }
+
+  // Password operations
+  async addPasswordHistory(userId: number, password: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("password_history")
+      .insert([{ user_id: userId, password }]);
+
+    if (error) {
+      console.error("Error adding password history:", error.message);
+      throw error;
+    }
+  }
+
+  async getPasswordHistory(
+    userId: number,
+    limit: number,
+  ): Promise<schema.PasswordHistoryEntry[]> {
+    const { data, error } = await this.supabase
+      .from("password_history")
+      .select()
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error getting password history:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async createPasswordResetToken(
+    token: schema.InsertPasswordResetToken,
+  ): Promise<schema.PasswordResetToken> {
+    const { data, error } = await this.supabase
+      .from("password_reset_tokens")
+      .insert([token])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating password reset token:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getPasswordResetToken(
+    tokenHash: string,
+  ): Promise<schema.PasswordResetToken | undefined> {
+    const { data, error } = await this.supabase
+      .from("password_reset_tokens")
+      .select()
+      .eq("token_hash", tokenHash)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("password_reset_tokens")
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error marking password reset token used:", error.message);
+      throw error;
+    }
+  }
+
+  // API token operations
+  async createApiToken(token: schema.InsertApiToken): Promise<schema.ApiToken> {
+    const { data, error } = await this.supabase
+      .from("api_tokens")
+      .insert([token])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating API token:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getApiTokens(userId: number): Promise<schema.ApiToken[]> {
+    const { data, error } = await this.supabase
+      .from("api_tokens")
+      .select()
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting API tokens:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getApiTokenByHash(
+    tokenHash: string,
+  ): Promise<schema.ApiToken | undefined> {
+    const { data, error } = await this.supabase
+      .from("api_tokens")
+      .select()
+      .eq("token_hash", tokenHash)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("api_tokens")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error updating API token:", error.message);
+    }
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const { error } = await this.supabase
+      .from("api_tokens")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting API token:", error.message);
+      return false;
+    }
+
+    return true;
+  }
+
+  // User invitation operations
+  async createUserInvitation(
+    invitation: schema.InsertUserInvitation,
+  ): Promise<schema.UserInvitation> {
+    const { data, error } = await this.supabase
+      .from("user_invitations")
+      .insert([invitation])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating user invitation:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getUserInvitations(): Promise<schema.UserInvitation[]> {
+    const { data, error } = await this.supabase
+      .from("user_invitations")
+      .select()
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error getting user invitations:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async getUserInvitationByHash(
+    tokenHash: string,
+  ): Promise<schema.UserInvitation | undefined> {
+    const { data, error } = await this.supabase
+      .from("user_invitations")
+      .select()
+      .eq("token_hash", tokenHash)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async markUserInvitationAccepted(id: number): Promise<void> {
+    const { error } = await this.supabase
+      .from("user_invitations")
+      .update({ accepted_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error marking user invitation accepted:", error.message);
+      throw error;
+    }
+  }
+
+  async deleteUserInvitation(id: number): Promise<boolean> {
+    const { error } = await this.supabase
+      .from("user_invitations")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Error deleting user invitation:", error.message);
+      return false;
+    }
+
+    return true;
+  }
+
+  // User identity operations
+  async getUserIdentity(
+    provider: string,
+    subject: string,
+  ): Promise<schema.UserIdentity | undefined> {
+    const { data, error } = await this.supabase
+      .from("user_identities")
+      .select()
+      .eq("provider", provider)
+      .eq("subject", subject)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async createUserIdentity(
+    identity: schema.InsertUserIdentity,
+  ): Promise<schema.UserIdentity> {
+    const { data, error } = await this.supabase
+      .from("user_identities")
+      .insert([identity])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error creating user identity:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Login throttle operations
+  async getLoginThrottle(
+    key: string,
+  ): Promise<schema.LoginThrottle | undefined> {
+    const { data, error } = await this.supabase
+      .from("login_throttles")
+      .select()
+      .eq("key", key)
+      .single();
+
+    if (error) {
+      return undefined;
+    }
+
+    return data;
+  }
+
+  async getLoginThrottles(): Promise<schema.LoginThrottle[]> {
+    const { data, error } = await this.supabase
+      .from("login_throttles")
+      .select();
+
+    if (error) {
+      console.error("Error getting login throttles:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async setLoginThrottle(throttle: schema.LoginThrottle): Promise<void> {
+    const { error } = await this.supabase
+      .from("login_throttles")
+      .upsert([throttle], { onConflict: "key" });
+
+    if (error) {
+      console.error("Error setting login throttle:", error.message);
+      throw error;
+    }
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("login_throttles")
+      .delete()
+      .eq("key", key);
+
+    if (error) {
+      console.error("Error deleting login throttle:", error.message);
+      throw error;
+    }
+  }
+
+  // System setting operations
+  async getSystemSettings(): Promise<schema.SystemSetting[]> {
+    const { data, error } = await this.supabase
+      .from("system_settings")
+      .select();
+
+    if (error) {
+      console.error("Error getting system settings:", error.message);
+      throw error;
+    }
+
+    return data;
+  }
+
+  async setSystemSetting(key: string, value: unknown): Promise<void> {
+    const { error } = await this.supabase
+      .from("system_settings")
+      .upsert([{ key, value, updated_at: new Date().toISOString() }], {
+        onConflict: "key",
+      });
+
+    if (error) {
+      console.error("Error setting system setting:", error.message);
+      throw error;
+    }
+  }
+
+  // Helper function to swap out all steps of a test case
+  private async replaceTestSteps(
+    test_case_id: number,
+    steps: schema.InsertTestStep[],
+  ): Promise<void> {
+    const { error: deleteError } = await this.supabase
+      .from("test_steps")
+      .delete()
+      .eq("test_case_id", test_case_id);
+
+    if (deleteError) {
+      console.error("Error deleting test steps:", deleteError.message);
+      throw deleteError;
+    }
+
+    if (steps.length === 0) return;
+
+    const { error: insertError } = await this.supabase
+      .from("test_steps")
+      .insert(steps);
+
+    if (insertError) {
+      console.error("Error inserting test steps:", insertError.message);
+      throw insertError;
+    }
+  }
+
+  // Helper function to update test case status
+  private async updateTestCaseStatus(
+    test_case_id: number,
+    status: string,
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from("test_cases")
+      .update({ status })
+      .eq("id", test_case_id);
+
+    if (error) {
+      console.error(
+        `Error updating test case ${test_case_id} status to ${status}:`,
+        error.message,
+      );
+    }
+  }
+}
+
+// For in-memory testing
+function matchesAny<T>(value: T, values?: T[]): boolean {
+  return !values?.length || values.includes(value);
+}
+
+function isInRange(date: Date, range?: DateRange): boolean {
+  return (
+    (!range?.from || date >= range.from) && (!range?.to || date <= range.to)
+  );
+}
+
+// Numbers are compared by their text, as the filter values come from a URL
+function matchesCustomFields(
+  values: schema.CustomFieldValues,
+  filters?: CustomFieldFilter[],
+): boolean {
+  return (filters ?? []).every(({ key, values: wanted }) =>
+    [values[key] ?? []].flat().some((value) => wanted.includes(String(value))),
+  );
+}
+
+// Sorts and pages in-memory rows the way the SQL backends do: nulls sort as
+// the largest value and ties fall back to id
+function paginate<T extends { id: number }>(
+  rows: T[],
+  sort: NonNullable<ListOptions<string>["sort"]>,
+  options?: ListOptions<string>,
+): Page<T> {
+  const sign = sort.direction === "asc" ? 1 : -1;
+  const field = sort.field as keyof T;
+  const key = (row: T) => {
+    const value = row[field];
+    return value instanceof Date ? value.getTime() : value;
+  };
+  rows.sort((a, b) => {
+    const x = key(a);
+    const y = key(b);
+    if (x === y || (x == null && y == null)) return sign * (a.id - b.id);
+    if (x == null) return sign;
+    if (y == null) return -sign;
+    return x < y ? -sign : sign;
+  });
+
+  if (!options?.limit) {
+    return { items: rows, total: rows.length };
+  }
+
+  const start = ((options.page ?? 1) - 1) * options.limit;
+  return {
+    items: rows.slice(start, start + options.limit),
+    total: rows.length,
+  };
+}
+
+export class MemStorage implements IStorage {
+  private users: Map<number, schema.User>;
+  private projects: Map<number, schema.Project>;
+  private projectMembers: schema.ProjectMember[];
+  private folders: Map<number, schema.Folder>;
+  private testCases: Map<number, schema.TestCase>;
+  private testSteps: Map<number, schema.TestStep[]>;
+  private testVersions: Map<number, schema.TestVersion[]>;
+  private testCaseFolders: Map<number, Set<number>>;
+  private testRuns: Map<number, schema.TestRun>;
+  private testRunResults: Map<number, schema.TestRunResult[]>;
+  private bugs: Map<number, schema.Bug>;
+  private whiteboards: Map<number, schema.Whiteboard>;
+  private aiTestCases: Map<number, schema.AITestCase>;
+  private activityLogs: schema.ActivityLog[];
+  private rolePermissions: schema.RolePermission[];
+  private userSessions: schema.UserSession[];
+  private passwordHistory: schema.PasswordHistoryEntry[];
+  private passwordResetTokens: schema.PasswordResetToken[];
+  private systemSettings: Map<string, schema.SystemSetting>;
+  private apiTokens: schema.ApiToken[];
+  private loginThrottles: Map<string, schema.LoginThrottle>;
+  private userIdentities: schema.UserIdentity[];
+  private userInvitations: schema.UserInvitation[];
+  private teams: Map<number, schema.Team>;
+  private teamMembers: schema.TeamMember[];
+  private customFields: schema.CustomField[];
+  private attachments: Map<number, schema.Attachment>;
+  private sharedSteps: Map<number, schema.SharedStep>;
+  private sharedStepVersions: Map<number, schema.SharedStepVersion[]>;
+  private searchIndex = new SearchIndex();
+
+  private userId: number = 1;
+  private projectId: number = 1;
+  private projectMemberId: number = 1;
+  private folderId: number = 1;
+  private test_case_id: number = 1;
+  private testStepId: number = 1;
+  private testVersionId: number = 1;
+  private testCaseFolderId: number = 1;
+  private testRunId: number = 1;
+  private test_run_result_id: number = 1;
+  private bugId: number = 1;
+  private whiteboardId: number = 1;
+  private aitest_case_id: number = 1;
+  private activityLogId: number = 1;
+  private rolePermissionId: number = 1;
+  private userSessionId: number = 1;
+  private passwordHistoryId: number = 1;
+  private passwordResetTokenId: number = 1;
+  private apiTokenId: number = 1;
+  private userIdentityId: number = 1;
+  private userInvitationId: number = 1;
+  private teamId: number = 1;
+  private teamMemberId: number = 1;
+  private customFieldId: number = 1;
+  private attachmentId: number = 1;
+  private sharedStepId: number = 1;
+  private sharedStepVersionId: number = 1;
+
+  constructor() {
+    this.users = new Map();
+    this.projects = new Map();
+    this.projectMembers = [];
+    this.folders = new Map();
+    this.testCases = new Map();
+    this.testSteps = new Map();
+    this.testVersions = new Map();
+    this.testCaseFolders = new Map();
+    this.testRuns = new Map();
+    this.testRunResults = new Map();
+    this.bugs = new Map();
+    this.whiteboards = new Map();
+    this.aiTestCases = new Map();
+    this.activityLogs = [];
+    this.rolePermissions = [];
+    this.userSessions = [];
+    this.passwordHistory = [];
+    this.passwordResetTokens = [];
+    this.systemSettings = new Map();
+    this.apiTokens = [];
+    this.userIdentities = [];
+    this.userInvitations = [];
+    this.teams = new Map();
+    this.teamMembers = [];
+    this.customFields = [];
+    this.attachments = new Map();
+    this.sharedSteps = new Map();
+    this.sharedStepVersions = new Map();
+    this.loginThrottles = new Map();
+  }
+
+  // Restores every collection from a copy when fn throws. Writes made by
+  // other requests while fn runs are rolled back with it, which is fine for
+  // the in-memory demo store.
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // The search index is rebuilt from the restored data instead of copied
+    const { searchIndex, ...data } = this;
+    const snapshot = structuredClone(data);
+    try {
+      return await fn(this);
+    } catch (error) {
+      Object.assign(this, snapshot);
+      this.rebuildSearchIndex();
+      throw error;
+    }
+  }
+
+  // Trashed test cases are kept out of the index along with their steps
+  private indexTestCase(testCase: schema.TestCase) {
+    if (testCase.deleted_at) {
+      this.searchIndex.remove("test_case", testCase.id);
+      this.unindexTestSteps(testCase.id);
+      return;
+    }
+
+    this.searchIndex.upsert(testCaseDocument(testCase));
+    for (const step of this.testSteps.get(testCase.id) ?? []) {
+      this.searchIndex.upsert(testStepDocument(step, testCase));
+    }
+  }
+
+  // Called before a test case's steps are replaced or deleted
+  private unindexTestSteps(test_case_id: number) {
+    for (const step of this.testSteps.get(test_case_id) ?? []) {
+      this.searchIndex.remove("test_step", step.id);
+    }
+  }
+
+  private rebuildSearchIndex() {
+    this.searchIndex.clear();
+    this.testCases.forEach((testCase) => this.indexTestCase(testCase));
+    this.bugs.forEach((bug) => this.searchIndex.upsert(bugDocument(bug)));
+    this.testRuns.forEach((run) =>
+      this.searchIndex.upsert(testRunDocument(run)),
+    );
+  }
+
+  async getUser(id: number): Promise<schema.User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<schema.User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async getUserByEmail(email: string): Promise<schema.User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.email === email);
+  }
+
+  async createUser(user: schema.InsertUser): Promise<schema.User> {
+    const id = this.userId++;
+    const newUser: schema.User = {
+      ...user,
+      id,
+      password: await generateHash(user.password),
+      avatar: user.avatar ?? null,
+      role: user.role ?? "tester",
+      is_active: user.is_active ?? true,
+      last_login: null,
+      totp_secret: null,
+      totp_enabled: false,
+      totp_recovery_codes: null,
+      totp_last_step: null,
+      deleted_at: null,
+    };
+    this.users.set(id, newUser);
+    return newUser;
+  }
+
+  async updateUser(
+    id: number,
+    data: Partial<schema.InsertUser>,
+  ): Promise<schema.User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    if (data.password) {
+      data.password = await generateHash(data.password);
+    }
+
+    const updatedUser = { ...user, ...data };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUsers(): Promise<schema.User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserlast_login(id: number): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.last_login = new Date();
+      this.users.set(id, user);
+    }
+  }
+
+  async markUserDeleted(id: number): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      user.is_active = false;
+      user.deleted_at = new Date();
+    }
+  }
+
+  async reassignUserAssignments(
+    fromUserId: number,
+    toUserId: number,
+  ): Promise<{ test_cases: number; bugs: number }> {
+    const counts = { test_cases: 0, bugs: 0 };
+
+    this.testCases.forEach((testCase) => {
+      if (testCase.assigned_to === fromUserId) {
+        testCase.assigned_to = toUserId;
+        counts.test_cases++;
+      }
+    });
+
+    this.bugs.forEach((bug) => {
+      if (bug.assigned_to === fromUserId) {
+        bug.assigned_to = toUserId;
+        counts.bugs++;
+      }
+    });
+
+    return counts;
+  }
+
+  async setUserTwoFactor(
+    id: number,
+    settings: schema.TwoFactorSettings,
+  ): Promise<void> {
+    const user = this.users.get(id);
+    if (user) {
+      this.users.set(id, { ...user, ...settings });
+    }
+  }
+
+  async claimTotpStep(id: number, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (
+      !user ||
+      (user.totp_last_step !== null && user.totp_last_step >= step)
+    ) {
+      return false;
+    }
+    this.users.set(id, { ...user, totp_last_step: step });
+    return true;
+  }
+
+  async verifyCredentials(
+    username: string,
+    password: string,
+  ): Promise<schema.User | undefined> {
+    const user = await this.getUserByUsername(username);
+    if (!user) return undefined;
+
+    const passwordValid = await verifyHash(password, user.password);
+    if (!passwordValid) return undefined;
+
+    // Move hashes from older algorithms or weaker settings to the current one
+    if (needsRehash(user.password)) {
+      return (await this.updateUser(user.id, { password })) ?? user;
+    }
+
+    return user;
+  }
+
+  // Team operations
+  async getTeams(): Promise<schema.Team[]> {
+    return Array.from(this.teams.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getTeam(id: number): Promise<schema.Team | undefined> {
+    return this.teams.get(id);
+  }
+
+  async createTeam(team: schema.InsertTeam): Promise<schema.Team> {
+    const id = this.teamId++;
+    const newTeam: schema.Team = {
+      ...team,
+      id,
+      description: team.description ?? null,
+      created_at: new Date(),
+    };
+    this.teams.set(id, newTeam);
+    return newTeam;
+  }
+
+  async updateTeam(
+    id: number,
+    team: Partial<schema.InsertTeam>,
+  ): Promise<schema.Team | undefined> {
+    const existing = this.teams.get(id);
+    if (!existing) return undefined;
+
+    const updatedTeam = { ...existing, ...team };
+    this.teams.set(id, updatedTeam);
+    return updatedTeam;
+  }
+
+  async deleteTeam(id: number): Promise<boolean> {
+    this.testCases.forEach((testCase) => {
+      if (testCase.assigned_team_id === id) {
+        testCase.assigned_team_id = null;
+      }
+    });
+    this.bugs.forEach((bug) => {
+      if (bug.assigned_team_id === id) {
+        bug.assigned_team_id = null;
+      }
+    });
+    this.folders.forEach((folder) => {
+      if (folder.team_id === id) {
+        folder.team_id = null;
+      }
+    });
+    this.teamMembers = this.teamMembers.filter(
+      (member) => member.team_id !== id,
+    );
+    return this.teams.delete(id);
+  }
+
+  async getTeamMembers(teamId?: number): Promise<schema.TeamMember[]> {
+    return this.teamMembers.filter(
+      (member) => !teamId || member.team_id === teamId,
+    );
+  }
+
+  async addTeamMember(
+    teamId: number,
+    userId: number,
+  ): Promise<schema.TeamMember> {
+    const existing = this.teamMembers.find(
+      (member) => member.team_id === teamId && member.user_id === userId,
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const member: schema.TeamMember = {
+      id: this.teamMemberId++,
+      team_id: teamId,
+      user_id: userId,
+    };
+    this.teamMembers.push(member);
+    return member;
+  }
+
+  async removeTeamMember(teamId: number, userId: number): Promise<boolean> {
+    const count = this.teamMembers.length;
+    this.teamMembers = this.teamMembers.filter(
+      (member) => !(member.team_id === teamId && member.user_id === userId),
+    );
+    return this.teamMembers.length < count;
+  }
+
+  async createProject(project: schema.InsertProject): Promise<schema.Project> {
+    const id = this.projectId++;
+    const newProject: schema.Project = {
+      description: null,
+      ...project,
+      id,
+      created_at: new Date(),
+    };
+    this.projects.set(id, newProject);
+    return newProject;
+  }
+
+  async getProject(id: number): Promise<schema.Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async getProjects(): Promise<schema.Project[]> {
+    return Array.from(this.projects.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }
+
+  async getUserProjects(userId: number): Promise<schema.Project[]> {
+    const projectIds = new Set(
+      this.projectMembers
+        .filter((member) => member.user_id === userId)
+        .map((member) => member.project_id),
+    );
+    return (await this.getProjects()).filter((project) =>
+      projectIds.has(project.id),
+    );
+  }
+
+  async updateProject(
+    id: number,
+    data: Partial<schema.InsertProject>,
+  ): Promise<schema.Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+
+    const updatedProject = { ...project, ...data };
+    this.projects.set(id, updatedProject);
+    return updatedProject;
+  }
+
+  async getProjectMembers(projectId: number): Promise<schema.ProjectMember[]> {
+    return this.projectMembers.filter(
+      (member) => member.project_id === projectId,
+    );
+  }
+
+  async getProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<schema.ProjectMember | undefined> {
+    return this.projectMembers.find(
+      (member) => member.project_id === projectId && member.user_id === userId,
+    );
+  }
+
+  async setProjectMember(
+    member: schema.InsertProjectMember,
+  ): Promise<schema.ProjectMember> {
+    const existing = await this.getProjectMember(
+      member.project_id,
+      member.user_id,
+    );
+    if (existing) {
+      existing.role = member.role ?? existing.role;
+      return existing;
+    }
+
+    const newMember: schema.ProjectMember = {
+      role: "tester",
+      ...member,
+      id: this.projectMemberId++,
+    };
+    this.projectMembers.push(newMember);
+    return newMember;
+  }
+
+  async removeProjectMember(
+    projectId: number,
+    userId: number,
+  ): Promise<boolean> {
+    const before = this.projectMembers.length;
+    this.projectMembers = this.projectMembers.filter(
+      (member) =>
+        !(member.project_id === projectId && member.user_id === userId),
+    );
+    return this.projectMembers.length < before;
+  }
+
+  async createFolder(folder: schema.InsertFolder): Promise<schema.Folder> {
+    const id = this.folderId++;
+    const newFolder: schema.Folder = {
+      ...folder,
+      id,
+      description: folder.description ?? null,
+      created_by: folder.created_by ?? null,
+      team_id: folder.team_id ?? null,
+      created_at: new Date(),
+      deleted_at: null,
+      deleted_by: null,
+    };
+    this.folders.set(id, newFolder);
+    return newFolder;
+  }
+
+  async getFolder(id: number): Promise<schema.Folder | undefined> {
+    return this.folders.get(id);
+  }
+
+  async getFolders(projectId: number): Promise<schema.Folder[]> {
+    return Array.from(this.folders.values()).filter(
+      (folder) => folder.project_id === projectId && !folder.deleted_at,
+    );
+  }
+
+  async updateFolder(
+    id: number,
+    data: Partial<schema.InsertFolder>,
+  ): Promise<schema.Folder | undefined> {
+    const folder = this.folders.get(id);
+    if (!folder) return undefined;
+
+    const updatedFolder = { ...folder, ...data };
+    this.folders.set(id, updatedFolder);
+    return updatedFolder;
+  }
+
+  async deleteFolder(id: number, deletedBy: number): Promise<boolean> {
+    const folder = this.folders.get(id);
+    if (!folder || folder.deleted_at) return false;
+
+    this.folders.set(id, {
+      ...folder,
+      deleted_at: new Date(),
+      deleted_by: deletedBy,
+    });
+    return true;
+  }
+
+  async restoreFolder(id: number): Promise<schema.Folder | undefined> {
+    const folder = this.folders.get(id);
+    if (!folder?.deleted_at) return undefined;
+
+    const restoredFolder = { ...folder, deleted_at: null, deleted_by: null };
+    this.folders.set(id, restoredFolder);
+    return restoredFolder;
+  }
+
+  async purgeFolder(id: number): Promise<boolean> {
+    this.testCaseFolders.delete(id);
+    return this.folders.delete(id);
+  }
+
+  async getTestCountByFolder(): Promise<
+    { folderId: number; testCount: number }[]
+  > {
+    const result: { folderId: number; testCount: number }[] = [];
+
+    for (const [folderId, test_case_ids] of Array.from(
+      this.testCaseFolders.entries(),
+    )) {
+      result.push({
+        folderId,
+        testCount: Array.from(test_case_ids).filter(
+          (id) => !this.testCases.get(id)?.deleted_at,
+        ).length,
+      });
+    }
+
+    return result;
   }
 
-  async getRecentTestCases(limit: number = 5): Promise<schema.TestCase[]> {
-    const { data, error } = await this.supabase
-      .from("test_cases")
-      .select()
-      .order("updated_at", { ascending: false })
-      .limit(limit);
+  async assignTestCaseToFolder(
+    test_case_id: number,
+    folderId: number,
+  ): Promise<schema.TestCaseFolder> {
+    // Initialize folder set if it doesn't exist
+    if (!this.testCaseFolders.has(folderId)) {
+      this.testCaseFolders.set(folderId, new Set());
+    }
 
-    if (error) {
-      console.error("Error getting recent test cases:", error.message);
-      return [];
+    const folderSet = this.testCaseFolders.get(folderId)!;
+
+    // Check if already assigned
+    if (folderSet.has(test_case_id)) {
+      return {
+        id: this.testCaseFolderId++,
+        test_case_id,
+        folderId,
+      };
     }
 
-    return data;
-  }
+    // Assign to folder
+    folderSet.add(test_case_id);
 
-  async getTestRunStats(): Promise<{
-    totalRuns: number;
-    avgDuration: number | null;
-    passRate: number | null;
-  }> {
-    // This logic can potentially be implemented directly in Supabase using SQL views or functions for better performance
-    console.warn("getTestRunStats not yet implemented using supabase");
-    return {
-      totalRuns: 0,
-      avgDuration: null,
-      passRate: null,
+    const result: schema.TestCaseFolder = {
+      id: this.testCaseFolderId++,
+      test_case_id,
+      folderId,
     };
+
+    return result;
   }
 
-  // Helper function to update test case status
-  private async updateTestCaseStatus(
+  async removeTestCaseFromFolder(
     test_case_id: number,
-    status: string,
-  ): Promise<void> {
-    const { error } = await this.supabase
-      .from("test_cases")
-      .update({ status })
-      .eq("id", test_case_id);
+    folderId: number,
+  ): Promise<boolean> {
+    let folderSet = this.testCaseFolders.get(folderId);
 
-    if (error) {
-      console.error(
-        `Error updating test case ${test_case_id} status to ${status}:`,
-        error.message,
-      );
+    if (!folderSet) {
+      return false;
     }
+
+    let result = folderSet.delete(test_case_id);
+    return result;
   }
-}
 
-// For in-memory testing
-export class MemStorage implements IStorage {
-  private users: Map<number, schema.User>;
-  private folders: Map<number, schema.Folder>;
-  private testCases: Map<number, schema.TestCase>;
-  private testSteps: Map<number, schema.TestStep[]>;
-  private testVersions: Map<number, schema.TestVersion[]>;
-  private testCaseFolders: Map<number, Set<number>>;
-  private testRuns: Map<number, schema.TestRun>;
-  private testRunResults: Map<number, schema.TestRunResult[]>;
-  private bugs: Map<number, schema.Bug>;
-  private whiteboards: Map<number, schema.Whiteboard>;
-  private aiTestCases: Map<number, schema.AITestCase>;
-  private activityLogs: schema.ActivityLog[];
+  async getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]> {
+    const folders: schema.Folder[] = [];
 
-  private userId: number = 1;
-  private folderId: number = 1;
-  private test_case_id: number = 1;
-  private testStepId: number = 1;
-  private testVersionId: number = 1;
-  private testCaseFolderId: number = 1;
-  private testRunId: number = 1;
-  private test_run_result_id: number = 1;
-  private bugId: number = 1;
-  private whiteboardId: number = 1;
-  private aitest_case_id: number = 1;
-  private activityLogId: number = 1;
+    for (let [folderId, test_case_ids] of Array.from(
+      this.testCaseFolders.entries(),
+    )) {
+      if (test_case_ids.has(test_case_id)) {
+        let folder = this.folders.get(folderId);
+        if (folder && !folder.deleted_at) {
+          folders.push(folder);
+        }
+      }
+    }
+
+    return folders;
+  }
 
   async createTestCase(
     testCaseWithSteps: schema.TestCaseWithSteps,
@@ -991,355 +3718,393 @@ export class MemStorage implements IStorage {
     const newTestCase: schema.TestCase = {
       ...testCase,
       id,
+      description: testCase.description ?? null,
+      preconditions: testCase.preconditions ?? null,
+      test_data: testCase.test_data ?? null,
+      status: testCase.status ?? "pending",
+      priority: testCase.priority ?? "medium",
+      type: testCase.type ?? "functional",
+      assigned_to: testCase.assigned_to ?? null,
+      assigned_team_id: testCase.assigned_team_id ?? null,
+      expected_result: testCase.expected_result ?? null,
+      custom_fields: testCase.custom_fields ?? {},
+      tags: testCase.tags ?? [],
       version: 1,
       created_at: new Date(),
       updated_at: new Date(),
       last_run: null,
+      deleted_at: null,
+      deleted_by: null,
     };
 
-    this.testCases.set(id, newTestCase);
+    const newSteps = (steps ?? []).map((step, index) => ({
+      ...step,
+      id: this.testStepId++,
+      test_case_id: id,
+      step_number: index + 1,
+      expected_result: step.expected_result ?? null,
+      shared_step_id: step.shared_step_id ?? null,
+      shared_step_version: step.shared_step_version ?? null,
+    }));
 
-    if (steps?.length) {
-      this.testSteps.set(
-        id,
-        steps.map((step, index) => ({
-          ...step,
-          id: this.testStepId++,
-          test_case_id: id,
-          step_number: index + 1,
-          expected_result: step.expected_result ?? null,
-        })),
-      );
+    this.testCases.set(id, newTestCase);
+    if (newSteps.length) {
+      this.testSteps.set(id, newSteps);
     }
+    this.indexTestCase(newTestCase);
 
-    return newTestCase;
-  }
-
-  constructor() {
-    this.users = new Map();
-    this.folders = new Map();
-    this.testCases = new Map();
-    this.testSteps = new Map();
-    this.testVersions = new Map();
-    this.testCaseFolders = new Map();
-    this.testRuns = new Map();
-    this.testRunResults = new Map();
-    this.bugs = new Map();
-    this.whiteboards = new Map();
-    this.aiTestCases = new Map();
-    this.activityLogs = [];
-
-    // Create a system owner user
-    this.createUser({
-      username: "admin",
-      email: "admin@example.com",
-      password: "password",
-      full_name: "System Admin",
-      role: "system_owner",
-      is_active: true,
-    });
-
-    // Create some initial folders
-    this.createFolder({
-      name: "Regression Tests",
-      description: "Tests for regression testing",
-      created_by: 1,
+    await this.createTestVersion({
+      test_case_id: id,
+      version: newTestCase.version,
+      data: snapshotTestCase(newTestCase, newSteps),
+      created_by: newTestCase.created_by,
     });
 
-    this.createFolder({
-      name: "Smoke Tests",
-      description: "Quick smoke tests",
-      created_by: 1,
-    });
-
-    this.createFolder({
-      name: "Feature Tests",
-      description: "Feature specific tests",
-      created_by: 1,
-    });
-
-    // Create some initial test cases
-    const testCase1 = this.createTestCase({
-      title: "User Login Verification",
-      description: "Verify that users can login with valid credentials",
-      status: "passed",
-      priority: "high",
-      type: "functional",
-      assigned_to: 1,
-      created_by: 1,
-      expected_result: "User should be logged in successfully",
-      steps: [
-        {
-          description: "Navigate to login page",
-          expected_result: "Login page is displayed",
-          step_number: 1,
-        },
-        {
-          description: "Enter valid username and password",
-          expected_result: "Credentials are accepted",
-          step_number: 2,
-        },
-        {
-          description: "Click on Login button",
-          expected_result: "User is redirected to dashboard",
-          step_number: 3,
-        },
-      ],
-    });
+    return newTestCase;
+  }
 
-    this.assignTestCaseToFolder(1, 1);
-
-    const testCase2 = this.createTestCase({
-      title: "Password Reset Flow",
-      description: "Test the complete password reset workflow",
-      status: "failed",
-      priority: "critical",
-      type: "functional",
-      assigned_to: 1,
-      created_by: 1,
-      expected_result:
-        "Password reset email should be sent and new password should work",
-      steps: [
-        {
-          description: "Navigate to login page",
-          expected_result: "Login page is displayed",
-          step_number: 1,
-        },
-        {
-          description: "Click on Forgot Password link",
-          expected_result: "Reset page is displayed",
-          step_number: 2,
-        },
-        {
-          description: "Enter valid email address",
-          expected_result: "Success message is shown",
-          step_number: 3,
-        },
-        {
-          description: "Check email and click reset link",
-          expected_result: "Reset form is displayed",
-          step_number: 4,
-        },
-        {
-          description: "Enter new password and confirm",
-          expected_result: "Password is updated",
-          step_number: 5,
-        },
-      ],
-    });
+  async getTestCase(id: number): Promise<schema.TestCase | undefined> {
+    return this.testCases.get(id);
+  }
 
-    this.assignTestCaseToFolder(2, 1);
-
-    this.createTestCase({
-      title: "User Registration Form Validation",
-      description: "Validate all form fields during user registration",
-      status: "pending",
-      priority: "medium",
-      type: "functional",
-      assigned_to: 1,
-      created_by: 1,
-      expected_result: "Form should validate all fields correctly",
-      steps: [
-        {
-          description:
-            "Navigate to registration page          expected_result: Registration form is displayed",
-          step_number: 1,
-        },
-        {
-          description: "Leave required fields empty and submit",
-          expected_result: "Validation errors are shown",
-          step_number: 2,
-        },
-        {
-          description: "Enter invalid format for email",
-          expected_result: "Email validation error is shown",
-          step_number: 3,
-        },
-        {
-          description: "Enter short password",
-          expected_result: "Password validation error is shown",
-          step_number: 4,
-        },
-        {
-          description: "Enter valid details and submit",
-          expected_result: "Registration is successful",
-          step_number: 5,
-        },
-      ],
-    });
+  async getTestCaseWithSteps(
+    id: number,
+  ): Promise<
+    { testCase: schema.TestCase; steps: schema.TestStep[] } | undefined
+  > {
+    const testCase = await this.getTestCase(id);
+    if (!testCase) return undefined;
 
-    this.assignTestCaseToFolder(3, 2);
+    const steps = await this.getTestSteps(id);
+    return { testCase, steps };
   }
 
-  async getUser(id: number): Promise<schema.User | undefined> {
-    return this.users.get(id);
-  }
+  async getTestCases(
+    projectId: number,
+    filters?: TestCaseFilters,
+    options?: ListOptions<TestCaseSortField>,
+  ): Promise<Page<schema.TestCase>> {
+    const folderTestCases = filters?.folderId
+      ? (this.testCaseFolders.get(filters.folderId) ?? new Set<number>())
+      : undefined;
+
+    const testCases = Array.from(this.testCases.values()).filter(
+      (testCase) =>
+        testCase.project_id === projectId &&
+        !testCase.deleted_at &&
+        matchesAny(testCase.status, filters?.status) &&
+        matchesAny(testCase.priority, filters?.priority) &&
+        matchesAny(testCase.type, filters?.type) &&
+        matchesAny(testCase.assigned_to, filters?.assignedTo) &&
+        (!folderTestCases || folderTestCases.has(testCase.id)) &&
+        (!filters?.teamId || testCase.assigned_team_id === filters.teamId) &&
+        isInRange(testCase.created_at, filters?.createdAt) &&
+        isInRange(testCase.updated_at, filters?.updatedAt) &&
+        matchesCustomFields(testCase.custom_fields, filters?.customFields) &&
+        (!filters?.tags || matchesTagExpression(filters.tags, testCase.tags)),
+    );
 
-  async getUserByUsername(username: string): Promise<schema.User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+    return paginate(
+      testCases,
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
     );
   }
 
-  async getUserByEmail(email: string): Promise<schema.User | undefined> {
-    return Array.from(this.users.values()).find((user) => user.email === email);
-  }
+  async updateTestCase(
+    id: number,
+    data: Partial<schema.InsertTestCase>,
+    steps?: schema.InsertTestStep[],
+    editedBy?: number,
+  ): Promise<schema.TestCase | undefined> {
+    const testCase = this.testCases.get(id);
+    if (!testCase) return undefined;
 
-  async createUser(user: schema.InsertUser): Promise<schema.User> {
-    const id = this.userId++;
-    const newUser: schema.User = {
-      ...user,
-      id,
-      last_login: null,
+    const {
+      id: _id,
+      project_id: _projectId,
+      ...changes
+    } = data as Partial<schema.TestCase>;
+
+    const updatedTestCase = {
+      ...testCase,
+      ...changes,
+      version: testCase.version + 1,
+      updated_at: new Date(),
     };
-    this.users.set(id, newUser);
-    return newUser;
-  }
+    this.testCases.set(id, updatedTestCase);
 
-  async updateUser(
-    id: number,
-    data: Partial<schema.InsertUser>,
-  ): Promise<schema.User | undefined> {
-    const user = this.users.get(id);
-    if (!user) return undefined;
+    if (steps) {
+      this.unindexTestSteps(id);
+      this.testSteps.set(
+        id,
+        steps.map((step) => ({
+          ...step,
+          id: this.testStepId++,
+          test_case_id: id,
+          expected_result: step.expected_result ?? null,
+          shared_step_id: step.shared_step_id ?? null,
+          shared_step_version: step.shared_step_version ?? null,
+        })),
+      );
+    }
+    this.indexTestCase(updatedTestCase);
 
-    const updatedUser = { ...user, ...data };
-    this.users.set(id, updatedUser);
-    return updatedUser;
-  }
+    await this.createTestVersion({
+      test_case_id: id,
+      version: updatedTestCase.version,
+      data: snapshotTestCase(updatedTestCase, await this.getTestSteps(id)),
+      created_by: editedBy ?? testCase.created_by,
+    });
 
-  async getUsers(): Promise<schema.User[]> {
-    return Array.from(this.users.values());
+    return updatedTestCase;
   }
 
-  async updateUserlast_login(id: number): Promise<void> {
-    const user = this.users.get(id);
-    if (user) {
-      user.last_login = new Date();
-      this.users.set(id, user);
-    }
-  }
+  async deleteTestCase(id: number, deletedBy: number): Promise<boolean> {
+    const testCase = this.testCases.get(id);
+    if (!testCase || testCase.deleted_at) return false;
 
-  async verifyCredentials(
-    username: string,
-    password: string,
-  ): Promise<schema.User | undefined> {
-    const user = await this.getUserByUsername(username);
-    if (user && user.password === password) {
-      return user;
-    }
-    return undefined;
+    const deletedTestCase = {
+      ...testCase,
+      deleted_at: new Date(),
+      deleted_by: deletedBy,
+    };
+    this.testCases.set(id, deletedTestCase);
+    this.indexTestCase(deletedTestCase);
+    return true;
   }
 
-  async createFolder(folder: schema.InsertFolder): Promise<schema.Folder> {
-    const id = this.folderId++;
-    const newFolder: schema.Folder = {
-      ...folder,
-      id,
-      created_at: new Date(),
+  async restoreTestCase(id: number): Promise<schema.TestCase | undefined> {
+    const testCase = this.testCases.get(id);
+    if (!testCase?.deleted_at) return undefined;
+
+    const restoredTestCase = {
+      ...testCase,
+      deleted_at: null,
+      deleted_by: null,
     };
-    this.folders.set(id, newFolder);
-    return newFolder;
+    this.testCases.set(id, restoredTestCase);
+    this.indexTestCase(restoredTestCase);
+    return restoredTestCase;
   }
 
-  async getFolder(id: number): Promise<schema.Folder | undefined> {
-    return this.folders.get(id);
+  // Run results of the test case go with it. Bugs are kept but lose their
+  // link to the test case and to those results.
+  async purgeTestCase(id: number): Promise<boolean> {
+    const resultIds = new Set<number>();
+    this.testRunResults.forEach((results, runId) => {
+      results
+        .filter((result) => result.test_case_id === id)
+        .forEach((result) => resultIds.add(result.id));
+      this.testRunResults.set(
+        runId,
+        results.filter((result) => result.test_case_id !== id),
+      );
+    });
+    this.bugs.forEach((bug) => {
+      if (bug.test_case_id === id) {
+        bug.test_case_id = null;
+      }
+      if (bug.test_run_result_id && resultIds.has(bug.test_run_result_id)) {
+        bug.test_run_result_id = null;
+      }
+    });
+
+    this.searchIndex.remove("test_case", id);
+    this.unindexTestSteps(id);
+    this.testSteps.delete(id);
+    this.testVersions.delete(id);
+    for (const test_case_ids of Array.from(this.testCaseFolders.values())) {
+      test_case_ids.delete(id);
+    }
+    this.attachments.forEach((attachment) => {
+      if (attachment.test_case_id === id) {
+        this.attachments.delete(attachment.id);
+      }
+    });
+    return this.testCases.delete(id);
   }
 
-  async getFolders(): Promise<schema.Folder[]> {
-    return Array.from(this.folders.values());
+  async getTestCasesByFolder(folderId: number): Promise<schema.TestCase[]> {
+    const test_case_ids = this.testCaseFolders.get(folderId) ?? new Set();
+    return Array.from(this.testCases.values()).filter(
+      (testCase) => test_case_ids.has(testCase.id) && !testCase.deleted_at,
+    );
   }
 
-  async updateFolder(
-    id: number,
-    data: Partial<schema.InsertFolder>,
-  ): Promise<schema.Folder | undefined> {
-    const folder = this.folders.get(id);
-    if (!folder) return undefined;
-
-    const updatedFolder = { ...folder, ...data };
-    this.folders.set(id, updatedFolder);
-    return updatedFolder;
+  // Tag operations
+  async getTags(
+    projectId: number,
+    entityType: TaggableEntityType,
+  ): Promise<TagCount[]> {
+    const rows =
+      entityType === "test_case"
+        ? Array.from(this.testCases.values()).filter(
+            (testCase) => !testCase.deleted_at,
+          )
+        : Array.from(this.bugs.values());
+    return countTags(rows.filter((row) => row.project_id === projectId));
   }
 
-  async deleteFolder(id: number): Promise<boolean> {
-    return this.folders.delete(id);
+  async updateTestCaseTags(
+    projectId: number,
+    ids: number[],
+    add: string[],
+    remove: string[],
+    editedBy: number,
+  ): Promise<number[]> {
+    const updated: number[] = [];
+    for (const id of ids) {
+      const testCase = this.testCases.get(id);
+      if (
+        !testCase ||
+        testCase.project_id !== projectId ||
+        testCase.deleted_at ||
+        updated.includes(id)
+      ) {
+        continue;
+      }
+      await this.updateTestCase(
+        id,
+        { tags: retag(testCase.tags, add, remove) },
+        undefined,
+        editedBy,
+      );
+      updated.push(id);
+    }
+    return updated;
   }
 
-  async getTestCountByFolder(): Promise<
-    { folderId: number; testCount: number }[]
-  > {
-    const result: { folderId: number; testCount: number }[] = [];
-
-    for (const [folderId, test_case_ids] of this.testCaseFolders.entries()) {
-      result.push({
-        folderId,
-        testCount: test_case_ids.size,
-      });
-    }
+  // Trash operations
+  async getTrash(projectId: number): Promise<Trash> {
+    const trashed = <T extends schema.TestCase | schema.Folder>(
+      items: Iterable<T>,
+    ) =>
+      Array.from(items)
+        .filter((item) => item.project_id === projectId && item.deleted_at)
+        .sort((a, b) => b.deleted_at!.getTime() - a.deleted_at!.getTime());
 
-    return result;
+    return {
+      testCases: trashed(this.testCases.values()),
+      folders: trashed(this.folders.values()),
+    };
   }
 
-  async assignTestCaseToFolder(
-    test_case_id: number,
-    folderId: number,
-  ): Promise<schema.TestCaseFolder> {
-    // Initialize folder set if it doesn't exist
-    if (!this.testCaseFolders.has(folderId)) {
-      this.testCaseFolders.set(folderId, new Set());
+  async purgeTrash(deletedBefore: Date): Promise<{
+    testCases: number;
+    folders: number;
+    attachments: schema.Attachment[];
+  }> {
+    const expired = (items: Iterable<schema.TestCase | schema.Folder>) =>
+      Array.from(items)
+        .filter((item) => item.deleted_at && item.deleted_at < deletedBefore)
+        .map((item) => item.id);
+
+    const testCases = expired(this.testCases.values());
+    const folders = expired(this.folders.values());
+    const attachments: schema.Attachment[] = [];
+    for (const id of testCases) {
+      attachments.push(...(await this.getAttachments(id)));
+      await this.purgeTestCase(id);
     }
+    for (const id of folders) await this.purgeFolder(id);
+    return {
+      testCases: testCases.length,
+      folders: folders.length,
+      attachments,
+    };
+  }
 
-    const folderSet = this.testCaseFolders.get(folderId)!;
+  // Test steps operations
+  async getTestSteps(test_case_id: number): Promise<schema.TestStep[]> {
+    return this.testSteps.get(test_case_id) ?? [];
+  }
 
-    // Check if already assigned
-    if (folderSet.has(test_case_id)) {
-      return {
-        id: this.testCaseFolderId++,
-        test_case_id,
-        folderId,
-      };
-    }
+  // Attachment operations
+  async getAttachments(test_case_id: number): Promise<schema.Attachment[]> {
+    return Array.from(this.attachments.values()).filter(
+      (attachment) => attachment.test_case_id === test_case_id,
+    );
+  }
 
-    // Assign to folder
-    folderSet.add(test_case_id);
+  async getAttachment(id: number): Promise<schema.Attachment | undefined> {
+    return this.attachments.get(id);
+  }
 
-    const result: schema.TestCaseFolder = {
-      id: this.testCaseFolderId++,
-      test_case_id,
-      folderId,
+  async createAttachment(
+    attachment: schema.InsertAttachment,
+  ): Promise<schema.Attachment> {
+    const newAttachment: schema.Attachment = {
+      ...attachment,
+      id: this.attachmentId++,
+      step_number: attachment.step_number ?? null,
+      thumbnail_key: attachment.thumbnail_key ?? null,
+      created_at: new Date(),
     };
+    this.attachments.set(newAttachment.id, newAttachment);
+    return newAttachment;
+  }
 
-    return result;
+  async updateAttachment(
+    id: number,
+    data: Partial<schema.InsertAttachment>,
+  ): Promise<schema.Attachment | undefined> {
+    const attachment = this.attachments.get(id);
+    if (!attachment) return undefined;
+
+    const updatedAttachment = { ...attachment, ...data };
+    this.attachments.set(id, updatedAttachment);
+    return updatedAttachment;
   }
 
-  async removeTestCaseFromFolder(
-    test_case_id: number,
-    folderId: number,
-  ): Promise<boolean> {
-    let folderSet = this.testCaseFolders.get(folderId);
+  async deleteAttachment(id: number): Promise<boolean> {
+    return this.attachments.delete(id);
+  }
 
-    if (!folderSet) {
-      return false;
-    }
+  // Test case version operations
+  async createTestVersion(
+    version: schema.InsertTestVersion,
+  ): Promise<schema.TestVersion> {
+    const newVersion: schema.TestVersion = {
+      ...version,
+      id: this.testVersionId++,
+      created_at: new Date(),
+      change_comment: version.change_comment ?? null,
+    };
 
-    let result = folderSet.delete(test_case_id);
-    return result;
+    const versions = this.testVersions.get(version.test_case_id) ?? [];
+    versions.push(newVersion);
+    this.testVersions.set(version.test_case_id, versions);
+
+    return newVersion;
   }
 
-  async getTestCaseFolders(test_case_id: number): Promise<schema.Folder[]> {
-    const folders: schema.Folder[] = [];
+  async getTestVersions(test_case_id: number): Promise<schema.TestVersion[]> {
+    return this.testVersions.get(test_case_id) ?? [];
+  }
 
-    for (let [folderId, test_case_ids] of this.testCaseFolders.entries()) {
-      if (test_case_ids.has(test_case_id)) {
-        let folder = this.folders.get(folderId);
-        if (folder) {
-          folders.push(folder);
-        }
-      }
-    }
+  async revertToVersion(
+    test_case_id: number,
+    version: number,
+    revertedBy?: number,
+  ): Promise<boolean> {
+    const snapshot = this.testVersions
+      .get(test_case_id)
+      ?.find((testVersion) => testVersion.version === version);
+    if (!snapshot) return false;
 
-    return folders;
+    // Reverting saves the restored state as a new version
+    const { changes, steps } = restoreTestCaseSnapshot(
+      test_case_id,
+      snapshot.data,
+    );
+    const updatedTestCase = await this.updateTestCase(
+      test_case_id,
+      changes,
+      steps,
+      revertedBy,
+    );
+    return !!updatedTestCase;
   }
 
   // Test run operations
@@ -1348,11 +4113,14 @@ export class MemStorage implements IStorage {
     const newTestRun: schema.TestRun = {
       ...testRun,
       id,
+      description: testRun.description ?? null,
+      status: testRun.status ?? "pending",
       started_at: new Date(),
       complete_at: null,
       duration: null,
     };
     this.testRuns.set(id, newTestRun);
+    this.searchIndex.upsert(testRunDocument(newTestRun));
     return newTestRun;
   }
 
@@ -1360,9 +4128,23 @@ export class MemStorage implements IStorage {
     return this.testRuns.get(id);
   }
 
-  async getTestRuns(): Promise<schema.TestRun[]> {
-    return Array.from(this.testRuns.values()).sort(
-      (a, b) => b.started_at.getTime() - a.started_at.getTime(),
+  async getTestRuns(
+    projectId: number,
+    filters?: TestRunFilters,
+    options?: ListOptions<TestRunSortField>,
+  ): Promise<Page<schema.TestRun>> {
+    const runs = Array.from(this.testRuns.values()).filter(
+      (run) =>
+        run.project_id === projectId &&
+        matchesAny(run.status, filters?.status) &&
+        matchesAny(run.executed_by, filters?.executedBy) &&
+        isInRange(run.started_at, filters?.startedAt),
+    );
+
+    return paginate(
+      runs,
+      options?.sort ?? { field: "started_at", direction: "desc" },
+      options,
     );
   }
 
@@ -1375,6 +4157,7 @@ export class MemStorage implements IStorage {
 
     const updatedTestRun = { ...testRun, ...data };
     this.testRuns.set(id, updatedTestRun);
+    this.searchIndex.upsert(testRunDocument(updatedTestRun));
     return updatedTestRun;
   }
 
@@ -1400,6 +4183,8 @@ export class MemStorage implements IStorage {
     const newResult: schema.TestRunResult = {
       ...result,
       id,
+      notes: result.notes ?? null,
+      duration: null,
       executed_at: new Date(),
     };
 
@@ -1424,11 +4209,15 @@ export class MemStorage implements IStorage {
     return this.testRunResults.get(runId) || [];
   }
 
-  async getTestStatusCounts(): Promise<{ status: string; count: number }[]> {
+  async getTestStatusCounts(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
     const statusCounts: { status: string; count: number }[] = [];
     const statusMap: { [key: string]: number } = {};
 
-    for (const testCase of this.testCases.values()) {
+    for (const testCase of Array.from(this.testCases.values())) {
+      if (testCase.project_id !== projectId || testCase.deleted_at) continue;
+
       if (statusMap[testCase.status]) {
         statusMap[testCase.status]++;
       } else {
@@ -1449,10 +4238,19 @@ export class MemStorage implements IStorage {
     const newBug: schema.Bug = {
       ...bug,
       id,
+      status: bug.status ?? "open",
+      severity: bug.severity ?? "medium",
+      test_case_id: bug.test_case_id ?? null,
+      test_run_result_id: bug.test_run_result_id ?? null,
+      assigned_to: bug.assigned_to ?? null,
+      assigned_team_id: bug.assigned_team_id ?? null,
+      custom_fields: bug.custom_fields ?? {},
+      tags: bug.tags ?? [],
       reported_at: new Date(),
       updated_at: new Date(),
     };
     this.bugs.set(id, newBug);
+    this.searchIndex.upsert(bugDocument(newBug));
     return newBug;
   }
 
@@ -1460,21 +4258,29 @@ export class MemStorage implements IStorage {
     return this.bugs.get(id);
   }
 
-  async getBugs(filters?: {
-    status?: string;
-    test_case_id?: number;
-  }): Promise<schema.Bug[]> {
-    let bugs = Array.from(this.bugs.values());
-
-    if (filters?.status) {
-      bugs = bugs.filter((bug) => bug.status === filters.status);
-    }
-
-    if (filters?.test_case_id) {
-      bugs = bugs.filter((bug) => bug.test_case_id === filters.test_case_id);
-    }
+  async getBugs(
+    projectId: number,
+    filters?: BugFilters,
+    options?: ListOptions<BugSortField>,
+  ): Promise<Page<schema.Bug>> {
+    const bugs = Array.from(this.bugs.values()).filter(
+      (bug) =>
+        bug.project_id === projectId &&
+        matchesAny(bug.status, filters?.status) &&
+        matchesAny(bug.severity, filters?.severity) &&
+        matchesAny(bug.assigned_to, filters?.assignedTo) &&
+        (!filters?.test_case_id || bug.test_case_id === filters.test_case_id) &&
+        (!filters?.teamId || bug.assigned_team_id === filters.teamId) &&
+        isInRange(bug.reported_at, filters?.reportedAt) &&
+        matchesCustomFields(bug.custom_fields, filters?.customFields) &&
+        (!filters?.tags || matchesTagExpression(filters.tags, bug.tags)),
+    );
 
-    return bugs.sort((a, b) => b.reported_at.getTime() - a.reported_at.getTime());
+    return paginate(
+      bugs,
+      options?.sort ?? { field: "reported_at", direction: "desc" },
+      options,
+    );
   }
 
   async updateBug(
@@ -1491,9 +4297,161 @@ export class MemStorage implements IStorage {
 
     const updatedBug = { ...bug, ...updated_ata };
     this.bugs.set(id, updatedBug);
+    this.searchIndex.upsert(bugDocument(updatedBug));
     return updatedBug;
   }
 
+  // Custom field operations
+  async getCustomFields(
+    projectId: number,
+    entityType?: schema.CustomFieldEntityType,
+  ): Promise<schema.CustomField[]> {
+    return this.customFields
+      .filter(
+        (field) =>
+          field.project_id === projectId &&
+          (!entityType || field.entity_type === entityType),
+      )
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getCustomField(id: number): Promise<schema.CustomField | undefined> {
+    return this.customFields.find((field) => field.id === id);
+  }
+
+  async createCustomField(
+    field: schema.InsertCustomField,
+  ): Promise<schema.CustomField> {
+    if (
+      this.customFields.some(
+        (existing) =>
+          existing.project_id === field.project_id &&
+          existing.entity_type === field.entity_type &&
+          existing.key === field.key,
+      )
+    ) {
+      throw new Error(`Custom field ${field.key} already exists`);
+    }
+
+    const newField: schema.CustomField = {
+      ...field,
+      id: this.customFieldId++,
+      options: field.options ?? null,
+      required: field.required ?? false,
+      position: field.position ?? 0,
+      created_at: new Date(),
+    };
+    this.customFields.push(newField);
+    return newField;
+  }
+
+  async updateCustomField(
+    id: number,
+    data: Partial<schema.InsertCustomField>,
+  ): Promise<schema.CustomField | undefined> {
+    const field = this.customFields.find((field) => field.id === id);
+    if (!field) return undefined;
+
+    Object.assign(field, data);
+    return field;
+  }
+
+  async deleteCustomField(id: number): Promise<boolean> {
+    const count = this.customFields.length;
+    this.customFields = this.customFields.filter((field) => field.id !== id);
+    return this.customFields.length < count;
+  }
+
+  // Shared step operations
+  async getSharedSteps(projectId: number): Promise<schema.SharedStep[]> {
+    return Array.from(this.sharedSteps.values())
+      .filter((step) => step.project_id === projectId)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getSharedStep(id: number): Promise<schema.SharedStep | undefined> {
+    return this.sharedSteps.get(id);
+  }
+
+  private recordSharedStepVersion(step: schema.SharedStep, created_by: number) {
+    const versions = this.sharedStepVersions.get(step.id) ?? [];
+    versions.push({
+      id: this.sharedStepVersionId++,
+      shared_step_id: step.id,
+      version: step.version,
+      name: step.name,
+      steps: step.steps,
+      created_by,
+      created_at: new Date(),
+    });
+    this.sharedStepVersions.set(step.id, versions);
+  }
+
+  async createSharedStep(
+    step: schema.InsertSharedStep,
+  ): Promise<schema.SharedStep> {
+    const newStep: schema.SharedStep = {
+      ...step,
+      id: this.sharedStepId++,
+      description: step.description ?? null,
+      version: 1,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.sharedSteps.set(newStep.id, newStep);
+    this.recordSharedStepVersion(newStep, newStep.created_by);
+    return newStep;
+  }
+
+  async updateSharedStep(
+    id: number,
+    data: Partial<schema.InsertSharedStep>,
+  ): Promise<schema.SharedStep | undefined> {
+    const step = this.sharedSteps.get(id);
+    if (!step) return undefined;
+
+    const { created_by, ...changes } = data;
+    const updatedStep: schema.SharedStep = {
+      ...step,
+      ...changes,
+      version: step.version + 1,
+      updated_at: new Date(),
+    };
+    this.sharedSteps.set(id, updatedStep);
+    this.recordSharedStepVersion(updatedStep, created_by ?? step.created_by);
+    return updatedStep;
+  }
+
+  async deleteSharedStep(id: number): Promise<boolean> {
+    this.sharedStepVersions.delete(id);
+    return this.sharedSteps.delete(id);
+  }
+
+  async getSharedStepVersions(
+    shared_step_id: number,
+  ): Promise<schema.SharedStepVersion[]> {
+    return this.sharedStepVersions.get(shared_step_id) ?? [];
+  }
+
+  async getSharedStepVersion(
+    shared_step_id: number,
+    version: number,
+  ): Promise<schema.SharedStepVersion | undefined> {
+    return this.sharedStepVersions
+      .get(shared_step_id)
+      ?.find((row) => row.version === version);
+  }
+
+  async getSharedStepUsage(shared_step_id: number): Promise<number[]> {
+    const ids: number[] = [];
+    this.testSteps.forEach((steps, test_case_id) => {
+      if (steps.some((step) => step.shared_step_id === shared_step_id)) {
+        ids.push(test_case_id);
+      }
+    });
+    return ids.sort((a, b) => a - b);
+  }
+
   // Whiteboard operations
   async createWhiteboard(
     whiteboard: schema.InsertWhiteboard,
@@ -1502,6 +4460,7 @@ export class MemStorage implements IStorage {
     const newWhiteboard: schema.Whiteboard = {
       ...whiteboard,
       id,
+      content: whiteboard.content ?? [],
       created_at: new Date(),
       updated_at: new Date(),
     };
@@ -1513,9 +4472,22 @@ export class MemStorage implements IStorage {
     return this.whiteboards.get(id);
   }
 
-  async getWhiteboards(): Promise<schema.Whiteboard[]> {
-    return Array.from(this.whiteboards.values()).sort(
-      (a, b) => b.updated_at.getTime() - a.updated_at.getTime(),
+  async getWhiteboards(
+    projectId: number,
+    filters?: WhiteboardFilters,
+    options?: ListOptions<WhiteboardSortField>,
+  ): Promise<Page<schema.Whiteboard>> {
+    const whiteboards = Array.from(this.whiteboards.values()).filter(
+      (whiteboard) =>
+        whiteboard.project_id === projectId &&
+        matchesAny(whiteboard.created_by, filters?.createdBy) &&
+        isInRange(whiteboard.updated_at, filters?.updatedAt),
+    );
+
+    return paginate(
+      whiteboards,
+      options?.sort ?? { field: "updated_at", direction: "desc" },
+      options,
     );
   }
 
@@ -1565,6 +4537,20 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
   }
 
+  // Search operations
+  async search(
+    projectId: number,
+    query: string,
+    options: { types: SearchResultType[]; limit: number },
+  ): Promise<SearchResult[]> {
+    return this.searchIndex.search(
+      projectId,
+      query,
+      options.types,
+      options.limit,
+    );
+  }
+
   // Activity log operations
   async logActivity(
     log: schema.InsertActivityLog,
@@ -1573,18 +4559,24 @@ export class MemStorage implements IStorage {
     const newActivityLog: schema.ActivityLog = {
       ...log,
       id,
-      timestamp: new Date(),
+      project_id: log.project_id ?? null,
+      details: log.details ?? null,
+      created_at: new Date(),
     };
     this.activityLogs.push(newActivityLog);
     return newActivityLog;
   }
 
-  async getRecentActivities(limit: number = 10): Promise<
+  async getRecentActivities(
+    projectId: number,
+    limit: number = 10,
+  ): Promise<
     (schema.ActivityLog & {
       user: Pick<schema.User, "username" | "full_name">;
     })[]
   > {
     return this.activityLogs
+      .filter((log) => log.project_id === projectId)
       .slice(0, limit)
       .map((log) => {
         const user = this.users.get(log.user_id);
@@ -1596,25 +4588,35 @@ export class MemStorage implements IStorage {
           },
         };
       })
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
   }
 
-  async getTestStatusStats(): Promise<{ status: string; count: number }[]> {
-    return this.getTestStatusCounts();
+  async getTestStatusStats(
+    projectId: number,
+  ): Promise<{ status: string; count: number }[]> {
+    return this.getTestStatusCounts(projectId);
   }
 
-  async getRecentTestCases(limit: number = 5): Promise<schema.TestCase[]> {
+  async getRecentTestCases(
+    projectId: number,
+    limit: number = 5,
+  ): Promise<schema.TestCase[]> {
     return Array.from(this.testCases.values())
+      .filter(
+        (testCase) => testCase.project_id === projectId && !testCase.deleted_at,
+      )
       .sort((a, b) => b.updated_at.getTime() - a.updated_at.getTime())
       .slice(0, limit);
   }
 
-  async getTestRunStats(): Promise<{
+  async getTestRunStats(projectId: number): Promise<{
     totalRuns: number;
     avgDuration: number | null;
     passRate: number | null;
   }> {
-    const testRuns = Array.from(this.testRuns.values());
+    const testRuns = Array.from(this.testRuns.values()).filter(
+      (run) => run.project_id === projectId,
+    );
     const totalRuns = testRuns.length;
 
     const completedRuns = testRuns.filter(
@@ -1629,7 +4631,8 @@ export class MemStorage implements IStorage {
     let passedCount = 0;
     let totalCount = 0;
 
-    for (const results of this.testRunResults.values()) {
+    for (const run of testRuns) {
+      const results = this.testRunResults.get(run.id) || [];
       totalCount += results.length;
       passedCount += results.filter(
         (result) => result.status === "passed",
@@ -1644,6 +4647,272 @@ export class MemStorage implements IStorage {
       passRate,
     };
   }
+
+  // Role permission operations
+  async getRolePermissions(): Promise<schema.RolePermission[]> {
+    return [...this.rolePermissions];
+  }
+
+  async setRolePermission(
+    role: string,
+    permission: string,
+    granted: boolean,
+  ): Promise<void> {
+    const existing = this.rolePermissions.find(
+      (rp) => rp.role === role && rp.permission === permission,
+    );
+
+    if (granted && !existing) {
+      this.rolePermissions.push({
+        id: this.rolePermissionId++,
+        role,
+        permission,
+      });
+    } else if (!granted && existing) {
+      this.rolePermissions = this.rolePermissions.filter(
+        (rp) => rp !== existing,
+      );
+    }
+  }
+
+  // User session operations
+  async createUserSession(
+    userSession: schema.InsertUserSession,
+  ): Promise<schema.UserSession> {
+    const newSession: schema.UserSession = {
+      id: this.userSessionId++,
+      sid: userSession.sid,
+      user_id: userSession.user_id,
+      user_agent: userSession.user_agent ?? null,
+      ip_address: userSession.ip_address ?? null,
+      created_at: new Date(),
+      expires_at: userSession.expires_at,
+    };
+    this.userSessions.push(newSession);
+    return newSession;
+  }
+
+  async getUserSessions(userId: number): Promise<schema.UserSession[]> {
+    return this.userSessions
+      .filter((us) => us.user_id === userId)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+
+  async deleteUserSession(sid: string): Promise<void> {
+    this.userSessions = this.userSessions.filter((us) => us.sid !== sid);
+  }
+
+  // Password operations
+  async addPasswordHistory(userId: number, password: string): Promise<void> {
+    this.passwordHistory.push({
+      id: this.passwordHistoryId++,
+      user_id: userId,
+      password,
+      created_at: new Date(),
+    });
+  }
+
+  async getPasswordHistory(
+    userId: number,
+    limit: number,
+  ): Promise<schema.PasswordHistoryEntry[]> {
+    return this.passwordHistory
+      .filter((entry) => entry.user_id === userId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async createPasswordResetToken(
+    token: schema.InsertPasswordResetToken,
+  ): Promise<schema.PasswordResetToken> {
+    const newToken: schema.PasswordResetToken = {
+      ...token,
+      id: this.passwordResetTokenId++,
+      used_at: null,
+      created_at: new Date(),
+    };
+    this.passwordResetTokens.push(newToken);
+    return newToken;
+  }
+
+  async getPasswordResetToken(
+    tokenHash: string,
+  ): Promise<schema.PasswordResetToken | undefined> {
+    return this.passwordResetTokens.find(
+      (token) => token.token_hash === tokenHash,
+    );
+  }
+
+  async markPasswordResetTokenUsed(id: number): Promise<void> {
+    const token = this.passwordResetTokens.find((token) => token.id === id);
+    if (token) {
+      token.used_at = new Date();
+    }
+  }
+
+  // API token operations
+  async createApiToken(token: schema.InsertApiToken): Promise<schema.ApiToken> {
+    const newToken: schema.ApiToken = {
+      ...token,
+      id: this.apiTokenId++,
+      scopes: token.scopes as string[],
+      expires_at: token.expires_at ?? null,
+      last_used_at: null,
+      created_at: new Date(),
+    };
+    this.apiTokens.push(newToken);
+    return newToken;
+  }
+
+  async getApiTokens(userId: number): Promise<schema.ApiToken[]> {
+    return this.apiTokens
+      .filter((token) => token.user_id === userId)
+      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  }
+
+  async getApiTokenByHash(
+    tokenHash: string,
+  ): Promise<schema.ApiToken | undefined> {
+    return this.apiTokens.find((token) => token.token_hash === tokenHash);
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokens.find((token) => token.id === id);
+    if (token) {
+      token.last_used_at = new Date();
+    }
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const count = this.apiTokens.length;
+    this.apiTokens = this.apiTokens.filter((token) => token.id !== id);
+    return this.apiTokens.length < count;
+  }
+
+  // User invitation operations
+  async createUserInvitation(
+    invitation: schema.InsertUserInvitation,
+  ): Promise<schema.UserInvitation> {
+    const newInvitation: schema.UserInvitation = {
+      ...invitation,
+      id: this.userInvitationId++,
+      accepted_at: null,
+      created_at: new Date(),
+    };
+    this.userInvitations.push(newInvitation);
+    return newInvitation;
+  }
+
+  async getUserInvitations(): Promise<schema.UserInvitation[]> {
+    return [...this.userInvitations].sort(
+      (a, b) => b.created_at.getTime() - a.created_at.getTime(),
+    );
+  }
+
+  async getUserInvitationByHash(
+    tokenHash: string,
+  ): Promise<schema.UserInvitation | undefined> {
+    return this.userInvitations.find(
+      (invitation) => invitation.token_hash === tokenHash,
+    );
+  }
+
+  async markUserInvitationAccepted(id: number): Promise<void> {
+    const invitation = this.userInvitations.find(
+      (invitation) => invitation.id === id,
+    );
+    if (invitation) {
+      invitation.accepted_at = new Date();
+    }
+  }
+
+  async deleteUserInvitation(id: number): Promise<boolean> {
+    const count = this.userInvitations.length;
+    this.userInvitations = this.userInvitations.filter(
+      (invitation) => invitation.id !== id,
+    );
+    return this.userInvitations.length < count;
+  }
+
+  // User identity operations
+  async getUserIdentity(
+    provider: string,
+    subject: string,
+  ): Promise<schema.UserIdentity | undefined> {
+    return this.userIdentities.find(
+      (identity) =>
+        identity.provider === provider && identity.subject === subject,
+    );
+  }
+
+  async createUserIdentity(
+    identity: schema.InsertUserIdentity,
+  ): Promise<schema.UserIdentity> {
+    const newIdentity: schema.UserIdentity = {
+      ...identity,
+      id: this.userIdentityId++,
+      created_at: new Date(),
+    };
+    this.userIdentities.push(newIdentity);
+    return newIdentity;
+  }
+
+  // Login throttle operations
+  async getLoginThrottle(
+    key: string,
+  ): Promise<schema.LoginThrottle | undefined> {
+    return this.loginThrottles.get(key);
+  }
+
+  async getLoginThrottles(): Promise<schema.LoginThrottle[]> {
+    return Array.from(this.loginThrottles.values());
+  }
+
+  async setLoginThrottle(throttle: schema.LoginThrottle): Promise<void> {
+    this.loginThrottles.set(throttle.key, { ...throttle });
+  }
+
+  async deleteLoginThrottle(key: string): Promise<void> {
+    this.loginThrottles.delete(key);
+  }
+
+  // System setting operations
+  async getSystemSettings(): Promise<schema.SystemSetting[]> {
+    return Array.from(this.systemSettings.values());
+  }
+
+  async setSystemSetting(key: string, value: unknown): Promise<void> {
+    this.systemSettings.set(key, { key, value, updated_at: new Date() });
+  }
+}
+
+// STORAGE_BACKEND selects where data lives ("supabase", "postgres" or
+// "memory"). Without it, Supabase is used when configured, then a plain
+// Postgres database from DATABASE_URL, then the in-memory demo store.
+export const storageBackend =
+  process.env.STORAGE_BACKEND ||
+  (process.env.SUPABASE_URL
+    ? "supabase"
+    : process.env.DATABASE_URL
+      ? "postgres"
+      : "memory");
+
+function createStorage(backend: string): IStorage {
+  switch (backend) {
+    case "supabase":
+      return new SupabaseStorage();
+    case "postgres":
+      return new PgStorage();
+    case "memory":
+      if (process.env.NODE_ENV === "production") {
+        console.warn(
+          "Using the in-memory storage backend: data is lost on restart",
+        );
+      }
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}"`);
+  }
 }
 
-export const storage = new SupabaseStorage();
+export const storage: IStorage = createStorage(storageBackend);
@@ -0,0 +1,104 @@
+import { tagSchema } from "@shared/schema";
+import type { TagExpression } from "./storage.interface";
+
+export class TagExpressionError extends Error {}
+
+const OPERATORS = ["and", "or", "not"];
+
+// Filters come from the query string, and nesting recurses here as well as
+// when the expression is matched or turned into SQL
+const MAX_LENGTH = 500;
+const MAX_DEPTH = 20;
+
+// Parses a tag filter such as "smoke AND NOT (flaky OR slow)". Operators are
+// case-insensitive, NOT binds tightest and OR loosest, and tags written next
+// to each other are ANDed, so "smoke login" means "smoke AND login".
+export function parseTagExpression(input: string): TagExpression {
+  if (input.length > MAX_LENGTH) {
+    throw new TagExpressionError(
+      `Tag filter is longer than ${MAX_LENGTH} characters`,
+    );
+  }
+
+  const tokens = input.match(/\(|\)|[^\s()]+/g) ?? [];
+  let position = 0;
+  let depth = 0;
+
+  const peek = () => tokens[position]?.toLowerCase();
+
+  const fail = (message: string): never => {
+    throw new TagExpressionError(message);
+  };
+
+  const parseOr = (): TagExpression => {
+    const operands = [parseAnd()];
+    while (peek() === "or") {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { or: operands };
+  };
+
+  const parseAnd = (): TagExpression => {
+    const operands = [parseNot()];
+    while (position < tokens.length && peek() !== "or" && peek() !== ")") {
+      if (peek() === "and") position++;
+      operands.push(parseNot());
+    }
+    return operands.length === 1 ? operands[0] : { and: operands };
+  };
+
+  const parseNot = (): TagExpression => {
+    const token = peek();
+    if (token === undefined) {
+      return fail("Tag filter ends unexpectedly");
+    }
+    position++;
+
+    if (token === "not" || token === "(") {
+      if (++depth > MAX_DEPTH) {
+        fail(`Tag filter is nested more than ${MAX_DEPTH} levels deep`);
+      }
+      const expression = token === "not" ? { not: parseNot() } : parseOr();
+      if (token === "(") {
+        if (peek() !== ")") fail("Missing closing parenthesis");
+        position++;
+      }
+      depth--;
+      return expression;
+    }
+    if (token === ")" || OPERATORS.includes(token)) {
+      return fail(`Unexpected "${tokens[position - 1]}" in tag filter`);
+    }
+
+    const tag = tagSchema.safeParse(token);
+    if (!tag.success) {
+      return fail(`"${token}" is not a valid tag`);
+    }
+    return { tag: tag.data };
+  };
+
+  if (tokens.length === 0) {
+    fail("Tag filter is empty");
+  }
+  const expression = parseOr();
+  if (position < tokens.length) {
+    fail(`Unexpected "${tokens[position]}" in tag filter`);
+  }
+  return expression;
+}
+
+// Evaluates the expression against one row's tags, for the in-memory store
+export function matchesTagExpression(
+  expression: TagExpression,
+  tags: string[],
+): boolean {
+  if ("tag" in expression) return tags.includes(expression.tag);
+  if ("not" in expression) return !matchesTagExpression(expression.not, tags);
+  if ("and" in expression) {
+    return expression.and.every((operand) =>
+      matchesTagExpression(operand, tags),
+    );
+  }
+  return expression.or.some((operand) => matchesTagExpression(operand, tags));
+}
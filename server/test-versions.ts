@@ -0,0 +1,77 @@
+import * as schema from "@shared/schema";
+
+type SnapshotStep = Pick<
+  schema.TestStep,
+  | "step_number"
+  | "description"
+  | "expected_result"
+  | "shared_step_id"
+  | "shared_step_version"
+>;
+
+// What a test_versions row stores: the editable fields of the test case and
+// its steps as they were when that version was saved
+export type TestCaseSnapshot = Pick<
+  schema.TestCase,
+  | "title"
+  | "description"
+  | "preconditions"
+  | "test_data"
+  | "status"
+  | "priority"
+  | "type"
+  | "assigned_to"
+  | "assigned_team_id"
+  | "expected_result"
+  | "custom_fields"
+  | "tags"
+> & { steps: SnapshotStep[] };
+
+export function snapshotTestCase(
+  testCase: schema.TestCase,
+  steps: Pick<
+    schema.InsertTestStep,
+    | "step_number"
+    | "description"
+    | "expected_result"
+    | "shared_step_id"
+    | "shared_step_version"
+  >[],
+): TestCaseSnapshot {
+  return {
+    title: testCase.title,
+    description: testCase.description,
+    preconditions: testCase.preconditions,
+    test_data: testCase.test_data,
+    status: testCase.status,
+    priority: testCase.priority,
+    type: testCase.type,
+    assigned_to: testCase.assigned_to,
+    assigned_team_id: testCase.assigned_team_id,
+    expected_result: testCase.expected_result,
+    custom_fields: testCase.custom_fields,
+    tags: testCase.tags,
+    steps: steps.map((step) => ({
+      step_number: step.step_number,
+      description: step.description,
+      expected_result: step.expected_result ?? null,
+      shared_step_id: step.shared_step_id ?? null,
+      shared_step_version: step.shared_step_version ?? null,
+    })),
+  };
+}
+
+// Splits a stored snapshot back into test case fields and the steps to write
+export function restoreTestCaseSnapshot(
+  test_case_id: number,
+  data: unknown,
+): {
+  changes: Partial<schema.InsertTestCase>;
+  steps?: schema.InsertTestStep[];
+} {
+  const { steps, ...changes } = data as TestCaseSnapshot;
+  return {
+    changes,
+    steps: steps?.map((step) => ({ ...step, test_case_id })),
+  };
+}
@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+
+// Tokens look like "tsp_<64 hex chars>"; the prefix makes leaked tokens easy
+// to recognize in logs and secret scanners
+const TOKEN_PREFIX = "tsp_";
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Creates a token for the user. The plain token is only returned here and
+// never stored.
+export async function createApiToken(
+  user: schema.User,
+  data: { name: string; scopes: string[]; expires_in_days?: number | null },
+): Promise<{ token: string; apiToken: schema.ApiToken }> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(32).toString("hex");
+
+  const apiToken = await storage.createApiToken({
+    user_id: user.id,
+    name: data.name,
+    token_hash: hashToken(token),
+    token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    scopes: data.scopes,
+    expires_at: data.expires_in_days
+      ? new Date(Date.now() + data.expires_in_days * 24 * 60 * 60 * 1000)
+      : null,
+  });
+
+  return { token, apiToken };
+}
+
+// Resolves a bearer token to its token row and active owner, or undefined
+// when the token is unknown, expired or belongs to a deactivated user
+export async function authenticateApiToken(
+  token: string,
+): Promise<{ apiToken: schema.ApiToken; user: schema.User } | undefined> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return undefined;
+  }
+
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  if (
+    !apiToken ||
+    (apiToken.expires_at &&
+      new Date(apiToken.expires_at).getTime() < Date.now())
+  ) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(apiToken.user_id);
+  if (!user || !user.is_active) {
+    return undefined;
+  }
+
+  await storage.touchApiToken(apiToken.id);
+  return { apiToken, user };
+}
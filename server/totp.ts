@@ -0,0 +1,179 @@
+import crypto from "crypto";
+import QRCode from "qrcode";
+import * as schema from "@shared/schema";
+import { storage } from "./storage";
+import { getSystemSettings } from "./settings";
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 second steps),
+// the variant every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ISSUER = "Test Sphere";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 character");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto
+    .createHmac("sha1", base32Decode(secret))
+    .update(message)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// The time step a code belongs to. Accepts the current step and the ones
+// next to it to allow for clock drift.
+function matchTotpStep(secret: string, code: string): number | undefined {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return undefined;
+  }
+
+  const counter = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  return [-1, 0, 1]
+    .map((drift) => counter + drift)
+    .find((step) =>
+      crypto.timingSafeEqual(
+        Buffer.from(generateCode(secret, step)),
+        Buffer.from(normalized),
+      ),
+    );
+}
+
+// Checks a code against the user's secret, which may still be pending
+// confirmation. A code is accepted once; replaying it fails.
+export async function verifyTotp(
+  user: schema.User,
+  code: string,
+): Promise<boolean> {
+  const step = user.totp_secret
+    ? matchTotpStep(user.totp_secret, code)
+    : undefined;
+  return step !== undefined && storage.claimTotpStep(user.id, step);
+}
+
+// otpauth:// URI and a QR code of it for authenticator apps
+export async function getTotpEnrollment(user: schema.User, secret: string) {
+  const label = encodeURIComponent(`${ISSUER}:${user.username}`);
+  const otpauthUrl =
+    `otpauth://totp/${label}?secret=${secret}` +
+    `&issuer=${encodeURIComponent(ISSUER)}&digits=${DIGITS}&period=${STEP_SECONDS}`;
+
+  return {
+    secret,
+    otpauth_url: otpauthUrl,
+    qr_code: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(code.replace(/[\s-]/g, "").toLowerCase())
+    .digest("hex");
+}
+
+// Plain codes to show the user once, and the hashes to store
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Verifies a TOTP code, or a recovery code which is then used up
+export async function verifySecondFactor(
+  user: schema.User,
+  input: { code?: string; recovery_code?: string },
+): Promise<boolean> {
+  if (!user.totp_enabled || !user.totp_secret) {
+    return false;
+  }
+
+  if (input.code) {
+    return verifyTotp(user, input.code);
+  }
+
+  if (input.recovery_code) {
+    const hash = hashRecoveryCode(input.recovery_code);
+    const remaining = user.totp_recovery_codes ?? [];
+    if (!remaining.includes(hash)) {
+      return false;
+    }
+
+    await storage.setUserTwoFactor(user.id, {
+      totp_secret: user.totp_secret,
+      totp_enabled: true,
+      totp_recovery_codes: remaining.filter((stored) => stored !== hash),
+    });
+    return true;
+  }
+
+  return false;
+}
+
+// True when the 2FA policy covers the user's role but they have not enrolled
+export async function isTwoFactorEnrollmentRequired(
+  user: schema.User,
+): Promise<boolean> {
+  if (user.totp_enabled) {
+    return false;
+  }
+
+  const settings = await getSystemSettings();
+  return settings.require_2fa_roles.includes(user.role as schema.Role);
+}
@@ -0,0 +1,39 @@
+import { log } from "./vite";
+import { getSystemSettings } from "./settings";
+import { storage } from "./storage";
+import { deleteAttachmentBlobs } from "./attachments";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Permanently deletes test cases and folders that have been in the trash for
+// longer than the trash_retention_days setting, along with the files attached
+// to those test cases
+export async function purgeExpiredTrash(now = new Date()) {
+  const { trash_retention_days } = await getSystemSettings();
+  const cutoff = new Date(now.getTime() - trash_retention_days * DAY_MS);
+  const purged = await storage.purgeTrash(cutoff);
+  await deleteAttachmentBlobs(purged.attachments);
+  return purged;
+}
+
+// Runs purgeExpiredTrash on start and then every hour. The timer does not keep
+// the process alive.
+export function startTrashPurgeJob() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged.testCases > 0 || purged.folders > 0) {
+        log(
+          `purged ${purged.testCases} test case(s) and ${purged.folders} folder(s)`,
+          "trash",
+        );
+      }
+    } catch (error) {
+      console.error("Failed to purge expired trash:", error);
+    }
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -9,10 +9,26 @@ import {
   varchar,
   foreignKey,
   uniqueIndex,
+  index,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { sql, type SQL } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Weighted full-text document over the given columns, heaviest first. Search
+// queries must build the same expression for the GIN indexes to be used.
+export function searchVector(...columns: AnyPgColumn[]): SQL {
+  const weighted = sql.join(
+    columns.map(
+      (column, i) =>
+        sql`setweight(to_tsvector('english', coalesce(${column}, '')), ${sql.raw(`'${"ABCD"[i]}'`)})`,
+    ),
+    sql` || `,
+  );
+  return sql`(${weighted})`;
+}
+
 // Users
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -24,46 +40,255 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("tester"), // system_owner, admin, tester, viewer
   last_login: timestamp("last_login"),
   is_active: boolean("is_active").notNull().default(true),
+  // TOTP two-factor authentication; recovery codes are stored as SHA-256 hashes
+  totp_secret: text("totp_secret"),
+  totp_enabled: boolean("totp_enabled").notNull().default(false),
+  totp_recovery_codes: jsonb("totp_recovery_codes").$type<string[]>(),
+  // Time step of the last accepted TOTP code; codes are only accepted for
+  // later steps so each one works once
+  totp_last_step: integer("totp_last_step"),
+  // Deleted users are kept so created_by/executed_by history stays intact
+  deleted_at: timestamp("deleted_at"),
+});
+
+// Teams (groups of users that can own folders and receive assignments)
+export const teams = pgTable("teams", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Team Members
+export const teamMembers = pgTable(
+  "team_members",
+  {
+    id: serial("id").primaryKey(),
+    team_id: integer("team_id")
+      .notNull()
+      .references(() => teams.id),
+    user_id: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+  },
+  (table) => {
+    return {
+      teamMemberIdx: uniqueIndex("team_member_idx").on(
+        table.team_id,
+        table.user_id,
+      ),
+    };
+  },
+);
+
+// Projects
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  created_by: integer("created_by")
+    .notNull()
+    .references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Project Members (per-project role for each user)
+export const projectMembers = pgTable(
+  "project_members",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    user_id: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    role: text("role").notNull().default("tester"), // admin, tester, viewer
+  },
+  (table) => {
+    return {
+      projectMemberIdx: uniqueIndex("project_member_idx").on(
+        table.project_id,
+        table.user_id,
+      ),
+    };
+  },
+);
+
 // Folders
 export const folders = pgTable("folders", {
   id: serial("id").primaryKey(),
+  project_id: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
   name: text("name").notNull(),
   description: text("description"),
-  created_by: integer("created_by").references(() => 1),
+  created_by: integer("created_by").references(() => users.id),
+  team_id: integer("team_id").references(() => teams.id), // owning team
   created_at: timestamp("created_at").notNull().defaultNow(),
+  // Set while the folder is in the trash
+  deleted_at: timestamp("deleted_at"),
+  deleted_by: integer("deleted_by").references(() => users.id),
 });
 
 // Test Cases
-export const testCases = pgTable("test_cases", {
+export const testCases = pgTable(
+  "test_cases",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    title: text("title").notNull(),
+    description: text("description"),
+    preconditions: text("preconditions"),
+    test_data: jsonb("test_data").$type<TestData>(),
+    status: text("status").notNull().default("pending"), // passed, failed, pending, blocked
+    priority: text("priority").notNull().default("medium"), // critical, high, medium, low
+    type: text("type").notNull().default("functional"), // functional, performance, security, usability
+    assigned_to: integer("assigned_to").references(() => users.id),
+    assigned_team_id: integer("assigned_team_id").references(() => teams.id),
+    created_by: integer("created_by")
+      .notNull()
+      .references(() => users.id),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+    last_run: timestamp("last_run"),
+    expected_result: text("expected_result"),
+    version: integer("version").notNull().default(1),
+    // Values of the project's custom fields, keyed by field key
+    custom_fields: jsonb("custom_fields")
+      .$type<CustomFieldValues>()
+      .notNull()
+      .default({}),
+    tags: text("tags")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+    // Set while the test case is in the trash
+    deleted_at: timestamp("deleted_at"),
+    deleted_by: integer("deleted_by").references(() => users.id),
+  },
+  (table) => {
+    return {
+      // Backs the default ordering of the paginated test case list
+      projectUpdatedIdx: index("test_cases_project_updated_idx").on(
+        table.project_id,
+        table.updated_at,
+      ),
+      searchIdx: index("test_cases_search_idx").using(
+        "gin",
+        searchVector(table.title, table.description, table.expected_result),
+      ),
+      // Backs the tag filters of the test case list
+      tagsIdx: index("test_cases_tags_idx").using("gin", table.tags),
+    };
+  },
+);
+
+// Test Steps
+export const testSteps = pgTable(
+  "test_steps",
+  {
+    id: serial("id").primaryKey(),
+    test_case_id: integer("test_case_id")
+      .notNull()
+      .references(() => testCases.id),
+    step_number: integer("step_number").notNull(),
+    description: text("description").notNull(),
+    expected_result: text("expected_result"),
+    // Set on a step that stands for a shared step block. The block's steps
+    // are shown in its place, taken from shared_step_version when the test
+    // case pins one and from the latest version otherwise.
+    shared_step_id: integer("shared_step_id").references(() => sharedSteps.id),
+    shared_step_version: integer("shared_step_version"),
+  },
+  (table) => {
+    return {
+      searchIdx: index("test_steps_search_idx").using(
+        "gin",
+        searchVector(table.description, table.expected_result),
+      ),
+    };
+  },
+);
+
+// Files attached to a test case or one of its steps. The bytes live in the
+// blob store (see server/blob-store.ts) under storage_key.
+export const attachments = pgTable(
+  "attachments",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    test_case_id: integer("test_case_id")
+      .notNull()
+      .references(() => testCases.id),
+    // Set for attachments of a step. Steps are rewritten on every edit, so
+    // they are matched by number rather than id.
+    step_number: integer("step_number"),
+    file_name: text("file_name").notNull(),
+    content_type: text("content_type").notNull(),
+    size: integer("size").notNull(),
+    storage_key: text("storage_key").notNull(),
+    // Small preview for images, uploaded by the browser after the file
+    thumbnail_key: text("thumbnail_key"),
+    uploaded_by: integer("uploaded_by")
+      .notNull()
+      .references(() => users.id),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      testCaseIdx: index("attachments_test_case_idx").on(table.test_case_id),
+    };
+  },
+);
+
+// Steps kept once and referenced from many test cases, such as "log in as
+// admin". Every edit bumps version and records the new contents in
+// shared_step_versions.
+export const sharedSteps = pgTable("shared_steps", {
   id: serial("id").primaryKey(),
-  title: text("title").notNull(),
+  project_id: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
+  name: text("name").notNull(),
   description: text("description"),
-  status: text("status").notNull().default("pending"), // passed, failed, pending, blocked
-  priority: text("priority").notNull().default("medium"), // critical, high, medium, low
-  type: text("type").notNull().default("functional"), // functional, performance, security, usability
-  assigned_to: integer("assigned_to").references(() => users.id),
+  steps: jsonb("steps").$type<SharedStepItem[]>().notNull(),
+  version: integer("version").notNull().default(1),
   created_by: integer("created_by")
     .notNull()
     .references(() => users.id),
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow(),
-  last_run: timestamp("last_run"),
-  expected_result: text("expected_result"),
-  version: integer("version").notNull().default(1),
 });
 
-// Test Steps
-export const testSteps = pgTable("test_steps", {
-  id: serial("id").primaryKey(),
-  test_case_id: integer("test_case_id")
-    .notNull()
-    .references(() => testCases.id),
-  step_number: integer("step_number").notNull(),
-  description: text("description").notNull(),
-  expected_result: text("expected_result"),
-});
+export const sharedStepVersions = pgTable(
+  "shared_step_versions",
+  {
+    id: serial("id").primaryKey(),
+    shared_step_id: integer("shared_step_id")
+      .notNull()
+      .references(() => sharedSteps.id),
+    version: integer("version").notNull(),
+    name: text("name").notNull(),
+    steps: jsonb("steps").$type<SharedStepItem[]>().notNull(),
+    created_by: integer("created_by")
+      .notNull()
+      .references(() => users.id),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      sharedStepVersionIdx: uniqueIndex("shared_step_versions_version_idx").on(
+        table.shared_step_id,
+        table.version,
+      ),
+    };
+  },
+);
 
 // Test Case Version History
 export const testVersions = pgTable("test_versions", {
@@ -103,18 +328,32 @@ export const testCaseFolders = pgTable(
 );
 
 // Test Runs
-export const testRuns = pgTable("test_runs", {
-  id: serial("id").primaryKey(),
-  name: text("name").notNull(),
-  description: text("description"),
-  status: text("status").notNull().default("pending"), // in_progress, completed, aborted
-  started_at: timestamp("started_at").notNull().defaultNow(),
-  complete_at: timestamp("completed_at"),
-  executed_by: integer("executed_by")
-    .notNull()
-    .references(() => users.id),
-  duration: integer("duration"), // in seconds
-});
+export const testRuns = pgTable(
+  "test_runs",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    name: text("name").notNull(),
+    description: text("description"),
+    status: text("status").notNull().default("pending"), // in_progress, completed, aborted
+    started_at: timestamp("started_at").notNull().defaultNow(),
+    complete_at: timestamp("completed_at"),
+    executed_by: integer("executed_by")
+      .notNull()
+      .references(() => users.id),
+    duration: integer("duration"), // in seconds
+  },
+  (table) => {
+    return {
+      searchIdx: index("test_runs_search_idx").using(
+        "gin",
+        searchVector(table.name, table.description),
+      ),
+    };
+  },
+);
 
 // Test Run Results
 export const testRunResults = pgTable("test_run_results", {
@@ -135,27 +374,174 @@ export const testRunResults = pgTable("test_run_results", {
 });
 
 // Bugs
-export const bugs = pgTable("bugs", {
-  id: serial("id").primaryKey(),
-  title: text("title").notNull(),
-  description: text("description").notNull(),
-  status: text("status").notNull().default("open"), // open, in_progress, fixed, closed
-  severity: text("severity").notNull().default("medium"), // critical, high, medium, low
-  test_case_id: integer("test_case_id").references(() => testCases.id),
-  test_run_result_id: integer("test_run_result_id").references(
-    () => testRunResults.id,
-  ),
-  reported_by: integer("reported_by")
-    .notNull()
-    .references(() => users.id),
-  reported_at: timestamp("reported_at").notNull().defaultNow(),
-  assigned_to: integer("assigned_to").references(() => users.id),
-  updated_at: timestamp("updated_at").notNull().defaultNow(),
-});
+export const bugs = pgTable(
+  "bugs",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    title: text("title").notNull(),
+    description: text("description").notNull(),
+    status: text("status").notNull().default("open"), // open, in_progress, fixed, closed
+    severity: text("severity").notNull().default("medium"), // critical, high, medium, low
+    test_case_id: integer("test_case_id").references(() => testCases.id),
+    test_run_result_id: integer("test_run_result_id").references(
+      () => testRunResults.id,
+    ),
+    reported_by: integer("reported_by")
+      .notNull()
+      .references(() => users.id),
+    reported_at: timestamp("reported_at").notNull().defaultNow(),
+    assigned_to: integer("assigned_to").references(() => users.id),
+    assigned_team_id: integer("assigned_team_id").references(() => teams.id),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+    // Values of the project's custom fields, keyed by field key
+    custom_fields: jsonb("custom_fields")
+      .$type<CustomFieldValues>()
+      .notNull()
+      .default({}),
+    tags: text("tags")
+      .array()
+      .notNull()
+      .default(sql`'{}'::text[]`),
+  },
+  (table) => {
+    return {
+      searchIdx: index("bugs_search_idx").using(
+        "gin",
+        searchVector(table.title, table.description),
+      ),
+    };
+  },
+);
+
+// Free-form tags on test cases and bugs, stored lowercased. AND, OR and NOT
+// are the operators of tag filters, so they cannot be tags themselves.
+export const tagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(50)
+  .regex(
+    /^[a-z0-9][a-z0-9._:/+#-]*$/,
+    "Tags may only contain letters, digits and . _ : / + # -",
+  )
+  .refine((tag) => !["and", "or", "not"].includes(tag), {
+    message: "AND, OR and NOT cannot be used as tags",
+  });
+
+export const tagsSchema = z
+  .array(tagSchema)
+  .max(50)
+  .transform((tags) => Array.from(new Set(tags)));
+
+// Parameterized test data: one column per parameter and one set of values
+// per row. Steps refer to parameters as {{name}}.
+export type TestData = { parameters: string[]; rows: string[][] };
+
+export const testDataSchema: z.ZodType<TestData> = z
+  .object({
+    parameters: z
+      .array(
+        z
+          .string()
+          .trim()
+          .regex(
+            /^[A-Za-z_][\w-]{0,49}$/,
+            "Parameter names may only contain letters, digits, _ and -",
+          ),
+      )
+      .max(20)
+      .refine((names) => new Set(names).size === names.length, {
+        message: "Parameter names must be unique",
+      }),
+    rows: z.array(z.array(z.string().max(1000))).max(100),
+  })
+  .refine(
+    (data) => data.rows.every((row) => row.length === data.parameters.length),
+    { message: "Every row needs one value per parameter", path: ["rows"] },
+  );
+
+// One step of a shared step block
+export type SharedStepItem = {
+  description: string;
+  expected_result: string | null;
+};
+
+export const sharedStepItemsSchema = z
+  .array(
+    z.object({
+      description: z.string().trim().min(1, "Step description is required"),
+      expected_result: z
+        .string()
+        .nullish()
+        .transform((value) => value || null),
+    }),
+  )
+  .min(1, "A shared step needs at least one step")
+  .max(100);
+
+// Custom fields can be defined for these entities, with these value types
+export const customFieldEntityTypes = ["test_case", "bug"] as const;
+export type CustomFieldEntityType = (typeof customFieldEntityTypes)[number];
+
+export const customFieldTypes = [
+  "text",
+  "number",
+  "select",
+  "multi_select",
+  "user",
+  "date",
+] as const;
+export type CustomFieldType = (typeof customFieldTypes)[number];
+
+// number and user fields hold numbers, multi_select fields hold arrays and
+// date fields hold YYYY-MM-DD strings
+export type CustomFieldValue = string | number | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Shape check only; values are validated against the project's field
+// definitions on the server
+export const customFieldValuesSchema: z.ZodType<CustomFieldValues> = z.record(
+  z.union([z.string(), z.number(), z.array(z.string())]),
+);
+
+// Custom Fields (admin-defined fields on test cases or bugs of a project)
+export const customFields = pgTable(
+  "custom_fields",
+  {
+    id: serial("id").primaryKey(),
+    project_id: integer("project_id")
+      .notNull()
+      .references(() => projects.id),
+    entity_type: text("entity_type").notNull(), // test_case, bug
+    key: text("key").notNull(), // stable name the values are stored under
+    name: text("name").notNull(),
+    field_type: text("field_type").notNull(), // text, number, select, multi_select, user, date
+    options: jsonb("options").$type<string[]>(), // choices of select and multi_select fields
+    required: boolean("required").notNull().default(false),
+    position: integer("position").notNull().default(0),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      projectKeyIdx: uniqueIndex("custom_fields_project_key_idx").on(
+        table.project_id,
+        table.entity_type,
+        table.key,
+      ),
+    };
+  },
+);
 
 // Whiteboard Sessions
 export const whiteboards = pgTable("whiteboards", {
   id: serial("id").primaryKey(),
+  project_id: integer("project_id")
+    .notNull()
+    .references(() => projects.id),
   name: text("name").notNull(),
   content: jsonb("content").default([]),
   created_by: integer("created_by")
@@ -183,6 +569,7 @@ export const activityLogs = pgTable("activity_logs", {
   user_id: integer("user_id")
     .notNull()
     .references(() => users.id),
+  project_id: integer("project_id").references(() => projects.id),
   action: text("action").notNull(), // create_test, update_test, delete_test, run_test, etc.
   entity_type: text("entity_type").notNull(), // test_case, test_run, bug, folder, etc.
   entity_id: integer("entity_id").notNull(),
@@ -190,29 +577,198 @@ export const activityLogs = pgTable("activity_logs", {
   created_at: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Role Permissions (a row grants the named permission to the role)
+export const rolePermissions = pgTable(
+  "role_permissions",
+  {
+    id: serial("id").primaryKey(),
+    role: text("role").notNull(),
+    permission: text("permission").notNull(),
+  },
+  (table) => {
+    return {
+      rolePermissionIdx: uniqueIndex("role_permission_idx").on(
+        table.role,
+        table.permission,
+      ),
+    };
+  },
+);
+
+// User Sessions (login metadata for the sessions kept by the session store)
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  user_agent: text("user_agent"),
+  ip_address: text("ip_address"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  expires_at: timestamp("expires_at").notNull(),
+});
+
+// Password History (previous hashes, checked against password reuse)
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  password: text("password").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Password Reset Tokens (only the SHA-256 of the emailed token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  token_hash: text("token_hash").notNull().unique(),
+  expires_at: timestamp("expires_at").notNull(),
+  used_at: timestamp("used_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Personal API Tokens (only the SHA-256 of the token is stored; the prefix
+// is kept to tell tokens apart in the UI)
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  name: text("name").notNull(),
+  token_hash: text("token_hash").notNull().unique(),
+  token_prefix: text("token_prefix").notNull(),
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  expires_at: timestamp("expires_at"),
+  last_used_at: timestamp("last_used_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// User Invitations (only the SHA-256 of the emailed token is stored)
+export const userInvitations = pgTable("user_invitations", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull(),
+  role: text("role").notNull(),
+  token_hash: text("token_hash").notNull().unique(),
+  invited_by: integer("invited_by")
+    .notNull()
+    .references(() => users.id),
+  expires_at: timestamp("expires_at").notNull(),
+  accepted_at: timestamp("accepted_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+// User Identities (links a user to an account at a single sign-on provider)
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: serial("id").primaryKey(),
+    user_id: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    provider: text("provider").notNull(), // e.g. "oidc"
+    subject: text("subject").notNull(), // the provider's stable user id
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => {
+    return {
+      providerSubjectIdx: uniqueIndex("user_identity_provider_subject_idx").on(
+        table.provider,
+        table.subject,
+      ),
+    };
+  },
+);
+
+// Login Throttles (failed login attempts per "user:<username>" or "ip:<address>")
+export const loginThrottles = pgTable("login_throttles", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  last_failure_at: timestamp("last_failure_at").notNull(),
+  locked_until: timestamp("locked_until"),
+});
+
+// System Settings (admin-managed policies, one JSON value per key)
+export const systemSettings = pgTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   last_login: true,
+  totp_secret: true,
+  totp_enabled: true,
+  totp_recovery_codes: true,
+  totp_last_step: true,
+  deleted_at: true,
+});
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  created_at: true,
+});
+export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
+  id: true,
+});
+export const insertProjectSchema = createInsertSchema(projects).omit({
+  id: true,
+  created_at: true,
 });
+export const insertProjectMemberSchema = createInsertSchema(
+  projectMembers,
+).omit({ id: true });
 export const insertFolderSchema = createInsertSchema(folders).omit({
   id: true,
   created_at: true,
+  deleted_at: true,
+  deleted_by: true,
 });
-export const insertTestCaseSchema = createInsertSchema(testCases).omit({
+export const insertTestCaseSchema = createInsertSchema(testCases, {
+  test_data: testDataSchema.nullable().optional(),
+  custom_fields: customFieldValuesSchema.optional(),
+  tags: tagsSchema.optional(),
+}).omit({
   id: true,
   created_at: true,
   updated_at: true,
   last_run: true,
   version: true,
+  deleted_at: true,
+  deleted_by: true,
 });
-export const insertTestStepSchema = createInsertSchema(testSteps).omit({
+export const insertTestStepSchema = createInsertSchema(testSteps, {
+  shared_step_version: z.number().int().positive().nullish(),
+}).omit({
   id: true,
 });
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  created_at: true,
+});
 export const insertTestVersionSchema = createInsertSchema(testVersions).omit({
   id: true,
   created_at: true,
 });
+export const insertSharedStepSchema = createInsertSchema(sharedSteps, {
+  name: z.string().trim().min(1, "Name is required").max(200),
+  steps: sharedStepItemsSchema,
+}).omit({
+  id: true,
+  version: true,
+  created_at: true,
+  updated_at: true,
+});
+export const insertSharedStepVersionSchema = createInsertSchema(
+  sharedStepVersions,
+  { steps: sharedStepItemsSchema },
+).omit({
+  id: true,
+  created_at: true,
+});
 export const insertTestCaseFolderSchema = createInsertSchema(
   testCaseFolders,
 ).omit({ id: true });
@@ -229,7 +785,10 @@ export const insertTestRunResultSchema = createInsertSchema(
   executed_at: true,
   duration: true,
 });
-export const insertBugSchema = createInsertSchema(bugs).omit({
+export const insertBugSchema = createInsertSchema(bugs, {
+  custom_fields: customFieldValuesSchema.optional(),
+  tags: tagsSchema.optional(),
+}).omit({
   id: true,
   reported_at: true,
   updated_at: true,
@@ -248,13 +807,70 @@ export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   created_at: true,
 });
+export const insertRolePermissionSchema = createInsertSchema(
+  rolePermissions,
+).omit({ id: true });
+export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
+  id: true,
+  created_at: true,
+});
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  last_used_at: true,
+  created_at: true,
+});
+export const insertUserInvitationSchema = createInsertSchema(
+  userInvitations,
+).omit({
+  id: true,
+  accepted_at: true,
+  created_at: true,
+});
+export const insertUserIdentitySchema = createInsertSchema(userIdentities).omit(
+  {
+    id: true,
+    created_at: true,
+  },
+);
+export const insertCustomFieldSchema = createInsertSchema(customFields, {
+  entity_type: z.enum(customFieldEntityTypes),
+  key: z
+    .string()
+    .max(50)
+    .regex(
+      /^[a-z][a-z0-9_]*$/,
+      "Key must start with a letter and contain only lowercase letters, digits and underscores",
+    ),
+  name: z.string().min(1, "Name is required").max(100),
+  field_type: z.enum(customFieldTypes),
+  options: z.array(z.string().trim().min(1).max(100)).max(100).nullish(),
+}).omit({
+  id: true,
+  created_at: true,
+});
+export const insertPasswordResetTokenSchema = createInsertSchema(
+  passwordResetTokens,
+).omit({
+  id: true,
+  used_at: true,
+  created_at: true,
+});
 
 // Types for insert
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type InsertTestCase = z.infer<typeof insertTestCaseSchema>;
 export type InsertTestStep = z.infer<typeof insertTestStepSchema>;
 export type InsertTestVersion = z.infer<typeof insertTestVersionSchema>;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type InsertSharedStep = z.infer<typeof insertSharedStepSchema>;
+export type InsertSharedStepVersion = z.infer<
+  typeof insertSharedStepVersionSchema
+>;
 export type InsertTestCaseFolder = z.infer<typeof insertTestCaseFolderSchema>;
 export type InsertTestRun = z.infer<typeof insertTestRunSchema>;
 export type InsertTestRunResult = z.infer<typeof insertTestRunResultSchema>;
@@ -262,13 +878,29 @@ export type InsertBug = z.infer<typeof insertBugSchema>;
 export type InsertWhiteboard = z.infer<typeof insertWhiteboardSchema>;
 export type InsertAITestCase = z.infer<typeof insertAITestCaseSchema>;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
+export type InsertRolePermission = z.infer<typeof insertRolePermissionSchema>;
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type InsertUserIdentity = z.infer<typeof insertUserIdentitySchema>;
+export type InsertUserInvitation = z.infer<typeof insertUserInvitationSchema>;
+export type InsertCustomField = z.infer<typeof insertCustomFieldSchema>;
+export type InsertPasswordResetToken = z.infer<
+  typeof insertPasswordResetTokenSchema
+>;
 
 // Types for select
 export type User = typeof users.$inferSelect;
+export type Team = typeof teams.$inferSelect;
+export type TeamMember = typeof teamMembers.$inferSelect;
+export type Project = typeof projects.$inferSelect;
+export type ProjectMember = typeof projectMembers.$inferSelect;
 export type Folder = typeof folders.$inferSelect;
 export type TestCase = typeof testCases.$inferSelect;
 export type TestStep = typeof testSteps.$inferSelect;
 export type TestVersion = typeof testVersions.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type SharedStep = typeof sharedSteps.$inferSelect;
+export type SharedStepVersion = typeof sharedStepVersions.$inferSelect;
 export type TestCaseFolder = typeof testCaseFolders.$inferSelect;
 export type TestRun = typeof testRuns.$inferSelect;
 export type TestRunResult = typeof testRunResults.$inferSelect;
@@ -276,6 +908,194 @@ export type Bug = typeof bugs.$inferSelect;
 export type Whiteboard = typeof whiteboards.$inferSelect;
 export type AITestCase = typeof aiTestCases.$inferSelect;
 export type ActivityLog = typeof activityLogs.$inferSelect;
+export type RolePermission = typeof rolePermissions.$inferSelect;
+export type UserSession = typeof userSessions.$inferSelect;
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type SystemSetting = typeof systemSettings.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type UserInvitation = typeof userInvitations.$inferSelect;
+export type CustomField = typeof customFields.$inferSelect;
+export type TwoFactorSettings = Pick<
+  User,
+  "totp_secret" | "totp_enabled" | "totp_recovery_codes"
+>;
+
+// Roles and the named permissions that can be granted to them
+export const roles = ["system_owner", "admin", "tester", "viewer"] as const;
+export type Role = (typeof roles)[number];
+
+export const permissions = {
+  "testcase.view": "View Test Cases",
+  "testcase.create": "Create Test Cases",
+  "testcase.edit": "Edit Test Cases",
+  "testcase.delete": "Delete Test Cases",
+  "folder.manage": "Manage Folders",
+  "folder.delete": "Delete Folders",
+  "run.view": "View Test Runs",
+  "run.execute": "Execute Tests",
+  "run.complete": "Complete Test Runs",
+  "bug.view": "View Bugs",
+  "bug.create": "Report Bugs",
+  "bug.edit": "Edit Bugs",
+  "bug.assign": "Assign Bugs",
+  "whiteboard.view": "View Whiteboards",
+  "whiteboard.edit": "Edit Whiteboards",
+  "ai.generate": "Generate AI Test Cases",
+  "report.view": "View Reports",
+  "project.manage": "Manage Projects",
+  "user.manage": "Manage Users",
+  "system.configure": "System Configuration",
+} as const;
+export type Permission = keyof typeof permissions;
+
+export const projectRoles = ["admin", "tester", "viewer"] as const;
+
+export const projectMemberSchema = z.object({
+  user_id: z.number(),
+  role: z.enum(projectRoles),
+});
+
+export const updateRolePermissionSchema = z.object({
+  role: z.enum(roles),
+  permission: z.enum(Object.keys(permissions) as [Permission, ...Permission[]]),
+  granted: z.boolean(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  scopes: z
+    .array(z.enum(Object.keys(permissions) as [Permission, ...Permission[]]))
+    .min(1, "Select at least one scope"),
+  // Omitted or null for a token that never expires
+  expires_in_days: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+// Select fields need a list of options; other field types take none. The
+// key, entity type and field type are fixed once the field exists.
+const hasOptions = (fieldType: string) =>
+  fieldType === "select" || fieldType === "multi_select";
+
+export const createCustomFieldSchema = insertCustomFieldSchema
+  .omit({ project_id: true })
+  .refine((field) => hasOptions(field.field_type) === !!field.options?.length, {
+    message: "Select fields need options; other field types take none",
+    path: ["options"],
+  });
+
+export const updateCustomFieldSchema = insertCustomFieldSchema
+  .pick({ name: true, options: true, required: true, position: true })
+  .partial();
+
+// Fields a PUT may change. The project, author, version and timestamps are
+// kept by the server.
+export const updateFolderSchema = insertFolderSchema
+  .pick({ name: true, description: true, team_id: true })
+  .partial();
+
+export const updateTestCaseSchema = insertTestCaseSchema
+  .pick({
+    title: true,
+    description: true,
+    preconditions: true,
+    test_data: true,
+    status: true,
+    priority: true,
+    type: true,
+    assigned_to: true,
+    assigned_team_id: true,
+    expected_result: true,
+    custom_fields: true,
+    tags: true,
+  })
+  .partial();
+
+export const updateBugSchema = insertBugSchema
+  .pick({
+    title: true,
+    description: true,
+    status: true,
+    severity: true,
+    test_case_id: true,
+    test_run_result_id: true,
+    assigned_to: true,
+    assigned_team_id: true,
+    custom_fields: true,
+    tags: true,
+  })
+  .partial();
+
+export const updateWhiteboardSchema = insertWhiteboardSchema
+  .pick({ name: true, content: true })
+  .partial();
+
+export const createSharedStepSchema = insertSharedStepSchema.omit({
+  project_id: true,
+  created_by: true,
+});
+
+export const updateSharedStepSchema = createSharedStepSchema.partial();
+
+// One operation applied to many test cases by POST /api/testcases/bulk
+const bulkTestCaseIds = z.array(z.number().int()).min(1).max(500);
+
+export const bulkTestCaseOperationSchema = z
+  .discriminatedUnion("action", [
+    z.object({
+      action: z.literal("update"),
+      ids: bulkTestCaseIds,
+      changes: insertTestCaseSchema
+        .pick({ status: true, priority: true, type: true, assigned_to: true })
+        .partial()
+        .refine((changes) => Object.keys(changes).length > 0, {
+          message: "Give at least one field to change",
+        }),
+    }),
+    // Moving takes the cases out of every other folder; copying creates new
+    // test cases in the folder and leaves the originals alone
+    z.object({
+      action: z.enum(["move", "copy"]),
+      ids: bulkTestCaseIds,
+      folder_id: z.number().int(),
+    }),
+    z.object({
+      action: z.literal("tag"),
+      ids: bulkTestCaseIds,
+      add: tagsSchema.default([]),
+      remove: tagsSchema.default([]),
+    }),
+    z.object({ action: z.literal("delete"), ids: bulkTestCaseIds }),
+  ])
+  .superRefine((operation, ctx) => {
+    if (
+      operation.action === "tag" &&
+      operation.add.length === 0 &&
+      operation.remove.length === 0
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Give tags to add or remove",
+      });
+    }
+  });
+
+export type BulkTestCaseOperation = z.infer<typeof bulkTestCaseOperationSchema>;
+
+// Admin-managed system settings
+export const systemSettingsSchema = z.object({
+  require_2fa_roles: z.array(z.enum(roles)),
+  // Hides password login when a single sign-on provider is configured
+  sso_only: z.boolean(),
+  // When off, accounts can only be created by an admin or an invitation
+  allow_registration: z.boolean(),
+  // Trashed test cases and folders are purged for good after this many days
+  trash_retention_days: z.number().int().min(1).max(3650),
+});
+export type SystemSettings = z.infer<typeof systemSettingsSchema>;
+
+export const updateSystemSettingsSchema = systemSettingsSchema.partial();
 
 // Extended schemas for validation
 export const loginSchema = z.object({
@@ -287,12 +1107,79 @@ export const registerSchema = insertUserSchema
   .extend({
     password: z.string().min(6, "Password must be at least 6 characters"),
     confirm_password: z.string(),
+    // Token from an emailed invitation; its email and role take precedence
+    invite_token: z.string().optional(),
   })
   .refine((data) => data.password === data.confirm_password, {
     message: "Passwords do not match",
     path: ["confirm_password"],
   });
 
+// Password strength is checked separately against the configurable policy
+export const changePasswordSchema = z
+  .object({
+    current_password: z.string().min(1, "Current password is required"),
+    new_password: z.string().min(1, "New password is required"),
+    confirm_password: z.string(),
+  })
+  .refine((data) => data.new_password === data.confirm_password, {
+    message: "Passwords do not match",
+    path: ["confirm_password"],
+  });
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, "Code is required"),
+});
+
+export const twoFactorLoginSchema = z
+  .object({
+    code: z.string().optional(),
+    recovery_code: z.string().optional(),
+  })
+  .refine((data) => data.code || data.recovery_code, {
+    message: "Code or recovery code is required",
+  });
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const inviteUserSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(roles),
+});
+
+export const teamMemberSchema = z.object({
+  user_id: z.number().int(),
+});
+
+// Deactivating or deleting a user hands their assigned work to a successor
+export const offboardUserSchema = z.object({
+  successor_id: z.number().int(),
+});
+
+// Fields PUT /api/users/:id accepts. Deactivating through it also needs a
+// successor_id, as on the deactivate route.
+export const updateUserSchema = insertUserSchema
+  .extend({ role: z.enum(roles) })
+  .merge(offboardUserSchema)
+  .partial();
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "Reset token is required"),
+    new_password: z.string().min(1, "New password is required"),
+    confirm_password: z.string(),
+  })
+  .refine((data) => data.new_password === data.confirm_password, {
+    message: "Passwords do not match",
+    path: ["confirm_password"],
+  });
+
 export const testCaseWithStepsSchema = insertTestCaseSchema.extend({
   steps: z.array(insertTestStepSchema.omit({ test_case_id: true })),
 });